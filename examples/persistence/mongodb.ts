@@ -26,6 +26,7 @@
 
 import { MongoClient, Collection, Db } from 'mongodb';
 import { EventStore, SnapshotStore, PersistedEvent, InstanceSnapshot } from '../../src/types';
+import { ConcurrencyConflictError } from '../../src/persistence';
 
 /**
  * MongoDB Event Store
@@ -55,18 +56,33 @@ export class MongoDBEventStore implements EventStore {
     await this.events.createIndex({ machineName: 1 });
     await this.events.createIndex({ persistedAt: 1 });
     await this.events.createIndex({ causedBy: 1 });
+    // Expected-version appends: one event per instance version
+    await this.events.createIndex(
+      { instanceId: 1, version: 1 },
+      { unique: true, partialFilterExpression: { version: { $exists: true } } }
+    );
 
     console.log('✓ MongoDB EventStore connected and indexed');
   }
 
   /**
-   * Append event to store
+   * Append event to store (a stale expectedVersion violates the unique version index)
    */
-  async append(event: PersistedEvent): Promise<void> {
-    await this.events!.insertOne({
-      _id: event.id,
-      ...event,
-    });
+  async append(event: PersistedEvent, expectedVersion?: number): Promise<void> {
+    const version = expectedVersion !== undefined ? expectedVersion + 1 : event.version;
+    try {
+      await this.events!.insertOne({
+        _id: event.id,
+        ...event,
+        ...(version !== undefined ? { version } : {}),
+      });
+    } catch (error: any) {
+      // E11000 duplicate key
+      if (error.code === 11000 && expectedVersion !== undefined) {
+        throw new ConcurrencyConflictError(event.instanceId, expectedVersion);
+      }
+      throw error;
+    }
   }
 
   /**
@@ -107,6 +123,13 @@ export class MongoDBEventStore implements EventStore {
     return docs.map(doc => this.docToEvent(doc));
   }
 
+  /**
+   * Record that an event caused another one
+   */
+  async appendCausalLink(parentId: string, childId: string): Promise<void> {
+    await this.events!.updateOne({ _id: parentId }, { $addToSet: { caused: childId } });
+  }
+
   /**
    * Get all events (for backup/export)
    */
@@ -23,6 +23,7 @@
 
 import { Pool, PoolClient } from 'pg';
 import { EventStore, SnapshotStore, PersistedEvent, InstanceSnapshot } from '../../src/types';
+import { ConcurrencyConflictError } from '../../src/persistence';
 
 /**
  * PostgreSQL Event Store
@@ -43,34 +44,42 @@ export class PostgreSQLEventStore implements EventStore {
   }
 
   /**
-   * Append event to store
+   * Append event to store (a stale expectedVersion violates the unique version index)
    */
-  async append(event: PersistedEvent): Promise<void> {
+  async append(event: PersistedEvent, expectedVersion?: number): Promise<void> {
     const query = `
       INSERT INTO fsm_events (
         id, instance_id, machine_name, component_name,
         event_type, event_payload, state_before, state_after,
         persisted_at, caused_by, caused,
-        source_component_name, target_component_name
+        source_component_name, target_component_name, version
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
     `;
 
-    await this.pool.query(query, [
-      event.id,
-      event.instanceId,
-      event.machineName,
-      event.componentName,
-      event.event.type,
-      JSON.stringify(event.event.payload),
-      event.stateBefore,
-      event.stateAfter,
-      event.persistedAt,
-      event.causedBy || [],
-      event.caused || [],
-      event.sourceComponentName || null,
-      event.targetComponentName || null,
-    ]);
+    try {
+      await this.pool.query(query, [
+        event.id,
+        event.instanceId,
+        event.machineName,
+        event.componentName,
+        event.event.type,
+        JSON.stringify(event.event.payload),
+        event.stateBefore,
+        event.stateAfter,
+        event.persistedAt,
+        event.causedBy || [],
+        event.caused || [],
+        event.sourceComponentName || null,
+        event.targetComponentName || null,
+        expectedVersion !== undefined ? expectedVersion + 1 : event.version ?? null,
+      ]);
+    } catch (error: any) {
+      if (error.code === '23505' && error.constraint === 'idx_events_instance_version' && expectedVersion !== undefined) {
+        throw new ConcurrencyConflictError(event.instanceId, expectedVersion);
+      }
+      throw error;
+    }
   }
 
   /**
@@ -115,6 +124,16 @@ export class PostgreSQLEventStore implements EventStore {
     return result.rows.map(row => this.rowToEvent(row));
   }
 
+  /**
+   * Record that an event caused another one
+   */
+  async appendCausalLink(parentId: string, childId: string): Promise<void> {
+    await this.pool.query(
+      `UPDATE fsm_events SET caused = array_append(caused, $2) WHERE id = $1 AND NOT ($2 = ANY(COALESCE(caused, '{}')))`,
+      [parentId, childId]
+    );
+  }
+
   /**
    * Get all events (for backup/export)
    */
@@ -149,6 +168,7 @@ export class PostgreSQLEventStore implements EventStore {
       caused: row.caused,
       sourceComponentName: row.source_component_name,
       targetComponentName: row.target_component_name,
+      version: row.version ?? undefined,
     };
   }
 
@@ -311,6 +331,7 @@ export async function initializeSchema(connectionString: string): Promise<void>
         caused VARCHAR(50)[],
         source_component_name VARCHAR(100),
         target_component_name VARCHAR(100),
+        version INTEGER,
         created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
       )
     `);
@@ -321,6 +342,9 @@ export async function initializeSchema(connectionString: string): Promise<void>
     await pool.query(`CREATE INDEX IF NOT EXISTS idx_events_machine ON fsm_events(machine_name)`);
     await pool.query(`CREATE INDEX IF NOT EXISTS idx_events_timestamp ON fsm_events(persisted_at)`);
     await pool.query(`CREATE INDEX IF NOT EXISTS idx_events_caused_by ON fsm_events USING GIN(caused_by)`);
+    await pool.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_events_instance_version ON fsm_events(instance_id, version) WHERE version IS NOT NULL`
+    );
 
     // Create snapshots table
     await pool.query(`
@@ -11,6 +11,7 @@ import { WebSocketManager } from './websockets';
 import { monitoringService } from './monitoring';
 import { SupervisorAgent } from './agents';
 import { Component, FSMEvent } from './types';
+import { ContextValidationError } from './schema-validator';
 import * as yaml from 'yaml';
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
@@ -49,7 +50,7 @@ export class APIServer {
     this.app.use((_req, res, next) => {
       res.header('Access-Control-Allow-Origin', '*');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
-      res.header('Access-Control-Allow-Headers', 'Content-Type');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Idempotency-Key');
       next();
     });
 
@@ -111,6 +112,9 @@ export class APIServer {
         const instanceId = runtime.createInstance(machine, context || {});
         return res.json({ success: true, data: { instanceId } });
       } catch (error: any) {
+        if (error instanceof ContextValidationError) {
+          return res.status(400).json({ success: false, error: error.message, validationErrors: error.issues });
+        }
         return res.status(500).json({ success: false, error: error.message });
       }
     });
@@ -120,7 +124,9 @@ export class APIServer {
       try {
         const component = req.params.component as string;
         const instanceId = req.params.instanceId as string;
-        const event: FSMEvent = req.body;
+        // Retried calls carrying the same Idempotency-Key are applied once
+        const idempotencyKey = req.get('Idempotency-Key');
+        const event: FSMEvent = idempotencyKey ? { ...req.body, idempotencyKey } : req.body;
 
         const runtime = this.registry.getRuntime(component);
         if (!runtime) {
@@ -132,6 +138,9 @@ export class APIServer {
 
         return res.json({ success: true, data: { instance } });
       } catch (error: any) {
+        if (error instanceof ContextValidationError) {
+          return res.status(400).json({ success: false, error: error.message, validationErrors: error.issues });
+        }
         return res.status(500).json({ success: false, error: error.message });
       }
     });
@@ -232,6 +241,64 @@ export class APIServer {
       }
     });
 
+    // Schedule an event for instance: body { event: { type, payload }, at | delayMs }
+    this.app.post('/api/:component/instance/:instanceId/scheduled', async (req: Request, res: Response) => {
+      try {
+        const component = req.params.component as string;
+        const instanceId = req.params.instanceId as string;
+        const { event, at, delayMs } = req.body;
+
+        const runtime = this.registry.getRuntime(component);
+        if (!runtime) {
+          return res.status(404).json({ success: false, error: 'Component not found' });
+        }
+        if (!runtime.getInstance(instanceId)) {
+          return res.status(404).json({ success: false, error: 'Instance not found' });
+        }
+        if (!event?.type) {
+          return res.status(400).json({ success: false, error: 'Missing event type' });
+        }
+
+        const scheduled = await runtime.scheduleEvent(
+          instanceId,
+          { payload: {}, timestamp: Date.now(), ...event },
+          { at, delayMs }
+        );
+        return res.status(201).json({ success: true, data: { scheduled } });
+      } catch (error: any) {
+        return res.status(400).json({ success: false, error: error.message });
+      }
+    });
+
+    // List scheduled events of instance
+    this.app.get('/api/:component/instance/:instanceId/scheduled', (req: Request, res: Response) => {
+      const runtime = this.registry.getRuntime(req.params.component as string);
+      if (!runtime) {
+        return res.status(404).json({ success: false, error: 'Component not found' });
+      }
+
+      const scheduled = runtime.getScheduledEvents(req.params.instanceId as string);
+      return res.json({ success: true, data: { scheduled } });
+    });
+
+    // Cancel a scheduled event
+    this.app.delete('/api/:component/instance/:instanceId/scheduled/:scheduleId', async (req: Request, res: Response) => {
+      try {
+        const runtime = this.registry.getRuntime(req.params.component as string);
+        if (!runtime) {
+          return res.status(404).json({ success: false, error: 'Component not found' });
+        }
+
+        const cancelled = await runtime.cancelScheduledEvent(req.params.instanceId as string, req.params.scheduleId as string);
+        if (!cancelled) {
+          return res.status(404).json({ success: false, error: 'Scheduled event not found' });
+        }
+        return res.json({ success: true });
+      } catch (error: any) {
+        return res.status(500).json({ success: false, error: error.message });
+      }
+    });
+
     // Get available transitions for instance
     this.app.get('/api/:component/instance/:instanceId/transitions', (req: Request, res: Response) => {
       try {
@@ -248,7 +315,16 @@ export class APIServer {
           return res.status(404).json({ success: false, error: 'Instance not found' });
         }
 
-        const availableTransitions = runtime.getAvailableTransitions(instanceId);
+        // Optional ?payload=<json> lets event-dependent guards be evaluated
+        let payload: any;
+        if (typeof req.query.payload === 'string') {
+          try {
+            payload = JSON.parse(req.query.payload);
+          } catch {
+            return res.status(400).json({ success: false, error: 'Invalid payload: expected JSON' });
+          }
+        }
+        const availableTransitions = runtime.getAvailableTransitions(instanceId, payload);
         return res.json({ success: true, data: { transitions: availableTransitions } });
       } catch (error: any) {
         return res.status(500).json({ success: false, error: error.message });
@@ -8,10 +8,15 @@ import { Command } from 'commander';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as yaml from 'yaml';
-import { FSMRuntime } from './fsm-runtime';
+import { FSMRuntime, InstanceMigrationError } from './fsm-runtime';
 import { SupervisorAgent } from './agents';
 import { monitoringService } from './monitoring';
-import { Component, FSMEvent } from './types';
+import { Component, FSMEvent, EventStore, SnapshotStore } from './types';
+import { validateGuard } from './guard-expression';
+import { ContextValidationError, checkSchemaDefinition } from './schema-validator';
+import { StateHierarchy } from './state-hierarchy';
+import { ComponentUpcaster } from './upcasting';
+import { validateRetention } from './retention';
 
 /**
  * Resolve file path - supports both local paths and package-installed examples
@@ -26,6 +31,28 @@ function resolveFilePath(filePath: string): string {
   return filePath;
 }
 
+type PersistenceStores = {
+  eventStore: EventStore & { close(): Promise<void> };
+  snapshotStore: SnapshotStore & { close(): Promise<void> };
+};
+
+/**
+ * Open the event/snapshot stores of a --persistence URL (sqlite:<file> or file:<directory>)
+ */
+async function openPersistence(url: string): Promise<{ stores: PersistenceStores; type: 'sqlite' | 'file'; location: string }> {
+  const [scheme, ...rest] = url.split(':');
+  const location = rest.join(':');
+  if (scheme === 'sqlite') {
+    const { createSqliteStores } = await import('./sqlite-persistence');
+    return { stores: await createSqliteStores({ filename: location }), type: 'sqlite', location };
+  }
+  if (scheme === 'file') {
+    const { createFileStores } = await import('./file-persistence');
+    return { stores: await createFileStores({ directory: location }), type: 'file', location };
+  }
+  throw new Error(`Unsupported persistence: ${url} (expected sqlite:<file> or file:<directory>)`);
+}
+
 const program = new Command();
 
 program
@@ -305,13 +332,20 @@ program
           errors.push(`${prefix}: Must have at least one state`);
         }
 
-        // Build state set
-        const stateNames = new Set<string>();
+        // Build state set (top-level duplicates here, nested states checked with the hierarchy)
+        const topLevelNames = new Set<string>();
         machine.states?.forEach(state => {
-          if (stateNames.has(state.name)) {
+          if (topLevelNames.has(state.name)) {
             errors.push(`${prefix}: Duplicate state name "${state.name}"`);
           }
-          stateNames.add(state.name);
+          topLevelNames.add(state.name);
+        });
+        const hierarchy = new StateHierarchy(machine);
+        const stateNames = new Set<string>(hierarchy.getAllStates().map(state => state.name));
+
+        // Check composite states (substates, initialSubstate)
+        StateHierarchy.validate(machine).forEach(problem => {
+          errors.push(`${prefix}: ${problem}`);
         });
 
         // Check initialState exists
@@ -319,11 +353,23 @@ program
           errors.push(`${prefix}: initialState "${machine.initialState}" does not exist in states`);
         }
 
+        // Check contextSchema definition
+        if (machine.contextSchema) {
+          checkSchemaDefinition(machine.contextSchema).forEach(problem => {
+            errors.push(`${prefix}: invalid contextSchema: ${problem}`);
+          });
+        }
+
+        // Check errorState exists
+        if (machine.errorState && !stateNames.has(machine.errorState)) {
+          errors.push(`${prefix}: errorState "${machine.errorState}" does not exist in states`);
+        }
+
         // Validate transitions
         const statesWithOutgoing = new Set<string>();
         const terminalStates = new Set<string>();
 
-        machine.states?.forEach(state => {
+        hierarchy.getAllStates().forEach(state => {
           if (state.type === 'final' || state.type === 'error') {
             terminalStates.add(state.name);
           }
@@ -359,15 +405,45 @@ program
             }
           }
 
-          // Check timeout transitions
-          if (transition.type === 'timeout' && !transition.timeoutMs) {
-            errors.push(`${tPrefix}: timeout transition must have timeoutMs value`);
+          // Check timeout transitions (static timeoutMs or computed from instance data)
+          if (transition.type === 'timeout') {
+            const timeoutOptions = (['timeoutMs', 'timeoutExpr', 'timeoutFromContext', 'deadlineAt'] as const)
+              .filter(option => transition[option] !== undefined && transition[option] !== 0);
+            if (timeoutOptions.length === 0) {
+              errors.push(`${tPrefix}: timeout transition must have timeoutMs, timeoutExpr, timeoutFromContext or deadlineAt`);
+            } else if (timeoutOptions.length > 1) {
+              errors.push(`${tPrefix}: timeout transition must have only one of ${timeoutOptions.join(', ')}`);
+            }
+            for (const option of ['timeoutExpr', 'deadlineAt'] as const) {
+              if (transition[option] !== undefined) {
+                validateGuard(String(transition[option])).forEach(problem => {
+                  errors.push(`${tPrefix}: invalid ${option}: ${problem}`);
+                });
+              }
+            }
+          }
+
+          // Check payload schema
+          if (transition.payloadSchema) {
+            checkSchemaDefinition(transition.payloadSchema).forEach(problem => {
+              errors.push(`${tPrefix}: invalid payloadSchema: ${problem}`);
+            });
+          }
+
+          // Check guard expressions
+          if (transition.guard !== undefined) {
+            validateGuard(String(transition.guard)).forEach(problem => {
+              errors.push(`${tPrefix}: invalid guard: ${problem}`);
+            });
           }
         });
 
-        // Check for terminal states (states with no outgoing transitions)
-        machine.states?.forEach(state => {
-          if (!statesWithOutgoing.has(state.name) && state.type !== 'final' && state.type !== 'error') {
+        // Check for terminal states (leaf states with no outgoing transitions, own or inherited;
+        // composite, parallel and history pseudo-states are never terminal)
+        hierarchy.getAllStates().forEach(state => {
+          const inheritsOutgoing = hierarchy.getPath(state.name).some(name => statesWithOutgoing.has(name));
+          const isLeaf = !hierarchy.isComposite(state.name) && !hierarchy.isParallel(state.name) && !hierarchy.isHistory(state.name);
+          if (isLeaf && !inheritsOutgoing && state.type !== 'final' && state.type !== 'error') {
             terminalStates.add(state.name);
           }
         });
@@ -383,6 +459,16 @@ program
         errors.push(`entryMachine "${component.entryMachine}" does not exist in stateMachines`);
       }
 
+      // Check migrations (chain of versions up to the component version)
+      ComponentUpcaster.validate(component).forEach(problem => {
+        errors.push(problem);
+      });
+
+      // Check retention policies
+      validateRetention(component).forEach(problem => {
+        errors.push(problem);
+      });
+
       // Report results
       console.log('📊 Validation Results\n');
 
@@ -392,7 +478,7 @@ program
         let totalStates = 0;
         let totalTransitions = 0;
         component.stateMachines.forEach(m => {
-          totalStates += m.states?.length || 0;
+          totalStates += new StateHierarchy(m).getAllStates().length;
           totalTransitions += m.transitions?.length || 0;
         });
         console.log(`   ${totalStates} state(s) total`);
@@ -480,6 +566,7 @@ program
   .command('simulate <file> <machine>')
   .description('Simulate FSM execution path')
   .option('-e, --events <json>', 'Events to simulate as JSON array')
+  .option('-c, --context <json>', 'Initial context as JSON (used by guards)')
   .action(async (file: string, machine: string, options: any) => {
     try {
       const content = await fs.readFile(file, 'utf-8');
@@ -487,7 +574,8 @@ program
       const runtime = new FSMRuntime(component);
 
       const events: FSMEvent[] = options.events ? JSON.parse(options.events) : [];
-      const result = runtime.simulatePath(machine, events);
+      const context = options.context ? JSON.parse(options.context) : {};
+      const result = runtime.simulatePath(machine, events, context);
 
       if (result.success) {
         console.log(`✓ Simulation successful`);
@@ -615,6 +703,237 @@ program
       process.exit(1);
     }
   });
+/**
+ * Inspect a JSONL file event store
+ */
+program
+  .command('inspect-events <directory>')
+  .description('Inspect a JSONL file event store (segments, instances, events)')
+  .option('-i, --instance <id>', 'Show the events of an instance')
+  .option('--json', 'Print events as JSON lines')
+  .action(async (directory: string, options: any) => {
+    try {
+      await fs.access(directory);
+      const { FileEventStore, FileSnapshotStore } = await import('./file-persistence');
+      // Read-only: safe while a runtime is appending to the same directory
+      const eventStore = new FileEventStore({ directory, readOnly: true });
+      const snapshotStore = new FileSnapshotStore({ directory, readOnly: true });
+
+      const events = options.instance
+        ? await eventStore.getEventsForInstance(options.instance)
+        : await eventStore.getAllEvents();
+
+      if (options.json) {
+        events.forEach(event => console.log(JSON.stringify(event)));
+        await eventStore.close();
+        return;
+      }
+
+      if (options.instance) {
+        if (events.length === 0) {
+          console.error(`✗ No events for instance ${options.instance}`);
+          process.exit(1);
+        }
+        console.log(`Instance ${options.instance} (${events[0].machineName}, ${events.length} events)`);
+        for (const event of events) {
+          const version = event.version !== undefined ? `v${event.version}` : '-';
+          console.log(`  ${version.padEnd(5)} ${new Date(event.persistedAt).toISOString()}  ${event.event.type}: ${event.stateBefore || '∅'} → ${event.stateAfter}`);
+        }
+        await eventStore.close();
+        return;
+      }
+
+      const segments = await eventStore.getSegments();
+      console.log(`✓ Event store: ${directory}`);
+      console.log(`  Segments:`);
+      segments.forEach(segment => {
+        console.log(`  - ${segment.file} (${segment.bytes} bytes, ${segment.events} events)`);
+      });
+      if (eventStore.recoveredBytes > 0) {
+        console.log(`  ⚠ ${eventStore.recoveredBytes} bytes of incomplete tail (discarded on next open for writing)`);
+      }
+
+      const lastByInstance = new Map<string, { machineName: string; state: string; count: number }>();
+      for (const event of events) {
+        const entry = lastByInstance.get(event.instanceId);
+        lastByInstance.set(event.instanceId, {
+          machineName: event.machineName,
+          state: event.stateAfter,
+          count: (entry?.count || 0) + 1,
+        });
+      }
+      const snapshots = await snapshotStore.getAllSnapshots();
+      console.log(`  Instances: ${lastByInstance.size} (${snapshots.length} snapshots)`);
+      lastByInstance.forEach((entry, instanceId) => {
+        console.log(`  - ${instanceId} ${entry.machineName} → ${entry.state} (${entry.count} events)`);
+      });
+      await eventStore.close();
+    } catch (error: any) {
+      console.error(`✗ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Apply the retention policies of components to a persisted event store
+ */
+program
+  .command('compact <files...>')
+  .description('Compact the persisted history of components according to their retention policies')
+  .requiredOption('--persistence <url>', 'Event and snapshot stores (sqlite:./data.db, file:./data)')
+  .option('--dry-run', 'List the events that would be compacted, without changing anything')
+  .option('--json', 'Print the reports as JSON')
+  .action(async (files: string[], options: any) => {
+    try {
+      const { stores } = await openPersistence(options.persistence);
+      const reports = [];
+      try {
+        for (const file of files) {
+          const component = yaml.parse(await fs.readFile(resolveFilePath(file), 'utf-8')) as Component;
+          const runtime = new FSMRuntime(component, {
+            eventSourcing: true,
+            snapshots: true,
+            eventStore: stores.eventStore,
+            snapshotStore: stores.snapshotStore,
+          });
+          try {
+            reports.push(await runtime.compactHistory({ dryRun: Boolean(options.dryRun) }));
+          } finally {
+            runtime.dispose();
+          }
+        }
+      } finally {
+        await stores.eventStore.close();
+        await stores.snapshotStore.close();
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(reports, null, 2));
+        return;
+      }
+      for (const report of reports) {
+        if (report.skipped) {
+          console.log(`- ${report.componentName}: skipped (${report.skipped})`);
+          continue;
+        }
+        const verb = report.dryRun ? 'Would compact' : 'Compacted';
+        console.log(`✓ ${report.componentName}: ${verb} ${report.events} event(s) of ${report.instances.length} instance(s)`);
+        report.instances.forEach(compacted => {
+          const archive = compacted.archive ? ` → ${compacted.archive}` : '';
+          console.log(`  - ${compacted.instanceId} ${compacted.machineName}: ${compacted.events} event(s)${archive}`);
+        });
+        report.archives.forEach(archive => console.log(`  Archive: ${archive}`));
+      }
+    } catch (error: any) {
+      console.error(`✗ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Migrate the live instances of a running server to a new definition
+ */
+program
+  .command('migrate <file>')
+  .description('Move the live instances of a served component to a new version of its definition')
+  .option('-u, --url <url>', 'Server URL', 'http://localhost:3000')
+  .option('-m, --mapping <file>', 'State mapping from the running version (YAML or JSON, default: the migrations of the new definition)')
+  .option('--dry-run', 'List the instances that would be migrated and the unmappable ones, without changing anything')
+  .action(async (file: string, options: any) => {
+    try {
+      const component = yaml.parse(await fs.readFile(resolveFilePath(file), 'utf-8')) as Component;
+      const mapping = options.mapping ? yaml.parse(await fs.readFile(options.mapping, 'utf-8')) : undefined;
+
+      const response = await fetch(`${options.url}/api/components/${encodeURIComponent(component.name)}/migrate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ component, mapping, dryRun: Boolean(options.dryRun) }),
+      });
+      const body: any = await response.json();
+      if (!body.report) {
+        throw new Error(body.error || `HTTP ${response.status}`);
+      }
+
+      const report = body.report;
+      const blocked = report.unmappable.length > 0;
+      const verb = options.dryRun ? 'Would migrate' : (blocked ? 'Mappable' : 'Migrated');
+      console.log(`${blocked ? '✗' : '✓'} ${report.componentName} ${report.fromVersion} → ${report.toVersion}`);
+      console.log(`  ${verb}: ${report.migrated.length} instance(s)`);
+      report.migrated.forEach((m: any) => {
+        console.log(`  - ${m.instanceId} ${m.fromMachine}.${m.fromState} → ${m.machineName}.${m.currentState}`);
+      });
+      if (report.unmappable.length > 0) {
+        console.log(`  Unmappable: ${report.unmappable.length} instance(s)`);
+        report.unmappable.forEach((u: any) => {
+          console.log(`  - ${u.instanceId} ${u.machineName}.${u.currentState}: ${u.reason}`);
+        });
+      }
+      if (blocked) {
+        console.error(options.dryRun ? '✗ The migration would be refused' : '✗ Nothing was migrated');
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`✗ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Inspect, replay or discard the dead letters of a served component
+ */
+program
+  .command('dead-letters <component>')
+  .description('List the cross-component messages a served component failed to handle, and replay or discard them')
+  .option('-u, --url <url>', 'Server URL', 'http://localhost:3000')
+  .option('--replay <id>', 'Deliver a dead letter again')
+  .option('--discard <id>', 'Drop a dead letter')
+  .option('--json', 'Print the dead letters as JSON')
+  .action(async (componentName: string, options: any) => {
+    try {
+      const base = `${options.url}/api/components/${encodeURIComponent(componentName)}/dead-letters`;
+      const request = async (url: string, method: string = 'GET') => {
+        const response = await fetch(url, { method });
+        return { status: response.status, body: await response.json() as any };
+      };
+
+      if (options.replay) {
+        const { status, body } = await request(`${base}/${encodeURIComponent(options.replay)}/replay`, 'POST');
+        if (!body.delivered) {
+          throw new Error(body.error || `HTTP ${status}`);
+        }
+        console.log(`✓ Replayed ${options.replay}`);
+        return;
+      }
+
+      if (options.discard) {
+        const { status, body } = await request(`${base}/${encodeURIComponent(options.discard)}`, 'DELETE');
+        if (!body.discarded) {
+          throw new Error(body.error || `HTTP ${status}`);
+        }
+        console.log(`✓ Discarded ${options.discard}`);
+        return;
+      }
+
+      const { status, body } = await request(base);
+      if (!body.deadLetters) {
+        throw new Error(body.error || `HTTP ${status}`);
+      }
+      if (options.json) {
+        console.log(JSON.stringify(body.deadLetters, null, 2));
+        return;
+      }
+      console.log(`${componentName}: ${body.deadLetters.length} dead letter(s)`);
+      body.deadLetters.forEach((d: any) => {
+        const target = `${d.message.targetMachine}${d.message.targetState && d.message.targetState !== '*' ? `.${d.message.targetState}` : ''}`;
+        console.log(`  - ${d.id} ${d.message.event.type} → ${target} from ${d.message.sourceComponent}`);
+        console.log(`    ${d.attempts} attempt(s), last at ${new Date(d.deadLetteredAt).toISOString()}: ${d.reason}`);
+      });
+    } catch (error: any) {
+      console.error(`✗ Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
 /**
  * Serve FSM with runtime, API, and dashboard
  */
@@ -622,15 +941,29 @@ program
   .command('serve <files...>')
   .description('Start runtime with API server and dashboard (supports multiple YAML files)')
   .option('-p, --port <port>', 'Port number', '3000')
-  .option('-b, --broker <url>', 'Message broker URL (memory, redis://..., amqp://...)', process.env.XCOMPONENT_BROKER_URL || 'memory')
+  .option('-b, --broker <url>', 'Message broker URL (memory, redis://..., amqp://..., kafka://..., nats://...)', process.env.XCOMPONENT_BROKER_URL || 'memory')
   .option('--external-api', 'Enable external API for sending events via message broker')
   .option('--publish-events', 'Publish FSM events to message broker for external subscribers')
+  .option('--persistence <url>', 'Persist events and snapshots, restored on restart (sqlite:./data.db, file:./data)')
+  .option('--compaction-interval <ms>', 'Apply the retention policies of the components periodically (requires --persistence)')
   .action(async (files: string[], options: any) => {
     try {
       // Import ComponentRegistry and MessageBroker
       const { ComponentRegistry } = await import('./component-registry');
       const { createMessageBroker } = await import('./message-broker');
       const { ExternalBrokerAPI } = await import('./external-broker-api');
+      const { StoreHistoryQueries, parseTimestamp, toInstanceSummary } = await import('./history-queries');
+
+      // Open the event/snapshot stores shared by all components
+      let stores: PersistenceStores | null = null;
+      let persistenceType: 'sqlite' | 'file' | null = null;
+      if (options.persistence) {
+        const persistence = await openPersistence(options.persistence);
+        stores = persistence.stores;
+        persistenceType = persistence.type;
+        console.log(`💾 Persistence: ${persistence.type === 'sqlite' ? 'SQLite' : 'JSONL files'} (${persistence.location})`);
+      }
+      const storeHistory = stores ? new StoreHistoryQueries(stores.eventStore, stores.snapshotStore) : null;
 
       // Create message broker based on option
       const brokerUrl = options.broker;
@@ -684,7 +1017,21 @@ program
         const component = yaml.parse(content) as Component;
 
         // Create runtime for this component
-        const runtime = new FSMRuntime(component);
+        const runtime = new FSMRuntime(component, stores ? {
+          eventSourcing: true,
+          snapshots: true,
+          eventStore: stores.eventStore,
+          snapshotStore: stores.snapshotStore,
+        } : undefined, {
+          compactionIntervalMs: stores && options.compactionInterval ? parseInt(options.compactionInterval, 10) : undefined,
+        });
+
+        // Restore before registration so the persisted entry point is kept
+        if (stores) {
+          const report = await runtime.restore();
+          console.log(`💾 [${component.name}] Restored ${report.restored} instance(s), replayed ${report.replayedEvents} event(s)` +
+            (report.failed > 0 ? `, ${report.failed} failed` : ''));
+        }
         registry.registerComponent(component, runtime);
 
         console.log(`\n📦 Component: ${component.name}`);
@@ -779,10 +1126,68 @@ program
           const instanceId = runtime.createInstance(machineName, context || {});
           res.json({ instanceId, componentName: req.params.componentName });
         } catch (error: any) {
+          res.status(400).json({
+            error: error.message,
+            validationErrors: error instanceof ContextValidationError ? error.issues : undefined,
+          });
+        }
+      });
+
+      // Move the live instances of a component to a new version of its definition
+      app.post('/api/components/:componentName/migrate', async (req: any, res: any) => {
+        try {
+          const runtime = registry.getRuntime(req.params.componentName);
+          if (!runtime) {
+            return res.status(404).json({ error: 'Component not found' });
+          }
+          const { component, mapping, dryRun } = req.body;
+          if (!component) {
+            return res.status(400).json({ error: 'component is required' });
+          }
+          const target: Component = typeof component === 'string' ? yaml.parse(component) : component;
+          const report = await runtime.migrateInstances(target, mapping, { dryRun: Boolean(dryRun) });
+          res.json({ report });
+        } catch (error: any) {
+          if (error instanceof InstanceMigrationError) {
+            return res.status(409).json({ error: error.message, report: error.report });
+          }
           res.status(400).json({ error: error.message });
         }
       });
 
+      // Cross-component messages a component failed to handle within its retry policy
+      app.get('/api/components/:componentName/dead-letters', async (req: any, res: any) => {
+        if (!registry.hasComponent(req.params.componentName)) {
+          return res.status(404).json({ error: 'Component not found' });
+        }
+        res.json({ deadLetters: await registry.listDeadLetters(req.params.componentName) });
+      });
+
+      app.post('/api/components/:componentName/dead-letters/:id/replay', async (req: any, res: any) => {
+        try {
+          const deadLetter = await registry.getDeadLetter(req.params.id);
+          if (!deadLetter || deadLetter.componentName !== req.params.componentName) {
+            return res.status(404).json({ error: 'Dead letter not found' });
+          }
+          const failed = await registry.replayDeadLetter(req.params.id);
+          if (failed) {
+            return res.status(409).json({ delivered: false, error: failed.reason, deadLetter: failed });
+          }
+          res.json({ delivered: true });
+        } catch (error: any) {
+          res.status(500).json({ error: error.message });
+        }
+      });
+
+      app.delete('/api/components/:componentName/dead-letters/:id', async (req: any, res: any) => {
+        const deadLetter = await registry.getDeadLetter(req.params.id);
+        if (!deadLetter || deadLetter.componentName !== req.params.componentName) {
+          return res.status(404).json({ error: 'Dead letter not found' });
+        }
+        await registry.discardDeadLetter(req.params.id);
+        res.json({ discarded: true });
+      });
+
       // Get all instances across all components
       app.get('/api/instances', (_req: any, res: any) => {
         const allInstances: any[] = [];
@@ -814,19 +1219,28 @@ program
         res.status(404).json({ error: 'Instance not found' });
       });
 
+      // Retried calls carrying the same Idempotency-Key are applied once
+      const eventFromRequest = (req: any): FSMEvent => {
+        const idempotencyKey = req.get('Idempotency-Key');
+        return idempotencyKey ? { ...req.body, idempotencyKey } : req.body;
+      };
+
       // Send event to instance (auto-detects component)
       app.post('/api/instances/:id/events', async (req: any, res: any) => {
         try {
           for (const componentName of registry.getComponentNames()) {
             const runtime = registry.getRuntime(componentName);
             if (runtime && runtime.getInstance(req.params.id)) {
-              await runtime.sendEvent(req.params.id, req.body);
+              await runtime.sendEvent(req.params.id, eventFromRequest(req));
               return res.json({ success: true });
             }
           }
           res.status(404).json({ error: 'Instance not found' });
         } catch (error: any) {
-          res.status(400).json({ error: error.message });
+          res.status(400).json({
+            error: error.message,
+            validationErrors: error instanceof ContextValidationError ? error.issues : undefined,
+          });
         }
       });
 
@@ -840,10 +1254,13 @@ program
           if (!runtime.getInstance(req.params.id)) {
             return res.status(404).json({ error: 'Instance not found' });
           }
-          await runtime.sendEvent(req.params.id, req.body);
+          await runtime.sendEvent(req.params.id, eventFromRequest(req));
           return res.json({ success: true });
         } catch (error: any) {
-          res.status(400).json({ error: error.message });
+          res.status(400).json({
+            error: error.message,
+            validationErrors: error instanceof ContextValidationError ? error.issues : undefined,
+          });
         }
       });
 
@@ -857,12 +1274,110 @@ program
               return res.json({ history });
             }
           }
+          // Instances that are no longer in memory (terminated, previous runs)
+          if (storeHistory) {
+            const history = await storeHistory.getInstanceHistory(req.params.id);
+            if (history.length > 0) {
+              return res.json({ history });
+            }
+          }
           res.status(404).json({ error: 'Instance not found' });
         } catch (error: any) {
           res.status(400).json({ error: error.message });
         }
       });
 
+      // Health check (same shape as the dashboard server)
+      app.get('/health', (_req: any, res: any) => {
+        res.json({
+          status: 'ok',
+          mode: 'standalone',
+          database: !!storeHistory,
+          databaseType: persistenceType,
+          components: registry.getComponentNames(),
+        });
+      });
+
+      // History API (persisted instances, including terminated ones)
+      const noDatabase = 'No database configured (use --persistence sqlite:./data.db)';
+
+      // ?at=<epoch ms or ISO date> shows instances as they were at that time
+      app.get('/api/history/instances', async (req: any, res: any) => {
+        if (!storeHistory) {
+          return res.json({ instances: [], message: noDatabase });
+        }
+        let at: number | undefined;
+        try {
+          at = parseTimestamp(req.query.at);
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
+        try {
+          const { machine, state, q } = req.query;
+          const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+          const runtime = at !== undefined && machine && state ? registry.getComponentNames()
+            .map(name => registry.getRuntime(name))
+            .find(r => r?.getComponent().stateMachines.some(m => m.name === machine)) : undefined;
+          if (!runtime) {
+            const instances = await storeHistory.searchInstances({ machine, state, q, limit, at });
+            return res.json({ instances });
+          }
+
+          // Population of a state: rebuilt by the runtime (substates of a composite state count)
+          const text = (q as string | undefined)?.toLowerCase();
+          const eventCounts = new Map<string, number>();
+          for (const event of await runtime.getAllPersistedEvents()) {
+            if (event.persistedAt <= at!) {
+              eventCounts.set(event.instanceId, (eventCounts.get(event.instanceId) || 0) + 1);
+            }
+          }
+          const instances = (await runtime.getInstancesInStateAt(machine, state, at!))
+            .map(instance => toInstanceSummary(instance, eventCounts.get(instance.id)))
+            .filter(summary => !text || summary.instance_id.toLowerCase().includes(text) ||
+              JSON.stringify(summary.context).toLowerCase().includes(text))
+            .sort((a, b) => (b.updated_at || '').localeCompare(a.updated_at || ''))
+            .slice(0, limit);
+          res.json({ instances });
+        } catch (error: any) {
+          res.status(500).json({ error: error.message });
+        }
+      });
+
+      app.get('/api/history/instances/:instanceId/events', async (req: any, res: any) => {
+        if (!storeHistory) {
+          return res.json({ events: [], message: noDatabase });
+        }
+        let at: number | undefined;
+        try {
+          at = parseTimestamp(req.query.at);
+        } catch (error: any) {
+          return res.status(400).json({ error: error.message });
+        }
+        try {
+          const { snapshot, events } = await storeHistory.getInstanceEventsWithSnapshot(req.params.instanceId, at);
+          if (at === undefined || events.length === 0) {
+            return res.json({ snapshot, events });
+          }
+          // State and data at that time, rebuilt by the runtime of the instance's component
+          const runtime = registry.getRuntime(events[0].componentName);
+          const instance = runtime && await runtime.getInstanceAt(req.params.instanceId, at);
+          res.json({ snapshot: instance ? toInstanceSummary(instance, events.length) : snapshot, events });
+        } catch (error: any) {
+          res.status(500).json({ error: error.message });
+        }
+      });
+
+      app.get('/api/history/correlated/:instanceId', async (req: any, res: any) => {
+        if (!storeHistory) {
+          return res.json({ events: [], correlationKey: null });
+        }
+        try {
+          res.json(await storeHistory.getCorrelatedEvents(req.params.instanceId));
+        } catch (error: any) {
+          res.status(500).json({ error: error.message });
+        }
+      });
+
       // Mermaid diagram endpoint
       // Supports optional ?currentState=stateName to highlight the current state
       app.get('/api/components/:componentName/diagrams/:machineName', (req: any, res: any) => {
@@ -949,6 +1464,10 @@ program
           await externalAPI.dispose();
         }
         await registry.dispose();
+        if (stores) {
+          await stores.eventStore.close();
+          await stores.snapshotStore.close();
+        }
         process.exit(0);
       });
       
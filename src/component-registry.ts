@@ -10,12 +10,42 @@
  * - Broadcast across components
  * - Property-based routing across component boundaries
  * - Instance lookup across all components
+ * - Retries and dead letters for the messages a component fails to handle
+ * - Request/reply to components in any process (correlation ID, timeout)
+ * - Sharding of instances across the replicas of a component
+ * - Leader election of the runtime hosting the entry point of singleton components
  */
 
 import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
 import { FSMRuntime } from './fsm-runtime';
-import { Component, FSMEvent, FSMInstance } from './types';
-import { MessageBroker, InMemoryMessageBroker, CrossComponentMessage, PropertyFilter } from './message-broker';
+import {
+  Component,
+  ComponentReply,
+  CreateInstanceOptions,
+  DeadLetter,
+  DeadLetterStore,
+  FSMEvent,
+  FSMInstance,
+  LeaseStore,
+  RequestedInstance,
+  RequestOptions,
+  RestoreReport,
+  RetryPolicy,
+  ShardingConfig,
+} from './types';
+import {
+  MessageBroker,
+  InMemoryMessageBroker,
+  NatsMessageBroker,
+  CrossComponentMessage,
+  PropertyFilter,
+  PublishOptions,
+} from './message-broker';
+import { InMemoryDeadLetterStore, deadLetterChannel, resolveRetryPolicy, retryDelay } from './dead-letters';
+import { BrokerRequester, RequestEnvelope, isRequest, sendReply } from './request-reply';
+import { ShardCoordinator, ShardRebalance, messageShard } from './sharding';
+import { LeaderElection, LeadershipChange } from './leader-election';
 
 export interface ComponentInfo {
   name: string;
@@ -25,6 +55,31 @@ export interface ComponentInfo {
   instanceCount: number;
 }
 
+export interface ComponentRegistryOptions {
+  /** Redelivery of the messages a component fails to handle (components can override it with `retry`) */
+  retry?: RetryPolicy;
+  /** Where messages are kept once their retries are exhausted (defaults to InMemoryDeadLetterStore) */
+  deadLetterStore?: DeadLetterStore;
+  /** ID of this replica in the shard ownership and leader elections (default: a new UUID) */
+  replicaId?: string;
+  /** Silence after which another replica is dropped from the shard ownership (default: DEFAULT_MEMBER_TIMEOUT_MS) */
+  memberTimeoutMs?: number;
+  /** Sharding of components registered in other processes, to key the messages sent to them by shard */
+  sharding?: Record<string, ShardingConfig>;
+  /** Leases electing the one replica hosting the entry point of each singleton component (default: every replica hosts one) */
+  leaseStore?: LeaseStore;
+  /** Lease duration of those elections (default: DEFAULT_LEASE_TTL_MS) */
+  leaseTtlMs?: number;
+}
+
+/**
+ * Failure of a cross-component message on one instance, or of the whole message when it cannot be routed
+ */
+interface DeliveryFailure {
+  instanceId?: string;
+  error: string;
+}
+
 /**
  * ComponentRegistry manages multiple components and enables cross-component communication
  */
@@ -32,17 +87,40 @@ export class ComponentRegistry extends EventEmitter {
   private runtimes: Map<string, FSMRuntime>;
   private components: Map<string, Component>;
   private broker: MessageBroker;
+  private retryPolicy?: RetryPolicy;
+  private deadLetterStore: DeadLetterStore;
+  private requester?: BrokerRequester;
+  private replicaId: string;
+  private memberTimeoutMs?: number;
+  private remoteSharding: Record<string, ShardingConfig>;
+  private shards: Map<string, ShardCoordinator> = new Map();
+  // Rebalances of each component, handled one after the other
+  private rebalances: Map<string, Promise<void>> = new Map();
+  private leaseStore?: LeaseStore;
+  private leaseTtlMs?: number;
+  private elections: Map<string, LeaderElection> = new Map();
+  // Leadership changes of each component, handled one after the other
+  private leaderships: Map<string, Promise<void>> = new Map();
 
   /**
    * Create a ComponentRegistry
    *
    * @param broker Message broker for cross-component communication (defaults to InMemoryMessageBroker)
+   * @param options Retry policy and dead letter store of cross-component messages, replica ID for sharding,
+   * lease store for the leader election of singleton entry points
    */
-  constructor(broker?: MessageBroker) {
+  constructor(broker?: MessageBroker, options: ComponentRegistryOptions = {}) {
     super();
     this.runtimes = new Map();
     this.components = new Map();
     this.broker = broker || new InMemoryMessageBroker();
+    this.retryPolicy = options.retry;
+    this.deadLetterStore = options.deadLetterStore || new InMemoryDeadLetterStore();
+    this.replicaId = options.replicaId || uuidv4();
+    this.memberTimeoutMs = options.memberTimeoutMs;
+    this.remoteSharding = options.sharding || {};
+    this.leaseStore = options.leaseStore;
+    this.leaseTtlMs = options.leaseTtlMs;
   }
 
   /**
@@ -63,9 +141,31 @@ export class ComponentRegistry extends EventEmitter {
       throw new Error(`Component ${component.name} is already registered`);
     }
 
+    // Validated before registering (invalid shard counts throw)
+    const shards = component.sharding
+      ? new ShardCoordinator(component.name, component.sharding, { replicaId: this.replicaId, memberTimeoutMs: this.memberTimeoutMs })
+      : undefined;
+
     this.runtimes.set(component.name, runtime);
     this.components.set(component.name, component);
 
+    if (shards) {
+      this.shards.set(component.name, shards);
+      // A release must not overlap the restore of a following rebalance
+      shards.on('rebalance', (rebalance: ShardRebalance) => {
+        const handled = (this.rebalances.get(component.name) ?? Promise.resolve())
+          .then(() => this.handleRebalance(component.name, rebalance))
+          .catch(error => {
+            console.error(`Error rebalancing the shards of component ${component.name}:`, error);
+            this.emit('shard_rebalance_error', {
+              componentName: component.name,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          });
+        this.rebalances.set(component.name, handled);
+      });
+    }
+
     // Set registry reference in runtime for cross-component communication
     runtime.setRegistry(this);
 
@@ -86,51 +186,20 @@ export class ComponentRegistry extends EventEmitter {
       this.emit('instance_error', { ...data, componentName: component.name });
     });
 
-    // Subscribe to messages for this component via message broker
-    this.broker.subscribe(component.name, async (message: CrossComponentMessage) => {
-      try {
-        // Get instances of the target machine
-        let instances: FSMInstance[];
-
-        if (!message.targetState || message.targetState === '*') {
-          // Broadcast to all instances of this machine (any state)
-          instances = runtime.getAllInstances().filter(
-            inst => inst.machineName === message.targetMachine
-          );
-        } else {
-          // Filter by specific state
-          instances = runtime.getAllInstances().filter(
-            inst =>
-              inst.machineName === message.targetMachine &&
-              inst.currentState === message.targetState
-          );
-        }
+    // Live migrations replace the definition of the component
+    runtime.on('definition_migrated', (data: any) => {
+      this.components.set(component.name, data.component);
+      this.emit('definition_migrated', { ...data, componentName: component.name });
+    });
 
-        // Apply property filters if specified
-        if (message.filters && message.filters.length > 0) {
-          instances = instances.filter(inst => this.matchesFilters(inst, message.filters!));
-        }
+    // Replicas of a sharded component each read every message (the holder of the instance handles it)
+    if (shards && this.broker instanceof NatsMessageBroker) {
+      this.broker.useReplicaConsumer(component.name, this.replicaId);
+    }
 
-        // Send event to each matching instance
-        for (const instance of instances) {
-          try {
-            await runtime.sendEvent(instance.id, message.event);
-          } catch (error) {
-            this.emit('broadcast_error', {
-              componentName: component.name,
-              instanceId: instance.id,
-              error: error instanceof Error ? error.message : String(error),
-            });
-          }
-        }
-      } catch (error) {
-        this.emit('message_error', {
-          componentName: component.name,
-          message,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      }
-    });
+    // Subscribe to messages for this component via message broker
+    // (the handler settles once the message is delivered or dead-lettered, acknowledging it)
+    this.broker.subscribe(component.name, (message: CrossComponentMessage) => this.handleMessage(component.name, message));
 
     // Forward runtime events
     this.forwardRuntimeEvents(component.name, runtime);
@@ -152,13 +221,26 @@ export class ComponentRegistry extends EventEmitter {
         );
       }
 
-      // Create entry point instance with empty context
-      const entryInstanceId = runtime.createInstance(component.entryMachine, {});
-      const instance = runtime['instances'].get(entryInstanceId);
-      if (instance) {
-        instance.isEntryPoint = true; // Mark as entry point (won't be auto-deallocated)
+      // Singleton hosted by the elected replica only
+      if (this.leaseStore && (component.entryMachineMode ?? 'singleton') === 'singleton') {
+        this.electEntryPointHost(component, runtime);
+        return;
       }
 
+      // Keep the entry point restored before registration (restore() replaces one created here)
+      const restoredEntryPoint = runtime.getInstancesByMachine(component.entryMachine).find(i => i.isEntryPoint);
+      if (restoredEntryPoint) {
+        this.emit('entry_point_restored', {
+          componentName: component.name,
+          machineName: component.entryMachine,
+          instanceId: restoredEntryPoint.id,
+        });
+        return;
+      }
+
+      // Create entry point instance with empty context (won't be auto-deallocated)
+      const entryInstanceId = runtime.createInstance(component.entryMachine, {}, undefined, { isEntryPoint: true });
+
       this.emit('entry_point_created', {
         componentName: component.name,
         machineName: component.entryMachine,
@@ -167,6 +249,37 @@ export class ComponentRegistry extends EventEmitter {
     }
   }
 
+  /**
+   * Restore the instances of every component with persistence enabled
+   *
+   * Entry points created at registration are replaced by the restored ones.
+   * Sharded components restore only the instances of the shards this replica owns,
+   * and elected entry points are restored by the leader only.
+   *
+   * @returns Restore report per component name
+   */
+  async restore(): Promise<Record<string, RestoreReport>> {
+    const reports: Record<string, RestoreReport> = {};
+    for (const [componentName, runtime] of this.runtimes) {
+      if (runtime.getPersistenceManager()) {
+        await this.leaderships.get(componentName);
+        await this.rebalances.get(componentName);
+        const shards = this.shards.get(componentName);
+        const election = this.elections.get(componentName);
+        reports[componentName] = await runtime.restore(
+          shards || election
+            ? {
+              filter: instance => instance.isEntryPoint
+                ? !election || election.isLeader()
+                : !shards || shards.owns(instance),
+            }
+            : {}
+        );
+      }
+    }
+    return reports;
+  }
+
   /**
    * Unregister a component
    *
@@ -183,6 +296,16 @@ export class ComponentRegistry extends EventEmitter {
 
     this.runtimes.delete(componentName);
     this.components.delete(componentName);
+    this.shards.get(componentName)?.removeAllListeners();
+    this.shards.delete(componentName);
+    this.rebalances.delete(componentName);
+    const election = this.elections.get(componentName);
+    if (election) {
+      election.removeAllListeners();
+      void election.stop();
+      this.elections.delete(componentName);
+      this.leaderships.delete(componentName);
+    }
 
     this.emit('component_unregistered', { componentName });
   }
@@ -207,6 +330,33 @@ export class ComponentRegistry extends EventEmitter {
     return this.components.get(componentName);
   }
 
+  /**
+   * Get the shard ownership of a sharded component
+   *
+   * @param componentName Component name
+   * @returns ShardCoordinator, or undefined when the component is not sharded
+   */
+  getShardCoordinator(componentName: string): ShardCoordinator | undefined {
+    return this.shards.get(componentName);
+  }
+
+  /**
+   * Get the election of the replica hosting the entry point of a singleton component
+   *
+   * @param componentName Component name
+   * @returns LeaderElection, or undefined when every replica hosts its own entry point
+   */
+  getLeaderElection(componentName: string): LeaderElection | undefined {
+    return this.elections.get(componentName);
+  }
+
+  /**
+   * Get the ID of this replica in the shard ownership and leader elections
+   */
+  getReplicaId(): string {
+    return this.replicaId;
+  }
+
   /**
    * Check if component is registered
    *
@@ -263,6 +413,9 @@ export class ComponentRegistry extends EventEmitter {
   /**
    * Send event to instance in any component
    *
+   * Instances of a sharded component held by another replica are reached
+   * through the message broker.
+   *
    * @param componentName Target component name
    * @param instanceId Instance ID
    * @param event Event to send
@@ -277,13 +430,27 @@ export class ComponentRegistry extends EventEmitter {
       throw new Error(`Component ${componentName} not found`);
     }
 
+    if (this.shards.has(componentName) && !runtime.getInstance(instanceId) && !(this.broker instanceof InMemoryMessageBroker)) {
+      await this.publishMessage(componentName, {
+        sourceComponent: 'unknown',
+        targetComponent: componentName,
+        targetMachine: '',
+        targetState: '*',
+        event,
+        targetInstanceId: instanceId,
+      });
+      return;
+    }
+
     await runtime.sendEvent(instanceId, event);
   }
 
   /**
    * Broadcast event to instances in a specific component
    *
-   * Uses the configured message broker (in-memory or distributed)
+   * Uses the configured message broker (in-memory or distributed). With the
+   * in-memory broker, the event is delivered here under the retry policy, and
+   * dead-lettered like the messages of the broker once retries are exhausted.
    *
    * @param componentName Target component name
    * @param machineName Target machine name
@@ -291,7 +458,7 @@ export class ComponentRegistry extends EventEmitter {
    * @param sourceComponent Source component name (for tracing)
    * @param filters Optional property filters to target specific instances
    * @param currentState Optional state filter. Use '*' or omit to broadcast to all states
-   * @returns Number of instances processed
+   * @returns Number of instances processed (0 with a distributed broker)
    */
   async broadcastToComponent(
     componentName: string,
@@ -319,52 +486,13 @@ export class ComponentRegistry extends EventEmitter {
       filters, // Include filters for distributed mode
     };
 
-    const channel = `xcomponent:${componentName}`;
-
     // For in-memory broker, we can directly process instances and return the count
     // For distributed broker, we publish to Redis and can't know the count
     if (this.broker instanceof InMemoryMessageBroker) {
-      const runtime = this.runtimes.get(componentName)!;
-
-      // Get instances of the target machine
-      let instances: FSMInstance[];
-
-      if (!currentState || currentState === '*') {
-        // Broadcast to all instances of this machine (any state)
-        instances = runtime.getAllInstances().filter(
-          inst => inst.machineName === machineName
-        );
-      } else {
-        // Filter by specific state
-        instances = runtime.getAllInstances().filter(
-          inst => inst.machineName === machineName && inst.currentState === currentState
-        );
-      }
-
-      // Apply property filters if specified
-      if (filters && filters.length > 0) {
-        instances = instances.filter(inst => this.matchesFilters(inst, filters));
-      }
-
-      // Send event to each matching instance
-      let count = 0;
-      for (const instance of instances) {
-        try {
-          await runtime.sendEvent(instance.id, event);
-          count++;
-        } catch (error) {
-          this.emit('broadcast_error', {
-            componentName,
-            instanceId: instance.id,
-            error: error instanceof Error ? error.message : String(error),
-          });
-        }
-      }
-
-      return count;
+      return this.deliverWithRetries(componentName, message);
     } else {
       // Distributed mode: publish to broker (the handler will process it)
-      await this.broker.publish(channel, message);
+      await this.publishMessage(componentName, message);
       return 0; // Count not available in distributed mode
     }
   }
@@ -403,9 +531,80 @@ export class ComponentRegistry extends EventEmitter {
     return total;
   }
 
+  /**
+   * Send an event to instances of a component and wait for the state they reach
+   *
+   * Goes through the message broker like broadcastToComponent, so the
+   * component may live in another process.
+   *
+   * @param options.sourceComponent Source component name (for tracing)
+   * @throws RequestTimeoutError when no reply arrives in time, or the error of the target
+   */
+  async requestComponent(
+    componentName: string,
+    machineName: string,
+    event: FSMEvent,
+    options: RequestOptions & { sourceComponent?: string } = {}
+  ): Promise<ComponentReply> {
+    const message: CrossComponentMessage = {
+      sourceComponent: options.sourceComponent || 'unknown',
+      targetComponent: componentName,
+      targetMachine: machineName,
+      targetState: options.currentState || '*',
+      event,
+      filters: options.filters,
+    };
+    if (options.instanceId) {
+      message.targetInstanceId = options.instanceId;
+    }
+    return this.sendRequest(componentName, message, options.timeoutMs);
+  }
+
+  /**
+   * Create an instance in a component and wait for its ID and state
+   *
+   * Unlike createInstanceInComponent, the component may live in another process.
+   */
+  async requestInstance(
+    componentName: string,
+    machineName: string,
+    initialContext: Record<string, any>,
+    options: { timeoutMs?: number; sourceComponent?: string } = {}
+  ): Promise<RequestedInstance> {
+    const reply = await this.sendRequest(componentName, {
+      sourceComponent: options.sourceComponent || 'unknown',
+      targetComponent: componentName,
+      targetMachine: machineName,
+      targetState: '*',
+      event: { type: 'INSTANCE_CREATED', payload: initialContext, timestamp: Date.now() },
+      createContext: initialContext,
+      createInstanceId: uuidv4(),
+    }, options.timeoutMs);
+    return reply.instances[0];
+  }
+
+  private async sendRequest(componentName: string, message: CrossComponentMessage, timeoutMs?: number): Promise<ComponentReply> {
+    // Nobody would reply with the in-memory broker
+    if (this.broker instanceof InMemoryMessageBroker && !this.runtimes.has(componentName)) {
+      throw new Error(`Component ${componentName} not found`);
+    }
+    if (!this.requester) {
+      this.requester = new BrokerRequester(this.broker);
+    }
+    return this.requester.request<ComponentReply>(
+      `xcomponent:${componentName}`,
+      message,
+      timeoutMs,
+      this.publishOptions(componentName, message)
+    );
+  }
+
   /**
    * Create instance in a specific component
    *
+   * Instances of a sharded component whose shard another replica owns are
+   * created there, through the message broker.
+   *
    * @param componentName Target component name
    * @param machineName Machine name
    * @param initialContext Initial context
@@ -421,7 +620,29 @@ export class ComponentRegistry extends EventEmitter {
       throw new Error(`Component ${componentName} not found`);
     }
 
-    return runtime.createInstance(machineName, initialContext);
+    const shards = this.shards.get(componentName);
+    if (!shards) {
+      return runtime.createInstance(machineName, initialContext);
+    }
+
+    const instanceId = shards.newInstanceId(initialContext);
+    if (shards.ownsShard(shards.shardOfContext(initialContext, instanceId))) {
+      return runtime.createInstance(machineName, initialContext, undefined, { instanceId });
+    }
+
+    const message: CrossComponentMessage = {
+      sourceComponent: 'unknown',
+      targetComponent: componentName,
+      targetMachine: machineName,
+      targetState: '*',
+      event: { type: 'INSTANCE_CREATED', payload: initialContext, timestamp: Date.now() },
+      createContext: initialContext,
+      createInstanceId: instanceId,
+    };
+    this.publishMessage(componentName, message).catch(error => {
+      this.emit('message_error', { componentName, message, error: error instanceof Error ? error.message : String(error) });
+    });
+    return instanceId;
   }
 
   /**
@@ -467,19 +688,22 @@ export class ComponentRegistry extends EventEmitter {
     componentCount: number;
     totalInstances: number;
     totalMachines: number;
-    components: Array<{ name: string; instances: number; machines: number }>;
+    totalQueuedEvents: number;
+    components: Array<{ name: string; instances: number; machines: number; queuedEvents: number }>;
   } {
-    const components = this.getAllComponentInfo();
+    const components = this.getAllComponentInfo().map(c => ({
+      name: c.name,
+      instances: c.instanceCount,
+      machines: c.machineCount,
+      queuedEvents: this.runtimes.get(c.name)!.getStats().queuedEvents,
+    }));
 
     return {
       componentCount: components.length,
-      totalInstances: components.reduce((sum, c) => sum + c.instanceCount, 0),
-      totalMachines: components.reduce((sum, c) => sum + c.machineCount, 0),
-      components: components.map(c => ({
-        name: c.name,
-        instances: c.instanceCount,
-        machines: c.machineCount,
-      })),
+      totalInstances: components.reduce((sum, c) => sum + c.instances, 0),
+      totalMachines: components.reduce((sum, c) => sum + c.machines, 0),
+      totalQueuedEvents: components.reduce((sum, c) => sum + c.queuedEvents, 0),
+      components,
     };
   }
 
@@ -581,6 +805,482 @@ export class ComponentRegistry extends EventEmitter {
     return [];
   }
 
+  /**
+   * List the dead letters, oldest first
+   *
+   * @param componentName Only those of this component
+   */
+  async listDeadLetters(componentName?: string): Promise<DeadLetter[]> {
+    return this.deadLetterStore.list(componentName);
+  }
+
+  /**
+   * Get a dead letter
+   *
+   * @returns Dead letter or null
+   */
+  async getDeadLetter(id: string): Promise<DeadLetter | null> {
+    return this.deadLetterStore.get(id);
+  }
+
+  /**
+   * Deliver a dead letter again, once
+   *
+   * The event goes to the instances that failed it, or is routed anew when the
+   * message could not be routed. The component must be registered here.
+   *
+   * @returns null once delivered (the dead letter is removed), or the dead letter updated with the new failure
+   */
+  async replayDeadLetter(id: string): Promise<DeadLetter | null> {
+    const deadLetter = await this.deadLetterStore.get(id);
+    if (!deadLetter) {
+      throw new Error(`Dead letter ${id} not found`);
+    }
+
+    const { failures } = await this.deliverMessage(deadLetter.componentName, deadLetter.message, deadLetter.instanceIds);
+    if (failures.length === 0) {
+      await this.deadLetterStore.remove(id);
+      this.emit('dead_letter_replayed', { id, componentName: deadLetter.componentName });
+      return null;
+    }
+
+    const updated = this.createDeadLetter(deadLetter.componentName, deadLetter.message, failures, deadLetter.attempts + 1, deadLetter.firstFailedAt, id);
+    await this.deadLetterStore.add(updated);
+    return updated;
+  }
+
+  /**
+   * Drop a dead letter without delivering it
+   *
+   * @returns Whether it existed
+   */
+  async discardDeadLetter(id: string): Promise<boolean> {
+    const deadLetter = await this.deadLetterStore.get(id);
+    if (!deadLetter) {
+      return false;
+    }
+    await this.deadLetterStore.remove(id);
+    this.emit('dead_letter_discarded', { id, componentName: deadLetter.componentName });
+    return true;
+  }
+
+  /**
+   * Handle a message of a component channel, retrying the instances that fail it
+   *
+   * Resolves once the message is delivered or dead-lettered. Rejects (so that
+   * brokers with redelivery nack it) when the dead letter cannot be stored or
+   * the component is unregistered while retrying.
+   */
+  private async handleMessage(componentName: string, message: CrossComponentMessage): Promise<void> {
+    if (isRequest(message)) {
+      return this.handleRequest(componentName, message);
+    }
+    await this.deliverWithRetries(componentName, message);
+  }
+
+  /**
+   * Deliver a message under the retry policy of its component, and dead-letter it once retries are exhausted
+   *
+   * @returns Number of instances the event was delivered to
+   */
+  private async deliverWithRetries(componentName: string, message: CrossComponentMessage): Promise<number> {
+    const policy = resolveRetryPolicy(this.retryPolicy, this.components.get(componentName));
+    const firstFailedAt = Date.now();
+    let { delivered, failures } = await this.deliverMessage(componentName, message);
+    let attempts = 1;
+
+    while (failures.length > 0 && attempts < policy.maxAttempts) {
+      const delayMs = retryDelay(policy, attempts);
+      this.emit('message_retry', { componentName, message, attempt: attempts + 1, delayMs, failures });
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      if (!this.runtimes.has(componentName)) {
+        throw new Error(`Component ${componentName} was unregistered while retrying a message`);
+      }
+      const retried = await this.deliverMessage(componentName, message, this.failedInstances(failures));
+      delivered += retried.delivered;
+      failures = retried.failures;
+      attempts++;
+    }
+
+    if (failures.length > 0) {
+      const deadLetter = this.createDeadLetter(componentName, message, failures, attempts, firstFailedAt);
+      await this.deadLetterStore.add(deadLetter);
+      try {
+        await this.broker.publish(deadLetterChannel(componentName), deadLetter);
+      } catch (error) {
+        // Stored anyway: failing here would nack the message and dead-letter it twice
+        console.error(`Error publishing dead letter ${deadLetter.id} of component ${componentName}:`, error);
+      }
+      this.emit('message_dead_lettered', deadLetter);
+    }
+    return delivered;
+  }
+
+  /**
+   * Handle a request once and reply with the instances it reached
+   *
+   * Not retried: the requester gets the error, or times out. Of the replicas
+   * of a sharded component, only the one holding (or creating) the instance
+   * replies.
+   */
+  private async handleRequest(componentName: string, message: CrossComponentMessage & RequestEnvelope): Promise<void> {
+    if (!(await this.answersRequest(componentName, message))) {
+      return;
+    }
+    let outcome: { result: ComponentReply } | { error: unknown };
+    try {
+      outcome = { result: await this.processRequest(componentName, message) };
+    } catch (error) {
+      outcome = { error };
+    }
+    await sendReply(this.broker, message, outcome);
+  }
+
+  private async processRequest(componentName: string, message: CrossComponentMessage): Promise<ComponentReply> {
+    const runtime = this.runtimes.get(componentName);
+    if (!runtime) {
+      throw new Error(`Component ${componentName} not found`);
+    }
+    const reply: ComponentReply = { componentName, machineName: message.targetMachine, instances: [] };
+
+    if (message.createContext) {
+      const creation = this.localCreation(componentName, message) ?? {};
+      const instanceId = runtime.createInstance(message.targetMachine, message.createContext, undefined, creation);
+      await runtime.waitForCreation(instanceId);
+      const instance = runtime.getInstance(instanceId);
+      reply.instances.push({
+        instanceId,
+        machineName: message.targetMachine,
+        currentState: instance?.currentState ?? '',
+        status: instance?.status ?? 'completed',
+      });
+      return reply;
+    }
+
+    if (this.shards.has(componentName) && !message.targetInstanceId) {
+      throw new Error(`Requests to sharded component ${componentName} must target or create one instance`);
+    }
+    // Answered for a missing instance held by no replica
+    if (message.targetInstanceId && !runtime.getInstance(message.targetInstanceId)) {
+      throw new Error(`Instance ${message.targetInstanceId} not found`);
+    }
+
+    const failures: string[] = [];
+    for (const target of this.selectInstances(componentName, runtime, message)) {
+      // Final states dispose the instance: keep its last state from the disposal
+      let disposed: FSMInstance | undefined;
+      const onDisposed = (instance: FSMInstance) => {
+        if (instance.id === target.id) disposed = instance;
+      };
+      runtime.on('instance_disposed', onDisposed);
+      const previousState = target.currentState;
+      try {
+        await runtime.sendEvent(target.id, message.event);
+        const instance = runtime.getInstance(target.id) ?? disposed ?? target;
+        reply.instances.push({
+          instanceId: target.id,
+          machineName: target.machineName,
+          previousState,
+          currentState: instance.currentState,
+          status: instance.status,
+        });
+      } catch (error) {
+        failures.push(`${target.id}: ${error instanceof Error ? error.message : String(error)}`);
+      } finally {
+        runtime.off('instance_disposed', onDisposed);
+      }
+    }
+
+    if (failures.length > 0) {
+      throw new Error(failures.join('; '));
+    }
+    return reply;
+  }
+
+  /**
+   * Send the event of a message to the given instances, or to those it targets
+   *
+   * @returns Number of instances that accepted the event, and failures (empty when every instance accepted it)
+   */
+  private async deliverMessage(
+    componentName: string,
+    message: CrossComponentMessage,
+    instanceIds?: string[]
+  ): Promise<{ delivered: number; failures: DeliveryFailure[] }> {
+    let delivered = 0;
+    const failures: DeliveryFailure[] = [];
+    try {
+      const runtime = this.runtimes.get(componentName);
+      if (!runtime) {
+        throw new Error(`Component ${componentName} not found`);
+      }
+
+      if (message.createContext) {
+        const creation = this.localCreation(componentName, message);
+        if (creation) {
+          runtime.createInstance(message.targetMachine, message.createContext, undefined, creation);
+        }
+        return { delivered, failures };
+      }
+
+      const targets = instanceIds ?? this.selectInstances(componentName, runtime, message).map(inst => inst.id);
+      for (const instanceId of targets) {
+        try {
+          await runtime.sendEvent(instanceId, message.event);
+          delivered++;
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          failures.push({ instanceId, error: reason });
+          this.emit('broadcast_error', { componentName, instanceId, error: reason });
+        }
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      failures.push({ error: reason });
+      this.emit('message_error', { componentName, message, error: reason });
+    }
+    return { delivered, failures };
+  }
+
+  /**
+   * Instances to retry (undefined: route the whole message again)
+   */
+  private failedInstances(failures: DeliveryFailure[]): string[] | undefined {
+    return failures.every(f => f.instanceId !== undefined) ? failures.map(f => f.instanceId!) : undefined;
+  }
+
+  private createDeadLetter(
+    componentName: string,
+    message: CrossComponentMessage,
+    failures: DeliveryFailure[],
+    attempts: number,
+    firstFailedAt: number,
+    id: string = uuidv4()
+  ): DeadLetter {
+    const deadLetter: DeadLetter = {
+      id,
+      componentName,
+      message,
+      reason: failures.map(f => (f.instanceId ? `${f.instanceId}: ${f.error}` : f.error)).join('; '),
+      attempts,
+      firstFailedAt,
+      deadLetteredAt: Date.now(),
+    };
+    const instanceIds = this.failedInstances(failures);
+    if (instanceIds) {
+      deadLetter.instanceIds = instanceIds;
+    }
+    return deadLetter;
+  }
+
+  /**
+   * Whether this replica replies to a request
+   *
+   * Every replica of a sharded component receives it: the one creating the
+   * instance, or holding it, replies (the owner of its shard reports a missing
+   * instance, and the owner of shard 0 rejects requests to several instances).
+   * Sharding by a key property, the shard of a missing instance cannot be told:
+   * the owner of shard 0 reports it when the store has no event of it.
+   */
+  private async answersRequest(componentName: string, message: CrossComponentMessage): Promise<boolean> {
+    const shards = this.shards.get(componentName);
+    const runtime = this.runtimes.get(componentName);
+    if (!shards || !runtime) {
+      return true;
+    }
+    if (message.createContext) {
+      return this.localCreation(componentName, message) !== null;
+    }
+    if (message.targetInstanceId) {
+      if (runtime.getInstance(message.targetInstanceId) !== undefined || !this.heldElsewhere(componentName, message)) {
+        return true;
+      }
+      const persistence = runtime.getPersistenceManager();
+      return shards.shardOfMessage(message) === undefined && shards.ownsShard(0) &&
+        persistence !== null && persistence.isEventSourcingEnabled() &&
+        (await persistence.getInstanceEvents(message.targetInstanceId)).length === 0;
+    }
+    return shards.ownsShard(0);
+  }
+
+  /**
+   * Options to create the instance of a creation message with, or null when another replica creates it
+   */
+  private localCreation(componentName: string, message: CrossComponentMessage): CreateInstanceOptions | null {
+    const shards = this.shards.get(componentName);
+    if (!shards) {
+      return { instanceId: message.createInstanceId };
+    }
+    if (!shards.ownsShard(shards.shardOfMessage(message)!)) {
+      return null;
+    }
+    return { instanceId: message.createInstanceId ?? shards.newInstanceId(message.createContext) };
+  }
+
+  /**
+   * Publish a message on the channel of a component, keyed by its shard when it can be told
+   */
+  private async publishMessage(componentName: string, message: CrossComponentMessage): Promise<void> {
+    await this.broker.publish(`xcomponent:${componentName}`, message, this.publishOptions(componentName, message));
+  }
+
+  private publishOptions(componentName: string, message: CrossComponentMessage): PublishOptions {
+    const config = this.components.get(componentName)?.sharding ?? this.remoteSharding[componentName];
+    const shard = config ? messageShard(message, config) : undefined;
+    return shard === undefined ? {} : { key: String(shard) };
+  }
+
+  /**
+   * Hand the instances of the shards this replica lost and gained over through the stores
+   *
+   * Lost instances are released (once done with the events they are processing)
+   * and gained ones restored. Without persistence, instances stay with the
+   * replica that created them.
+   */
+  private async handleRebalance(componentName: string, rebalance: ShardRebalance): Promise<void> {
+    const runtime = this.runtimes.get(componentName);
+    const shards = this.shards.get(componentName);
+    if (!runtime || !shards) {
+      return;
+    }
+
+    let released: string[] = [];
+    let restored = 0;
+    if (runtime.getPersistenceManager()) {
+      const lost = new Set(rebalance.lost);
+      released = await runtime.releaseInstances(instance => !instance.isEntryPoint && lost.has(shards.shardOfInstance(instance)));
+      if (rebalance.gained.length > 0) {
+        const gained = new Set(rebalance.gained);
+        const report = await runtime.restore({
+          filter: instance => !instance.isEntryPoint && gained.has(shards.shardOfInstance(instance)),
+        });
+        restored = report.restored;
+      }
+    }
+    this.emit('shards_rebalanced', { ...rebalance, released, restored });
+  }
+
+  /**
+   * Campaign to host the entry point of a singleton component
+   *
+   * Entry points restored before registration are released until this replica
+   * is elected.
+   */
+  private electEntryPointHost(component: Component, runtime: FSMRuntime): void {
+    const entryMachine = component.entryMachine!;
+    const election = new LeaderElection(this.leaseStore!, `xcomponent:leader:${component.name}`, {
+      candidateId: this.replicaId,
+      ttlMs: this.leaseTtlMs,
+    });
+    this.elections.set(component.name, election);
+
+    // Leadership changes are handled in order, after the release of the entry point
+    const handle = (step: () => Promise<unknown>) => {
+      const handled = (this.leaderships.get(component.name) ?? Promise.resolve())
+        .then(step)
+        .then(() => undefined)
+        .catch(error => {
+          console.error(`Error handling the leadership of component ${component.name}:`, error);
+          this.emit('leadership_error', {
+            componentName: component.name,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        });
+      this.leaderships.set(component.name, handled);
+    };
+    handle(() => runtime.releaseInstances(instance => instance.isEntryPoint === true && instance.machineName === entryMachine));
+
+    election.on('leadership_changed', (change: LeadershipChange) => {
+      handle(() => this.handleLeadership(component.name, entryMachine, change));
+    });
+    election.on('election_error', (error: unknown) => {
+      this.emit('leadership_error', {
+        componentName: component.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    });
+
+    void election.start();
+  }
+
+  /**
+   * Host the entry point once elected (restored from the stores, or created), release it once deposed
+   */
+  private async handleLeadership(componentName: string, entryMachine: string, change: LeadershipChange): Promise<void> {
+    const runtime = this.runtimes.get(componentName);
+    if (!runtime) {
+      return;
+    }
+
+    const hosted = () => runtime.getInstancesByMachine(entryMachine).find(instance => instance.isEntryPoint);
+    let entryPointId: string | undefined;
+    if (change.isLeader) {
+      entryPointId = hosted()?.id;
+      if (!entryPointId && runtime.getPersistenceManager()) {
+        await runtime.restore({ filter: instance => instance.isEntryPoint === true && instance.machineName === entryMachine });
+        entryPointId = hosted()?.id;
+        if (entryPointId) {
+          this.emit('entry_point_restored', { componentName, machineName: entryMachine, instanceId: entryPointId });
+        }
+      }
+      if (!entryPointId) {
+        entryPointId = runtime.createInstance(entryMachine, {}, undefined, { isEntryPoint: true });
+        this.emit('entry_point_created', { componentName, machineName: entryMachine, instanceId: entryPointId });
+      }
+    } else {
+      // Released once done with the events it is processing, before another replica restores it
+      entryPointId = hosted()?.id;
+      await runtime.releaseInstances(instance => instance.isEntryPoint === true && instance.machineName === entryMachine);
+    }
+    this.emit('leadership_changed', { componentName, ...change, entryPointId });
+  }
+
+  /**
+   * Instances targeted by a message (instance ID, or machine, state and property filters)
+   *
+   * An instance of a sharded component that is not here is held by another
+   * replica, unless its shard is owned here (sharding by ID): it is then missing,
+   * and fails the message like the instances of other components.
+   */
+  private selectInstances(componentName: string, runtime: FSMRuntime, message: CrossComponentMessage): FSMInstance[] {
+    if (message.targetInstanceId) {
+      const instance = runtime.getInstance(message.targetInstanceId);
+      if (!instance && this.heldElsewhere(componentName, message)) {
+        return [];
+      }
+      if (!instance) {
+        throw new Error(`Instance ${message.targetInstanceId} not found`);
+      }
+      return [instance];
+    }
+
+    let instances = runtime.getAllInstances().filter(
+      inst =>
+        inst.machineName === message.targetMachine &&
+        (!message.targetState || message.targetState === '*' || inst.currentState === message.targetState)
+    );
+
+    // Apply property filters if specified
+    if (message.filters && message.filters.length > 0) {
+      instances = instances.filter(inst => this.matchesFilters(inst, message.filters!));
+    }
+    return instances;
+  }
+
+  /**
+   * Whether the instance targeted by a message of a sharded component may be held by another replica
+   *
+   * Sharding by a key property, the shard of an instance cannot be told from its ID.
+   */
+  private heldElsewhere(componentName: string, message: CrossComponentMessage): boolean {
+    const shards = this.shards.get(componentName);
+    if (!shards) {
+      return false;
+    }
+    const shard = shards.shardOfMessage(message);
+    return shard === undefined || !shards.ownsShard(shard);
+  }
+
   /**
    * Check if an instance matches all property filters
    *
@@ -662,6 +1362,21 @@ export class ComponentRegistry extends EventEmitter {
    * Dispose all components and cleanup
    */
   async dispose(): Promise<void> {
+    this.requester?.dispose();
+    for (const [componentName, election] of this.elections) {
+      await election.stop();
+      await this.leaderships.get(componentName);
+      election.removeAllListeners();
+    }
+    this.elections.clear();
+    this.leaderships.clear();
+    for (const shards of this.shards.values()) {
+      shards.removeAllListeners();
+    }
+    this.shards.clear();
+    await Promise.all(this.rebalances.values());
+    this.rebalances.clear();
+
     // Unsubscribe from all component messages
     for (const componentName of this.components.keys()) {
       try {
@@ -4,7 +4,7 @@
  * Connects to a message broker (RabbitMQ/Redis) to receive events from
  * multiple FSM runtimes and provides a unified dashboard view.
  *
- * Supports audit trail queries from either PostgreSQL or Redis.
+ * Supports audit trail queries from PostgreSQL, SQLite or Redis.
  */
 
 import express from 'express';
@@ -13,6 +13,8 @@ import { Server as SocketIOServer } from 'socket.io';
 import * as path from 'path';
 import { createMessageBroker, MessageBroker } from './message-broker';
 import { Component, PersistedEvent, InstanceSnapshot } from './types';
+import { StoreHistoryQueries, parseTimestamp, summarizeEvents } from './history-queries';
+import type { SqliteEventStore, SqliteSnapshotStore } from './sqlite-persistence';
 
 /**
  * Runtime registration message
@@ -37,6 +39,18 @@ export interface FSMEventBroadcast {
   timestamp: number;
 }
 
+/**
+ * Leadership of a runtime in the election of the host of a singleton entry point
+ */
+export interface LeadershipBroadcast {
+  runtimeId: string;
+  componentName: string;
+  /** Replica ID of the runtime in the election */
+  candidateId: string;
+  isLeader: boolean;
+  timestamp: number;
+}
+
 /**
  * Channels used for dashboard communication
  */
@@ -46,6 +60,7 @@ export const DashboardChannels = {
   RUNTIME_HEARTBEAT: 'fsm:registry:heartbeat',
   RUNTIME_SHUTDOWN: 'fsm:registry:shutdown',
   RUNTIME_DISCOVER: 'fsm:registry:discover',
+  LEADERSHIP_CHANGED: 'fsm:registry:leadership',
 
   // FSM events from runtimes
   STATE_CHANGE: 'fsm:events:state_change',
@@ -76,11 +91,14 @@ export class DashboardServer {
   private redisUrl?: string;
   private pgPool: any = null; // pg.Pool - optional, for history queries
   private redisClient: any = null; // Redis client - optional, for history queries when no PostgreSQL
+  private sqliteStores: { eventStore: SqliteEventStore; snapshotStore: SqliteSnapshotStore } | null = null; // DATABASE_URL=sqlite:<file>
+  private storeHistory: StoreHistoryQueries | null = null; // History queries over the SQLite stores
   private redisKeyPrefix: string = 'fsm';
 
   // Registry of connected runtimes
   private runtimes: Map<string, RuntimeRegistration> = new Map();
   private runtimeHeartbeats: Map<string, number> = new Map();
+  private leaders: Map<string, LeadershipBroadcast> = new Map(); // componentName -> elected runtime
 
   // Cached component data from runtimes
   private components: Map<string, Component> = new Map();
@@ -113,7 +131,7 @@ export class DashboardServer {
     this.app.use((_req, res, next) => {
       res.header('Access-Control-Allow-Origin', '*');
       res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE');
-      res.header('Access-Control-Allow-Headers', 'Content-Type');
+      res.header('Access-Control-Allow-Headers', 'Content-Type, Idempotency-Key');
       next();
     });
 
@@ -134,8 +152,8 @@ export class DashboardServer {
         status: 'ok',
         mode: 'distributed',
         broker: this.brokerUrl.replace(/:[^:@]+@/, ':***@'),
-        database: !!(this.pgPool || this.redisClient), // true if any persistence backend available
-        databaseType: this.pgPool ? 'postgresql' : (this.redisClient ? 'redis' : null),
+        database: !!(this.pgPool || this.storeHistory || this.redisClient), // true if any persistence backend available
+        databaseType: this.pgPool ? 'postgresql' : (this.storeHistory ? 'sqlite' : (this.redisClient ? 'redis' : null)),
         connectedRuntimes: this.runtimes.size,
         components: Array.from(this.components.keys())
       });
@@ -219,11 +237,12 @@ export class DashboardServer {
     this.app.post('/api/instances/:instanceId/trigger', async (req, res) => {
       const { instanceId } = req.params;
       const { event, payload } = req.body;
+      const idempotencyKey = req.get('Idempotency-Key');
 
       try {
         await this.broker.publish(DashboardChannels.TRIGGER_EVENT, {
           instanceId,
-          event: { type: event, payload: payload || {} },
+          event: { type: event, payload: payload || {}, ...(idempotencyKey && { idempotencyKey }) },
           timestamp: Date.now()
         });
 
@@ -260,7 +279,8 @@ export class DashboardServer {
         componentName: r.componentName,
         host: r.host,
         port: r.port,
-        lastSeen: this.runtimeHeartbeats.get(r.runtimeId)
+        lastSeen: this.runtimeHeartbeats.get(r.runtimeId),
+        leader: this.leaders.get(r.componentName)?.runtimeId === r.runtimeId
       }));
       res.json({ runtimes });
     });
@@ -322,6 +342,18 @@ export class DashboardServer {
         }
       }
 
+      // SQLite
+      if (this.storeHistory) {
+        try {
+          const history = await this.storeHistory.getInstanceHistory(instanceId);
+          res.json({ history });
+          return;
+        } catch (error: any) {
+          res.status(500).json({ error: error.message });
+          return;
+        }
+      }
+
       // Fallback to Redis
       if (this.redisClient) {
         try {
@@ -338,13 +370,27 @@ export class DashboardServer {
     });
 
     // Search all instances (including terminated) from database
+    // ?at=<epoch ms or ISO date> shows instances as they were at that time
     this.app.get('/api/history/instances', async (req, res) => {
       const { machine, state, q, limit: limitStr } = req.query;
       const limit = Math.min(parseInt(limitStr as string) || 100, 500);
+      let at: number | undefined;
+      try {
+        at = parseTimestamp(req.query.at);
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
 
       // Try PostgreSQL first
       if (this.pgPool) {
         try {
+          if (at !== undefined) {
+            res.json({ instances: await this.getPgInstancesAt(at, machine as string, state as string, q as string, limit) });
+            return;
+          }
+
+
           // Try snapshots first, fall back to events if no snapshots exist
           let query = `
             SELECT s.instance_id, s.machine_name, s.current_state, s.context,
@@ -429,8 +475,31 @@ export class DashboardServer {
         }
       }
 
+      // SQLite
+      if (this.storeHistory) {
+        try {
+          const instances = await this.storeHistory.searchInstances({
+            machine: machine as string,
+            state: state as string,
+            q: q as string,
+            limit,
+            at,
+          });
+          res.json({ instances });
+          return;
+        } catch (error: any) {
+          console.error('[Dashboard] SQLite history search error:', error.message);
+          res.status(500).json({ error: error.message });
+          return;
+        }
+      }
+
       // Fallback to Redis
       if (this.redisClient) {
+        if (at !== undefined) {
+          res.status(400).json({ error: 'Point-in-time search requires PostgreSQL or SQLite' });
+          return;
+        }
         try {
           const instances = await this.getRedisInstances(machine as string, state as string, q as string, limit);
           res.json({ instances });
@@ -446,8 +515,16 @@ export class DashboardServer {
     });
 
     // Get full event history for a specific instance (by instance ID from snapshots)
+    // ?at=<epoch ms or ISO date> returns the events up to that time and the state they led to
     this.app.get('/api/history/instances/:instanceId/events', async (req, res) => {
       const { instanceId } = req.params;
+      let at: number | undefined;
+      try {
+        at = parseTimestamp(req.query.at);
+      } catch (error: any) {
+        res.status(400).json({ error: error.message });
+        return;
+      }
 
       // Try PostgreSQL first
       if (this.pgPool) {
@@ -466,9 +543,9 @@ export class DashboardServer {
                     from_state, to_state, context, public_member_snapshot,
                     source_component_name,
                     correlation_id, causation_id, caused, persisted_at, created_at
-             FROM fsm_events WHERE instance_id = $1
+             FROM fsm_events WHERE instance_id = $1 AND ($2::bigint IS NULL OR persisted_at <= $2)
              ORDER BY persisted_at ASC`,
-            [instanceId]
+            [instanceId, at ?? null]
           );
 
           // Map to PersistedEvent format
@@ -492,7 +569,7 @@ export class DashboardServer {
           }));
 
           res.json({
-            snapshot: snapshotResult.rows[0] || null,
+            snapshot: at === undefined ? snapshotResult.rows[0] || null : events.length > 0 ? summarizeEvents(events) : null,
             events
           });
           return;
@@ -502,10 +579,22 @@ export class DashboardServer {
         }
       }
 
+      // SQLite
+      if (this.storeHistory) {
+        try {
+          const { snapshot, events } = await this.storeHistory.getInstanceEventsWithSnapshot(instanceId, at);
+          res.json({ snapshot, events });
+          return;
+        } catch (error: any) {
+          res.status(500).json({ error: error.message });
+          return;
+        }
+      }
+
       // Fallback to Redis
       if (this.redisClient) {
         try {
-          const { snapshot, events } = await this.getRedisInstanceEventsWithSnapshot(instanceId);
+          const { snapshot, events } = await this.getRedisInstanceEventsWithSnapshot(instanceId, at);
           res.json({ snapshot, events });
           return;
         } catch (error: any) {
@@ -633,6 +722,19 @@ export class DashboardServer {
         }
       }
 
+      // SQLite
+      if (this.storeHistory) {
+        try {
+          const result = await this.storeHistory.getCorrelatedEvents(instanceId);
+          res.json(result);
+          return;
+        } catch (error: any) {
+          console.error('[Dashboard] SQLite correlated events error:', error.message);
+          res.status(500).json({ error: error.message });
+          return;
+        }
+      }
+
       // Fallback to Redis
       if (this.redisClient) {
         try {
@@ -655,6 +757,7 @@ export class DashboardServer {
       const { componentName, instanceId } = req.params;
       const { type, event, payload } = req.body;
       const eventType = type || event; // Support both formats
+      const idempotencyKey = req.get('Idempotency-Key'); // Forwarded so runtimes drop redeliveries
 
       if (!eventType) {
         res.status(400).json({ error: 'Missing event type. Send { event: "NAME" } or { type: "NAME" }' });
@@ -666,7 +769,7 @@ export class DashboardServer {
         const message = {
           componentName,
           instanceId,
-          event: { type: eventType, payload: payload || {}, timestamp: Date.now() }
+          event: { type: eventType, payload: payload || {}, timestamp: Date.now(), ...(idempotencyKey && { idempotencyKey }) }
         };
         console.log(`[Dashboard] TRIGGER_EVENT message:`, JSON.stringify(message));
         await this.broker.publish(DashboardChannels.TRIGGER_EVENT, message);
@@ -693,6 +796,11 @@ export class DashboardServer {
         socket.emit('instances_update', { componentName, instances });
       });
 
+      // Send current leaders of singleton entry points
+      this.leaders.forEach(leader => {
+        socket.emit('leadership_changed', leader);
+      });
+
       socket.on('disconnect', () => {
         console.log(`[Dashboard] Browser client disconnected: ${socket.id}`);
       });
@@ -736,11 +844,28 @@ export class DashboardServer {
       if (runtime) {
         this.runtimes.delete(msg.runtimeId);
         this.runtimeHeartbeats.delete(msg.runtimeId);
+        this.dropLeader(msg.runtimeId);
         // Don't remove component - other runtimes might have it
         this.io.emit('runtime_disconnected', { runtimeId: msg.runtimeId });
       }
     });
 
+    // Subscribe to leadership changes of singleton entry points
+    await this.broker.subscribe(DashboardChannels.LEADERSHIP_CHANGED, (msg: LeadershipBroadcast) => {
+      const current = this.leaders.get(msg.componentName);
+      if (msg.isLeader) {
+        this.leaders.set(msg.componentName, msg);
+      } else if (current?.runtimeId === msg.runtimeId) {
+        this.leaders.delete(msg.componentName);
+      } else {
+        return;
+      }
+      if (current?.runtimeId !== msg.runtimeId || current.isLeader !== msg.isLeader) {
+        console.log(`[Dashboard] Leadership of ${msg.componentName}: ${msg.runtimeId} ${msg.isLeader ? 'elected' : 'stepped down'}`);
+        this.io.emit('leadership_changed', msg);
+      }
+    });
+
     // Subscribe to state changes
     await this.broker.subscribe(DashboardChannels.STATE_CHANGE, (msg: FSMEventBroadcast) => {
       console.log(`[Dashboard] State change: ${msg.data.instanceId} -> ${msg.data.newState}`);
@@ -811,12 +936,56 @@ export class DashboardServer {
 
   // ==================== Redis Helper Methods ====================
 
+  /**
+   * Search instances as they were at a point in time, from the last event
+   * each one persisted up to it (PostgreSQL)
+   */
+  private async getPgInstancesAt(at: number, machine?: string, state?: string, q?: string, limit: number = 100): Promise<any[]> {
+    let query = `
+      SELECT * FROM (
+        SELECT DISTINCT ON (e.instance_id) e.instance_id, e.machine_name, e.to_state AS current_state,
+               COALESCE(e.public_member_snapshot, e.event_payload) AS context,
+               COUNT(*) OVER (PARTITION BY e.instance_id) AS event_count,
+               MIN(e.created_at) OVER (PARTITION BY e.instance_id) AS created_at,
+               e.created_at AS updated_at
+        FROM fsm_events e
+        WHERE e.persisted_at <= $1
+        ORDER BY e.instance_id, e.persisted_at DESC
+      ) s
+    `;
+    const conditions: string[] = [];
+    const params: any[] = [at];
+
+    if (machine) {
+      params.push(machine);
+      conditions.push(`s.machine_name = $${params.length}`);
+    }
+    if (state) {
+      params.push(state);
+      conditions.push(`s.current_state = $${params.length}`);
+    }
+    if (q) {
+      params.push(`%${q}%`);
+      conditions.push(`(s.context::text ILIKE $${params.length} OR s.instance_id::text ILIKE $${params.length})`);
+    }
+
+    if (conditions.length > 0) {
+      query += ' WHERE ' + conditions.join(' AND ');
+    }
+
+    query += ` ORDER BY s.updated_at DESC LIMIT $${params.length + 1}`;
+    params.push(limit);
+
+    const result = await this.pgPool.query(query, params);
+    return result.rows;
+  }
+
   /**
    * Get instance history from Redis
    */
-  private async getRedisInstanceHistory(instanceId: string): Promise<any[]> {
+  private async getRedisInstanceHistory(instanceId: string, at?: number): Promise<any[]> {
     const key = `${this.redisKeyPrefix}:events:${instanceId}`;
-    const results = await this.redisClient.zRangeByScore(key, '-inf', '+inf');
+    const results = await this.redisClient.zRangeByScore(key, '-inf', at ?? '+inf');
 
     return results.map((r: string) => {
       const event: PersistedEvent = JSON.parse(r);
@@ -891,7 +1060,12 @@ export class DashboardServer {
   /**
    * Get instance events with snapshot from Redis
    */
-  private async getRedisInstanceEventsWithSnapshot(instanceId: string): Promise<{ snapshot: any; events: any[] }> {
+  private async getRedisInstanceEventsWithSnapshot(instanceId: string, at?: number): Promise<{ snapshot: any; events: any[] }> {
+    if (at !== undefined) {
+      const events = await this.getRedisInstanceHistory(instanceId, at);
+      return { snapshot: events.length > 0 ? summarizeEvents(events) : null, events };
+    }
+
     // Get snapshot
     const snapshotData = await this.redisClient.get(`${this.redisKeyPrefix}:snapshot:${instanceId}`);
     let snapshot = null;
@@ -1067,6 +1241,18 @@ export class DashboardServer {
     return lines.join('\n');
   }
 
+  /**
+   * Forget the leaderships of a runtime that is gone
+   */
+  private dropLeader(runtimeId: string): void {
+    this.leaders.forEach((leader, componentName) => {
+      if (leader.runtimeId === runtimeId) {
+        this.leaders.delete(componentName);
+        this.io.emit('leadership_changed', { ...leader, isLeader: false, timestamp: Date.now() });
+      }
+    });
+  }
+
   private startHeartbeatCheck(): void {
     // Check for stale runtimes every 30 seconds
     this.heartbeatCheckInterval = setInterval(() => {
@@ -1078,6 +1264,7 @@ export class DashboardServer {
           console.log(`[Dashboard] Runtime stale (no heartbeat): ${runtimeId}`);
           this.runtimes.delete(runtimeId);
           this.runtimeHeartbeats.delete(runtimeId);
+          this.dropLeader(runtimeId);
           this.io.emit('runtime_disconnected', { runtimeId, reason: 'heartbeat_timeout' });
         }
       });
@@ -1087,8 +1274,19 @@ export class DashboardServer {
   async start(port: number = 3000): Promise<void> {
     console.log(`[Dashboard] Version: 2024-01-27-v4 - Starting...`);
 
-    // Connect to PostgreSQL if DATABASE_URL provided (for history queries)
-    if (this.databaseUrl) {
+    // Open the SQLite file if DATABASE_URL is sqlite:<file> (for history queries)
+    if (this.databaseUrl?.startsWith('sqlite:')) {
+      try {
+        const { createSqliteStores } = await import('./sqlite-persistence');
+        this.sqliteStores = await createSqliteStores({ filename: this.databaseUrl.slice('sqlite:'.length) });
+        this.storeHistory = new StoreHistoryQueries(this.sqliteStores.eventStore, this.sqliteStores.snapshotStore);
+        console.log(`[Dashboard] SQLite opened (history queries enabled)`);
+      } catch (error: any) {
+        console.warn(`[Dashboard] SQLite open failed: ${error.message}`);
+        this.sqliteStores = null;
+      }
+    } else if (this.databaseUrl) {
+      // Connect to PostgreSQL if DATABASE_URL provided (for history queries)
       try {
         const pgModule = await import('pg' as any);
         const Pool = pgModule.Pool || pgModule.default?.Pool;
@@ -1103,7 +1301,7 @@ export class DashboardServer {
     }
 
     // Connect to Redis for history queries if PostgreSQL not available and Redis URL provided
-    if (!this.pgPool && this.redisUrl) {
+    if (!this.pgPool && !this.storeHistory && this.redisUrl) {
       try {
         const redis = await import('redis' as any);
         const createClient = redis.createClient || redis.default?.createClient;
@@ -1122,7 +1320,7 @@ export class DashboardServer {
     }
 
     // Log history query status
-    if (!this.pgPool && !this.redisClient) {
+    if (!this.pgPool && !this.storeHistory && !this.redisClient) {
       console.log(`[Dashboard] No DATABASE_URL and no Redis - history queries disabled`);
     }
 
@@ -1152,7 +1350,7 @@ export class DashboardServer {
     // Start HTTP server
     return new Promise((resolve) => {
       this.httpServer.listen(port, () => {
-        const dbType = this.pgPool ? 'PostgreSQL' : (this.redisClient ? 'Redis' : 'none');
+        const dbType = this.pgPool ? 'PostgreSQL' : (this.storeHistory ? 'SQLite' : (this.redisClient ? 'Redis' : 'none'));
         console.log('\n' + '═'.repeat(50));
         console.log('    XCOMPONENT DASHBOARD (Distributed Mode)');
         console.log('═'.repeat(50));
@@ -1174,6 +1372,10 @@ export class DashboardServer {
     if (this.pgPool) {
       await this.pgPool.end();
     }
+    if (this.sqliteStores) {
+      await this.sqliteStores.eventStore.close();
+      await this.sqliteStores.snapshotStore.close();
+    }
     if (this.redisClient) {
       await this.redisClient.disconnect();
     }
@@ -0,0 +1,72 @@
+/**
+ * Dead Letters
+ *
+ * ComponentRegistry redelivers a cross-component message to the instances
+ * that failed to handle it, with exponential backoff. Once the retry policy is
+ * exhausted the message is dead-lettered: stored with the failure reason and
+ * published on the dead-letter channel of the target component, where it waits
+ * to be replayed or discarded.
+ */
+
+import { Component, DeadLetter, DeadLetterStore, RetryPolicy } from './types';
+
+/**
+ * Retry policy applied when neither the registry nor the component sets one
+ */
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  initialDelayMs: 100,
+  backoffFactor: 2,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Channel on which the dead letters of a component are published
+ */
+export function deadLetterChannel(componentName: string): string {
+  return `xcomponent:deadletters:${componentName}`;
+}
+
+/**
+ * Retry policy of a component: its own settings over the registry's
+ */
+export function resolveRetryPolicy(registryPolicy: RetryPolicy | undefined, component?: Component): Required<RetryPolicy> {
+  return { ...DEFAULT_RETRY_POLICY, ...registryPolicy, ...component?.retry };
+}
+
+/**
+ * Delay before a retry
+ *
+ * @param retry Retry number (1 for the second delivery)
+ */
+export function retryDelay(policy: Required<RetryPolicy>, retry: number): number {
+  return Math.min(policy.initialDelayMs * Math.pow(policy.backoffFactor, retry - 1), policy.maxDelayMs);
+}
+
+/**
+ * In-memory dead letter store implementation
+ * For testing and development - replace with database in production
+ */
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+  private deadLetters: Map<string, DeadLetter> = new Map();
+
+  async add(deadLetter: DeadLetter): Promise<void> {
+    this.deadLetters.set(deadLetter.id, structuredClone(deadLetter));
+  }
+
+  async get(id: string): Promise<DeadLetter | null> {
+    const deadLetter = this.deadLetters.get(id);
+    return deadLetter ? structuredClone(deadLetter) : null;
+  }
+
+  async list(componentName?: string): Promise<DeadLetter[]> {
+    return Array.from(this.deadLetters.values())
+      .filter(deadLetter => !componentName || deadLetter.componentName === componentName)
+      .sort((a, b) => a.deadLetteredAt - b.deadLetteredAt)
+      .map(deadLetter => structuredClone(deadLetter));
+  }
+
+  async remove(id: string): Promise<boolean> {
+    return this.deadLetters.delete(id);
+  }
+}
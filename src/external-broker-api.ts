@@ -10,14 +10,20 @@
  *
  * Channels:
  * - `xcomponent:external:commands` - Send events to FSM instances from external systems
+ * - `xcomponent:external:requests` - Send an event or create an instance, and get the outcome
+ *   on the request's replyTo channel
  * - `xcomponent:events:state_change` - Subscribe to state transitions
  * - `xcomponent:events:instance_created` - Subscribe to instance creations
  * - `xcomponent:events:instance_disposed` - Subscribe to instance disposals
+ * - `xcomponent:events:command_error` - Failed external commands (with validationErrors when
+ *   the event payload or resulting context does not match the machine's schema)
  */
 
 import { MessageBroker, PropertyFilter } from './message-broker';
 import { ComponentRegistry } from './component-registry';
-import { FSMEvent } from './types';
+import { ComponentReply, FSMEvent } from './types';
+import { RequestEnvelope, sendReply } from './request-reply';
+import { ContextValidationError } from './schema-validator';
 
 // Re-export PropertyFilter for convenience
 export type { PropertyFilter };
@@ -84,6 +90,43 @@ export interface ExternalBroadcastCommand {
   filters?: PropertyFilter[];
 }
 
+/**
+ * External request: an event, or an instance creation, whose outcome is replied
+ *
+ * The reply is published on replyTo as `{ correlationId, result }` (a ComponentReply)
+ * or `{ correlationId, error }`.
+ *
+ * Example (payment state after capture):
+ * ```json
+ * {
+ *   "componentName": "PaymentComponent",
+ *   "machineName": "Payment",
+ *   "instanceId": "pay-123",
+ *   "event": {"type": "CAPTURE", "payload": {}},
+ *   "correlationId": "c0ffee",
+ *   "replyTo": "billing:replies"
+ * }
+ * ```
+ */
+export interface ExternalRequest extends RequestEnvelope {
+  /** Component name */
+  componentName: string;
+  /** Machine name */
+  machineName: string;
+  /** Event to send (omitted when creating an instance) */
+  event?: FSMEvent;
+  /** Create an instance with this context instead of sending an event */
+  initialContext?: Record<string, any>;
+  /** Target this instance only */
+  instanceId?: string;
+  /** Target the instances in this state only */
+  currentState?: string;
+  /** Target the instances matching all these filters only */
+  filters?: PropertyFilter[];
+  /** Time the component has to reply, in ms (default: 10000) */
+  timeoutMs?: number;
+}
+
 /**
  * Published FSM event for external subscribers
  */
@@ -170,6 +213,7 @@ export class ExternalBrokerAPI {
         );
       } catch (error) {
         console.error('[ExternalBrokerAPI] Command error:', error);
+        await this.publishCommandError('external:commands', message, error);
       }
     });
 
@@ -194,8 +238,43 @@ export class ExternalBrokerAPI {
         );
       } catch (error) {
         console.error('[ExternalBrokerAPI] Broadcast error:', error);
+        await this.publishCommandError('external:broadcasts', message, error);
       }
     });
+
+    // Subscribe to requests (replied on their replyTo channel)
+    this.broker.subscribe('external:requests', async (message: any) => {
+      const req = message as ExternalRequest;
+      if (!req?.correlationId || !req.replyTo) {
+        console.error('[ExternalBrokerAPI] Request without correlationId/replyTo ignored');
+        await this.publishCommandError('external:requests', message, new Error('Invalid external request format'));
+        return;
+      }
+
+      let outcome: { result: ComponentReply } | { error: unknown };
+      try {
+        if (!req.componentName || !req.machineName || (!req.event && !req.initialContext)) {
+          throw new Error('Invalid external request format');
+        }
+        const options = { timeoutMs: req.timeoutMs, sourceComponent: 'external' };
+        if (req.initialContext && !req.event) {
+          const instance = await this.registry.requestInstance(req.componentName, req.machineName, req.initialContext, options);
+          outcome = { result: { componentName: req.componentName, machineName: req.machineName, instances: [instance] } };
+        } else {
+          outcome = {
+            result: await this.registry.requestComponent(req.componentName, req.machineName, req.event!, {
+              ...options,
+              instanceId: req.instanceId,
+              currentState: req.currentState,
+              filters: req.filters,
+            }),
+          };
+        }
+      } catch (error) {
+        outcome = { error };
+      }
+      await sendReply(this.broker, req, outcome);
+    });
   }
 
   /**
@@ -249,6 +328,19 @@ export class ExternalBrokerAPI {
     }
   }
 
+  /**
+   * Report a failed external command so that the sender can react to it
+   */
+  private async publishCommandError(channel: string, command: any, error: unknown): Promise<void> {
+    await this.publishEvent('command_error', {
+      componentName: command?.componentName,
+      channel,
+      command,
+      error: error instanceof Error ? error.message : String(error),
+      validationErrors: error instanceof ContextValidationError ? error.issues : undefined,
+    });
+  }
+
   /**
    * Cleanup
    */
@@ -256,6 +348,7 @@ export class ExternalBrokerAPI {
     if (this.handleCommands) {
       this.broker.unsubscribe('external:commands');
       this.broker.unsubscribe('external:broadcasts');
+      this.broker.unsubscribe('external:requests');
     }
 
     this.registry.removeAllListeners();
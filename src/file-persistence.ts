@@ -0,0 +1,594 @@
+/**
+ * File Persistence Stores
+ *
+ * Zero-dependency durable stores for edge deployments: events are appended to
+ * rotating JSONL segment files, snapshots are written one file per instance.
+ *
+ * Layout:
+ * ```
+ * <directory>/
+ *   events-000001.jsonl   # one PersistedEvent (or causal link) per line
+ *   events-000002.jsonl   # next segment, opened when the previous one is full
+ *   snapshots/<instanceId>.json
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { EventStore, SnapshotStore, PersistedEvent, InstanceSnapshot } from './types';
+import { ConcurrencyConflictError } from './persistence';
+
+/**
+ * When appended events are flushed to disk
+ * - always: fsync after every append (no loss on power failure, slowest)
+ * - interval: fsync every fsyncIntervalMs (loses at most one interval)
+ * - never: left to the OS (survives a process crash, not a power failure)
+ */
+export type FsyncPolicy = 'always' | 'interval' | 'never';
+
+/**
+ * File store configuration
+ */
+export interface FileStoreConfig {
+  /** Directory holding the segment and snapshot files (created if missing) */
+  directory: string;
+  /** Segment size that triggers rotation to a new file (default: 64 MB) */
+  segmentMaxBytes?: number;
+  /** Flush policy (default: 'interval') */
+  fsync?: FsyncPolicy;
+  /** Flush period of the 'interval' policy (default: 1000 ms) */
+  fsyncIntervalMs?: number;
+  /** Open for inspection only: no tail truncation, appends are rejected */
+  readOnly?: boolean;
+}
+
+/**
+ * Segment file of the event log
+ */
+export interface SegmentInfo {
+  /** File name in the store directory */
+  file: string;
+  /** Size in bytes */
+  bytes: number;
+  /** Events in the segment (causal link records excluded) */
+  events: number;
+}
+
+/**
+ * Line of a segment: an event, a causal link added after its parent was written,
+ * or the compaction of events into a summary event written just before
+ */
+type SegmentRecord =
+  | PersistedEvent
+  | { causalLink: { parentId: string; childId: string } }
+  | { compaction: { instanceId: string; removed: string[]; summaryId: string } };
+
+/**
+ * Position of an event line
+ */
+interface EventLocation {
+  segment: number;
+  offset: number;
+  length: number;
+}
+
+const SEGMENT_PATTERN = /^events-(\d{6})\.jsonl$/;
+const DEFAULT_SEGMENT_MAX_BYTES = 64 * 1024 * 1024;
+
+function segmentFile(segment: number): string {
+  return `events-${String(segment).padStart(6, '0')}.jsonl`;
+}
+
+/**
+ * JSONL File Event Store
+ *
+ * The segments are the source of truth; the per-instance index, versions and
+ * causal links are rebuilt in memory when the store is opened. A line torn by
+ * a crash at the end of the last segment is truncated on open.
+ */
+export class FileEventStore implements EventStore {
+  private config: Required<FileStoreConfig>;
+  private opening: Promise<void> | null = null;
+  private segments: SegmentInfo[] = [];
+  private writeFd: number | null = null;
+  private readFds: Map<number, number> = new Map();
+  private dirty = false;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  private locations: Map<string, EventLocation> = new Map();
+  private instanceIndex: Map<string, string[]> = new Map();
+  private caused: Map<string, string[]> = new Map();
+  private versions: Map<string, number> = new Map();
+  // Compaction: first removed event → summary listed in its place
+  private replacedBy: Map<string, string> = new Map();
+  private relocated: Set<string> = new Set();
+
+  /** Bytes of a torn tail discarded (or skipped, when read-only) when the store was opened */
+  recoveredBytes = 0;
+
+  constructor(config: FileStoreConfig) {
+    this.config = {
+      segmentMaxBytes: DEFAULT_SEGMENT_MAX_BYTES,
+      fsync: 'interval',
+      fsyncIntervalMs: 1000,
+      readOnly: false,
+      ...config,
+    };
+  }
+
+  /**
+   * Open the directory, recover the tail of the last segment and index the events
+   * (called on first use)
+   */
+  async initialize(): Promise<void> {
+    if (!this.opening) {
+      this.opening = Promise.resolve().then(() => this.open());
+    }
+    return this.opening;
+  }
+
+  private open(): void {
+    const { directory, readOnly } = this.config;
+    if (!readOnly) {
+      fs.mkdirSync(directory, { recursive: true });
+    }
+
+    const numbers = fs.readdirSync(directory)
+      .map(file => SEGMENT_PATTERN.exec(file))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+
+    numbers.forEach((segment, i) => this.loadSegment(segment, i === numbers.length - 1));
+
+    const active = numbers.length > 0 ? numbers[numbers.length - 1] : 1;
+    if (numbers.length === 0) {
+      this.segments.push({ file: segmentFile(active), bytes: 0, events: 0 });
+    }
+    if (readOnly) return;
+
+    this.writeFd = fs.openSync(path.join(directory, segmentFile(active)), 'a');
+
+    if (this.config.fsync === 'interval') {
+      this.flushTimer = setInterval(() => this.flush(), this.config.fsyncIntervalMs);
+      this.flushTimer.unref();
+    }
+  }
+
+  private loadSegment(segment: number, isLast: boolean): void {
+    const file = path.join(this.config.directory, segmentFile(segment));
+    const data = fs.readFileSync(file);
+    const info: SegmentInfo = { file: segmentFile(segment), bytes: 0, events: 0 };
+
+    let offset = 0;
+    while (offset < data.length) {
+      const end = data.indexOf(0x0a, offset);
+      if (end === -1) break;
+
+      let record: SegmentRecord;
+      try {
+        record = JSON.parse(data.toString('utf8', offset, end));
+      } catch {
+        break;
+      }
+      if (this.indexRecord(record, { segment, offset, length: end - offset })) {
+        info.events++;
+      }
+      offset = end + 1;
+    }
+
+    if (offset < data.length) {
+      if (!isLast) {
+        throw new Error(`Corrupted segment ${file} at byte ${offset} (only the last segment can have a torn tail)`);
+      }
+      // Torn write of the last append before a crash (or an append in progress, when read-only)
+      this.recoveredBytes = data.length - offset;
+      if (this.config.readOnly) {
+        this.segments.push({ ...info, bytes: offset });
+        return;
+      }
+      fs.truncateSync(file, offset);
+      console.warn(`[FileEventStore] Discarded ${this.recoveredBytes} bytes of incomplete tail in ${info.file}`);
+    }
+
+    info.bytes = offset;
+    this.segments.push(info);
+  }
+
+  /**
+   * Add a segment line to the in-memory indexes (returns true for an event)
+   */
+  private indexRecord(record: SegmentRecord, location: EventLocation): boolean {
+    if ('causalLink' in record) {
+      this.linkInIndex(record.causalLink.parentId, record.causalLink.childId);
+      return false;
+    }
+    if ('compaction' in record) {
+      this.compactInIndex(record.compaction.instanceId, record.compaction.removed, record.compaction.summaryId);
+      return false;
+    }
+
+    this.locations.set(record.id, location);
+    const ids = this.instanceIndex.get(record.instanceId) || [];
+    ids.push(record.id);
+    this.instanceIndex.set(record.instanceId, ids);
+    for (const childId of record.caused || []) {
+      this.linkInIndex(record.id, childId);
+    }
+    if (record.version !== undefined) {
+      this.versions.set(record.instanceId, Math.max(this.versions.get(record.instanceId) || 0, record.version));
+    }
+    return true;
+  }
+
+  /**
+   * Hide compacted events and list their summary in place of the first one
+   */
+  private compactInIndex(instanceId: string, removed: string[], summaryId: string): void {
+    const removedIds = new Set(removed);
+    const ids = (this.instanceIndex.get(instanceId) || []).filter(id => id !== summaryId);
+    const position = ids.findIndex(id => removedIds.has(id));
+    const kept = ids.filter(id => !removedIds.has(id));
+    kept.splice(position < 0 ? kept.length : position, 0, summaryId);
+    this.instanceIndex.set(instanceId, kept);
+
+    for (const id of removed) {
+      this.locations.delete(id);
+      this.caused.delete(id);
+    }
+    if (position >= 0) {
+      this.replacedBy.set(ids[position], summaryId);
+      this.relocated.add(summaryId);
+    }
+  }
+
+  /**
+   * Summary listed in place of a compacted event (following later compactions)
+   */
+  private replacementOf(eventId: string): string | undefined {
+    let replacement = this.replacedBy.get(eventId);
+    while (replacement && !this.locations.has(replacement)) {
+      replacement = this.replacedBy.get(replacement);
+    }
+    return replacement;
+  }
+
+  private linkInIndex(parentId: string, childId: string): void {
+    const children = this.caused.get(parentId) || [];
+    if (!children.includes(childId)) {
+      children.push(childId);
+    }
+    this.caused.set(parentId, children);
+  }
+
+  /**
+   * Append a line to the active segment, rotating first when it is full
+   */
+  private writeLine(record: SegmentRecord): EventLocation {
+    if (this.config.readOnly) {
+      throw new Error(`Event store ${this.config.directory} is opened read-only`);
+    }
+    const line = Buffer.from(JSON.stringify(record) + '\n', 'utf8');
+    let active = this.segments[this.segments.length - 1];
+    if (active.bytes > 0 && active.bytes + line.length > this.config.segmentMaxBytes) {
+      active = this.rotate();
+    }
+
+    const segment = this.segments.length - 1 + this.firstSegmentNumber();
+    const location = { segment, offset: active.bytes, length: line.length - 1 };
+    fs.writeSync(this.writeFd!, line);
+    active.bytes += line.length;
+
+    if (this.config.fsync === 'always') {
+      fs.fsyncSync(this.writeFd!);
+    } else {
+      this.dirty = true;
+    }
+    return location;
+  }
+
+  private firstSegmentNumber(): number {
+    return parseInt(SEGMENT_PATTERN.exec(this.segments[0].file)![1], 10);
+  }
+
+  private rotate(): SegmentInfo {
+    fs.fsyncSync(this.writeFd!);
+    fs.closeSync(this.writeFd!);
+    this.dirty = false;
+
+    const next = this.firstSegmentNumber() + this.segments.length;
+    const info: SegmentInfo = { file: segmentFile(next), bytes: 0, events: 0 };
+    this.segments.push(info);
+    this.writeFd = fs.openSync(path.join(this.config.directory, info.file), 'a');
+    return info;
+  }
+
+  /**
+   * Flush appended events to disk (no-op when nothing was written since the last flush)
+   */
+  flush(): void {
+    if (this.dirty && this.writeFd !== null) {
+      fs.fsyncSync(this.writeFd);
+      this.dirty = false;
+    }
+  }
+
+  private readEvent(eventId: string): PersistedEvent | undefined {
+    const location = this.locations.get(eventId);
+    if (!location) return undefined;
+
+    let fd = this.readFds.get(location.segment);
+    if (fd === undefined) {
+      fd = fs.openSync(path.join(this.config.directory, segmentFile(location.segment)), 'r');
+      this.readFds.set(location.segment, fd);
+    }
+    const buffer = Buffer.alloc(location.length);
+    fs.readSync(fd, buffer, 0, location.length, location.offset);
+    return this.withLinks(JSON.parse(buffer.toString('utf8')));
+  }
+
+  private withLinks(event: PersistedEvent): PersistedEvent {
+    const caused = this.caused.get(event.id);
+    return caused ? { ...event, caused: [...caused] } : event;
+  }
+
+  async append(event: PersistedEvent, expectedVersion?: number): Promise<void> {
+    await this.initialize();
+
+    const currentVersion = this.versions.get(event.instanceId) || 0;
+    if (expectedVersion !== undefined && currentVersion !== expectedVersion) {
+      throw new ConcurrencyConflictError(event.instanceId, expectedVersion, currentVersion);
+    }
+
+    const version = expectedVersion !== undefined ? expectedVersion + 1 : event.version;
+    const record = version !== undefined ? { ...event, version } : event;
+    this.indexRecord(record, this.writeLine(record));
+    this.segments[this.segments.length - 1].events++;
+  }
+
+  async getEventsForInstance(instanceId: string): Promise<PersistedEvent[]> {
+    await this.initialize();
+    const ids = this.instanceIndex.get(instanceId) || [];
+    return ids.map(id => this.readEvent(id)).filter((e): e is PersistedEvent => e !== undefined);
+  }
+
+  async getEventsByTimeRange(startTime: number, endTime: number): Promise<PersistedEvent[]> {
+    const events = await this.getAllEvents();
+    return events.filter(e => e.persistedAt >= startTime && e.persistedAt <= endTime);
+  }
+
+  async getCausedEvents(eventId: string): Promise<PersistedEvent[]> {
+    await this.initialize();
+    const causedIds = this.caused.get(eventId) || [];
+    return causedIds.map(id => this.readEvent(id)).filter((e): e is PersistedEvent => e !== undefined);
+  }
+
+  async appendCausalLink(parentId: string, childId: string): Promise<void> {
+    await this.initialize();
+    if (!this.locations.has(parentId) || this.caused.get(parentId)?.includes(childId)) return;
+
+    const record = { causalLink: { parentId, childId } };
+    this.indexRecord(record, this.writeLine(record));
+  }
+
+  /**
+   * All events in append order (reads every segment)
+   */
+  async getAllEvents(): Promise<PersistedEvent[]> {
+    await this.initialize();
+    const events: PersistedEvent[] = [];
+    const first = this.firstSegmentNumber();
+
+    this.segments.forEach((info, i) => {
+      const data = fs.readFileSync(path.join(this.config.directory, segmentFile(first + i)));
+      let offset = 0;
+      while (offset < info.bytes) {
+        const end = data.indexOf(0x0a, offset);
+        const record: SegmentRecord = JSON.parse(data.toString('utf8', offset, end));
+        offset = end + 1;
+        // Summaries are listed where the events they replaced were
+        if ('causalLink' in record || 'compaction' in record || this.relocated.has(record.id)) continue;
+
+        if (this.locations.has(record.id)) {
+          events.push(this.withLinks(record));
+          continue;
+        }
+        const replacement = this.replacementOf(record.id);
+        const summary = replacement && this.readEvent(replacement);
+        if (summary) {
+          events.push(summary);
+        }
+      }
+    });
+    return events;
+  }
+
+  /**
+   * Replace events by a compaction summary
+   *
+   * Segments are append-only: the summary and a compaction record are appended,
+   * and the removed events are no longer read (their bytes stay in the segments).
+   */
+  async compact(instanceId: string, removedEventIds: string[], summary: PersistedEvent): Promise<void> {
+    await this.initialize();
+
+    this.indexRecord(summary, this.writeLine(summary));
+    this.segments[this.segments.length - 1].events++;
+    const record = { compaction: { instanceId, removed: removedEventIds, summaryId: summary.id } };
+    this.indexRecord(record, this.writeLine(record));
+  }
+
+  /**
+   * Get events for tracing causality chain
+   */
+  async traceEvent(eventId: string): Promise<PersistedEvent[]> {
+    await this.initialize();
+    const result: PersistedEvent[] = [];
+    const visited = new Set<string>();
+    const queue = [eventId];
+
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+
+      const event = this.readEvent(id);
+      if (!event) continue;
+      result.push(event);
+      queue.push(...(event.caused || []));
+    }
+    return result;
+  }
+
+  /**
+   * Segment files of the log, oldest first
+   */
+  async getSegments(): Promise<SegmentInfo[]> {
+    await this.initialize();
+    return this.segments.map(info => ({ ...info }));
+  }
+
+  /**
+   * Instances with at least one event
+   */
+  async getInstanceIds(): Promise<string[]> {
+    await this.initialize();
+    return Array.from(this.instanceIndex.keys());
+  }
+
+  /**
+   * Flush and close the segment files
+   */
+  async close(): Promise<void> {
+    if (!this.opening) return;
+    await this.opening;
+
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flush();
+    if (this.writeFd !== null) {
+      fs.closeSync(this.writeFd);
+      this.writeFd = null;
+    }
+    this.readFds.forEach(fd => fs.closeSync(fd));
+    this.readFds.clear();
+    this.opening = null;
+    this.segments = [];
+    this.locations.clear();
+    this.instanceIndex.clear();
+    this.caused.clear();
+    this.versions.clear();
+  }
+}
+
+/**
+ * File Snapshot Store
+ *
+ * One JSON file per instance, replaced atomically (write to a temporary file,
+ * then rename) so a crash leaves either the previous or the new snapshot.
+ */
+export class FileSnapshotStore implements SnapshotStore {
+  private directory: string;
+  private fsync: FsyncPolicy;
+  private readOnly: boolean;
+  private initialized = false;
+
+  constructor(config: FileStoreConfig) {
+    this.directory = path.join(config.directory, 'snapshots');
+    this.fsync = config.fsync ?? 'interval';
+    this.readOnly = config.readOnly ?? false;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+    if (!this.readOnly) {
+      fs.mkdirSync(this.directory, { recursive: true });
+    }
+    this.initialized = true;
+  }
+
+  private fileFor(instanceId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(instanceId)}.json`);
+  }
+
+  async saveSnapshot(snapshot: InstanceSnapshot): Promise<void> {
+    if (!this.initialized) await this.initialize();
+    if (this.readOnly) {
+      throw new Error(`Snapshot store ${this.directory} is opened read-only`);
+    }
+
+    const file = this.fileFor(snapshot.instance.id);
+    const temporary = `${file}.tmp`;
+    const fd = fs.openSync(temporary, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(snapshot));
+      if (this.fsync !== 'never') {
+        fs.fsyncSync(fd);
+      }
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(temporary, file);
+  }
+
+  async getSnapshot(instanceId: string): Promise<InstanceSnapshot | null> {
+    if (!this.initialized) await this.initialize();
+    try {
+      return JSON.parse(fs.readFileSync(this.fileFor(instanceId), 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async getAllSnapshots(): Promise<InstanceSnapshot[]> {
+    if (!this.initialized) await this.initialize();
+    if (!fs.existsSync(this.directory)) return [];
+    return fs.readdirSync(this.directory)
+      .filter(file => file.endsWith('.json'))
+      .map(file => JSON.parse(fs.readFileSync(path.join(this.directory, file), 'utf8')));
+  }
+
+  async deleteSnapshot(instanceId: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+    fs.rmSync(this.fileFor(instanceId), { force: true });
+  }
+
+  /**
+   * Get snapshots by machine name
+   */
+  async getSnapshotsByMachine(machineName: string): Promise<InstanceSnapshot[]> {
+    const snapshots = await this.getAllSnapshots();
+    return snapshots.filter(s => s.instance.machineName === machineName);
+  }
+
+  /**
+   * Get snapshots by current state
+   */
+  async getSnapshotsByState(stateName: string): Promise<InstanceSnapshot[]> {
+    const snapshots = await this.getAllSnapshots();
+    return snapshots.filter(s => s.instance.currentState === stateName);
+  }
+
+  async close(): Promise<void> {
+    this.initialized = false;
+  }
+}
+
+/**
+ * Create both file stores in the same directory
+ */
+export async function createFileStores(config: FileStoreConfig): Promise<{
+  eventStore: FileEventStore;
+  snapshotStore: FileSnapshotStore;
+}> {
+  const eventStore = new FileEventStore(config);
+  const snapshotStore = new FileSnapshotStore(config);
+
+  await eventStore.initialize();
+  await snapshotStore.initialize();
+
+  return { eventStore, snapshotStore };
+}
@@ -4,6 +4,8 @@
  */
 
 import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import {
   Component,
@@ -15,10 +17,36 @@ import {
   TransitionType,
   Sender,
   PersistenceConfig,
+  RegisteredHandler,
+  HandlerInvocation,
+  CreateInstanceOptions,
+  AvailableTransition,
+  RuntimeOptions,
+  RuntimeStats,
+  ScheduleOptions,
+  ScheduledEvent,
+  PersistedEvent,
+  InstanceSnapshot,
+  RestoreOptions,
+  RestoreReport,
+  MachineRestoreReport,
+  MigrationReport,
+  LiveMigrationMapping,
+  LiveMigrationOptions,
+  LiveMigrationReport,
+  CompactionReport,
+  ComponentReply,
+  RequestedInstance,
+  RequestOptions,
 } from './types';
 import type { MatchingRule } from './types';
 import { TimerWheel } from './timer-wheel';
-import { PersistenceManager, InMemoryEventStore, InMemorySnapshotStore } from './persistence';
+import { StateHierarchy, StateConfiguration } from './state-hierarchy';
+import { compileGuard } from './guard-expression';
+import { validateAgainstSchema, checkSchemaDefinition, ContextValidationError, SchemaValidationOptions } from './schema-validator';
+import { PersistenceManager, InMemoryEventStore, InMemorySnapshotStore, ConcurrencyConflictError } from './persistence';
+import { ComponentUpcaster } from './upcasting';
+import { COMPACTION_EVENT, CompactionSummary, createSummaryEvent, resolveRetentionPolicy, selectEventsToFold, writeArchive } from './retention';
 import type { ComponentRegistry } from './component-registry';
 
 /**
@@ -27,27 +55,44 @@ import type { ComponentRegistry } from './component-registry';
  * Supports both intra-component and cross-component communication
  */
 class SenderImpl implements Sender {
+  /**
+   * @param deferred When true (registered handlers), sends resolve once dispatched
+   *   instead of waiting for the target transition, since the caller's own
+   *   transition is still in progress and would otherwise never complete
+   */
   constructor(
     private runtime: FSMRuntime,
     private currentInstanceId: string,
-    private registry?: ComponentRegistry
+    private registry?: ComponentRegistry,
+    private deferred: boolean = false
   ) {}
 
+  private dispatch<T>(work: () => Promise<T>, dispatchedValue: T): Promise<T> {
+    if (!this.deferred) {
+      return work();
+    }
+    work().catch((error: any) => {
+      console.error(`[FSMRuntime] Deferred send from ${this.currentInstanceId} failed:`, error.message);
+    });
+    return Promise.resolve(dispatchedValue);
+  }
+
   async sendToSelf(event: FSMEvent): Promise<void> {
     // Event is automatically queued if called during a transition
     // (onExit, triggeredMethod, or onEntry). Processed after transition completes.
-    return this.runtime.sendEvent(this.currentInstanceId, event);
+    return this.dispatch(() => this.runtime.sendEvent(this.currentInstanceId, event), undefined);
   }
 
   async sendTo(instanceId: string, event: FSMEvent): Promise<void> {
-    return this.runtime.sendEvent(instanceId, event);
+    return this.dispatch(() => this.runtime.sendEvent(instanceId, event), undefined);
   }
 
   async sendToComponent(componentName: string, instanceId: string, event: FSMEvent): Promise<void> {
     if (!this.registry) {
       throw new Error('Cross-component communication requires ComponentRegistry');
     }
-    return this.registry.sendEventToComponent(componentName, instanceId, event);
+    const registry = this.registry;
+    return this.dispatch(() => registry.sendEventToComponent(componentName, instanceId, event), undefined);
   }
 
   async broadcast(
@@ -62,17 +107,18 @@ class SenderImpl implements Sender {
       if (!this.registry) {
         throw new Error('Cross-component communication requires ComponentRegistry');
       }
-      return this.registry.broadcastToComponent(
+      const registry = this.registry;
+      return this.dispatch(() => registry.broadcastToComponent(
         componentName,
         machineName,
         event,
         this.runtime.getComponentName(),
         undefined, // No PropertyFilter
         currentState
-      );
+      ), 0);
     } else {
-      // Intra-component
-      return this.runtime.broadcastEvent(machineName, event, currentState);
+      // Intra-component (deferred broadcasts resolve with 0: delivery happens later)
+      return this.dispatch(() => this.runtime.broadcastEvent(machineName, event, currentState), 0);
     }
   }
 
@@ -80,6 +126,14 @@ class SenderImpl implements Sender {
     return this.runtime.createInstance(machineName, initialContext);
   }
 
+  schedule(event: FSMEvent, options: ScheduleOptions): Promise<ScheduledEvent> {
+    return this.runtime.scheduleEvent(this.currentInstanceId, event, options);
+  }
+
+  cancelScheduled(scheduleId: string): Promise<boolean> {
+    return this.runtime.cancelScheduledEvent(this.currentInstanceId, scheduleId);
+  }
+
   createInstanceInComponent(
     componentName: string,
     machineName: string,
@@ -90,6 +144,165 @@ class SenderImpl implements Sender {
     }
     return this.registry.createInstanceInComponent(componentName, machineName, initialContext);
   }
+
+  // Requests are never deferred: the caller needs the reply
+  async request(
+    componentName: string,
+    machineName: string,
+    event: FSMEvent,
+    options: RequestOptions = {}
+  ): Promise<ComponentReply> {
+    if (!this.registry) {
+      throw new Error('Cross-component communication requires ComponentRegistry');
+    }
+    return this.registry.requestComponent(componentName, machineName, event, {
+      ...options,
+      sourceComponent: this.runtime.getComponentName(),
+    });
+  }
+
+  async requestInstance(
+    componentName: string,
+    machineName: string,
+    initialContext: Record<string, any>,
+    options: Pick<RequestOptions, 'timeoutMs'> = {}
+  ): Promise<RequestedInstance> {
+    if (!this.registry) {
+      throw new Error('Cross-component communication requires ComponentRegistry');
+    }
+    return this.registry.requestInstance(componentName, machineName, initialContext, {
+      ...options,
+      sourceComponent: this.runtime.getComponentName(),
+    });
+  }
+}
+
+/**
+ * Raised internally when a registered handler vetoes a transition
+ */
+class TransitionVetoedError extends Error {
+  constructor(public hook: HandlerInvocation['hook'], public method: string, public reason?: string) {
+    super(`Transition vetoed by ${hook} handler '${method}'${reason ? `: ${reason}` : ''}`);
+    this.name = 'TransitionVetoedError';
+  }
+}
+
+/**
+ * Raised internally when a registered handler throws
+ */
+class HandlerExecutionError extends Error {
+  constructor(public hook: HandlerInvocation['hook'], public method: string, public cause: any) {
+    super(`${hook} handler '${method}' failed: ${cause?.message ?? cause}`);
+    this.name = 'HandlerExecutionError';
+  }
+}
+
+/**
+ * Thrown when an event is sent to an instance whose mailbox is full
+ */
+export class MailboxFullError extends Error {
+  constructor(public instanceId: string, public queueDepth: number) {
+    super(`Mailbox of instance ${instanceId} is full (${queueDepth} queued events)`);
+    this.name = 'MailboxFullError';
+  }
+}
+
+/**
+ * Thrown when live instances cannot be mapped to a new component definition
+ */
+export class InstanceMigrationError extends Error {
+  constructor(public report: LiveMigrationReport) {
+    super(`${report.unmappable.length} instance(s) of ${report.componentName} cannot be migrated to version ${report.toVersion}`);
+    this.name = 'InstanceMigrationError';
+  }
+}
+
+/**
+ * Event waiting in an instance mailbox
+ */
+interface QueuedEvent {
+  event: FSMEvent;
+  resolve: () => void;
+  reject: (err: any) => void;
+  mailbox: InstanceMailbox;
+  followUps: Promise<void>[]; // Events sent to the same instance while this one was processed
+  done: boolean;
+  cause?: QueuedEvent; // Event being processed when this one was sent (until this one is processed)
+  eventId?: string; // Last event persisted while processing this one (causedBy of the events it sends)
+}
+
+/**
+ * Per-instance mailbox: events of one instance are processed in FIFO order,
+ * one at a time, so a transition always runs to completion before the next
+ */
+interface InstanceMailbox {
+  instanceId: string;
+  queue: QueuedEvent[];
+  scheduled: boolean; // Draining or waiting for a concurrency slot
+}
+
+/**
+ * Event being processed in the current async context.
+ * Sends made from a transition (hooks, handlers, parent notifications) bypass
+ * the concurrency limit, since the transition may await them while holding its slot.
+ */
+const processingEvent = new AsyncLocalStorage<QueuedEvent>();
+
+/**
+ * Instance data captured before a transition, restored on veto or handler failure
+ */
+interface TransitionCheckpoint {
+  currentState: string;
+  regionStates?: Record<string, string>;
+  history?: Record<string, string>;
+  context: Record<string, any>;
+  publicMember?: Record<string, any>;
+  internalMember?: Record<string, any>;
+  updatedAt: number;
+}
+
+/**
+ * Resolve the fire time of a scheduled event (epoch ms)
+ */
+function resolveFireTime(options: ScheduleOptions): number {
+  if ((options.at === undefined) === (options.delayMs === undefined)) {
+    throw new Error('Schedule requires exactly one of "at" or "delayMs"');
+  }
+  const fireAt = options.at !== undefined
+    ? new Date(options.at).getTime()
+    : Date.now() + options.delayMs!;
+  if (!Number.isFinite(fireAt)) {
+    throw new Error(`Invalid schedule time: ${options.at ?? options.delayMs}`);
+  }
+  return fireAt;
+}
+
+/**
+ * Timer wheel task of a scheduled event
+ */
+function scheduledTaskId(scheduleId: string): string {
+  return `scheduled-${scheduleId}`;
+}
+
+/**
+ * Whether a timeout transition computes its duration from instance data
+ */
+function isComputedTimeout(transition: Transition): boolean {
+  return Boolean(transition.timeoutExpr || transition.timeoutFromContext || transition.deadlineAt);
+}
+
+/**
+ * Deep copy of instance data (falls back to a shallow copy for non-cloneable values)
+ */
+function cloneData<T>(value: T): T {
+  if (value === undefined || value === null) {
+    return value;
+  }
+  try {
+    return structuredClone(value);
+  } catch {
+    return { ...(value as any) };
+  }
 }
 
 /**
@@ -99,9 +312,11 @@ class SenderImpl implements Sender {
 export class FSMRuntime extends EventEmitter {
   private instances: Map<string, FSMInstance>;
   private machines: Map<string, StateMachine>;
+  private hierarchies: Map<string, StateHierarchy>; // machineName → composite state resolution
   private timerWheel: TimerWheel; // Performance: Single timer for all timeouts
   private timeoutTasks: Map<string, string[]>; // instanceId → taskIds (for cleanup)
   private persistence: PersistenceManager | null;
+  private upcaster: ComponentUpcaster; // Migrates records of older definition versions on read
   private componentDef: Component;
   private registry?: ComponentRegistry; // For cross-component communication
 
@@ -113,15 +328,36 @@ export class FSMRuntime extends EventEmitter {
   // In-memory event history (used when persistence is not configured)
   private eventHistory: Map<string, import('./types').PersistedEvent[]>; // instanceId → events
 
-  // Event queue: events emitted by triggered methods / onEntry / onExit are deferred
-  // until the current transition is fully complete (XComponent pattern)
-  private _processingTransition: boolean = false;
-  private _eventQueue: Array<{ instanceId: string; event: FSMEvent; resolve: () => void; reject: (err: any) => void }> = [];
+  // Per-instance mailboxes: events emitted by triggered methods / onEntry / onExit
+  // are deferred until the current transition of their instance is fully complete
+  // (XComponent pattern), while other instances keep progressing
+  private options: RuntimeOptions;
+  private mailboxes: Map<string, InstanceMailbox> = new Map(); // instanceId → mailbox (while busy)
+  private readyMailboxes: InstanceMailbox[] = []; // Waiting for a concurrency slot
+  private processingCount: number = 0;
+  private eventCounters = { processed: 0, failed: 0, rejected: 0, duplicate: 0 };
+
+  // Idempotency: recently applied event keys per instance, oldest first
+  private idempotencyWindows: Map<string, Set<string>> = new Map();
+  private creationWrites: Map<string, Promise<Error | undefined>> = new Map(); // instanceId → creation event append in flight (its error)
 
-  constructor(component: Component, persistenceConfig?: PersistenceConfig) {
+  // Instances whose scheduled events changed during their own transition
+  // (saved with the snapshot taken when the transition completes)
+  private unsavedSchedules: Set<string> = new Set();
+
+  // Handlers registered via registerHandlers(), awaited during transitions
+  private handlers: Map<string, RegisteredHandler> = new Map();
+
+  // Periodic compactHistory() (RuntimeOptions.compactionIntervalMs) and the run in progress
+  private compactionTimer: NodeJS.Timeout | null = null;
+  private compaction: Promise<CompactionReport> | null = null;
+
+  constructor(component: Component, persistenceConfig?: PersistenceConfig, options: RuntimeOptions = {}) {
     super();
+    this.options = options;
     this.instances = new Map();
     this.machines = new Map();
+    this.hierarchies = new Map();
     // Timer wheel: 10ms ticks for high precision, 6000 buckets = 60s max
     // Still O(1) with single timer - 10ms granularity is sufficient for most use cases
     // For longer timeouts (>60s), tasks will wrap around (multi-lap)
@@ -147,14 +383,33 @@ export class FSMRuntime extends EventEmitter {
         eventSourcing: persistenceConfig.eventSourcing,
         snapshots: persistenceConfig.snapshots,
         snapshotInterval: persistenceConfig.snapshotInterval,
+        definitionVersion: component.version,
       });
     } else {
       this.persistence = null;
     }
+    this.upcaster = new ComponentUpcaster(component);
 
-    // Index machines by name and validate cross-component transitions
+    // Index machines by name and validate schemas and cross-component transitions
     component.stateMachines.forEach(machine => {
       this.machines.set(machine.name, machine);
+      this.hierarchies.set(machine.name, new StateHierarchy(machine));
+
+      // Validate: schemas only use keywords the validator enforces
+      if (machine.contextSchema) {
+        const problems = checkSchemaDefinition(machine.contextSchema);
+        if (problems.length > 0) {
+          throw new Error(`Invalid contextSchema of ${component.name}.${machine.name}: ${problems.join('; ')}`);
+        }
+      }
+      (machine.transitions || []).forEach(transition => {
+        const problems = transition.payloadSchema ? checkSchemaDefinition(transition.payloadSchema) : [];
+        if (problems.length > 0) {
+          throw new Error(
+            `Invalid payloadSchema of ${component.name}.${machine.name} transition "${transition.event}": ${problems.join('; ')}`
+          );
+        }
+      });
 
       // Validate: cross_component transitions with targetEvent MUST have matchingRules
       (machine.transitions || []).forEach(transition => {
@@ -171,6 +426,15 @@ export class FSMRuntime extends EventEmitter {
 
     // Setup cascading rules engine (XComponent pattern)
     this.setupCascadingEngine();
+
+    if (options.compactionIntervalMs) {
+      this.compactionTimer = setInterval(() => {
+        this.compactHistory().catch(error => {
+          console.error(`[FSMRuntime] History compaction of ${component.name} failed:`, error.message);
+        });
+      }, options.compactionIntervalMs);
+      this.compactionTimer.unref();
+    }
   }
 
   /**
@@ -182,25 +446,39 @@ export class FSMRuntime extends EventEmitter {
    *
    * @param machineName State machine name
    * @param initialContext Initial context or public member data
+   * @param parentInfo Parent instance (set for inter_machine transitions)
+   * @param options Creation options
    * @returns Instance ID
+   * @throws ContextValidationError if initialContext does not match the machine's contextSchema
    */
   createInstance(
     machineName: string,
     initialContext: Record<string, any> = {},
-    parentInfo?: { instanceId: string; machineName: string }
+    parentInfo?: { instanceId: string; machineName: string },
+    options: CreateInstanceOptions = {}
   ): string {
     const machine = this.machines.get(machineName);
     if (!machine) {
       throw new Error(`Machine ${machineName} not found`);
     }
 
-    const instanceId = uuidv4();
+    this.validateContext(machine, initialContext, { partial: options.isEntryPoint });
+
+    const instanceId = options.instanceId || uuidv4();
+    if (this.instances.has(instanceId)) {
+      throw new Error(`Instance ${instanceId} already exists`);
+    }
+    const hierarchy = this.getHierarchy(machine);
+    // Composite initial states are entered through their initial substate,
+    // parallel states through the initial state of every region
+    const { configuration, entered } = hierarchy.getInitialConfiguration(machine.initialState);
+    const initialLeaf = configuration.currentState;
 
     // XComponent pattern: separate publicMember and internalMember
     const instance: FSMInstance = {
       id: instanceId,
       machineName,
-      currentState: machine.initialState,
+      currentState: initialLeaf,
       context: machine.publicMemberType ? {} : initialContext,
       publicMember: machine.publicMemberType ? initialContext : undefined,
       internalMember: machine.publicMemberType ? {} : undefined,
@@ -210,7 +488,18 @@ export class FSMRuntime extends EventEmitter {
       // Parent linking for child-to-parent communication
       parentInstanceId: parentInfo?.instanceId,
       parentMachineName: parentInfo?.machineName,
+      definitionVersion: this.componentDef.version,
     };
+    if (configuration.regionStates) {
+      instance.regionStates = configuration.regionStates;
+    }
+    if (options.isEntryPoint) {
+      instance.isEntryPoint = true;
+    }
+    if (this.persistence?.isEventSourcingEnabled()) {
+      // The creation event is version 1 of the instance stream
+      instance.version = 1;
+    }
 
     this.instances.set(instanceId, instance);
 
@@ -234,41 +523,92 @@ export class FSMRuntime extends EventEmitter {
         timestamp: Date.now()
       },
       stateBefore: '',
-      stateAfter: machine.initialState,
+      stateAfter: initialLeaf,
       persistedAt: Date.now(),
-      publicMemberSnapshot: instance.publicMember ? { ...instance.publicMember } : undefined
+      publicMemberSnapshot: instance.publicMember ? { ...instance.publicMember } : undefined,
+      version: instance.version,
+      definitionVersion: this.componentDef.version
     };
     this.eventHistory.set(instanceId, [creationEvent]);
 
     // Persist creation event to database for audit trail correlation
+    // (not awaited: the first event of the instance waits for it, see processEvent;
+    // the instance is discarded when the write fails)
     if (this.persistence) {
-      this.persistence.persistEvent(
+      const written = this.persistence.persistEvent(
         instanceId,
         machineName,
         this.componentDef.name,
         creationEvent.event,
         '',
-        machine.initialState,
+        initialLeaf,
+        this.causingEventIds(),
         undefined,
         undefined,
-        undefined,
-        instance.publicMember ? { ...instance.publicMember } : (instance.context ? { ...instance.context } : undefined)
-      ).catch((err: any) => {
+        instance.publicMember ? { ...instance.publicMember } : (instance.context ? { ...instance.context } : undefined),
+        0
+      ).then(() => undefined, (err: any) => {
         console.error(`[FSMRuntime] Failed to persist creation event for ${instanceId}:`, err.message);
+        this.discardInstance(instanceId, err);
+        return err instanceof Error ? err : new Error(String(err));
+      }).finally(() => {
+        if (this.creationWrites.get(instanceId) === written) {
+          this.creationWrites.delete(instanceId);
+        }
       });
+      this.creationWrites.set(instanceId, written);
     }
 
     this.emit('instance_created', instance);
 
-    // Setup timeout transitions if any from initial state
-    this.setupTimeouts(instanceId, machine.initialState);
-
-    // Setup auto-transitions if any from initial state
-    this.setupAutoTransitions(instanceId, machine.initialState);
+    // Setup timeout and auto-transitions of the initial state (and its enclosing composites and regions)
+    for (const stateName of entered) {
+      this.setupTimeouts(instanceId, stateName);
+      this.setupAutoTransitions(instanceId, stateName);
+    }
+    this.setupJoinTransitions(instanceId);
 
     return instanceId;
   }
 
+  /**
+   * Wait for the creation event of an instance to be persisted
+   *
+   * Resolves at once when no write is in flight (call it right after createInstance).
+   *
+   * @throws Error when the write failed (the instance was discarded)
+   */
+  async waitForCreation(instanceId: string): Promise<void> {
+    const failure = await this.creationWrites.get(instanceId);
+    if (failure) {
+      throw new Error(`Instance ${instanceId} was not created: ${failure.message}`);
+    }
+  }
+
+  /**
+   * Drop an instance whose creation event could not be persisted
+   *
+   * Its later appends would conflict and it could not be reloaded from the
+   * stores, so it is removed before it takes any event.
+   */
+  private discardInstance(instanceId: string, error: any): void {
+    const instance = this.instances.get(instanceId);
+    if (!instance) {
+      return;
+    }
+    this.removeFromIndex(instance);
+    this.clearTimeouts(instanceId);
+    this.disarmScheduledEvents(instance);
+    this.idempotencyWindows.delete(instanceId);
+    this.eventHistory.delete(instanceId);
+    this.instances.delete(instanceId);
+    this.emit('instance_creation_failed', {
+      instanceId,
+      machineName: instance.machineName,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
   /**
    * Send event to an instance
    *
@@ -278,16 +618,245 @@ export class FSMRuntime extends EventEmitter {
   async sendEvent(instanceId: string, event: FSMEvent): Promise<void> {
     console.log(`[FSMRuntime] sendEvent called: instanceId=${instanceId}, event=${JSON.stringify(event)}`);
 
-    // If a transition is in progress, queue this event for later processing.
-    // This ensures triggered methods, onEntry, and onExit cannot cause
-    // re-entrant state changes during a transition (XComponent pattern).
-    if (this._processingTransition) {
-      console.log(`[FSMRuntime] Transition in progress — queueing event ${event.type} for ${instanceId}`);
-      return new Promise<void>((resolve, reject) => {
-        this._eventQueue.push({ instanceId, event, resolve, reject });
-      });
+    let mailbox = this.mailboxes.get(instanceId);
+    const queueDepth = mailbox ? mailbox.queue.length : 0;
+    if (this.options.maxQueueDepth !== undefined && queueDepth >= this.options.maxQueueDepth) {
+      this.eventCounters.rejected++;
+      throw new MailboxFullError(instanceId, queueDepth);
+    }
+
+    if (!mailbox) {
+      mailbox = { instanceId, queue: [], scheduled: false };
+      this.mailboxes.set(instanceId, mailbox);
+    }
+    const target = mailbox;
+    const cause = processingEvent.getStore();
+
+    const processed = new Promise<void>((resolve, reject) => {
+      target.queue.push({ event, resolve, reject, mailbox: target, followUps: [], done: false, cause });
+
+      // If a transition of this instance is in progress, the event waits in its mailbox.
+      // This ensures triggered methods, onEntry, and onExit cannot cause
+      // re-entrant state changes during a transition (XComponent pattern).
+      if (target.scheduled) {
+        return;
+      }
+      this.scheduleMailbox(target, cause !== undefined && !cause.done);
+    });
+
+    // The event that caused this send settles only once this one is processed.
+    // Limited to the same instance: waiting on other instances could deadlock
+    // when both sides await each other (e.g. parent notifications).
+    if (cause && !cause.done && cause.mailbox === target) {
+      cause.followUps.push(processed.catch(() => undefined));
+    }
+    return processed;
+  }
+
+  /**
+   * Get the number of events waiting in the mailbox of an instance
+   */
+  getQueueDepth(instanceId: string): number {
+    return this.mailboxes.get(instanceId)?.queue.length ?? 0;
+  }
+
+  /**
+   * Get event processing statistics (mailboxes, queue depths, throughput)
+   */
+  getStats(): RuntimeStats {
+    let queuedEvents = 0;
+    let largestQueueDepth = 0;
+    for (const mailbox of this.mailboxes.values()) {
+      queuedEvents += mailbox.queue.length;
+      largestQueueDepth = Math.max(largestQueueDepth, mailbox.queue.length);
+    }
+
+    return {
+      instances: this.instances.size,
+      activeMailboxes: this.mailboxes.size,
+      processingInstances: this.processingCount,
+      waitingInstances: this.readyMailboxes.length,
+      queuedEvents,
+      largestQueueDepth,
+      processedEvents: this.eventCounters.processed,
+      failedEvents: this.eventCounters.failed,
+      rejectedEvents: this.eventCounters.rejected,
+      duplicateEvents: this.eventCounters.duplicate,
+    };
+  }
+
+  /**
+   * Start draining a mailbox, or park it until a concurrency slot frees up
+   */
+  private scheduleMailbox(mailbox: InstanceMailbox, fromTransition: boolean): void {
+    mailbox.scheduled = true;
+
+    const limit = this.options.maxConcurrentInstances;
+    if (limit === undefined || this.processingCount < limit || fromTransition) {
+      this.processingCount++;
+      void this.drainMailbox(mailbox);
+    } else {
+      this.readyMailboxes.push(mailbox);
+    }
+  }
+
+  /**
+   * Process the events of a mailbox in FIFO order, one at a time
+   *
+   * An event resolves once the events sent during its processing (e.g. by
+   * sender.sendToSelf) are processed as well. The slot is handed over to the next waiting mailbox between events, so a
+   * busy instance cannot starve the others when the concurrency limit is reached.
+   */
+  private async drainMailbox(mailbox: InstanceMailbox): Promise<void> {
+    while (mailbox.queue.length > 0) {
+      const queued = mailbox.queue.shift()!;
+      try {
+        await processingEvent.run(queued, () => this.processEvent(mailbox.instanceId, queued.event));
+        this.eventCounters.processed++;
+        // Not awaited: follow-ups sent to this instance are processed by this loop
+        void Promise.all(queued.followUps).then(() => queued.resolve());
+      } catch (err) {
+        this.eventCounters.failed++;
+        queued.reject(err);
+      }
+      queued.done = true;
+      queued.cause = undefined;
+
+      if (mailbox.queue.length > 0 && this.readyMailboxes.length > 0) {
+        this.readyMailboxes.push(mailbox);
+        this.releaseSlot();
+        return;
+      }
+    }
+
+    mailbox.scheduled = false;
+    this.mailboxes.delete(mailbox.instanceId);
+    this.releaseSlot();
+  }
+
+  /**
+   * Release a concurrency slot and start the next waiting mailbox
+   */
+  private releaseSlot(): void {
+    this.processingCount--;
+    const next = this.readyMailboxes.shift();
+    if (next) {
+      this.processingCount++;
+      void this.drainMailbox(next);
+    }
+  }
+
+  /**
+   * Process one event of an instance (called from its mailbox)
+   *
+   * When another runtime appended to the instance first, the instance is
+   * reloaded from the stores and the event retried (concurrencyRetries times);
+   * each conflict is emitted as concurrency_conflict.
+   */
+  private async processEvent(instanceId: string, event: FSMEvent): Promise<void> {
+    // Appends expect the creation event (version 1) to be stored
+    const creation = this.creationWrites.get(instanceId);
+    if (creation) {
+      const failure = await creation;
+      if (failure) {
+        throw new Error(`Instance ${instanceId} was not created: ${failure.message}`);
+      }
+    }
+
+    const retries = this.options.concurrencyRetries ?? 1;
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.deliverEvent(instanceId, event);
+        return;
+      } catch (error: any) {
+        if (!(error instanceof ConcurrencyConflictError)) {
+          throw error;
+        }
+
+        const retrying = attempt < retries;
+        console.warn(`[FSMRuntime] ${error.message}${retrying ? ' - reloading and retrying' : ''}`);
+        this.emit('concurrency_conflict', {
+          instanceId,
+          event,
+          expectedVersion: error.expectedVersion,
+          actualVersion: error.actualVersion,
+          retrying,
+        });
+
+        // Reload in any case so that the next events start from the stored state
+        await this.reloadInstance(instanceId);
+        if (!retrying) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Deliver one event to an instance
+   *
+   * Events carrying an idempotencyKey (or eventId) already applied to the
+   * instance are ignored, so retried calls and redelivered broker messages
+   * do not apply a transition twice. Only the keys of persisted events (fired
+   * or guard-rejected) enter the window, so that it is the same after a restart.
+   */
+  private async deliverEvent(instanceId: string, event: FSMEvent): Promise<void> {
+    const key = event.idempotencyKey ?? event.eventId;
+    const window = key ? await this.getIdempotencyWindow(instanceId) : undefined;
+
+    if (key && window?.has(key)) {
+      this.eventCounters.duplicate++;
+      this.emit('duplicate_event_ignored', { instanceId, event, idempotencyKey: key });
+      return;
+    }
+
+    let recorded: boolean;
+    try {
+      recorded = await this.applyEvent(instanceId, event);
+    } finally {
+      // Final state reached (or unknown instance): nothing left to deduplicate
+      if (!this.instances.has(instanceId)) {
+        this.idempotencyWindows.delete(instanceId);
+      }
+    }
+
+    if (key && window && recorded && this.instances.has(instanceId)) {
+      window.add(key);
+      if (window.size > this.getIdempotencyWindowSize()) {
+        window.delete(window.values().next().value!);
+      }
+    }
+  }
+
+  private getIdempotencyWindowSize(): number {
+    return this.options.idempotencyWindow ?? 100;
+  }
+
+  /**
+   * Get the idempotency window of an instance, loading the keys of persisted
+   * events on first use so deduplication survives a restart
+   */
+  private async getIdempotencyWindow(instanceId: string): Promise<Set<string> | undefined> {
+    const size = this.getIdempotencyWindowSize();
+    if (size <= 0) {
+      return undefined;
+    }
+
+    let window = this.idempotencyWindows.get(instanceId);
+    if (!window) {
+      const keys = this.persistence ? await this.persistence.getIdempotencyKeys(instanceId, size) : [];
+      window = new Set(keys);
+      this.idempotencyWindows.set(instanceId, window);
     }
+    return window;
+  }
 
+  /**
+   * Apply one event to an instance: select and fire its transition(s)
+   *
+   * @returns false when no transition matched (nothing persisted)
+   */
+  private async applyEvent(instanceId: string, event: FSMEvent): Promise<boolean> {
     const instance = this.instances.get(instanceId);
     if (!instance) {
       throw new Error(`Instance ${instanceId} not found`);
@@ -309,46 +878,147 @@ export class FSMRuntime extends EventEmitter {
     // Use publicMember if available (XComponent pattern), otherwise fallback to context
     const instanceContext = instance.publicMember || instance.context;
 
-    // Find transition using XComponent-style disambiguation (matchingRules)
-    const transition = this.findTransition(machine, instance.currentState, event, instanceContext);
+    // Find transition(s) using XComponent-style disambiguation (guards, matchingRules).
+    // Inside a parallel state, every region may take its own transition for the event.
+    const rejectedByGuard: Transition[] = [];
+    const steps = this.selectTransitions(machine, instance, event, instanceContext, rejectedByGuard);
 
-    if (!transition) {
+    if (steps.length === 0 && rejectedByGuard.length > 0) {
+      await this.recordGuardRejection(instance, event, rejectedByGuard);
+      return true;
+    }
+
+    if (steps.length === 0) {
       console.log(`[FSMRuntime] No transition found - emitting event_ignored`);
       this.emit('event_ignored', { instanceId, event, currentState: instance.currentState });
-      return;
+      return false;
     }
 
-    console.log(`[FSMRuntime] Transition found: ${transition.from} -> ${transition.to} (type: ${transition.type})`);
-    console.log(`[FSMRuntime] targetComponent: ${transition.targetComponent}, targetMachine: ${transition.targetMachine}, targetEvent: ${transition.targetEvent}`);
-
-    const previousState = instance.currentState;
+    for (const { transition } of steps) {
+      console.log(`[FSMRuntime] Transition found: ${transition.from} -> ${transition.to} (type: ${transition.type})`);
+      console.log(`[FSMRuntime] targetComponent: ${transition.targetComponent}, targetMachine: ${transition.targetMachine}, targetEvent: ${transition.targetEvent}`);
+
+      // Reject invalid payloads before any hook runs
+      if (transition.payloadSchema) {
+        const issues = validateAgainstSchema(event.payload, transition.payloadSchema);
+        if (issues.length > 0) {
+          const error = new ContextValidationError(`Invalid payload for ${event.type}`, issues, machine.name, 'payload');
+          this.emit('validation_error', { instanceId, machineName: machine.name, event, target: 'payload', issues });
+          throw error;
+        }
+      }
+    }
 
-    // Mark transition as in progress — any sendEvent calls from triggered methods,
-    // onEntry, or onExit will be queued until this transition completes.
-    this._processingTransition = true;
+    for (const { transition, activeLeaf } of steps) {
+      // An earlier region transition may have left the parallel state or ended the instance
+      if (!this.instances.has(instanceId) || instance.status !== 'active' || !this.isStateActive(instance, activeLeaf)) {
+        continue;
+      }
+      await this.fireTransition(instance, machine, transition, event, activeLeaf);
+    }
+    return true;
+  }
 
-    try {
-      // Step 1: Execute onExit method of source state (if defined)
-      const sourceState = machine.states.find(s => s.name === previousState);
-      const exitMethod = sourceState?.onExit || sourceState?.exitMethod;
-      if (exitMethod) {
-        const sender = new SenderImpl(this, instance.id, this.registry);
-        const instanceContext = instance.publicMember || instance.context;
-        this._safeEmitUserCode('exit_method', {
-          instanceId: instance.id,
-          method: exitMethod,
-          state: previousState,
-          event,
-          context: instanceContext,
-          sender,
-        });
+  /**
+   * Select the transitions taken by an event
+   *
+   * Outside parallel states this is the single transition found from the
+   * current state (or inherited from enclosing states). While a parallel
+   * state is active, every region whose active states accept the event
+   * takes its own transition; transitions declared on the parallel state
+   * (or its ancestors) are only considered when no region accepts it.
+   */
+  private selectTransitions(
+    machine: StateMachine,
+    configuration: StateConfiguration,
+    event: FSMEvent,
+    instanceContext: Record<string, any>,
+    rejectedByGuard?: Transition[]
+  ): Array<{ transition: Transition; activeLeaf: string }> {
+    const hierarchy = this.getHierarchy(machine);
+
+    if (configuration.regionStates) {
+      const steps: Array<{ transition: Transition; activeLeaf: string }> = [];
+      for (const region of hierarchy.getRegions(configuration.currentState)) {
+        const regionLeaf = configuration.regionStates[region.name];
+        if (!regionLeaf) continue;
+        for (const stateName of hierarchy.getRegionPath(regionLeaf)) {
+          const transition = this.findTransitionFromState(machine, stateName, event, instanceContext, rejectedByGuard);
+          if (transition) {
+            steps.push({ transition, activeLeaf: regionLeaf });
+            break;
+          }
+        }
+      }
+      if (steps.length > 0) {
+        return steps;
       }
+    }
 
-      // Step 2: Execute triggered method of transition (if defined)
-      await this.executeTransition(instance, transition, event);
+    const transition = this.findTransition(
+      machine,
+      configuration.currentState,
+      event,
+      instanceContext,
+      rejectedByGuard,
+      hierarchy.isJoinReady(configuration)
+    );
+    return transition ? [{ transition, activeLeaf: configuration.currentState }] : [];
+  }
 
-      // Merge event payload into instance context when:
-      // 1. The transition does NOT have matchingRules (matchingRules use payload for routing only)
+  /**
+   * Fire a single transition (called with the transition lock held)
+   *
+   * Runs onExit / triggeredMethod / onEntry hooks, commits the new
+   * configuration (indexes, persistence, history, state_change), then
+   * handles inter-machine and cross-component effects, terminal states,
+   * timeouts and auto-transitions.
+   */
+  private async fireTransition(
+    instance: FSMInstance,
+    machine: StateMachine,
+    transition: Transition,
+    event: FSMEvent,
+    activeLeaf: string
+  ): Promise<void> {
+    const instanceId = instance.id;
+    const previousActiveStates = this.getActiveStates(instance);
+
+    // States exited (innermost first) and entered (outermost first) by this transition
+    const hierarchy = this.getHierarchy(machine);
+    const { exited, entered, configuration, region, stateBefore, stateAfter } =
+      hierarchy.applyTransition(instance, activeLeaf, transition.from, transition.to);
+
+    // Checkpoint for rollback: registered handlers and context validation can abort a transition
+    const checkpoint = this.handlers.size > 0 || this.hasContextValidation(machine, transition)
+      ? this.captureCheckpoint(instance)
+      : null;
+
+    try {
+      // Step 1: Execute onExit methods of exited states, innermost first (if defined)
+      for (const exitedState of exited) {
+        const sourceState = hierarchy.getState(exitedState);
+        const exitMethod = sourceState?.onExit || sourceState?.exitMethod;
+        if (exitMethod) {
+          await this.invokeHandler('onExit', exitMethod, instance, transition, event);
+          const sender = new SenderImpl(this, instance.id, this.registry);
+          const instanceContext = instance.publicMember || instance.context;
+          this._safeEmitUserCode('exit_method', {
+            instanceId: instance.id,
+            method: exitMethod,
+            state: exitedState,
+            event,
+            context: instanceContext,
+            sender,
+          });
+        }
+      }
+
+      // Step 2: Execute triggered method of transition (if defined)
+      await this.executeTransition(instance, transition, event);
+
+      // Merge event payload into instance context when:
+      // 1. The transition does NOT have matchingRules (matchingRules use payload for routing only)
       // 2. There is actual payload data
       // This allows passing data via events (e.g., amount when submitting expense)
       const hasMatchingRules = transition.matchingRules && transition.matchingRules.length > 0;
@@ -360,11 +1030,36 @@ export class FSMRuntime extends EventEmitter {
       }
 
       // Update instance
-      instance.currentState = transition.to;
+      instance.currentState = configuration.currentState;
+      if (configuration.regionStates) {
+        instance.regionStates = configuration.regionStates;
+      } else {
+        delete instance.regionStates;
+      }
+      if (configuration.history) {
+        // Recorded on exit of composite states with a history pseudo-state
+        instance.history = configuration.history;
+      }
       instance.updatedAt = Date.now();
 
+      // Step 3: Run the registered onEntry handlers (outermost first) before committing,
+      // so that a veto or failure can still roll the instance back
+      const entryMethods: Array<{ state: string; method: string }> = [];
+      for (const enteredState of entered) {
+        const stateObj = hierarchy.getState(enteredState);
+        const entryMethod = stateObj?.onEntry || stateObj?.entryMethod;
+        if (entryMethod) {
+          await this.invokeHandler('onEntry', entryMethod, instance, transition, event);
+          entryMethods.push({ state: enteredState, method: entryMethod });
+        }
+      }
+      const newStateObj = hierarchy.getState(stateAfter);
+
+      // Validate the merged context (and the child context for inter_machine) before committing
+      this.validateTransitionContexts(instance, machine, transition, event);
+
       // Update indexes
-      this.updateIndexOnStateChange(instance, previousState, transition.to);
+      this.updateIndexOnStateChange(instance, previousActiveStates);
 
       // Extract cross-component source info (set by RuntimeBroadcaster)
       const sourceComponentName = (event as any)._sourceComponent || undefined;
@@ -377,16 +1072,23 @@ export class FSMRuntime extends EventEmitter {
           instance.machineName,
           this.componentDef.name,
           event,
-          previousState,
-          transition.to,
-          undefined, // causedBy (handled internally by persistence)
+          stateBefore,
+          stateAfter,
+          this.causingEventIds(),
           sourceComponentName,
           undefined, // targetComponentName
-          instance.publicMember ? { ...instance.publicMember } : (instance.context ? { ...instance.context } : undefined)
+          instance.publicMember ? { ...instance.publicMember } : (instance.context ? { ...instance.context } : undefined),
+          instance.version ?? 0
         );
+        if (eventId) {
+          instance.version = (instance.version ?? 0) + 1;
+        }
 
-        // Set as current event for causality tracking
-        this.persistence.setCurrentEventId(eventId);
+        // Causes the events sent while this one is processed
+        const processing = processingEvent.getStore();
+        if (eventId && processing) {
+          processing.eventId = eventId;
+        }
       }
 
       // Always store in-memory history (for audit/debug even without persistence)
@@ -396,40 +1098,42 @@ export class FSMRuntime extends EventEmitter {
         machineName: instance.machineName,
         componentName: this.componentDef.name,
         event,
-        stateBefore: previousState,
-        stateAfter: transition.to,
+        stateBefore,
+        stateAfter,
         persistedAt: Date.now(),
         sourceComponentName,
         // Capture publicMember state for traceability
-        publicMemberSnapshot: instance.publicMember ? { ...instance.publicMember } : undefined
+        publicMemberSnapshot: instance.publicMember ? { ...instance.publicMember } : undefined,
+        version: eventId ? instance.version : undefined
       };
       const instanceHistory = this.eventHistory.get(instanceId) || [];
       instanceHistory.push(historyEvent);
       this.eventHistory.set(instanceId, instanceHistory);
 
-      // Handle timeouts based on whether this is a self-loop
-      const isSelfLoop = previousState === transition.to;
-
-      if (isSelfLoop) {
-        // Self-loop: only reset timeouts with resetOnTransition !== false
-        this.clearTimeoutsForSelfLoop(instanceId, transition.to);
-      } else {
-        // State change: clear all timeouts
-        this.clearTimeouts(instanceId);
+      // Handle timeouts of exited states. Re-entered states (self-loops) only reset
+      // timeouts with resetOnTransition !== false; timeouts of enclosing composite
+      // states that are not exited keep running
+      const reentered = exited.filter(name => entered.includes(name));
+      for (const exitedState of exited) {
+        if (reentered.includes(exitedState)) {
+          this.clearTimeoutsForSelfLoop(instanceId, exitedState);
+        } else {
+          this.clearTimeoutsForState(instanceId, exitedState);
+        }
       }
 
-      // Find new state to get its type
-      const newStateObj = machine.states.find(s => s.name === transition.to);
+      // New state type (for auto-deallocation detection)
       const stateType = newStateObj?.type || 'regular';
 
-      console.log(`[FSMRuntime] About to emit state_change: ${previousState} -> ${transition.to}`);
+      console.log(`[FSMRuntime] About to emit state_change: ${stateBefore} -> ${stateAfter}`);
 
       // Emit state change
       this.emit('state_change', {
         instanceId,
         machineName: instance.machineName,
-        previousState,
-        newState: transition.to,
+        previousState: stateBefore,
+        newState: stateAfter,
+        region, // Set for transitions inside a region of a parallel state
         stateType, // Add state type for auto-deallocation detection
         event,
         eventId,
@@ -438,7 +1142,8 @@ export class FSMRuntime extends EventEmitter {
         instance: {
           id: instance.id,
           machineName: instance.machineName,
-          currentState: transition.to,
+          currentState: instance.currentState,
+          regionStates: instance.regionStates,
           context: instance.context,
           publicMember: instance.publicMember,
           status: instance.status,
@@ -447,15 +1152,14 @@ export class FSMRuntime extends EventEmitter {
         },
       });
 
-      // Step 4: Execute onEntry method of target state (if defined)
-      const entryMethod = newStateObj?.onEntry || newStateObj?.entryMethod;
-      if (entryMethod) {
+      // Step 4: Notify onEntry observers of entered states (if defined)
+      for (const { state, method } of entryMethods) {
         const sender = new SenderImpl(this, instance.id, this.registry);
         const instanceContext = instance.publicMember || instance.context;
         this._safeEmitUserCode('entry_method', {
           instanceId,
-          method: entryMethod,
-          state: transition.to,
+          method,
+          state,
           event,
           context: instanceContext,
           sender,
@@ -463,13 +1167,17 @@ export class FSMRuntime extends EventEmitter {
       }
 
       // Notify parent if configured (child-to-parent communication)
-      await this.notifyParentIfConfigured(instance, machine, transition, previousState);
+      await this.notifyParentIfConfigured(instance, machine, transition, stateBefore);
 
-      // Save snapshot if needed
+      // Save snapshot if needed (always when scheduled events changed)
       // Note: With timer wheel, we don't pass pending timeouts map
       // Timeouts are resynchronized during restore() based on elapsed time
       if (this.persistence) {
-        await this.persistence.maybeSnapshot(instance, eventId, undefined);
+        if (this.unsavedSchedules.delete(instanceId)) {
+          await this.persistence.saveSnapshot(instance, eventId, undefined);
+        } else {
+          await this.persistence.maybeSnapshot(instance, eventId, undefined);
+        }
       }
 
       // Handle inter-machine transitions (same component)
@@ -520,8 +1228,8 @@ export class FSMRuntime extends EventEmitter {
         });
       }
 
-      // Check if final or error state
-      const targetState = machine.states.find(s => s.name === transition.to);
+      // Check if final or error state (top-level states only: nested final substates keep the instance alive)
+      const targetState = machine.states.find(s => s.name === instance.currentState);
       if (targetState && (targetState.type === StateType.FINAL || targetState.type === StateType.ERROR)) {
         instance.status = targetState.type === StateType.FINAL ? 'completed' : 'error';
 
@@ -534,6 +1242,7 @@ export class FSMRuntime extends EventEmitter {
         if (!instance.isEntryPoint) {
           // Remove from indexes before disposing
           this.removeFromIndex(instance);
+          this.disarmScheduledEvents(instance);
 
           this.emit('instance_disposed', instance);
           this.instances.delete(instanceId);
@@ -543,23 +1252,48 @@ export class FSMRuntime extends EventEmitter {
         return;
       }
 
-      // Setup new timeouts (only for non-final states)
-      if (isSelfLoop) {
-        // Self-loop: only setup timeouts that were cleared (resetOnTransition !== false)
-        this.setupTimeoutsForSelfLoop(instanceId, transition.to);
-      } else {
-        // State change: setup all timeouts for new state
-        this.setupTimeouts(instanceId, transition.to);
+      // Setup new timeouts and auto-transitions of entered states (only for non-final states)
+      for (const enteredState of entered) {
+        if (reentered.includes(enteredState)) {
+          // Self-loop: only setup timeouts that were cleared (resetOnTransition !== false)
+          this.setupTimeoutsForSelfLoop(instanceId, enteredState);
+        } else {
+          this.setupTimeouts(instanceId, enteredState);
+        }
+        this.setupAutoTransitions(instanceId, enteredState);
       }
 
-      // Setup auto-transitions (only for non-final states)
-      this.setupAutoTransitions(instanceId, transition.to);
+      // Fire join transitions once every region reached a final substate
+      this.setupJoinTransitions(instanceId);
     } catch (error: any) {
+      // Stale instance: processEvent reloads it from the stores
+      if (error instanceof ConcurrencyConflictError) {
+        throw error;
+      }
+
+      if (checkpoint && (error instanceof TransitionVetoedError || error instanceof HandlerExecutionError)) {
+        await this.handleHandlerOutcome(instance, machine, event, transition, checkpoint, error);
+        return;
+      }
+
+      if (checkpoint && error instanceof ContextValidationError) {
+        this.restoreCheckpoint(instance, checkpoint);
+        this.emit('validation_error', {
+          instanceId,
+          machineName: error.machineName,
+          event,
+          target: error.target,
+          issues: error.issues,
+        });
+        throw error;
+      }
+
       console.error(`[FSMRuntime] Error in sendEvent:`, error.message, error.stack);
       instance.status = 'error';
 
       // Remove from indexes before deleting
       this.removeFromIndex(instance);
+      this.disarmScheduledEvents(instance);
 
       this.emit('instance_error', {
         instanceId,
@@ -575,26 +1309,6 @@ export class FSMRuntime extends EventEmitter {
         },
       });
       this.instances.delete(instanceId);
-    } finally {
-      // Transition complete — unlock and drain the event queue
-      this._processingTransition = false;
-      await this._drainEventQueue();
-    }
-  }
-
-  /**
-   * Drain queued events that were deferred during a transition.
-   * Events are processed in FIFO order, one at a time.
-   */
-  private async _drainEventQueue(): Promise<void> {
-    while (this._eventQueue.length > 0) {
-      const queued = this._eventQueue.shift()!;
-      try {
-        await this.sendEvent(queued.instanceId, queued.event);
-        queued.resolve();
-      } catch (err) {
-        queued.reject(err);
-      }
     }
   }
 
@@ -668,19 +1382,17 @@ export class FSMRuntime extends EventEmitter {
           transition.matchingRules!
         );
 
-        // Send event to each matching instance (only once per instance)
-        for (const instance of matchingInstances) {
-          if (processedInstances.has(instance.id)) {
-            continue; // Already processed by another transition
-          }
-
+        // Send event to each matching instance (only once per instance).
+        // Instances process it concurrently through their own mailboxes.
+        const pending = matchingInstances.filter(instance => !processedInstances.has(instance.id));
+        await Promise.all(pending.map(async instance => {
           try {
-            const stateBefore = instance.currentState;
+            const stateBefore = this.getActiveStates(instance).join(',');
             await this.sendEvent(instance.id, event);
 
-            // Check if state actually changed (or instance was disposed)
+            // Check if state (or the state of any region) actually changed (or instance was disposed)
             const instanceAfter = this.instances.get(instance.id);
-            const transitioned = !instanceAfter || instanceAfter.currentState !== stateBefore;
+            const transitioned = !instanceAfter || this.getActiveStates(instanceAfter).join(',') !== stateBefore;
 
             if (transitioned) {
               processedInstances.add(instance.id);
@@ -693,7 +1405,7 @@ export class FSMRuntime extends EventEmitter {
               error: error.message,
             });
           }
-        }
+        }));
       }
 
       this.emit('broadcast_completed', {
@@ -728,7 +1440,7 @@ export class FSMRuntime extends EventEmitter {
 
     let processedCount = 0;
 
-    for (const instance of instances) {
+    await Promise.all(instances.map(async instance => {
       try {
         await this.sendEvent(instance.id, event);
         processedCount++;
@@ -739,7 +1451,7 @@ export class FSMRuntime extends EventEmitter {
           error: error.message,
         });
       }
-    }
+    }));
 
     this.emit('broadcast_completed', {
       machineName,
@@ -788,7 +1500,7 @@ export class FSMRuntime extends EventEmitter {
               .map(id => this.instances.get(id)!)
               .filter(instance =>
                 instance &&
-                instance.currentState === currentState &&
+                this.isStateActive(instance, currentState) &&
                 instance.status === 'active'
               );
           }
@@ -886,18 +1598,61 @@ export class FSMRuntime extends EventEmitter {
    * @param currentState Current state name
    * @param event Event to match
    * @param instanceContext Instance context for specific triggering rule evaluation
+   * @param rejectedByGuard Optional collector for transitions whose guard evaluated to false
+   * @param joinReady Whether join transitions may be taken (every region of the parallel state is final)
    * @returns Matching transition or null
    */
   private findTransition(
     machine: StateMachine,
     currentState: string,
     event: FSMEvent,
-    instanceContext: Record<string, any>
+    instanceContext: Record<string, any>,
+    rejectedByGuard?: Transition[],
+    joinReady: boolean = false
   ): Transition | null {
-    // Find all candidate transitions
-    const candidates = machine.transitions.filter(
-      t => t.from === currentState && t.event === event.type
-    );
+    // Transitions of the active state take precedence over those inherited
+    // from enclosing composite states (innermost first)
+    const activeStates = this.getHierarchy(machine).getPath(currentState);
+    for (const stateName of activeStates.length > 0 ? activeStates : [currentState]) {
+      const transition = this.findTransitionFromState(machine, stateName, event, instanceContext, rejectedByGuard, joinReady);
+      if (transition) {
+        return transition;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find transition declared on a single state (no inheritance)
+   */
+  private findTransitionFromState(
+    machine: StateMachine,
+    currentState: string,
+    event: FSMEvent,
+    instanceContext: Record<string, any>,
+    rejectedByGuard?: Transition[],
+    joinReady: boolean = false
+  ): Transition | null {
+    // Find all candidate transitions whose guard (if any) passes
+    let candidates = machine.transitions.filter(t => {
+      if (t.from !== currentState || t.event !== event.type) {
+        return false;
+      }
+      if (t.type === TransitionType.JOIN && !joinReady) {
+        return false;
+      }
+      if (t.guard && !this.evaluateTransitionGuard(t, event, instanceContext)) {
+        rejectedByGuard?.push(t);
+        return false;
+      }
+      return true;
+    });
+
+    // Guarded transitions that passed take precedence over unguarded ones,
+    // which then act as the "otherwise" branch
+    if (candidates.length > 1 && candidates.some(t => t.guard)) {
+      candidates = candidates.filter(t => t.guard);
+    }
 
     // Debug logging for transition resolution
     console.log(`[FSMRuntime] findTransition: machine=${machine.name}, state=${currentState}, event=${event.type}`);
@@ -955,6 +1710,120 @@ export class FSMRuntime extends EventEmitter {
   }
 
 
+  /**
+   * Evaluate a transition guard against the event and instance data
+   *
+   * Both `context` and `publicMember` resolve to the instance data
+   * (publicMember for XComponent-style machines, context otherwise).
+   * Invalid expressions are logged and treated as a rejection.
+   */
+  private evaluateTransitionGuard(
+    transition: Transition,
+    event: FSMEvent,
+    instanceContext: Record<string, any>
+  ): boolean {
+    try {
+      return Boolean(compileGuard(transition.guard!).evaluate({
+        event: { type: event.type, payload: event.payload || {} },
+        context: instanceContext,
+        publicMember: instanceContext,
+      }));
+    } catch (error: any) {
+      console.error(`[FSMRuntime] Invalid guard on ${transition.from} -> ${transition.to} (${transition.event}): ${error.message}`);
+      return false;
+    }
+  }
+
+  /**
+   * Causes of an event persisted now: the last event persisted while processing
+   * the current event, or else while processing the event that sent it
+   *
+   * Followed per call through the processing context, as instances process
+   * their events concurrently.
+   */
+  private causingEventIds(): string[] | undefined {
+    for (let queued = processingEvent.getStore(); queued; queued = queued.cause) {
+      if (queued.eventId) {
+        return [queued.eventId];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Emit guard_rejected and record the rejection in instance history
+   *
+   * The instance stays in its current state; the history entry
+   * (event type GUARD_REJECTED) keeps the audit trail complete.
+   */
+  private async recordGuardRejection(
+    instance: FSMInstance,
+    event: FSMEvent,
+    rejected: Transition[]
+  ): Promise<void> {
+    const guards = rejected.map(t => ({ to: t.to, guard: t.guard! }));
+    const rejectionEvent: FSMEvent = {
+      type: 'GUARD_REJECTED',
+      payload: { event: event.type, payload: event.payload, guards },
+      timestamp: Date.now(),
+    };
+    // Keeps deduplicating the rejected event after a restart
+    const key = event.idempotencyKey ?? event.eventId;
+    if (key) {
+      rejectionEvent.idempotencyKey = key;
+    }
+    const instanceData = instance.publicMember || instance.context;
+
+    let eventId = '';
+    if (this.persistence) {
+      try {
+        eventId = await this.persistence.persistEvent(
+          instance.id,
+          instance.machineName,
+          this.componentDef.name,
+          rejectionEvent,
+          instance.currentState,
+          instance.currentState,
+          this.causingEventIds(),
+          undefined,
+          undefined,
+          instanceData ? { ...instanceData } : undefined,
+          instance.version ?? 0
+        );
+        if (eventId) {
+          instance.version = (instance.version ?? 0) + 1;
+        }
+      } catch (err: any) {
+        if (err instanceof ConcurrencyConflictError) {
+          throw err;
+        }
+        console.error(`[FSMRuntime] Failed to persist guard rejection for ${instance.id}:`, err.message);
+      }
+    }
+
+    const instanceHistory = this.eventHistory.get(instance.id) || [];
+    instanceHistory.push({
+      id: eventId || `guard-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      instanceId: instance.id,
+      machineName: instance.machineName,
+      componentName: this.componentDef.name,
+      event: rejectionEvent,
+      stateBefore: instance.currentState,
+      stateAfter: instance.currentState,
+      persistedAt: Date.now(),
+      publicMemberSnapshot: instance.publicMember ? { ...instance.publicMember } : undefined,
+    });
+    this.eventHistory.set(instance.id, instanceHistory);
+
+    this.emit('guard_rejected', {
+      instanceId: instance.id,
+      machineName: instance.machineName,
+      currentState: instance.currentState,
+      event,
+      guards,
+    });
+  }
+
   /**
    * Execute transition
    *
@@ -963,6 +1832,7 @@ export class FSMRuntime extends EventEmitter {
    */
   private async executeTransition(instance: FSMInstance, transition: Transition, event: FSMEvent): Promise<void> {
     if (transition.triggeredMethod) {
+      await this.invokeHandler('triggeredMethod', transition.triggeredMethod, instance, transition, event);
       const sender = new SenderImpl(this, instance.id, this.registry);
       const instanceContext = instance.publicMember || instance.context;
 
@@ -977,106 +1847,441 @@ export class FSMRuntime extends EventEmitter {
   }
 
   /**
-   * Notify parent instance if the child machine has parentLink configured
-   * or if the transition has notifyParent set
+   * Register handlers for methods referenced by triggeredMethod, onEntry and onExit
    *
-   * This enables the XComponent pattern where child state machines
-   * can communicate state changes back to their parent orchestrator
+   * Registered handlers are awaited in order (onExit → triggeredMethod → onEntry)
+   * before the transition is committed. A handler may return a context patch,
+   * or veto the transition. When a handler vetoes or throws, the instance is
+   * rolled back to its pre-transition state and context (or moved to the
+   * machine's errorState on throw) instead of being deleted.
+   *
+   * Emit-based hooks (triggered_method, entry_method, exit_method) keep
+   * firing for observers once the handler has succeeded.
+   *
+   * @example
+   * runtime.registerHandlers({
+   *   checkLimits: async (event, context) => {
+   *     if (context.amount > context.limit) {
+   *       return { veto: true, reason: 'Limit exceeded' };
+   *     }
+   *     return { contextPatch: { checkedAt: Date.now() } };
+   *   },
+   * });
    */
-  private async notifyParentIfConfigured(
+  registerHandlers(handlers: Record<string, RegisteredHandler>): void {
+    for (const [method, handler] of Object.entries(handlers)) {
+      this.handlers.set(method, handler);
+    }
+  }
+
+  /**
+   * Remove a registered handler
+   *
+   * @returns true if a handler was registered under this name
+   */
+  unregisterHandler(method: string): boolean {
+    return this.handlers.delete(method);
+  }
+
+  /**
+   * Await the registered handler for a hook (if any) and apply its result
+   *
+   * @throws TransitionVetoedError when the handler vetoes
+   * @throws HandlerExecutionError when the handler throws
+   */
+  private async invokeHandler(
+    hook: HandlerInvocation['hook'],
+    method: string,
     instance: FSMInstance,
-    machine: StateMachine,
     transition: Transition,
-    previousState: string
+    event: FSMEvent
   ): Promise<void> {
-    // Check if this instance has a parent
-    if (!instance.parentInstanceId || !instance.parentMachineName) {
+    const handler = this.handlers.get(method);
+    if (!handler) {
       return;
     }
 
-    // Check if parent instance still exists
-    const parentInstance = this.instances.get(instance.parentInstanceId);
-    if (!parentInstance) {
-      return;
+    const sender = new SenderImpl(this, instance.id, this.registry, true);
+    let result;
+    try {
+      result = await handler(event, instance.publicMember || instance.context, sender, {
+        instanceId: instance.id,
+        machineName: instance.machineName,
+        hook,
+        method,
+        from: transition.from,
+        to: transition.to,
+      });
+    } catch (error: any) {
+      throw new HandlerExecutionError(hook, method, error);
     }
 
-    let shouldNotify = false;
-    let eventType: string | undefined;
-    let includeState = true;
-    let includeContext = false;
-
-    // Check for transition-specific notifyParent
-    if (transition.notifyParent) {
-      shouldNotify = true;
-      eventType = transition.notifyParent.event;
-      includeState = transition.notifyParent.includeState !== false;
-      includeContext = transition.notifyParent.includeContext === true;
-    }
-    // Check for machine-level parentLink.onStateChange
-    else if (machine.parentLink?.enabled && machine.parentLink?.onStateChange) {
-      shouldNotify = true;
-      eventType = machine.parentLink.onStateChange;
-      includeState = true;
-      includeContext = false;
+    if (result && result.veto) {
+      throw new TransitionVetoedError(hook, method, result.reason);
     }
 
-    if (shouldNotify && eventType) {
-      // Build payload for parent notification
-      const payload: Record<string, any> = {
-        childInstanceId: instance.id,
-        childMachine: instance.machineName,
-        previousState: previousState,
-      };
-
-      if (includeState) {
-        payload.newState = instance.currentState;
+    if (result && result.contextPatch) {
+      instance.context = { ...instance.context, ...result.contextPatch };
+      if (instance.publicMember) {
+        instance.publicMember = { ...instance.publicMember, ...result.contextPatch };
       }
+    }
+  }
 
-      if (includeContext) {
-        payload.childContext = instance.publicMember || instance.context;
-      }
+  /**
+   * Capture instance data before a transition
+   */
+  private captureCheckpoint(instance: FSMInstance): TransitionCheckpoint {
+    return {
+      currentState: instance.currentState,
+      regionStates: cloneData(instance.regionStates),
+      history: cloneData(instance.history),
+      context: cloneData(instance.context),
+      publicMember: cloneData(instance.publicMember),
+      internalMember: cloneData(instance.internalMember),
+      updatedAt: instance.updatedAt,
+    };
+  }
 
-      // Send event to parent
-      const notifyEvent: FSMEvent = {
-        type: eventType,
-        payload,
-        timestamp: Date.now(),
-      };
+  /**
+   * Restore instance data captured before a transition
+   */
+  private restoreCheckpoint(instance: FSMInstance, checkpoint: TransitionCheckpoint): void {
+    instance.currentState = checkpoint.currentState;
+    if (checkpoint.regionStates) {
+      instance.regionStates = checkpoint.regionStates;
+    } else {
+      delete instance.regionStates;
+    }
+    if (checkpoint.history) {
+      instance.history = checkpoint.history;
+    } else {
+      delete instance.history;
+    }
+    instance.context = checkpoint.context;
+    instance.publicMember = checkpoint.publicMember;
+    instance.internalMember = checkpoint.internalMember;
+    instance.updatedAt = checkpoint.updatedAt;
+  }
 
-      try {
-        await this.sendEvent(instance.parentInstanceId, notifyEvent);
-      } catch (error: any) {
-        // Log but don't fail - parent might not have a transition for this event
-        console.warn(
-          `Parent notification failed: ${error.message}`,
-          { parentId: instance.parentInstanceId, event: eventType }
-        );
-      }
+  /**
+   * Validate data against a machine's contextSchema (no-op without schema)
+   *
+   * @throws ContextValidationError
+   */
+  private validateContext(
+    machine: StateMachine,
+    data: Record<string, any>,
+    options: SchemaValidationOptions = {}
+  ): void {
+    if (!machine.contextSchema) {
+      return;
+    }
+    const issues = validateAgainstSchema(data, machine.contextSchema, options);
+    if (issues.length > 0) {
+      throw new ContextValidationError(`Invalid context for ${machine.name}`, issues, machine.name, 'context');
     }
   }
 
   /**
-   * Setup timeout transitions
+   * Whether a transition's outcome is subject to contextSchema validation
    */
+  private hasContextValidation(machine: StateMachine, transition: Transition): boolean {
+    if (machine.contextSchema) {
+      return true;
+    }
+    if (transition.type === TransitionType.INTER_MACHINE && transition.targetMachine) {
+      return !!this.machines.get(transition.targetMachine)?.contextSchema;
+    }
+    return false;
+  }
+
   /**
-   * Setup timeout transitions using timer wheel (performance optimized)
+   * Validate contexts produced by a transition before it is committed
    *
-   * Instead of creating one setTimeout per instance (O(n) timers),
-   * use a single timer wheel that manages all timeouts (O(1) timer).
+   * The merged instance context is checked for types and constraints
+   * (required fields were enforced at creation). For inter_machine
+   * transitions, the child context is checked like a creation.
+   *
+   * @throws ContextValidationError
    */
-  private setupTimeouts(instanceId: string, stateName: string): void {
-    const instance = this.instances.get(instanceId);
-    if (!instance) return;
-
-    const machine = this.machines.get(instance.machineName);
-    if (!machine) return;
+  private validateTransitionContexts(
+    instance: FSMInstance,
+    machine: StateMachine,
+    transition: Transition,
+    event: FSMEvent
+  ): void {
+    this.validateContext(machine, instance.publicMember || instance.context, { partial: true });
 
-    const timeoutTransitions = machine.transitions.filter(
-      t => t.from === stateName && t.type === TransitionType.TIMEOUT
-    );
+    if (transition.type === TransitionType.INTER_MACHINE && transition.targetMachine) {
+      const targetMachine = this.machines.get(transition.targetMachine);
+      if (targetMachine?.contextSchema) {
+        const sourceContext = { ...instance.context, ...event.payload };
+        const childContext = transition.contextMapping
+          ? this.applyContextMapping(transition.contextMapping, sourceContext)
+          : sourceContext;
+        this.validateContext(targetMachine, childContext);
+      }
+    }
+  }
+
+  /**
+   * Roll back after a veto or handler failure
+   *
+   * Veto: emits transition_vetoed. Failure: emits handler_error, then moves
+   * the instance to the machine's errorState when one is configured.
+   */
+  private async handleHandlerOutcome(
+    instance: FSMInstance,
+    machine: StateMachine,
+    event: FSMEvent,
+    transition: Transition,
+    checkpoint: TransitionCheckpoint,
+    error: TransitionVetoedError | HandlerExecutionError
+  ): Promise<void> {
+    this.restoreCheckpoint(instance, checkpoint);
+
+    if (error instanceof TransitionVetoedError) {
+      this.emit('transition_vetoed', {
+        instanceId: instance.id,
+        machineName: instance.machineName,
+        event,
+        currentState: instance.currentState,
+        targetState: transition.to,
+        hook: error.hook,
+        method: error.method,
+        reason: error.reason,
+      });
+      return;
+    }
+
+    console.error(`[FSMRuntime] ${error.message} - rolled back ${instance.id} to ${instance.currentState}`);
+    this.emit('handler_error', {
+      instanceId: instance.id,
+      machineName: instance.machineName,
+      event,
+      currentState: instance.currentState,
+      targetState: transition.to,
+      hook: error.hook,
+      method: error.method,
+      error: error.cause?.message ?? String(error.cause),
+    });
+
+    if (machine.errorState && !this.isStateActive(instance, machine.errorState)) {
+      await this.moveToErrorState(instance, machine, event, error);
+    }
+  }
+
+  /**
+   * Move an instance to its machine's errorState after a handler failure
+   *
+   * The instance is kept (not disposed) so that it can be inspected or
+   * recovered through transitions defined on the error state.
+   */
+  private async moveToErrorState(
+    instance: FSMInstance,
+    machine: StateMachine,
+    event: FSMEvent,
+    error: HandlerExecutionError
+  ): Promise<void> {
+    const previousState = instance.currentState;
+    const hierarchy = this.getHierarchy(machine);
+    if (!hierarchy.has(machine.errorState!)) {
+      console.error(`[FSMRuntime] errorState ${machine.errorState} not found in machine ${machine.name}`);
+      return;
+    }
+    const { configuration, entered } = hierarchy.getInitialConfiguration(machine.errorState!);
+    const errorState = configuration.currentState;
+    const errorStateObj = hierarchy.getState(errorState)!;
+    const previousActiveStates = this.getActiveStates(instance);
+
+    const failureEvent: FSMEvent = {
+      type: 'HANDLER_ERROR',
+      payload: { event: event.type, hook: error.hook, method: error.method, error: error.cause?.message ?? String(error.cause) },
+      timestamp: Date.now(),
+    };
+
+    instance.currentState = errorState;
+    if (configuration.regionStates) {
+      instance.regionStates = configuration.regionStates;
+    } else {
+      delete instance.regionStates;
+    }
+    instance.updatedAt = Date.now();
+    if (errorStateObj.type === StateType.ERROR) {
+      instance.status = 'error';
+    }
+    this.updateIndexOnStateChange(instance, previousActiveStates);
+    this.clearTimeouts(instance.id);
+
+    let eventId = '';
+    if (this.persistence) {
+      eventId = await this.persistence.persistEvent(
+        instance.id,
+        instance.machineName,
+        this.componentDef.name,
+        failureEvent,
+        previousState,
+        errorState,
+        this.causingEventIds(),
+        undefined,
+        undefined,
+        instance.publicMember ? { ...instance.publicMember } : (instance.context ? { ...instance.context } : undefined),
+        instance.version ?? 0
+      );
+      if (eventId) {
+        instance.version = (instance.version ?? 0) + 1;
+      }
+    }
+
+    const instanceHistory = this.eventHistory.get(instance.id) || [];
+    instanceHistory.push({
+      id: eventId || `mem-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      instanceId: instance.id,
+      machineName: instance.machineName,
+      componentName: this.componentDef.name,
+      event: failureEvent,
+      stateBefore: previousState,
+      stateAfter: errorState,
+      persistedAt: Date.now(),
+      publicMemberSnapshot: instance.publicMember ? { ...instance.publicMember } : undefined,
+    });
+    this.eventHistory.set(instance.id, instanceHistory);
+
+    this.emit('state_change', {
+      instanceId: instance.id,
+      machineName: instance.machineName,
+      previousState,
+      newState: errorState,
+      stateType: errorStateObj.type,
+      event: failureEvent,
+      eventId,
+      timestamp: Date.now(),
+      instance: {
+        id: instance.id,
+        machineName: instance.machineName,
+        currentState: errorState,
+        regionStates: instance.regionStates,
+        context: instance.context,
+        publicMember: instance.publicMember,
+        status: instance.status,
+        createdAt: instance.createdAt,
+        updatedAt: instance.updatedAt,
+      },
+    });
+
+    if (errorStateObj.type !== StateType.FINAL && errorStateObj.type !== StateType.ERROR) {
+      for (const stateName of entered) {
+        this.setupTimeouts(instance.id, stateName);
+        this.setupAutoTransitions(instance.id, stateName);
+      }
+      this.setupJoinTransitions(instance.id);
+    }
+  }
+
+  /**
+   * Notify parent instance if the child machine has parentLink configured
+   * or if the transition has notifyParent set
+   *
+   * This enables the XComponent pattern where child state machines
+   * can communicate state changes back to their parent orchestrator
+   */
+  private async notifyParentIfConfigured(
+    instance: FSMInstance,
+    machine: StateMachine,
+    transition: Transition,
+    previousState: string
+  ): Promise<void> {
+    // Check if this instance has a parent
+    if (!instance.parentInstanceId || !instance.parentMachineName) {
+      return;
+    }
+
+    // Check if parent instance still exists
+    const parentInstance = this.instances.get(instance.parentInstanceId);
+    if (!parentInstance) {
+      return;
+    }
+
+    let shouldNotify = false;
+    let eventType: string | undefined;
+    let includeState = true;
+    let includeContext = false;
+
+    // Check for transition-specific notifyParent
+    if (transition.notifyParent) {
+      shouldNotify = true;
+      eventType = transition.notifyParent.event;
+      includeState = transition.notifyParent.includeState !== false;
+      includeContext = transition.notifyParent.includeContext === true;
+    }
+    // Check for machine-level parentLink.onStateChange
+    else if (machine.parentLink?.enabled && machine.parentLink?.onStateChange) {
+      shouldNotify = true;
+      eventType = machine.parentLink.onStateChange;
+      includeState = true;
+      includeContext = false;
+    }
+
+    if (shouldNotify && eventType) {
+      // Build payload for parent notification
+      const payload: Record<string, any> = {
+        childInstanceId: instance.id,
+        childMachine: instance.machineName,
+        previousState: previousState,
+      };
+
+      if (includeState) {
+        payload.newState = instance.currentState;
+      }
+
+      if (includeContext) {
+        payload.childContext = instance.publicMember || instance.context;
+      }
+
+      // Send event to parent
+      const notifyEvent: FSMEvent = {
+        type: eventType,
+        payload,
+        timestamp: Date.now(),
+      };
+
+      try {
+        await this.sendEvent(instance.parentInstanceId, notifyEvent);
+      } catch (error: any) {
+        // Log but don't fail - parent might not have a transition for this event
+        console.warn(
+          `Parent notification failed: ${error.message}`,
+          { parentId: instance.parentInstanceId, event: eventType }
+        );
+      }
+    }
+  }
+
+  /**
+   * Setup timeout transitions
+   */
+  /**
+   * Setup timeout transitions using timer wheel (performance optimized)
+   *
+   * Instead of creating one setTimeout per instance (O(n) timers),
+   * use a single timer wheel that manages all timeouts (O(1) timer).
+   * Pass enteredAt to keep the deadlines of a state entered earlier.
+   */
+  private setupTimeouts(instanceId: string, stateName: string, enteredAt: number = Date.now()): void {
+    const instance = this.instances.get(instanceId);
+    if (!instance) return;
+
+    const machine = this.machines.get(instance.machineName);
+    if (!machine) return;
+
+    const timeoutTransitions = machine.transitions.filter(
+      t => t.from === stateName && t.type === TransitionType.TIMEOUT
+    );
 
     timeoutTransitions.forEach(transition => {
-      if (transition.timeoutMs) {
+      const timeout = this.resolveTimeout(instance, transition, enteredAt);
+      if (timeout) {
         const taskId = `${instanceId}-${stateName}-${transition.event}`;
 
         // Track task for cleanup
@@ -1086,10 +2291,10 @@ export class FSMRuntime extends EventEmitter {
         this.timeoutTasks.get(instanceId)!.push(taskId);
 
         // Use timer wheel instead of setTimeout
-        this.timerWheel.addTimeout(taskId, transition.timeoutMs, () => {
+        this.timerWheel.addTimeout(taskId, timeout.timeoutMs, () => {
           // Check if instance still exists and is in the same state
           const currentInstance = this.instances.get(instanceId);
-          if (currentInstance && currentInstance.currentState === stateName) {
+          if (currentInstance && this.isStateActive(currentInstance, stateName)) {
             this.sendEvent(instanceId, {
               type: transition.event,
               payload: { reason: 'timeout' },
@@ -1129,7 +2334,8 @@ export class FSMRuntime extends EventEmitter {
 
     timeoutTransitions.forEach(transition => {
       // Only setup timeout if it should reset on self-loop (default behavior)
-      if (transition.timeoutMs && transition.resetOnTransition !== false) {
+      const timeout = transition.resetOnTransition !== false ? this.resolveTimeout(instance, transition) : null;
+      if (timeout) {
         const taskId = `${instanceId}-${stateName}-${transition.event}`;
 
         // Track task for cleanup
@@ -1139,10 +2345,10 @@ export class FSMRuntime extends EventEmitter {
         this.timeoutTasks.get(instanceId)!.push(taskId);
 
         // Use timer wheel instead of setTimeout
-        this.timerWheel.addTimeout(taskId, transition.timeoutMs, () => {
+        this.timerWheel.addTimeout(taskId, timeout.timeoutMs, () => {
           // Check if instance still exists and is in the same state
           const currentInstance = this.instances.get(instanceId);
-          if (currentInstance && currentInstance.currentState === stateName) {
+          if (currentInstance && this.isStateActive(currentInstance, stateName)) {
             this.sendEvent(instanceId, {
               type: transition.event,
               payload: { reason: 'timeout' },
@@ -1163,6 +2369,71 @@ export class FSMRuntime extends EventEmitter {
     });
   }
 
+  /**
+   * Compute the deadline of a timeout transition entered at enteredAt
+   *
+   * Static timeoutMs, or computed from the instance data: timeoutExpr and
+   * timeoutFromContext give a duration, deadlineAt an absolute time (epoch ms,
+   * Date or ISO string). Computed deadlines are recorded on the instance for
+   * getPendingTimeouts. Unusable values are logged and emitted as timeout_error.
+   *
+   * @returns Deadline and delay from now, or null when no timeout applies
+   */
+  private resolveTimeout(
+    instance: FSMInstance,
+    transition: Transition,
+    enteredAt: number = Date.now()
+  ): { timeoutMs: number; deadlineAt: number } | null {
+    if (!isComputedTimeout(transition)) {
+      if (!transition.timeoutMs) {
+        return null;
+      }
+      const deadlineAt = enteredAt + transition.timeoutMs;
+      return { timeoutMs: Math.max(0, deadlineAt - Date.now()), deadlineAt };
+    }
+
+    const instanceData = instance.publicMember || instance.context || {};
+    let deadlineAt: number;
+    try {
+      if (transition.deadlineAt) {
+        const value = compileGuard(transition.deadlineAt).evaluate({ context: instanceData, publicMember: instanceData });
+        deadlineAt = value instanceof Date || typeof value === 'string' ? new Date(value).getTime() : Number(value);
+        if (value === undefined || value === null || value === '' || !Number.isFinite(deadlineAt)) {
+          throw new Error(`deadlineAt "${transition.deadlineAt}" is not a valid time: ${JSON.stringify(value)}`);
+        }
+      } else {
+        const value = transition.timeoutExpr
+          ? compileGuard(transition.timeoutExpr).evaluate({ context: instanceData, publicMember: instanceData })
+          : transition.timeoutFromContext!.split('.').reduce((data: any, key) => data?.[key], instanceData);
+        const durationMs = Number(value);
+        if (value === undefined || value === null || value === '' || !Number.isFinite(durationMs) || durationMs < 0) {
+          const source = transition.timeoutExpr ? `timeoutExpr "${transition.timeoutExpr}"` : `timeoutFromContext "${transition.timeoutFromContext}"`;
+          throw new Error(`${source} is not a valid duration: ${JSON.stringify(value)}`);
+        }
+        deadlineAt = enteredAt + durationMs;
+      }
+    } catch (error: any) {
+      console.error(`[FSMRuntime] Timeout ${transition.event} from ${transition.from} skipped for ${instance.id}: ${error.message}`);
+      this.emit('timeout_error', {
+        instanceId: instance.id,
+        state: transition.from,
+        event: transition.event,
+        error: error.message,
+      });
+      return null;
+    }
+
+    // Keep the deadlines of states that are still active only
+    const activeStates = this.getActiveStates(instance);
+    const deadlines = Object.fromEntries(
+      Object.entries(instance.timeoutDeadlines || {}).filter(([key]) => activeStates.includes(key.split(':')[0]))
+    );
+    const timeout = { timeoutMs: Math.max(0, deadlineAt - enteredAt), deadlineAt };
+    instance.timeoutDeadlines = { ...deadlines, [`${transition.from}:${transition.event}`]: timeout };
+
+    return { timeoutMs: Math.max(0, deadlineAt - Date.now()), deadlineAt };
+  }
+
   /**
    * Setup auto-transitions (XComponent-style automatic transitions)
    *
@@ -1201,7 +2472,7 @@ export class FSMRuntime extends EventEmitter {
       this.timerWheel.addTimeout(taskId, delay, () => {
         // Check if instance still exists and is in the same state
         const currentInstance = this.instances.get(instanceId);
-        if (currentInstance && currentInstance.currentState === stateName) {
+        if (currentInstance && this.isStateActive(currentInstance, stateName)) {
           this.sendEvent(instanceId, {
             type: transition.event,
             payload: { reason: 'auto-transition' },
@@ -1221,6 +2492,61 @@ export class FSMRuntime extends EventEmitter {
     });
   }
 
+  /**
+   * Setup join transitions of the active parallel state (using timer wheel)
+   *
+   * Join transitions fire automatically (like auto-transitions) once every
+   * region of the parallel state has reached a final substate.
+   */
+  private setupJoinTransitions(instanceId: string): void {
+    const instance = this.instances.get(instanceId);
+    if (!instance || instance.status !== 'active') return;
+
+    const machine = this.machines.get(instance.machineName);
+    if (!machine) return;
+
+    const hierarchy = this.getHierarchy(machine);
+    if (!hierarchy.isJoinReady(instance)) return;
+
+    const parallelState = instance.currentState;
+    const joinTransitions = machine.transitions.filter(
+      t => t.from === parallelState && t.type === TransitionType.JOIN
+    );
+
+    joinTransitions.forEach(transition => {
+      const taskId = `${instanceId}-${parallelState}-join-${transition.event}`;
+
+      // Track task for cleanup (a single pending join per event)
+      if (!this.timeoutTasks.has(instanceId)) {
+        this.timeoutTasks.set(instanceId, []);
+      }
+      const tasks = this.timeoutTasks.get(instanceId)!;
+      if (tasks.includes(taskId)) return;
+      tasks.push(taskId);
+
+      this.timerWheel.addTimeout(taskId, 0, () => {
+        // Check if instance still exists and every region is still final
+        const currentInstance = this.instances.get(instanceId);
+        if (currentInstance && currentInstance.currentState === parallelState && hierarchy.isJoinReady(currentInstance)) {
+          this.sendEvent(instanceId, {
+            type: transition.event,
+            payload: { reason: 'join' },
+            timestamp: Date.now(),
+          }).catch(error => {
+            console.error(`Join transition failed for ${instanceId}:`, error);
+          });
+        }
+
+        // Remove taskId from tracking
+        const remaining = this.timeoutTasks.get(instanceId);
+        if (remaining) {
+          const index = remaining.indexOf(taskId);
+          if (index >= 0) remaining.splice(index, 1);
+        }
+      });
+    });
+  }
+
   /**
    * Setup cascading rules engine (XComponent pattern)
    *
@@ -1238,7 +2564,7 @@ export class FSMRuntime extends EventEmitter {
       if (!machine) return;
 
       // Find the state definition
-      const state = machine.states.find(s => s.name === newState);
+      const state = this.getHierarchy(machine).getState(newState);
       if (!state || !state.cascadingRules || state.cascadingRules.length === 0) {
         return; // No cascading rules for this state
       }
@@ -1263,7 +2589,7 @@ export class FSMRuntime extends EventEmitter {
    * Performance optimization: XComponent hash-based matching
    */
   private addToIndex(instance: FSMInstance): void {
-    const { id, machineName, currentState, publicMember, context } = instance;
+    const { id, machineName, publicMember, context } = instance;
 
     // Machine index
     if (!this.machineIndex.has(machineName)) {
@@ -1271,12 +2597,14 @@ export class FSMRuntime extends EventEmitter {
     }
     this.machineIndex.get(machineName)!.add(id);
 
-    // State index
-    const stateKey = `${machineName}:${currentState}`;
-    if (!this.stateIndex.has(stateKey)) {
-      this.stateIndex.set(stateKey, new Set());
+    // State index (active state and its enclosing composite states)
+    for (const stateName of this.getActiveStates(instance)) {
+      const stateKey = `${machineName}:${stateName}`;
+      if (!this.stateIndex.has(stateKey)) {
+        this.stateIndex.set(stateKey, new Set());
+      }
+      this.stateIndex.get(stateKey)!.add(id);
     }
-    this.stateIndex.get(stateKey)!.add(id);
 
     // Property index (for commonly matched properties)
     const instanceData = publicMember || context;
@@ -1298,14 +2626,15 @@ export class FSMRuntime extends EventEmitter {
    * Remove instance from indexes
    */
   private removeFromIndex(instance: FSMInstance): void {
-    const { id, machineName, currentState, publicMember, context } = instance;
+    const { id, machineName, publicMember, context } = instance;
 
     // Machine index
     this.machineIndex.get(machineName)?.delete(id);
 
     // State index
-    const stateKey = `${machineName}:${currentState}`;
-    this.stateIndex.get(stateKey)?.delete(id);
+    for (const stateName of this.getActiveStates(instance)) {
+      this.stateIndex.get(`${machineName}:${stateName}`)?.delete(id);
+    }
 
     // Property index
     const instanceData = publicMember || context;
@@ -1321,20 +2650,57 @@ export class FSMRuntime extends EventEmitter {
 
   /**
    * Update state index when state changes
+   *
+   * Instances are indexed under their leaf state and every enclosing
+   * composite state, so "machine:Composite" lookups find nested instances.
+   * Inside a parallel state, the active states of every region are indexed too.
+   *
+   * @param previousActiveStates Active states before the change (see getActiveStates)
    */
-  private updateIndexOnStateChange(instance: FSMInstance, oldState: string, newState: string): void {
+  private updateIndexOnStateChange(instance: FSMInstance, previousActiveStates: string[]): void {
     const { id, machineName } = instance;
 
     // Remove from old state index
-    const oldStateKey = `${machineName}:${oldState}`;
-    this.stateIndex.get(oldStateKey)?.delete(id);
+    for (const stateName of previousActiveStates) {
+      this.stateIndex.get(`${machineName}:${stateName}`)?.delete(id);
+    }
 
     // Add to new state index
-    const newStateKey = `${machineName}:${newState}`;
-    if (!this.stateIndex.has(newStateKey)) {
-      this.stateIndex.set(newStateKey, new Set());
+    for (const stateName of this.getActiveStates(instance)) {
+      const newStateKey = `${machineName}:${stateName}`;
+      if (!this.stateIndex.has(newStateKey)) {
+        this.stateIndex.set(newStateKey, new Set());
+      }
+      this.stateIndex.get(newStateKey)!.add(id);
+    }
+  }
+
+  /**
+   * Get the state hierarchy of a machine
+   */
+  private getHierarchy(machine: StateMachine): StateHierarchy {
+    let hierarchy = this.hierarchies.get(machine.name);
+    if (!hierarchy) {
+      hierarchy = new StateHierarchy(machine);
+      this.hierarchies.set(machine.name, hierarchy);
     }
-    this.stateIndex.get(newStateKey)!.add(id);
+    return hierarchy;
+  }
+
+  /**
+   * Get the active states of an instance: the leaf state and its enclosing
+   * composite states (innermost first), plus the active states of every region
+   */
+  private getActiveStates(instance: FSMInstance): string[] {
+    const hierarchy = this.hierarchies.get(instance.machineName);
+    return hierarchy ? hierarchy.getActiveStates(instance) : [instance.currentState];
+  }
+
+  /**
+   * Check whether a state is active for an instance (a leaf state, an enclosing composite or region state)
+   */
+  private isStateActive(instance: FSMInstance, stateName: string): boolean {
+    return this.getActiveStates(instance).includes(stateName);
   }
 
   /**
@@ -1523,20 +2889,46 @@ export class FSMRuntime extends EventEmitter {
   }
 
   /**
-   * Clear timeouts for self-loop transition
+   * Clear timeouts and auto-transitions started by a single state (using timer wheel)
    *
-   * Only clears timeouts that should be reset on self-loop (resetOnTransition !== false).
-   * Timeouts with resetOnTransition: false continue running.
+   * Used when a nested state is exited while its enclosing composite
+   * states (and their timeouts) stay active.
    */
-  private clearTimeoutsForSelfLoop(instanceId: string, stateName: string): void {
-    const instance = this.instances.get(instanceId);
-    if (!instance) return;
-
-    const machine = this.machines.get(instance.machineName);
-    if (!machine) return;
+  private clearTimeoutsForState(instanceId: string, stateName: string): void {
+    const taskIds = this.timeoutTasks.get(instanceId);
+    if (!taskIds) return;
 
-    // Find timeout transitions from this state
-    const timeoutTransitions = machine.transitions.filter(
+    const prefix = `${instanceId}-${stateName}-`;
+    const remainingTaskIds = taskIds.filter(taskId => {
+      if (taskId.startsWith(prefix)) {
+        this.timerWheel.removeTimeout(taskId);
+        return false;
+      }
+      return true;
+    });
+
+    if (remainingTaskIds.length > 0) {
+      this.timeoutTasks.set(instanceId, remainingTaskIds);
+    } else {
+      this.timeoutTasks.delete(instanceId);
+    }
+  }
+
+  /**
+   * Clear timeouts for self-loop transition
+   *
+   * Only clears timeouts that should be reset on self-loop (resetOnTransition !== false).
+   * Timeouts with resetOnTransition: false continue running.
+   */
+  private clearTimeoutsForSelfLoop(instanceId: string, stateName: string): void {
+    const instance = this.instances.get(instanceId);
+    if (!instance) return;
+
+    const machine = this.machines.get(instance.machineName);
+    if (!machine) return;
+
+    // Find timeout transitions from this state
+    const timeoutTransitions = machine.transitions.filter(
       t => t.from === stateName && t.type === TransitionType.TIMEOUT
     );
 
@@ -1602,15 +2994,51 @@ export class FSMRuntime extends EventEmitter {
     return Array.from(this.instances.values()).filter(i => i.machineName === machineName);
   }
 
+  /**
+   * Drop instances from memory without disposing them
+   *
+   * For instances handed over to another runtime, which restores them from the
+   * shared stores: nothing is persisted, and their timeouts and scheduled
+   * events stop firing here. Instances busy with an event are released once
+   * their mailbox is drained.
+   *
+   * @param filter Instances to release
+   * @param idleTimeoutMs Maximum wait for busy instances (default: 5000)
+   * @returns IDs of the released instances
+   * @throws Error when instances are still busy after idleTimeoutMs (none is released)
+   */
+  async releaseInstances(filter: (instance: FSMInstance) => boolean, idleTimeoutMs = 5000): Promise<string[]> {
+    const deadline = Date.now() + idleTimeoutMs;
+    let selected = Array.from(this.instances.values()).filter(filter);
+    // Checked again after each wait: events may have been sent to them meanwhile
+    while (selected.some(instance => this.mailboxes.has(instance.id))) {
+      await this.waitForIdleMailboxes(Math.max(0, deadline - Date.now()), selected.map(instance => instance.id));
+      selected = Array.from(this.instances.values()).filter(filter);
+    }
+
+    const released: string[] = [];
+    for (const instance of selected) {
+      this.removeFromIndex(instance);
+      this.clearTimeouts(instance.id);
+      this.disarmScheduledEvents(instance);
+      this.idempotencyWindows.delete(instance.id);
+      this.instances.delete(instance.id);
+      released.push(instance.id);
+      this.emit('instance_released', { instanceId: instance.id, machineName: instance.machineName });
+    }
+    return released;
+  }
+
   /**
    * Get pending timeout information for an instance
-   * Returns array of { event, totalMs, elapsedMs, remainingMs }
+   * Returns array of { event, totalMs, elapsedMs, remainingMs, deadlineAt }
    */
   getPendingTimeouts(instanceId: string): Array<{
     event: string;
     totalMs: number;
     elapsedMs: number;
     remainingMs: number;
+    deadlineAt: number;
     targetState: string;
   }> {
     const instance = this.instances.get(instanceId);
@@ -1619,44 +3047,207 @@ export class FSMRuntime extends EventEmitter {
     const machine = this.machines.get(instance.machineName);
     if (!machine) return [];
 
+    const activeStates = this.getActiveStates(instance);
     const timeoutTransitions = machine.transitions.filter(
-      t => t.from === instance.currentState && t.type === TransitionType.TIMEOUT && t.timeoutMs
+      t => activeStates.includes(t.from) && t.type === TransitionType.TIMEOUT && (t.timeoutMs || isComputedTimeout(t))
     );
 
-    const elapsedMs = Date.now() - instance.updatedAt;
+    const now = Date.now();
+    const elapsedMs = now - instance.updatedAt;
+
+    return timeoutTransitions.flatMap(t => {
+      if (!isComputedTimeout(t)) {
+        return [{
+          event: t.event,
+          totalMs: t.timeoutMs!,
+          elapsedMs: Math.min(elapsedMs, t.timeoutMs!),
+          remainingMs: Math.max(0, t.timeoutMs! - elapsedMs),
+          deadlineAt: instance.updatedAt + t.timeoutMs!,
+          targetState: t.to
+        }];
+      }
 
-    return timeoutTransitions.map(t => ({
-      event: t.event,
-      totalMs: t.timeoutMs!,
-      elapsedMs: Math.min(elapsedMs, t.timeoutMs!),
-      remainingMs: Math.max(0, t.timeoutMs! - elapsedMs),
-      targetState: t.to
-    }));
+      // Computed on state entry (none when the value was unusable)
+      const computed = instance.timeoutDeadlines?.[`${t.from}:${t.event}`];
+      if (!computed) return [];
+      const remainingMs = Math.max(0, computed.deadlineAt - now);
+      return [{
+        event: t.event,
+        totalMs: computed.timeoutMs,
+        elapsedMs: Math.max(0, computed.timeoutMs - remainingMs),
+        remainingMs,
+        deadlineAt: computed.deadlineAt,
+        targetState: t.to
+      }];
+    });
+  }
+
+  /**
+   * Schedule an event for an instance, at a point in time or after a delay
+   *
+   * The schedule is kept on the instance and saved with its snapshot, so it
+   * fires after restore() too. When fired, the event carries the schedule ID
+   * as eventId: a catch-up after a restart is ignored if it already fired.
+   *
+   * @throws Error if the instance does not exist or the schedule time is invalid
+   */
+  async scheduleEvent(instanceId: string, event: FSMEvent, options: ScheduleOptions): Promise<ScheduledEvent> {
+    const instance = this.instances.get(instanceId);
+    if (!instance) {
+      throw new Error(`Instance ${instanceId} not found`);
+    }
+
+    const scheduled: ScheduledEvent = {
+      id: uuidv4(),
+      instanceId,
+      event,
+      fireAt: resolveFireTime(options),
+      scheduledAt: Date.now(),
+    };
+    // Replaced rather than mutated: saved snapshots share the array
+    instance.scheduledEvents = [...(instance.scheduledEvents || []), scheduled];
+    this.armScheduledEvent(scheduled);
+
+    this.emit('event_scheduled', scheduled);
+    await this.saveScheduledEvents(instance);
+    return scheduled;
+  }
+
+  /**
+   * Get pending scheduled events, soonest first
+   *
+   * @param instanceId Restrict to one instance (all instances when omitted)
+   */
+  getScheduledEvents(instanceId?: string): ScheduledEvent[] {
+    const instances = instanceId
+      ? [this.instances.get(instanceId)]
+      : Array.from(this.instances.values());
+    return instances
+      .flatMap(instance => instance?.scheduledEvents || [])
+      .sort((a, b) => a.fireAt - b.fireAt);
+  }
+
+  /**
+   * Cancel a scheduled event
+   *
+   * @returns false if the event already fired, was cancelled or does not exist
+   */
+  async cancelScheduledEvent(instanceId: string, scheduleId: string): Promise<boolean> {
+    const instance = this.instances.get(instanceId);
+    const scheduled = instance?.scheduledEvents?.find(s => s.id === scheduleId);
+    if (!instance || !scheduled) {
+      return false;
+    }
+
+    this.timerWheel.removeTimeout(scheduledTaskId(scheduleId));
+    this.removeScheduledEvent(instance, scheduleId);
+
+    this.emit('scheduled_event_cancelled', scheduled);
+    await this.saveScheduledEvents(instance);
+    return true;
+  }
+
+  /**
+   * Add the timer wheel task of a scheduled event (fires immediately when overdue)
+   */
+  private armScheduledEvent(scheduled: ScheduledEvent): void {
+    const delayMs = Math.max(0, scheduled.fireAt - Date.now());
+    this.timerWheel.addTimeout(scheduledTaskId(scheduled.id), delayMs, () => {
+      const instance = this.instances.get(scheduled.instanceId);
+      if (!instance) return;
+
+      this.removeScheduledEvent(instance, scheduled.id);
+      if (this.persistence) {
+        this.unsavedSchedules.add(instance.id);
+      }
+      this.emit('scheduled_event_fired', { ...scheduled, lateByMs: Math.max(0, Date.now() - scheduled.fireAt) });
+
+      this.sendEvent(scheduled.instanceId, {
+        ...scheduled.event,
+        eventId: scheduled.event.eventId ?? scheduled.id,
+      }).catch(error => {
+        console.error(`Scheduled event failed for ${scheduled.instanceId}:`, error);
+      });
+    });
+  }
+
+  /**
+   * Remove the timer wheel tasks of a disposed instance's scheduled events
+   */
+  private disarmScheduledEvents(instance: FSMInstance): void {
+    for (const scheduled of instance.scheduledEvents || []) {
+      this.timerWheel.removeTimeout(scheduledTaskId(scheduled.id));
+    }
+    this.unsavedSchedules.delete(instance.id);
+  }
+
+  private removeScheduledEvent(instance: FSMInstance, scheduleId: string): void {
+    const remaining = (instance.scheduledEvents || []).filter(s => s.id !== scheduleId);
+    if (remaining.length > 0) {
+      instance.scheduledEvents = remaining;
+    } else {
+      delete instance.scheduledEvents;
+    }
+  }
+
+  /**
+   * Persist scheduled events through the snapshot store
+   */
+  private async saveScheduledEvents(instance: FSMInstance): Promise<void> {
+    if (!this.persistence) {
+      return;
+    }
+    // From the instance's own transition: a snapshot now would capture it half-applied
+    if (processingEvent.getStore()?.mailbox.instanceId === instance.id) {
+      this.unsavedSchedules.add(instance.id);
+      return;
+    }
+    await this.persistence.saveSnapshot(instance, '', undefined);
   }
 
   /**
    * Simulate FSM path
+   *
+   * Guards are evaluated against the simulated context, which starts from
+   * initialContext and accumulates event payloads like a real instance.
    */
-  simulatePath(machineName: string, events: FSMEvent[]): { success: boolean; path: string[]; error?: string } {
+  simulatePath(
+    machineName: string,
+    events: FSMEvent[],
+    initialContext: Record<string, any> = {}
+  ): { success: boolean; path: string[]; error?: string } {
     const machine = this.machines.get(machineName);
     if (!machine) {
       return { success: false, path: [], error: `Machine ${machineName} not found` };
     }
 
-    const path: string[] = [machine.initialState];
-    let currentState = machine.initialState;
-    const context: Record<string, any> = {};
+    const hierarchy = this.getHierarchy(machine);
+    let configuration = hierarchy.getInitialConfiguration(machine.initialState).configuration;
+    const path: string[] = [configuration.currentState];
+    let context: Record<string, any> = { ...initialContext };
 
     for (const event of events) {
-      const transition = this.findTransition(machine, currentState, event, context);
-      if (!transition) {
-        return { success: false, path, error: `No transition from ${currentState} for event ${event.type}` };
+      const rejectedByGuard: Transition[] = [];
+      const steps = this.selectTransitions(machine, configuration, event, context, rejectedByGuard);
+      if (steps.length === 0) {
+        const error = rejectedByGuard.length > 0
+          ? `Guard rejected ${event.type} from ${configuration.currentState}: ${rejectedByGuard.map(t => t.guard).join(' | ')}`
+          : `No transition from ${configuration.currentState} for event ${event.type}`;
+        return { success: false, path, error };
       }
 
-      currentState = transition.to;
-      path.push(currentState);
+      for (const { transition, activeLeaf } of steps) {
+        const hasMatchingRules = transition.matchingRules && transition.matchingRules.length > 0;
+        if (event.payload && !hasMatchingRules) {
+          context = { ...context, ...event.payload };
+        }
+
+        const change = hierarchy.applyTransition(configuration, activeLeaf, transition.from, transition.to);
+        configuration = change.configuration;
+        path.push(change.stateAfter);
+      }
 
-      const state = machine.states.find(s => s.name === currentState);
+      const state = machine.states.find(s => s.name === configuration.currentState);
       if (state && (state.type === StateType.FINAL || state.type === StateType.ERROR)) {
         break;
       }
@@ -1670,62 +3261,402 @@ export class FSMRuntime extends EventEmitter {
   // ============================================================
 
   /**
-   * Restore all instances from snapshots (for long-running workflows)
+   * Restore all instances from persistence (for long-running workflows)
    *
-   * Called after restart to restore system state from persistence
+   * Called after restart to restore system state from persistence. Each instance
+   * starts from its latest snapshot (or from its creation event when it has none)
+   * and replays the events persisted after it, without running handlers again.
+   * Restored instances are indexed, a fresh entry-point instance is replaced by
+   * the restored one, and timeouts and scheduled events are re-armed.
    *
    * Example:
    *   const runtime = new FSMRuntime(component, { snapshots: true });
-   *   await runtime.restore();
+   *   const report = await runtime.restore();
    *   // System is now in same state as before restart
+   *
+   * @param options.filter Restore only the instances it accepts (e.g. those of the shards a replica owns)
+   * @returns Restored and failed counts, with details per state machine
    */
-  async restore(): Promise<{ restored: number; failed: number }> {
+  async restore(options: RestoreOptions = {}): Promise<RestoreReport> {
     if (!this.persistence) {
       throw new Error('Persistence is not enabled');
     }
 
-    const snapshots = await this.persistence.getAllSnapshots();
-    let restored = 0;
-    let failed = 0;
+    const migration: MigrationReport = {
+      toVersion: this.componentDef.version, instances: 0, events: 0, snapshots: 0, fromVersions: {},
+    };
+    const migratedInstances = new Set<string>();
+    const countMigrated = (instanceId: string, fromVersion: string | undefined) => {
+      const key = fromVersion ?? 'unversioned';
+      migration.fromVersions[key] = (migration.fromVersions[key] || 0) + 1;
+      migratedInstances.add(instanceId);
+    };
 
-    for (const snapshot of snapshots) {
-      try {
-        const instance = snapshot.instance;
+    const report: RestoreReport = { restored: 0, failed: 0, replayedEvents: 0, machines: {} };
+    const machineReport = (machineName: string): MachineRestoreReport => {
+      if (!report.machines[machineName]) {
+        report.machines[machineName] = {
+          restored: 0, fromSnapshot: 0, fromEvents: 0, replayedEvents: 0, failed: 0, entryPointsReconciled: 0, migrated: 0, states: {},
+        };
+      }
+      return report.machines[machineName];
+    };
 
-        // Validate machine exists
-        if (!this.machines.has(instance.machineName)) {
-          failed++;
-          this.emit('restore_error', {
-            instanceId: instance.id,
-            error: `Machine ${instance.machineName} not found`,
-          });
-          continue;
+    // Events are loaded per instance: stores may cap or page their whole-stream reads
+    const snapshots = new Map(
+      (await this.persistence.getAllSnapshots()).map(snapshot => [snapshot.instance.id, snapshot])
+    );
+    const instanceIds = new Set([...snapshots.keys(), ...await this.persistence.getInstanceIds()]);
+
+    const rebuilt: Array<{ instance: FSMInstance; fromSnapshot: boolean; replayedEvents: number }> = [];
+    for (const instanceId of instanceIds) {
+      // Created in this runtime before restore()
+      if (this.instances.has(instanceId)) continue;
+
+      const stored = await this.persistence.getInstanceEvents(instanceId);
+      // Stores may be shared between components
+      if (stored.some(e => e.componentName !== this.componentDef.name)) continue;
+
+      const events = stored.map(e => {
+        const persisted = this.upcaster.upcastEvent(e);
+        if (persisted !== e) {
+          migration.events++;
+          countMigrated(e.instanceId, e.definitionVersion);
         }
+        return persisted;
+      });
+      const storedSnapshot = snapshots.get(instanceId);
+      const snapshot = storedSnapshot && this.upcaster.upcastSnapshot(storedSnapshot);
+      if (storedSnapshot && snapshot !== storedSnapshot) {
+        migration.snapshots++;
+        countMigrated(instanceId, storedSnapshot.instance.definitionVersion);
+      }
+      if (!snapshot && events.length === 0) continue;
 
-        // Restore instance
-        this.instances.set(instance.id, instance);
-        restored++;
-
-        this.emit('instance_restored', {
-          instanceId: instance.id,
-          machineName: instance.machineName,
-          currentState: instance.currentState,
+      const machineName = snapshot ? snapshot.instance.machineName : events[0].machineName;
+      const machine = this.machines.get(machineName);
+      if (!machine) {
+        report.failed++;
+        this.emit('restore_error', {
+          instanceId,
+          error: `Machine ${machineName} not found`,
         });
+        continue;
+      }
+
+      try {
+        const { instance, replayedEvents } = this.rebuildFromPersistence(machine, snapshot, events);
+
+        // Instances reaching a final or error state are disposed (except entry points)
+        if (instance.status !== 'active' && !instance.isEntryPoint) continue;
+        if (options.filter && !options.filter(instance)) continue;
+
+        rebuilt.push({ instance, fromSnapshot: Boolean(snapshot), replayedEvents });
       } catch (error: any) {
-        failed++;
+        report.failed++;
+        machineReport(machineName).failed++;
         this.emit('restore_error', {
-          instanceId: snapshot.instance.id,
+          instanceId,
           error: error.message,
         });
       }
     }
 
-    // Resynchronize timeouts after restore
-    if (restored > 0) {
-      await this.resynchronizeTimeouts();
+    // One entry point per machine: the restored one (most recently updated) wins
+    // over the others and over a fresh one created before restore()
+    const entryPoints = new Map<string, FSMInstance>();
+    for (const { instance } of rebuilt) {
+      const kept = entryPoints.get(instance.machineName);
+      if (instance.isEntryPoint && (!kept || instance.updatedAt > kept.updatedAt)) {
+        entryPoints.set(instance.machineName, instance);
+      }
+    }
+    for (const [machineName, kept] of entryPoints) {
+      const fresh = Array.from(this.instances.values()).filter(i => i.machineName === machineName && i.isEntryPoint);
+      const discarded = [
+        ...fresh,
+        ...rebuilt.filter(r => r.instance.machineName === machineName && r.instance.isEntryPoint && r.instance !== kept)
+          .map(r => r.instance),
+      ];
+      for (const instance of discarded) {
+        if (this.instances.get(instance.id) === instance) {
+          this.removeFromIndex(instance);
+          this.clearTimeouts(instance.id);
+          this.disarmScheduledEvents(instance);
+          this.instances.delete(instance.id);
+        }
+        machineReport(machineName).entryPointsReconciled++;
+        this.emit('entry_point_reconciled', {
+          machineName,
+          instanceId: kept.id,
+          discardedInstanceId: instance.id,
+        });
+      }
+    }
+
+    const restoredIds: string[] = [];
+    for (const { instance, fromSnapshot, replayedEvents } of rebuilt) {
+      if (instance.isEntryPoint && entryPoints.get(instance.machineName) !== instance) continue;
+
+      this.instances.set(instance.id, instance);
+      this.addToIndex(instance);
+      restoredIds.push(instance.id);
+
+      const machineStats = machineReport(instance.machineName);
+      machineStats.restored++;
+      machineStats[fromSnapshot ? 'fromSnapshot' : 'fromEvents']++;
+      machineStats.replayedEvents += replayedEvents;
+      machineStats.states[instance.currentState] = (machineStats.states[instance.currentState] || 0) + 1;
+      report.restored++;
+      report.replayedEvents += replayedEvents;
+      if (migratedInstances.has(instance.id)) {
+        machineStats.migrated++;
+        migration.instances++;
+      }
+
+      this.emit('instance_restored', {
+        instanceId: instance.id,
+        machineName: instance.machineName,
+        currentState: instance.currentState,
+        replayedEvents,
+      });
+    }
+
+    // Resynchronize the timeouts of the restored instances (the others are armed already)
+    if (report.restored > 0) {
+      await this.resynchronizeTimeouts(restoredIds);
     }
 
-    return { restored, failed };
+    if (migratedInstances.size > 0) {
+      report.migrated = migration;
+      this.emit('restore_migrated', migration);
+    }
+    this.emit('restore_completed', report);
+    return report;
+  }
+
+  /**
+   * Rebuild an instance from its snapshot (if any) and the events persisted after it
+   *
+   * Without a snapshot, the instance is rebuilt from its creation event, or
+   * from the compaction summary that folded it.
+   *
+   * @returns The instance and the number of events replayed
+   */
+  private rebuildFromPersistence(
+    machine: StateMachine,
+    snapshot: InstanceSnapshot | null | undefined,
+    events: PersistedEvent[]
+  ): { instance: FSMInstance; replayedEvents: number } {
+    let instance: FSMInstance;
+    let tail: PersistedEvent[];
+    if (snapshot) {
+      instance = cloneData(snapshot.instance);
+      // Snapshots saved before definition versions were stamped
+      instance.definitionVersion = instance.definitionVersion ?? this.componentDef.version;
+      // Snapshots saved outside a transition carry no event ID
+      const lastIndex = snapshot.lastEventId ? events.findIndex(e => e.id === snapshot.lastEventId) : -1;
+      if (lastIndex >= 0) {
+        tail = events.slice(lastIndex + 1);
+      } else if (snapshot.version !== undefined) {
+        tail = events.filter(e => e.version !== undefined && e.version > snapshot.version!);
+      } else {
+        tail = events.filter(e => e.persistedAt > snapshot.snapshotAt);
+      }
+    } else if (events[0]?.event.type === COMPACTION_EVENT) {
+      // Creation folded by compaction (point-in-time queries before the latest snapshot)
+      instance = this.rebuildFromSummary(machine, events[0]);
+      tail = events.slice(1);
+    } else {
+      const creationIndex = events.findIndex(e => e.stateBefore === '' && e.event.type === 'INSTANCE_CREATED');
+      if (creationIndex < 0) {
+        throw new Error('No snapshot or creation event');
+      }
+      instance = this.rebuildInstance(machine, events[creationIndex]);
+      tail = events.slice(creationIndex + 1);
+    }
+
+    // Compaction summaries are covered by the snapshot saved with them
+    tail = tail.filter(e => e.event.type !== COMPACTION_EVENT);
+    for (const persisted of tail) {
+      this.replayPersistedEvent(instance, machine, persisted);
+    }
+    return { instance, replayedEvents: tail.length };
+  }
+
+  /**
+   * Reload an instance from the stores after another writer appended to it
+   *
+   * The in-memory instance (indexes, timeouts, scheduled events, idempotency
+   * window) is replaced by the one rebuilt from its snapshot and events.
+   * Timeouts keep their deadlines from the last persisted update.
+   */
+  private async reloadInstance(instanceId: string): Promise<void> {
+    const stale = this.instances.get(instanceId);
+    const machine = stale && this.machines.get(stale.machineName);
+    if (!this.persistence || !stale || !machine) {
+      return;
+    }
+
+    const stored = await this.persistence.restoreInstance(instanceId);
+    const snapshot = stored && this.upcaster.upcastSnapshot(stored);
+    const events = (await this.persistence.getInstanceEvents(instanceId))
+      .filter(e => e.componentName === this.componentDef.name)
+      .map(e => this.upcaster.upcastEvent(e));
+    const { instance } = this.rebuildFromPersistence(machine, snapshot, events);
+
+    this.removeFromIndex(stale);
+    this.clearTimeouts(instanceId);
+    this.disarmScheduledEvents(stale);
+    this.idempotencyWindows.delete(instanceId);
+
+    // Finished by the other writer
+    if (instance.status !== 'active' && !instance.isEntryPoint) {
+      this.instances.delete(instanceId);
+      return;
+    }
+
+    this.instances.set(instanceId, instance);
+    this.addToIndex(instance);
+    for (const stateName of this.getActiveStates(instance)) {
+      this.setupTimeouts(instanceId, stateName, instance.updatedAt);
+      this.setupAutoTransitions(instanceId, stateName);
+    }
+    this.setupJoinTransitions(instanceId);
+    for (const scheduled of instance.scheduledEvents || []) {
+      this.armScheduledEvent(scheduled);
+    }
+  }
+
+  /**
+   * Rebuild an instance that has no snapshot from its creation event
+   */
+  private rebuildInstance(machine: StateMachine, creation: PersistedEvent): FSMInstance {
+    const { configuration } = this.getHierarchy(machine).getInitialConfiguration(machine.initialState);
+    const payload = creation.event.payload || {};
+    const initialContext = cloneData(payload.initialContext || {});
+
+    const instance: FSMInstance = {
+      id: creation.instanceId,
+      machineName: machine.name,
+      currentState: configuration.currentState,
+      context: machine.publicMemberType ? {} : initialContext,
+      publicMember: machine.publicMemberType ? initialContext : undefined,
+      internalMember: machine.publicMemberType ? {} : undefined,
+      createdAt: creation.persistedAt,
+      updatedAt: creation.persistedAt,
+      status: 'active',
+      parentInstanceId: payload.parentInstanceId,
+      parentMachineName: payload.parentMachineName,
+    };
+    if (creation.version !== undefined) {
+      instance.version = creation.version;
+    }
+    instance.definitionVersion = creation.definitionVersion ?? this.componentDef.version;
+    if (configuration.regionStates) {
+      instance.regionStates = configuration.regionStates;
+    }
+    if (payload.triggerEvent === 'entry point auto-create') {
+      instance.isEntryPoint = true;
+    }
+    return instance;
+  }
+
+  /**
+   * Rebuild an instance from a compaction summary (state and data the folded
+   * events led to; regions, history and parent links are not kept)
+   */
+  private rebuildFromSummary(machine: StateMachine, summary: PersistedEvent): FSMInstance {
+    const payload = summary.event.payload as CompactionSummary;
+    const data = cloneData(summary.publicMemberSnapshot || {});
+    const state = machine.states.find(s => s.name === summary.stateAfter);
+
+    const instance: FSMInstance = {
+      id: summary.instanceId,
+      machineName: machine.name,
+      currentState: summary.stateAfter,
+      context: machine.publicMemberType ? {} : data,
+      publicMember: machine.publicMemberType ? data : undefined,
+      internalMember: machine.publicMemberType ? {} : undefined,
+      createdAt: payload.firstPersistedAt,
+      updatedAt: summary.persistedAt,
+      status: state?.type === StateType.FINAL ? 'completed' : state?.type === StateType.ERROR ? 'error' : 'active',
+    };
+    if (summary.version !== undefined) {
+      instance.version = summary.version;
+    }
+    instance.definitionVersion = summary.definitionVersion ?? this.componentDef.version;
+    return instance;
+  }
+
+  /**
+   * Apply a persisted event to a restored instance (no handlers run)
+   *
+   * The instance data is taken from the event's snapshot. The configuration
+   * follows the transition that led to the persisted target state, so that
+   * regions and history are rebuilt too; events with no such transition
+   * (e.g. HANDLER_ERROR) move straight to the persisted state.
+   */
+  private replayPersistedEvent(instance: FSMInstance, machine: StateMachine, persisted: PersistedEvent): void {
+    const hierarchy = this.getHierarchy(machine);
+
+    if (persisted.publicMemberSnapshot) {
+      if (instance.publicMember) {
+        instance.publicMember = cloneData(persisted.publicMemberSnapshot);
+      } else {
+        instance.context = cloneData(persisted.publicMemberSnapshot);
+      }
+    }
+
+    if (persisted.stateAfter && persisted.stateAfter !== persisted.stateBefore) {
+      const activeStates = this.getActiveStates(instance);
+      const leaves = [instance.currentState, ...Object.values(instance.regionStates || {})];
+      let configuration: StateConfiguration | undefined;
+      for (const transition of machine.transitions) {
+        if (transition.event !== persisted.event.type || !activeStates.includes(transition.from)) continue;
+        const activeLeaf = leaves.find(leaf => hierarchy.isAncestorOrSelf(transition.from, leaf));
+        if (!activeLeaf) continue;
+        const change = hierarchy.applyTransition(instance, activeLeaf, transition.from, transition.to);
+        if (change.stateAfter === persisted.stateAfter) {
+          configuration = change.configuration;
+          break;
+        }
+      }
+
+      const regionOf = hierarchy.getRegionOf(persisted.stateAfter);
+      if (!configuration && regionOf && instance.regionStates?.[regionOf.region] !== undefined) {
+        configuration = {
+          currentState: instance.currentState,
+          regionStates: { ...instance.regionStates, [regionOf.region]: persisted.stateAfter },
+          history: instance.history,
+        };
+      }
+
+      const next = configuration || { currentState: persisted.stateAfter, history: instance.history };
+      instance.currentState = next.currentState;
+      if (next.regionStates) {
+        instance.regionStates = next.regionStates;
+      } else {
+        delete instance.regionStates;
+      }
+      if (next.history) {
+        instance.history = next.history;
+      }
+    }
+
+    // A scheduled event that fired is no longer pending
+    if (persisted.event.eventId && instance.scheduledEvents?.some(s => s.id === persisted.event.eventId)) {
+      this.removeScheduledEvent(instance, persisted.event.eventId);
+    }
+
+    const state = machine.states.find(s => s.name === instance.currentState);
+    if (state && (state.type === StateType.FINAL || state.type === StateType.ERROR)) {
+      instance.status = state.type === StateType.FINAL ? 'completed' : 'error';
+    }
+    instance.updatedAt = persisted.persistedAt;
+    if (persisted.version !== undefined) {
+      instance.version = persisted.version;
+    }
   }
 
   /**
@@ -1733,12 +3664,21 @@ export class FSMRuntime extends EventEmitter {
    *
    * Recalculates timeout transitions based on current state and elapsed time
    * Handles expired timeouts by triggering them immediately
+   *
+   * @param instanceIds Instances to resynchronize (default: all), e.g. the ones
+   * a partial restore added next to instances whose timers are already armed
    */
-  async resynchronizeTimeouts(): Promise<{ synced: number; expired: number }> {
+  async resynchronizeTimeouts(instanceIds?: string[]): Promise<{ synced: number; expired: number }> {
     let synced = 0;
     let expired = 0;
 
-    for (const [instanceId, instance] of this.instances.entries()) {
+    const selected = instanceIds
+      ? instanceIds.flatMap(id => {
+        const instance = this.instances.get(id);
+        return instance ? [[id, instance] as const] : [];
+      })
+      : Array.from(this.instances.entries());
+    for (const [instanceId, instance] of selected) {
       if (instance.status !== 'active') {
         continue;
       }
@@ -1748,19 +3688,20 @@ export class FSMRuntime extends EventEmitter {
         continue;
       }
 
-      // Find timeout transitions from current state
+      // Find timeout transitions from current state (and enclosing composite and region states)
+      const activeStates = this.getActiveStates(instance);
       const timeoutTransitions = machine.transitions.filter(
-        t => t.from === instance.currentState && t.type === TransitionType.TIMEOUT
+        t => activeStates.includes(t.from) && t.type === TransitionType.TIMEOUT
       );
 
       for (const transition of timeoutTransitions) {
-        if (!transition.timeoutMs) {
+        // Deadline from the last update (computed timeouts are re-evaluated against the restored data)
+        const timeout = this.resolveTimeout(instance, transition, instance.updatedAt);
+        if (!timeout) {
           continue;
         }
 
-        // Calculate elapsed time since last update
-        const elapsedMs = Date.now() - instance.updatedAt;
-        const remainingMs = transition.timeoutMs - elapsedMs;
+        const remainingMs = timeout.deadlineAt - Date.now();
 
         if (remainingMs <= 0) {
           // Timeout already expired - trigger immediately
@@ -1779,7 +3720,7 @@ export class FSMRuntime extends EventEmitter {
           }
         } else {
           // Timeout still pending - reschedule with remaining time using timer wheel
-          const taskId = `${instanceId}-${instance.currentState}-${transition.event}`;
+          const taskId = `${instanceId}-${transition.from}-${transition.event}`;
 
           // Track task for cleanup
           if (!this.timeoutTasks.has(instanceId)) {
@@ -1789,7 +3730,7 @@ export class FSMRuntime extends EventEmitter {
 
           this.timerWheel.addTimeout(taskId, remainingMs, () => {
             const currentInstance = this.instances.get(instanceId);
-            if (currentInstance && currentInstance.currentState === instance.currentState) {
+            if (currentInstance && this.isStateActive(currentInstance, transition.from)) {
               this.sendEvent(instanceId, {
                 type: transition.event,
                 payload: { reason: 'timeout' },
@@ -1813,7 +3754,7 @@ export class FSMRuntime extends EventEmitter {
 
       // Resynchronize auto-transitions (should trigger immediately if not already transitioned)
       const autoTransitions = machine.transitions.filter(
-        t => t.from === instance.currentState && t.type === TransitionType.AUTO
+        t => activeStates.includes(t.from) && t.type === TransitionType.AUTO
       );
 
       for (const transition of autoTransitions) {
@@ -1823,7 +3764,7 @@ export class FSMRuntime extends EventEmitter {
         const elapsedMs = Date.now() - instance.updatedAt;
         const remainingMs = Math.max(0, delay - elapsedMs);
 
-        const taskId = `${instanceId}-${instance.currentState}-auto-${transition.event}`;
+        const taskId = `${instanceId}-${transition.from}-auto-${transition.event}`;
 
         // Track task for cleanup
         if (!this.timeoutTasks.has(instanceId)) {
@@ -1833,7 +3774,7 @@ export class FSMRuntime extends EventEmitter {
 
         this.timerWheel.addTimeout(taskId, remainingMs, () => {
           const currentInstance = this.instances.get(instanceId);
-          if (currentInstance && currentInstance.currentState === instance.currentState) {
+          if (currentInstance && this.isStateActive(currentInstance, transition.from)) {
             this.sendEvent(instanceId, {
               type: transition.event,
               payload: { reason: 'auto-transition' },
@@ -1853,11 +3794,264 @@ export class FSMRuntime extends EventEmitter {
 
         synced++;
       }
+
+      // Join transitions whose regions were all final before the restart
+      this.setupJoinTransitions(instanceId);
+
+      // Scheduled events (overdue ones fire immediately)
+      for (const scheduled of instance.scheduledEvents || []) {
+        if (scheduled.fireAt <= Date.now()) {
+          expired++;
+        } else {
+          synced++;
+        }
+        this.armScheduledEvent(scheduled);
+      }
     }
 
     return { synced, expired };
   }
 
+  /**
+   * Plan the migration of the live instances to a new version of the component definition
+   *
+   * Nothing is changed: instances are mapped (see migrateInstances) and checked
+   * against the machines and states of the new definition.
+   *
+   * @param target New component definition (same name, another version)
+   * @param mapping Changes from the running version (default: the target's migrations)
+   */
+  planMigration(target: Component, mapping?: LiveMigrationMapping): LiveMigrationReport {
+    return this.mapInstances(target, mapping).report;
+  }
+
+  /**
+   * Migrate the live instances to a new version of the component definition
+   *
+   * Instances are renamed with the mapping, or with the target's migrations
+   * starting at the running version. Once no instance is processing an event,
+   * the definition is switched and every instance moved in one step: all
+   * instances are migrated or none is. Each one gets an INSTANCE_MIGRATED
+   * history entry (and a snapshot), and its timeouts are re-armed under the
+   * new definition from the time its state was entered.
+   *
+   * @throws InstanceMigrationError if an instance cannot be mapped (nothing is changed)
+   */
+  async migrateInstances(
+    target: Component,
+    mapping?: LiveMigrationMapping,
+    options: LiveMigrationOptions = {}
+  ): Promise<LiveMigrationReport> {
+    const plan = this.mapInstances(target, mapping);
+    if (options.dryRun) {
+      return plan.report;
+    }
+
+    // Instances may change while their mailboxes drain: map them again once idle
+    await Promise.all(this.creationWrites.values());
+    await this.waitForIdleMailboxes(options.idleTimeoutMs ?? 5000);
+    const { report, instances, hierarchies, upcaster } = this.mapInstances(target, mapping);
+    if (report.unmappable.length > 0) {
+      throw new InstanceMigrationError(report);
+    }
+    report.dryRun = false;
+
+    const previous = Array.from(this.instances.values());
+    for (const instance of previous) {
+      this.removeFromIndex(instance);
+      this.clearTimeouts(instance.id);
+      this.disarmScheduledEvents(instance);
+    }
+
+    this.componentDef = target;
+    this.machines = new Map(target.stateMachines.map(machine => [machine.name, machine]));
+    this.hierarchies = hierarchies;
+    this.upcaster = upcaster;
+    this.persistence?.setDefinitionVersion(target.version);
+
+    const writes: Promise<void>[] = [];
+    for (const stale of previous) {
+      const instance = instances.get(stale.id)!;
+      const migrationEvent: FSMEvent = {
+        type: 'INSTANCE_MIGRATED',
+        payload: {
+          fromVersion: report.fromVersion,
+          toVersion: report.toVersion,
+          fromMachine: stale.machineName,
+          fromState: stale.currentState,
+        },
+        timestamp: Date.now(),
+      };
+      const instanceData = instance.publicMember || instance.context;
+
+      // Versions are taken now so that events processed during the writes follow
+      const expectedVersion = instance.version ?? 0;
+      if (this.persistence?.isEventSourcingEnabled()) {
+        instance.version = expectedVersion + 1;
+      }
+      this.instances.set(instance.id, instance);
+      this.addToIndex(instance);
+
+      const instanceHistory = this.eventHistory.get(instance.id) || [];
+      instanceHistory.push({
+        id: `migrate-${instance.id}-${report.toVersion}`,
+        instanceId: instance.id,
+        machineName: instance.machineName,
+        componentName: target.name,
+        event: migrationEvent,
+        stateBefore: stale.currentState,
+        stateAfter: instance.currentState,
+        persistedAt: Date.now(),
+        publicMemberSnapshot: instance.publicMember ? { ...instance.publicMember } : undefined,
+        version: instance.version,
+        definitionVersion: target.version,
+      });
+      this.eventHistory.set(instance.id, instanceHistory);
+
+      if (this.persistence) {
+        const persistence = this.persistence;
+        writes.push(
+          persistence.persistEvent(
+            instance.id,
+            instance.machineName,
+            target.name,
+            migrationEvent,
+            stale.currentState,
+            instance.currentState,
+            undefined,
+            undefined,
+            undefined,
+            instanceData ? { ...instanceData } : undefined,
+            expectedVersion
+          )
+            // Restores start from the migrated instance, not from records of the old definition
+            .then(eventId => persistence.saveSnapshot(instance, eventId, undefined))
+            .catch((err: any) => {
+              console.error(`[FSMRuntime] Failed to persist migration of ${instance.id}:`, err.message);
+            })
+        );
+      }
+
+      for (const stateName of this.getActiveStates(instance)) {
+        this.setupTimeouts(instance.id, stateName, instance.updatedAt);
+        this.setupAutoTransitions(instance.id, stateName);
+      }
+      this.setupJoinTransitions(instance.id);
+      for (const scheduled of instance.scheduledEvents || []) {
+        this.armScheduledEvent(scheduled);
+      }
+
+      this.emit('instance_migrated', {
+        instanceId: instance.id,
+        fromMachine: stale.machineName,
+        fromState: stale.currentState,
+        machineName: instance.machineName,
+        currentState: instance.currentState,
+      });
+    }
+
+    this.emit('definition_migrated', { component: target, report });
+    await Promise.all(writes);
+    return report;
+  }
+
+  /**
+   * Map the live instances to a new definition (the instances are copies)
+   */
+  private mapInstances(target: Component, mapping?: LiveMigrationMapping): {
+    report: LiveMigrationReport;
+    instances: Map<string, FSMInstance>;
+    hierarchies: Map<string, StateHierarchy>;
+    upcaster: ComponentUpcaster;
+  } {
+    const fromVersion = this.componentDef.version;
+    if (target.name !== this.componentDef.name) {
+      throw new Error(`Cannot migrate ${this.componentDef.name} to a definition of ${target.name}`);
+    }
+    if (target.version === fromVersion) {
+      throw new Error(`${target.name} already runs version ${fromVersion}`);
+    }
+
+    // The mapping replaces a migration of the target starting at the running version
+    const upcaster = new ComponentUpcaster(mapping
+      ? {
+        ...target,
+        migrations: [
+          ...(target.migrations || []).filter(migration => migration.from !== fromVersion),
+          { ...mapping, from: fromVersion, to: target.version },
+        ],
+      }
+      : target);
+    const hierarchies = new Map(target.stateMachines.map(machine => [machine.name, new StateHierarchy(machine)]));
+
+    const report: LiveMigrationReport = {
+      componentName: target.name,
+      fromVersion,
+      toVersion: target.version,
+      dryRun: true,
+      migrated: [],
+      unmappable: [],
+    };
+    const instances = new Map<string, FSMInstance>();
+    for (const stale of this.instances.values()) {
+      const { instance } = upcaster.upcastSnapshot({
+        instance: { ...cloneData(stale), definitionVersion: fromVersion },
+        snapshotAt: Date.now(),
+        lastEventId: '',
+      });
+      const hierarchy = hierarchies.get(instance.machineName);
+      const states = [instance.currentState, ...Object.values(instance.regionStates || {})];
+      const missing = hierarchy && states.find(state => !hierarchy.has(state));
+      const composite = hierarchy && states.find(state => hierarchy.isComposite(state) || hierarchy.isParallel(state));
+
+      let reason: string | undefined;
+      if (!hierarchy) {
+        reason = `machine ${instance.machineName} does not exist in version ${target.version}`;
+      } else if (missing) {
+        reason = `state ${missing} does not exist in ${instance.machineName} ${target.version}`;
+      } else if (composite) {
+        reason = `state ${composite} has substates in ${instance.machineName} ${target.version}`;
+      }
+      if (reason) {
+        report.unmappable.push({ instanceId: stale.id, machineName: stale.machineName, currentState: stale.currentState, reason });
+        continue;
+      }
+
+      if (instance.history) {
+        // Remembered substates the new definition no longer has are dropped
+        instance.history = Object.fromEntries(
+          Object.entries(instance.history).filter(([composite, state]) => hierarchy!.has(composite) && hierarchy!.has(state))
+        );
+      }
+      // Recomputed when the timeouts are re-armed
+      delete instance.timeoutDeadlines;
+      instance.definitionVersion = target.version;
+      instances.set(stale.id, instance);
+      report.migrated.push({
+        instanceId: stale.id,
+        fromMachine: stale.machineName,
+        fromState: stale.currentState,
+        machineName: instance.machineName,
+        currentState: instance.currentState,
+      });
+    }
+    return { report, instances, hierarchies, upcaster };
+  }
+
+  /**
+   * Wait until no instance (or none of the given ones) is processing or queueing events
+   */
+  private async waitForIdleMailboxes(timeoutMs: number, instanceIds?: string[]): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    const busy = () => instanceIds ? instanceIds.filter(id => this.mailboxes.has(id)).length : this.mailboxes.size;
+    while (busy() > 0) {
+      if (Date.now() >= deadline) {
+        throw new Error(`${busy()} instance(s) still processing events after ${timeoutMs}ms`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+
   /**
    * Get persistence manager (for testing/inspection)
    */
@@ -1869,15 +4063,260 @@ export class FSMRuntime extends EventEmitter {
    * Get instance event history (for audit/debug)
    */
   async getInstanceHistory(instanceId: string): Promise<import('./types').PersistedEvent[]> {
-    // First try persistence store
+    // First try persistence store (events of older definitions are migrated)
     if (this.persistence) {
-      return await this.persistence.getInstanceEvents(instanceId);
+      const events = await this.persistence.getInstanceEvents(instanceId);
+      return events.map(e => e.componentName === this.componentDef.name ? this.upcaster.upcastEvent(e) : e);
     }
 
     // Fall back to in-memory history
     return this.eventHistory.get(instanceId) || [];
   }
 
+  /**
+   * Rebuild an instance as it was at a point in time (for audit)
+   *
+   * Uses the instance's snapshot when it was taken at or before the timestamp,
+   * otherwise replays its events from creation. Finished instances are returned
+   * too (with their completed/error status); nothing is added to the runtime.
+   *
+   * @param instanceId Instance to rebuild
+   * @param timestamp Epoch milliseconds
+   * @returns The instance, or null if it did not exist yet
+   */
+  async getInstanceAt(instanceId: string, timestamp: number): Promise<FSMInstance | null> {
+    if (!this.persistence) {
+      throw new Error('Persistence is not enabled');
+    }
+
+    const events = (await this.persistence.getInstanceEvents(instanceId))
+      .filter(e => e.componentName === this.componentDef.name);
+    const stored = await this.persistence.restoreInstance(instanceId);
+    return this.rebuildAt(events, stored && stored.snapshotAt <= timestamp ? stored : null, timestamp);
+  }
+
+  /**
+   * Instances of a machine that were in a state at a point in time (for audit)
+   *
+   * A composite state matches the instances that were in one of its substates.
+   *
+   * @param machineName State machine
+   * @param stateName State the instances were in
+   * @param timestamp Epoch milliseconds
+   */
+  async getInstancesInStateAt(machineName: string, stateName: string, timestamp: number): Promise<FSMInstance[]> {
+    if (!this.persistence) {
+      throw new Error('Persistence is not enabled');
+    }
+    const machine = this.machines.get(machineName);
+    if (!machine) {
+      throw new Error(`Machine ${machineName} not found`);
+    }
+
+    // Only the events up to the timestamp, through the time index of the store
+    const eventsByInstance = new Map<string, PersistedEvent[]>();
+    for (const persisted of await this.persistence.getEventsByTimeRange(0, timestamp)) {
+      if (persisted.componentName !== this.componentDef.name) continue;
+      const events = eventsByInstance.get(persisted.instanceId) || [];
+      events.push(persisted);
+      eventsByInstance.set(persisted.instanceId, events);
+    }
+    const snapshots = new Map(
+      (await this.persistence.getAllSnapshots())
+        .filter(snapshot => snapshot.snapshotAt <= timestamp)
+        .map(snapshot => [snapshot.instance.id, snapshot])
+    );
+
+    const instances: FSMInstance[] = [];
+    for (const [instanceId, events] of eventsByInstance) {
+      const instance = this.rebuildAt(events, snapshots.get(instanceId) ?? null, timestamp);
+      if (instance?.machineName === machineName && this.getActiveStates(instance).includes(stateName)) {
+        instances.push(instance);
+      }
+    }
+    return instances;
+  }
+
+  /**
+   * Rebuild an instance from its events persisted up to a timestamp
+   *
+   * @param snapshot Snapshot taken at or before the timestamp (if any)
+   */
+  private rebuildAt(stored: PersistedEvent[], snapshot: InstanceSnapshot | null, timestamp: number): FSMInstance | null {
+    const events = stored
+      .filter(e => e.persistedAt <= timestamp)
+      .map(e => this.upcaster.upcastEvent(e));
+    const upcast = snapshot && this.upcaster.upcastSnapshot(snapshot);
+    if (!upcast && events.length === 0) {
+      return null;
+    }
+
+    const machineName = upcast ? upcast.instance.machineName : events[0].machineName;
+    const machine = this.machines.get(machineName);
+    if (!machine) {
+      throw new Error(`Machine ${machineName} not found`);
+    }
+    return this.rebuildFromPersistence(machine, upcast, events).instance;
+  }
+
+  /**
+   * Apply the retention policies of the component to the event history
+   *
+   * For each instance of a machine with a policy, the events the policy selects
+   * (older than maxAgeDays, or all of them once the instance is finished with
+   * terminalSummaryOnly) are archived if configured, then replaced in the event
+   * store by a HISTORY_COMPACTED summary event. A snapshot of the instance
+   * after the last folded event is saved first, unless the current snapshot is
+   * more recent, so that restore() and getInstanceAt() keep working.
+   *
+   * The in-memory history of the runtime is pruned too: entries of disposed
+   * instances are dropped when events are persisted, otherwise the policies apply.
+   *
+   * Runs one at a time: a call made during a run returns that run's report.
+   *
+   * @param options.dryRun Report what would be compacted without changing anything
+   * @param options.now Reference time of maxAgeDays (default: now)
+   */
+  async compactHistory(options: { dryRun?: boolean; now?: number } = {}): Promise<CompactionReport> {
+    if (!this.compaction) {
+      this.compaction = this.runCompaction(options.dryRun ?? false, options.now ?? Date.now())
+        .finally(() => {
+          this.compaction = null;
+        });
+    }
+    return this.compaction;
+  }
+
+  private async runCompaction(dryRun: boolean, now: number): Promise<CompactionReport> {
+    const report: CompactionReport = {
+      componentName: this.componentDef.name,
+      dryRun,
+      compactedAt: now,
+      instances: [],
+      events: 0,
+      archives: [],
+      prunedHistory: this.pruneEventHistory(now, dryRun),
+    };
+
+    const persistence = this.persistence;
+    const eventStore = persistence?.getEventStore();
+    if (!persistence?.isEventSourcingEnabled() || !eventStore) {
+      return report;
+    }
+    if (typeof eventStore.compact !== 'function') {
+      report.skipped = 'The event store does not support compaction';
+      return report;
+    }
+    if (!persistence.isSnapshotsEnabled()) {
+      report.skipped = 'Compaction requires snapshots';
+      return report;
+    }
+
+    // One instance at a time: the whole stream may not fit in one read
+    const plans: Array<{ machine: StateMachine; events: PersistedEvent[]; folded: PersistedEvent[]; archiveDirectory?: string }> = [];
+    for (const instanceId of await persistence.getInstanceIds()) {
+      const stored = await persistence.getInstanceEvents(instanceId);
+      if (stored.length === 0 || stored[0].componentName !== this.componentDef.name) continue;
+      const events = [...stored].sort((a, b) => a.persistedAt - b.persistedAt);
+      const last = this.upcaster.upcastEvent(events[events.length - 1]);
+      const machine = this.machines.get(last.machineName);
+      const policy = machine && resolveRetentionPolicy(this.componentDef, machine.name);
+      if (!machine || !policy) continue;
+
+      const lastState = machine.states.find(state => state.name === last.stateAfter);
+      const finished = !this.instances.has(last.instanceId) &&
+        (lastState?.type === StateType.FINAL || lastState?.type === StateType.ERROR);
+      const folded = selectEventsToFold(events, policy, finished, now);
+      // Nothing new since the last compaction
+      if (folded.length === 0 || (folded.length === 1 && folded[0].event.type === COMPACTION_EVENT)) continue;
+      plans.push({ machine, events, folded, archiveDirectory: policy.archiveDirectory });
+    }
+
+    const archives = new Map<string, string>();
+    if (!dryRun) {
+      for (const directory of new Set(plans.map(plan => plan.archiveDirectory).filter((d): d is string => !!d))) {
+        const events = plans.filter(plan => plan.archiveDirectory === directory).flatMap(plan => plan.folded);
+        archives.set(directory, await writeArchive(directory, this.componentDef.name, events, now));
+      }
+    }
+    report.archives = Array.from(archives.values());
+
+    for (const { machine, events, folded, archiveDirectory } of plans) {
+      const instanceId = folded[0].instanceId;
+      const archive = archiveDirectory ? archives.get(archiveDirectory) : undefined;
+      const summary = createSummaryEvent(folded, now, archive && path.basename(archive), this.getIdempotencyWindowSize());
+
+      if (!dryRun) {
+        const lastFolded = folded[folded.length - 1];
+        const stored = await persistence.restoreInstance(instanceId);
+        const covered = stored && (stored.version !== undefined && lastFolded.version !== undefined
+          ? stored.version >= lastFolded.version
+          : stored.snapshotAt >= lastFolded.persistedAt);
+        if (!covered) {
+          // State after the last folded event (an older snapshot may stand for earlier compacted events)
+          const { instance } = this.rebuildFromPersistence(
+            machine,
+            stored && this.upcaster.upcastSnapshot(stored),
+            events.slice(0, events.indexOf(lastFolded) + 1).map(e => this.upcaster.upcastEvent(e))
+          );
+          await persistence.getSnapshotStore().saveSnapshot({
+            instance,
+            snapshotAt: lastFolded.persistedAt,
+            lastEventId: lastFolded.id,
+            version: lastFolded.version,
+          });
+        }
+        await eventStore.compact(instanceId, folded.map(e => e.id), summary);
+      }
+
+      report.instances.push({
+        instanceId,
+        machineName: machine.name,
+        events: folded.length,
+        summaryEventId: summary.id,
+        hash: summary.event.payload.hash,
+        archive,
+      });
+      report.events += folded.length;
+    }
+
+    this.emit('history_compacted', report);
+    return report;
+  }
+
+  /**
+   * Drop in-memory history entries (returns how many were, or would be, dropped)
+   */
+  private pruneEventHistory(now: number, dryRun: boolean): number {
+    let pruned = 0;
+    for (const [instanceId, history] of this.eventHistory) {
+      const live = this.instances.has(instanceId);
+      let kept = history;
+      if (!live && this.persistence?.isEventSourcingEnabled()) {
+        // Read from the event store by getInstanceHistory()
+        kept = [];
+      } else {
+        const policy = history.length > 0
+          ? resolveRetentionPolicy(this.componentDef, history[history.length - 1].machineName)
+          : undefined;
+        if (policy) {
+          const dropped = selectEventsToFold(history, policy, !live, now).length;
+          // Finished instances keep their last entry as terminal summary
+          kept = history.slice(!live && policy.terminalSummaryOnly ? Math.min(dropped, history.length - 1) : dropped);
+        }
+      }
+
+      pruned += history.length - kept.length;
+      if (dryRun || kept.length === history.length) continue;
+      if (kept.length > 0) {
+        this.eventHistory.set(instanceId, kept);
+      } else {
+        this.eventHistory.delete(instanceId);
+      }
+    }
+    return pruned;
+  }
+
   /**
    * Get all persisted events for this component
    */
@@ -1923,8 +4362,18 @@ export class FSMRuntime extends EventEmitter {
 
   /**
    * Get available transitions from current state of an instance
+   *
+   * Guards are evaluated against the instance data. Guards that read the
+   * event are only evaluated when a payload is provided; otherwise the
+   * transition is kept since it may pass with the right payload.
+   *
+   * Transitions targeting a history pseudo-state report the state they
+   * would currently re-enter as `historyTarget`.
+   *
+   * @param instanceId Instance ID
+   * @param payload Optional event payload to evaluate event-dependent guards
    */
-  getAvailableTransitions(instanceId: string): Transition[] {
+  getAvailableTransitions(instanceId: string, payload?: Record<string, any>): AvailableTransition[] {
     const instance = this.getInstance(instanceId);
     if (!instance) {
       return [];
@@ -1935,8 +4384,48 @@ export class FSMRuntime extends EventEmitter {
       return [];
     }
 
-    // Find all transitions from current state
-    return machine.transitions.filter(t => t.from === instance.currentState);
+    const instanceContext = instance.publicMember || instance.context;
+    const activeStates = this.getActiveStates(instance);
+    const hierarchy = this.getHierarchy(machine);
+    const joinReady = hierarchy.isJoinReady(instance);
+
+    // Find all transitions from current state (or inherited from enclosing composite states,
+    // or from the active states of every region) whose guard may pass
+    const available = machine.transitions.filter(t => {
+      if (!activeStates.includes(t.from)) {
+        return false;
+      }
+      if (t.type === TransitionType.JOIN && !joinReady) {
+        return false;
+      }
+      if (!t.guard) {
+        return true;
+      }
+      try {
+        if (payload === undefined && compileGuard(t.guard).roots.has('event')) {
+          return true;
+        }
+      } catch {
+        return false;
+      }
+      return this.evaluateTransitionGuard(t, { type: t.event, payload: payload || {}, timestamp: Date.now() }, instanceContext);
+    });
+
+    return available.map(t => {
+      if (!hierarchy.isHistory(t.to)) {
+        return t;
+      }
+      // Resolve as the transition would: history of the exited states is recorded first
+      const activeLeaf = Object.values(instance.regionStates || {})
+        .find(leaf => hierarchy.isAncestorOrSelf(t.from, leaf)) || instance.currentState;
+      let historyTarget: string;
+      try {
+        historyTarget = hierarchy.applyTransition(instance, activeLeaf, t.from, t.to).stateAfter;
+      } catch {
+        historyTarget = hierarchy.resolveTarget(t.to, instance.history);
+      }
+      return { ...t, historyTarget };
+    });
   }
 
   /**
@@ -1946,10 +4435,23 @@ export class FSMRuntime extends EventEmitter {
   dispose(): void {
     // Stop timer wheel
     this.timerWheel.stop();
+    if (this.compactionTimer) {
+      clearInterval(this.compactionTimer);
+      this.compactionTimer = null;
+    }
 
     // Clear all instances
     this.instances.clear();
     this.timeoutTasks.clear();
+    this.idempotencyWindows.clear();
+    this.unsavedSchedules.clear();
+
+    // Events of mailboxes still waiting for a slot will never be processed
+    for (const mailbox of this.readyMailboxes) {
+      mailbox.queue.splice(0).forEach(queued => queued.reject(new Error('Runtime disposed')));
+      this.mailboxes.delete(mailbox.instanceId);
+    }
+    this.readyMailboxes = [];
 
     // Clear indexes
     this.machineIndex.clear();
@@ -0,0 +1,437 @@
+/**
+ * Guard Expressions
+ * Safe, side-effect free expression language for declarative transition guards
+ *
+ * Guards are written in YAML and evaluated against the incoming event and the
+ * instance data, without ever reaching `eval` or `Function`:
+ *
+ *   guard: "context.amount > 10000 && event.payload.kyc == 'OK'"
+ *
+ * Supported syntax:
+ * - Roots: `event` (type, payload), `context`, `publicMember`
+ * - Literals: numbers, 'single' or "double" quoted strings, true, false, null, undefined, [arrays]
+ * - Member access: `a.b.c`, `a['b']`, `a[0]` (missing properties evaluate to undefined)
+ * - Operators: `!`, unary `-`, `* / %`, `+ -`, `< <= > >= in`, `== != === !==`, `&&`, `||`
+ * - Parentheses for grouping
+ */
+
+/**
+ * Error raised when a guard expression cannot be parsed
+ */
+export class GuardExpressionError extends Error {
+  constructor(message: string, public readonly expression: string, public readonly position?: number) {
+    super(position !== undefined ? `${message} at position ${position} in "${expression}"` : `${message} in "${expression}"`);
+    this.name = 'GuardExpressionError';
+  }
+}
+
+/**
+ * Variables available to a guard expression
+ */
+export interface GuardScope {
+  event?: { type?: string; payload?: Record<string, any> };
+  context?: Record<string, any>;
+  publicMember?: Record<string, any>;
+  [root: string]: any;
+}
+
+/**
+ * Parsed, reusable guard expression
+ */
+export interface CompiledGuard {
+  /** Original source text */
+  source: string;
+  /** Root identifiers referenced by the expression (e.g. 'event', 'context') */
+  roots: Set<string>;
+  /** Evaluate the expression against a scope */
+  evaluate(scope: GuardScope): any;
+}
+
+/** Root identifiers a guard may reference */
+export const GUARD_ROOTS = ['event', 'context', 'publicMember'];
+
+/** Properties that are never readable from a guard */
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'string'; value: string; pos: number }
+  | { kind: 'identifier'; value: string; pos: number }
+  | { kind: 'operator'; value: string; pos: number }
+  | { kind: 'eof'; value: ''; pos: number };
+
+type Node =
+  | { kind: 'literal'; value: any }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'member'; object: Node; property: Node }
+  | { kind: 'array'; elements: Node[] }
+  | { kind: 'unary'; operator: string; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node };
+
+// Longest operators first so that '===' wins over '=='
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', '.', ','];
+
+const KEYWORDS: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[i + 1] || ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))!;
+      tokens.push({ kind: 'number', value: Number(match[0]), pos: i });
+      i += match[0].length;
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new GuardExpressionError('Unterminated string literal', source, start);
+      }
+      i++; // closing quote
+      tokens.push({ kind: 'string', value, pos: start });
+      continue;
+    }
+
+    if (/[A-Za-z_$]/.test(ch)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      const word = match[0];
+      tokens.push(word === 'in'
+        ? { kind: 'operator', value: 'in', pos: i }
+        : { kind: 'identifier', value: word, pos: i });
+      i += word.length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, i));
+    if (!operator) {
+      throw new GuardExpressionError(`Unexpected character '${ch}'`, source, i);
+    }
+    tokens.push({ kind: 'operator', value: operator, pos: i });
+    i += operator.length;
+  }
+
+  tokens.push({ kind: 'eof', value: '', pos: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive-descent parser (lowest to highest precedence)
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private source: string) {}
+
+  parse(): Node {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'eof') {
+      throw new GuardExpressionError(`Unexpected token '${next.value}'`, this.source, next.pos);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private matchOperator(...operators: string[]): string | null {
+    const token = this.peek();
+    if (token.kind === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token.value;
+    }
+    return null;
+  }
+
+  private expectOperator(operator: string): void {
+    if (!this.matchOperator(operator)) {
+      const token = this.peek();
+      throw new GuardExpressionError(`Expected '${operator}'`, this.source, token.pos);
+    }
+  }
+
+  private parseBinary(next: () => Node, operators: string[]): Node {
+    let left = next();
+    let operator: string | null;
+    while ((operator = this.matchOperator(...operators))) {
+      left = { kind: 'binary', operator, left, right: next() };
+    }
+    return left;
+  }
+
+  private parseOr(): Node {
+    return this.parseBinary(() => this.parseAnd(), ['||']);
+  }
+
+  private parseAnd(): Node {
+    return this.parseBinary(() => this.parseEquality(), ['&&']);
+  }
+
+  private parseEquality(): Node {
+    return this.parseBinary(() => this.parseRelational(), ['===', '!==', '==', '!=']);
+  }
+
+  private parseRelational(): Node {
+    return this.parseBinary(() => this.parseAdditive(), ['<', '<=', '>', '>=', 'in']);
+  }
+
+  private parseAdditive(): Node {
+    return this.parseBinary(() => this.parseMultiplicative(), ['+', '-']);
+  }
+
+  private parseMultiplicative(): Node {
+    return this.parseBinary(() => this.parseUnary(), ['*', '/', '%']);
+  }
+
+  private parseUnary(): Node {
+    const operator = this.matchOperator('!', '-');
+    if (operator) {
+      return { kind: 'unary', operator, operand: this.parseUnary() };
+    }
+    return this.parseMember();
+  }
+
+  private parseMember(): Node {
+    let node = this.parsePrimary();
+
+    for (;;) {
+      if (this.matchOperator('.')) {
+        const token = this.peek();
+        if (token.kind !== 'identifier') {
+          throw new GuardExpressionError('Expected property name', this.source, token.pos);
+        }
+        this.index++;
+        node = { kind: 'member', object: node, property: { kind: 'literal', value: token.value } };
+      } else if (this.matchOperator('[')) {
+        const property = this.parseOr();
+        this.expectOperator(']');
+        node = { kind: 'member', object: node, property };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parsePrimary(): Node {
+    const token = this.peek();
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        this.index++;
+        return { kind: 'literal', value: token.value };
+      case 'identifier':
+        this.index++;
+        if (token.value in KEYWORDS) {
+          return { kind: 'literal', value: KEYWORDS[token.value] };
+        }
+        return { kind: 'identifier', name: token.value };
+      case 'operator':
+        if (this.matchOperator('(')) {
+          const inner = this.parseOr();
+          this.expectOperator(')');
+          return inner;
+        }
+        if (this.matchOperator('[')) {
+          const elements: Node[] = [];
+          if (!this.matchOperator(']')) {
+            do {
+              elements.push(this.parseOr());
+            } while (this.matchOperator(','));
+            this.expectOperator(']');
+          }
+          return { kind: 'array', elements };
+        }
+        break;
+    }
+
+    throw new GuardExpressionError(
+      token.kind === 'eof' ? 'Unexpected end of expression' : `Unexpected token '${token.value}'`,
+      this.source,
+      token.pos
+    );
+  }
+}
+
+function collectRoots(node: Node, roots: Set<string>): void {
+  switch (node.kind) {
+    case 'identifier':
+      roots.add(node.name);
+      break;
+    case 'member':
+      collectRoots(node.object, roots);
+      collectRoots(node.property, roots);
+      break;
+    case 'array':
+      node.elements.forEach(element => collectRoots(element, roots));
+      break;
+    case 'unary':
+      collectRoots(node.operand, roots);
+      break;
+    case 'binary':
+      collectRoots(node.left, roots);
+      collectRoots(node.right, roots);
+      break;
+  }
+}
+
+function readProperty(object: any, property: any): any {
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.has(key)) {
+    return undefined;
+  }
+  if ((typeof object === 'string' || Array.isArray(object)) && key === 'length') {
+    return object.length;
+  }
+  if (typeof object !== 'object' || !Object.prototype.hasOwnProperty.call(object, key)) {
+    return undefined;
+  }
+  return object[key];
+}
+
+function evaluateNode(node: Node, scope: GuardScope): any {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'identifier':
+      return Object.prototype.hasOwnProperty.call(scope, node.name) ? scope[node.name] : undefined;
+    case 'member':
+      return readProperty(evaluateNode(node.object, scope), evaluateNode(node.property, scope));
+    case 'array':
+      return node.elements.map(element => evaluateNode(element, scope));
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      return node.operator === '!' ? !operand : -operand;
+    }
+    case 'binary': {
+      // Short-circuit logical operators
+      if (node.operator === '&&') {
+        const left = evaluateNode(node.left, scope);
+        return left ? evaluateNode(node.right, scope) : left;
+      }
+      if (node.operator === '||') {
+        const left = evaluateNode(node.left, scope);
+        return left ? left : evaluateNode(node.right, scope);
+      }
+
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.operator) {
+        case '===': return left === right;
+        case '!==': return left !== right;
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case 'in':
+          if (Array.isArray(right)) return right.includes(left);
+          if (typeof right === 'string') return right.includes(String(left));
+          return right !== null && typeof right === 'object' && Object.prototype.hasOwnProperty.call(right, String(left));
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '%': return left % right;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Compiled guards kept in the cache (least recently used ones are evicted first)
+ */
+export const GUARD_CACHE_SIZE = 1000;
+
+// Compiled guards are cached by source: YAML guards are evaluated on every event.
+// Bounded, as guards also come from dashboard and API input (Map order = recency).
+const compiledCache = new Map<string, CompiledGuard>();
+
+/**
+ * Parse a guard expression (cached)
+ *
+ * @param source Guard expression text
+ * @returns Compiled guard
+ * @throws GuardExpressionError if the expression is invalid
+ */
+export function compileGuard(source: string): CompiledGuard {
+  const cached = compiledCache.get(source);
+  if (cached) {
+    compiledCache.delete(source);
+    compiledCache.set(source, cached);
+    return cached;
+  }
+
+  const ast = new Parser(tokenize(source), source).parse();
+  const roots = new Set<string>();
+  collectRoots(ast, roots);
+
+  const compiled: CompiledGuard = {
+    source,
+    roots,
+    evaluate: (scope: GuardScope) => evaluateNode(ast, scope),
+  };
+  compiledCache.set(source, compiled);
+  if (compiledCache.size > GUARD_CACHE_SIZE) {
+    compiledCache.delete(compiledCache.keys().next().value!);
+  }
+  return compiled;
+}
+
+/**
+ * Evaluate a guard expression to a boolean
+ *
+ * @param source Guard expression text
+ * @param scope Variables available to the expression
+ * @returns true if the guard passes
+ */
+export function evaluateGuard(source: string, scope: GuardScope): boolean {
+  return Boolean(compileGuard(source).evaluate(scope));
+}
+
+/**
+ * Validate a guard expression without evaluating it
+ *
+ * @param source Guard expression text
+ * @returns List of problems (empty when valid)
+ */
+export function validateGuard(source: string): string[] {
+  try {
+    const compiled = compileGuard(source);
+    return Array.from(compiled.roots)
+      .filter(root => !GUARD_ROOTS.includes(root))
+      .map(root => `Unknown identifier '${root}' (allowed: ${GUARD_ROOTS.join(', ')})`);
+  } catch (error: any) {
+    return [error.message];
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Audit Trail Queries over Event and Snapshot Stores
+ *
+ * Answers the dashboard history endpoints (instance search, event history,
+ * cross-component correlation, point-in-time views) from any
+ * EventStore/SnapshotStore pair.
+ * Used for stores the dashboard cannot query directly (e.g. SQLite).
+ */
+
+import { EventStore, SnapshotStore, PersistedEvent, InstanceSnapshot, FSMInstance } from './types';
+
+/**
+ * Instance row of the history search (same fields as the PostgreSQL query)
+ */
+export interface InstanceSummary {
+  instance_id: string;
+  machine_name: string;
+  current_state: string;
+  context: Record<string, any>;
+  event_count: number;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+/**
+ * Event of the cross-component sequence diagram
+ */
+export interface CorrelatedEvent {
+  id: string;
+  instanceId: string;
+  machineName: string;
+  componentName: string;
+  eventType: string;
+  eventPayload: Record<string, any>;
+  fromState: string;
+  toState: string;
+  context?: Record<string, any>;
+  publicMemberSnapshot?: Record<string, any>;
+  sourceComponentName?: string;
+  persistedAt: number;
+}
+
+/**
+ * Parse the `at` parameter of the history endpoints (epoch ms or ISO 8601)
+ *
+ * @returns Epoch milliseconds, undefined when absent
+ * @throws Error when the value is not a valid time
+ */
+export function parseTimestamp(value: unknown): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  const text = String(value);
+  const timestamp = /^\d+$/.test(text) ? Number(text) : Date.parse(text);
+  if (Number.isNaN(timestamp)) {
+    throw new Error(`Invalid timestamp: ${text}`);
+  }
+  return timestamp;
+}
+
+/**
+ * History search row of an instance (e.g. one rebuilt by FSMRuntime.getInstanceAt)
+ *
+ * @param updatedAt Defaults to the instance's last update
+ */
+export function toInstanceSummary(instance: FSMInstance, eventCount: number = 0, updatedAt?: number): InstanceSummary {
+  const updated = updatedAt ?? instance.updatedAt;
+  return {
+    instance_id: instance.id,
+    machine_name: instance.machineName,
+    current_state: instance.currentState,
+    context: instance.publicMember || instance.context || {},
+    event_count: eventCount,
+    created_at: instance.createdAt ? new Date(instance.createdAt).toISOString() : null,
+    updated_at: updated ? new Date(updated).toISOString() : null,
+  };
+}
+
+/**
+ * History search row of an instance after the last of its events (oldest first)
+ */
+export function summarizeEvents(events: PersistedEvent[]): InstanceSummary {
+  const first = events[0];
+  const last = events[events.length - 1];
+  return {
+    instance_id: first.instanceId,
+    machine_name: first.machineName,
+    current_state: last.stateAfter,
+    context: last.publicMemberSnapshot || first.event.payload || {},
+    event_count: events.length,
+    created_at: new Date(first.persistedAt).toISOString(),
+    updated_at: new Date(last.persistedAt).toISOString(),
+  };
+}
+
+/**
+ * Context fields tried, in order, to correlate instances of different components
+ */
+const CORRELATION_FIELDS = ['orderId', 'requestId', 'id', 'transactionId', 'correlationId'];
+
+/**
+ * History queries answered through the store interfaces
+ */
+export class StoreHistoryQueries {
+  constructor(private eventStore: EventStore, private snapshotStore: SnapshotStore) {}
+
+  /**
+   * Events of an instance, oldest first
+   */
+  async getInstanceHistory(instanceId: string): Promise<PersistedEvent[]> {
+    return this.eventStore.getEventsForInstance(instanceId);
+  }
+
+  /**
+   * Search instances (including terminated ones) by machine, state and text
+   *
+   * Instances are listed from their events; the snapshot, when there is one,
+   * gives the current state and context (snapshots are only taken on transitions).
+   * With `at` (epoch ms), instances are shown as they were at that time, from the
+   * last event persisted up to it (state and publicMemberSnapshot).
+   */
+  async searchInstances(
+    filters: { machine?: string; state?: string; q?: string; limit?: number; at?: number } = {}
+  ): Promise<InstanceSummary[]> {
+    const limit = filters.limit ?? 100;
+    const q = filters.q?.toLowerCase();
+    const matches = (summary: InstanceSummary) =>
+      (!filters.machine || summary.machine_name === filters.machine) &&
+      (!filters.state || summary.current_state === filters.state) &&
+      (!q || JSON.stringify(summary.context || {}).toLowerCase().includes(q) || summary.instance_id.toLowerCase().includes(q));
+
+    const byInstance = new Map<string, PersistedEvent[]>();
+    for (const event of await this.getEventsUpTo(filters.at)) {
+      const events = byInstance.get(event.instanceId) || [];
+      events.push(event);
+      byInstance.set(event.instanceId, events);
+    }
+
+    const summaries = new Map<string, InstanceSummary>();
+    for (const events of byInstance.values()) {
+      summaries.set(events[0].instanceId, summarizeEvents(events));
+    }
+    // Snapshots only hold the latest state
+    const snapshots = filters.at === undefined ? await this.snapshotStore.getAllSnapshots() : [];
+    for (const snapshot of snapshots) {
+      const fromEvents = summaries.get(snapshot.instance.id);
+      const summary = this.toSummary(snapshot, fromEvents?.event_count);
+      summaries.set(snapshot.instance.id, {
+        ...summary,
+        created_at: summary.created_at ?? fromEvents?.created_at ?? null,
+        updated_at: [summary.updated_at, fromEvents?.updated_at].filter(Boolean).sort().pop() ?? null,
+      });
+    }
+
+    return Array.from(summaries.values())
+      .filter(matches)
+      .sort((a, b) => (b.updated_at || '').localeCompare(a.updated_at || ''))
+      .slice(0, limit);
+  }
+
+  /**
+   * Snapshot (current or final state) and events of an instance
+   *
+   * With `at` (epoch ms), the events persisted up to that time and the state
+   * they led to.
+   */
+  async getInstanceEventsWithSnapshot(
+    instanceId: string,
+    at?: number
+  ): Promise<{ snapshot: InstanceSummary | null; events: PersistedEvent[] }> {
+    const events = await this.eventStore.getEventsForInstance(instanceId);
+    if (at !== undefined) {
+      const past = events.filter(event => event.persistedAt <= at);
+      return { snapshot: past.length > 0 ? summarizeEvents(past) : null, events: past };
+    }
+    const snapshot = await this.snapshotStore.getSnapshot(instanceId);
+    return { snapshot: snapshot ? this.toSummary(snapshot, events.length) : null, events };
+  }
+
+  /**
+   * Events of all instances sharing a correlation value with this one
+   * (e.g. every event for orderId=X, across components)
+   */
+  async getCorrelatedEvents(instanceId: string): Promise<{
+    events: CorrelatedEvent[];
+    correlationKey: string | null;
+    correlationValue?: any;
+  }> {
+    const instanceEvents = await this.eventStore.getEventsForInstance(instanceId);
+    if (instanceEvents.length === 0) {
+      return { events: [], correlationKey: null };
+    }
+
+    const snapshot = await this.snapshotStore.getSnapshot(instanceId);
+    const snapshotData = snapshot ? (snapshot.instance.publicMember || snapshot.instance.context || {}) : {};
+    const first = instanceEvents[0];
+    const context = { ...(first.event.payload || {}), ...(first.publicMemberSnapshot || {}), ...snapshotData };
+
+    const correlationKey = CORRELATION_FIELDS.find(field => context[field] !== undefined && context[field] !== null);
+    if (!correlationKey) {
+      return { events: instanceEvents.map(event => this.toCorrelatedEvent(event)), correlationKey: null };
+    }
+
+    const correlationValue = context[correlationKey];
+    const expected = String(correlationValue);
+    const events = (await this.getEventsUpTo())
+      .filter(event =>
+        String(event.event.payload?.[correlationKey]) === expected ||
+        String(event.publicMemberSnapshot?.[correlationKey]) === expected
+      )
+      .sort((a, b) => a.persistedAt - b.persistedAt)
+      .map(event => this.toCorrelatedEvent(event));
+
+    return { events, correlationKey, correlationValue };
+  }
+
+  /**
+   * Events persisted up to a time (all of them without one), through the time index of the store
+   */
+  private getEventsUpTo(at?: number): Promise<PersistedEvent[]> {
+    return this.eventStore.getEventsByTimeRange(0, at ?? Number.MAX_SAFE_INTEGER);
+  }
+
+  private toSummary(snapshot: InstanceSnapshot, eventCount: number = 0): InstanceSummary {
+    return toInstanceSummary(snapshot.instance, eventCount, snapshot.snapshotAt);
+  }
+
+  private toCorrelatedEvent(event: PersistedEvent): CorrelatedEvent {
+    return {
+      id: event.id,
+      instanceId: event.instanceId,
+      machineName: event.machineName,
+      componentName: event.componentName || '',
+      eventType: event.event.type,
+      eventPayload: event.event.payload || {},
+      fromState: event.stateBefore,
+      toState: event.stateAfter,
+      context: event.publicMemberSnapshot,
+      publicMemberSnapshot: event.publicMemberSnapshot,
+      sourceComponentName: event.sourceComponentName || undefined,
+      persistedAt: event.persistedAt,
+    };
+  }
+}
@@ -15,6 +15,10 @@ export * from './persistence';
 export * from './timer-wheel';
 export * from './message-broker';
 export * from './external-broker-api';
+export * from './guard-expression';
+export * from './schema-validator';
+export * from './state-hierarchy';
+export * from './upcasting';
 
 // Main exports
 export { FSMRuntime, loadComponent } from './fsm-runtime';
@@ -29,32 +33,44 @@ export {
   PersistenceManager
 } from './persistence';
 export { TimerWheel } from './timer-wheel';
+export { compileGuard, evaluateGuard, validateGuard, GuardExpressionError, GUARD_CACHE_SIZE } from './guard-expression';
+export { validateAgainstSchema, checkSchemaDefinition, ContextValidationError, ValidationIssue } from './schema-validator';
+export { StateHierarchy } from './state-hierarchy';
+export { ComponentUpcaster } from './upcasting';
 export {
   MessageBroker,
   InMemoryMessageBroker,
   RedisMessageBroker,
   RabbitMQMessageBroker,
+  NatsMessageBroker,
+  NatsConnect,
   createMessageBroker,
   CrossComponentMessage,
-  PropertyFilter
+  MessageHandler,
+  PropertyFilter,
+  PublishOptions
 } from './message-broker';
 export {
   ExternalBrokerAPI,
   ExternalCommand,
   ExternalBroadcastCommand,
+  ExternalRequest,
   PublishedFSMEvent,
   publishExternalCommand,
   subscribeToFSMEvents
 } from './external-broker-api';
+export { LocalNatsServer, LocalNatsConnection, LocalMsg, LocalJsMsg } from './nats-local';
 
 // Distributed dashboard
-export { DashboardServer, DashboardChannels, RuntimeRegistration, FSMEventBroadcast } from './dashboard-server';
+export { DashboardServer, DashboardChannels, RuntimeRegistration, FSMEventBroadcast, LeadershipBroadcast } from './dashboard-server';
 export { RuntimeBroadcaster, RuntimeBroadcasterConfig, createRuntimeBroadcaster } from './runtime-broadcaster';
 
 // PostgreSQL persistence
 export {
   PostgresEventStore,
   PostgresSnapshotStore,
+  PostgresProjectionStore,
+  PostgresLeaseStore,
   PostgresConfig,
   createPostgresStores
 } from './postgres-persistence';
@@ -63,6 +79,101 @@ export {
 export {
   RedisEventStore,
   RedisSnapshotStore,
+  RedisLeaseStore,
   RedisConfig,
   createRedisStores
 } from './redis-persistence';
+
+// SQLite persistence
+export {
+  SqliteEventStore,
+  SqliteSnapshotStore,
+  SqliteConfig,
+  createSqliteStores
+} from './sqlite-persistence';
+
+// JSONL file persistence
+export {
+  FileEventStore,
+  FileSnapshotStore,
+  FileStoreConfig,
+  FsyncPolicy,
+  SegmentInfo,
+  createFileStores
+} from './file-persistence';
+
+// History queries over event/snapshot stores
+export {
+  StoreHistoryQueries,
+  parseTimestamp,
+  toInstanceSummary,
+  summarizeEvents,
+  InstanceSummary,
+  CorrelatedEvent
+} from './history-queries';
+
+// Read-model projections
+export {
+  ProjectionEngine,
+  Projection,
+  InMemoryProjectionStore,
+  ProjectionView,
+  ProjectionHandler,
+  ProjectionStatus
+} from './projections';
+
+// Event history retention and compaction
+export {
+  COMPACTION_EVENT,
+  CompactionSummary,
+  resolveRetentionPolicy,
+  validateRetention,
+  selectEventsToFold,
+  createSummaryEvent,
+  hashEvents,
+  verifySummary,
+  writeArchive,
+  readArchive
+} from './retention';
+
+// Retries and dead letters of cross-component messages
+export {
+  DEFAULT_RETRY_POLICY,
+  InMemoryDeadLetterStore,
+  deadLetterChannel,
+  resolveRetryPolicy,
+  retryDelay
+} from './dead-letters';
+
+// Request/reply over the message broker
+export {
+  BrokerRequester,
+  RequestTimeoutError,
+  RequestEnvelope,
+  ReplyMessage,
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  isRequest,
+  sendReply
+} from './request-reply';
+
+// Sharding of instances across the replicas of a component
+export {
+  ShardCoordinator,
+  ShardAnnouncement,
+  ShardRebalance,
+  DEFAULT_SHARD_COUNT,
+  DEFAULT_MEMBER_TIMEOUT_MS,
+  shardOf,
+  shardKey,
+  creationKey,
+  messageShard,
+  assignShards
+} from './sharding';
+
+// Leader election of the runtime hosting singleton entry points
+export {
+  LeaderElection,
+  LeadershipChange,
+  InMemoryLeaseStore,
+  DEFAULT_LEASE_TTL_MS
+} from './leader-election';
@@ -0,0 +1,180 @@
+/**
+ * Leader Election
+ *
+ * Elects one runtime among the replicas of a deployment through a lease: the
+ * candidate holding the lease of a key is the leader, and keeps it by renewing
+ * the lease before it expires. When the leader stops renewing (crash, network
+ * partition, shutdown), another candidate takes the lease over.
+ *
+ * ComponentRegistry uses it to host the entry point of a singleton component
+ * on one runtime only.
+ */
+
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { LeaseStore } from './types';
+
+/**
+ * Lease duration of elections that do not set one
+ */
+export const DEFAULT_LEASE_TTL_MS = 15000;
+
+/**
+ * Leadership gained or lost by a candidate
+ */
+export interface LeadershipChange {
+  /** Lease key of the election */
+  key: string;
+  candidateId: string;
+  isLeader: boolean;
+  timestamp: number;
+}
+
+/**
+ * In-memory lease store implementation
+ * For testing and development (shared by the runtimes of one process only)
+ */
+export class InMemoryLeaseStore implements LeaseStore {
+  private leases: Map<string, { holder: string; expiresAt: number }> = new Map();
+
+  async acquire(key: string, candidateId: string, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    const lease = this.leases.get(key);
+    if (lease && lease.holder !== candidateId && lease.expiresAt > now) {
+      return false;
+    }
+    this.leases.set(key, { holder: candidateId, expiresAt: now + ttlMs });
+    return true;
+  }
+
+  async release(key: string, candidateId: string): Promise<void> {
+    if (this.leases.get(key)?.holder === candidateId) {
+      this.leases.delete(key);
+    }
+  }
+}
+
+/**
+ * Candidate in the election of one lease key
+ *
+ * Campaigns on start, then every renew interval: takes the lease when it is
+ * free, renews it while leader. Emits 'leadership_changed' (LeadershipChange)
+ * when it becomes or stops being the leader, and 'election_error' when the
+ * lease store fails (the candidate then steps down, as its lease may expire
+ * before it can renew it).
+ *
+ * Example:
+ * ```typescript
+ * const election = new LeaderElection(new RedisLeaseStore(config), 'reports:scheduler');
+ * election.on('leadership_changed', ({ isLeader }) => isLeader ? scheduler.start() : scheduler.stop());
+ * await election.start();
+ * ```
+ */
+export class LeaderElection extends EventEmitter {
+  private store: LeaseStore;
+  private key: string;
+  private candidateId: string;
+  private ttlMs: number;
+  private renewIntervalMs: number;
+  private leader = false;
+  private timer?: NodeJS.Timeout;
+  private campaigning: Promise<boolean> = Promise.resolve(false);
+
+  /**
+   * @param options.candidateId ID of this candidate (default: a new UUID)
+   * @param options.ttlMs Lease duration (default: DEFAULT_LEASE_TTL_MS)
+   * @param options.renewIntervalMs Time between campaigns (default: a third of the lease duration)
+   */
+  constructor(
+    store: LeaseStore,
+    key: string,
+    options: { candidateId?: string; ttlMs?: number; renewIntervalMs?: number } = {}
+  ) {
+    super();
+    this.store = store;
+    this.key = key;
+    this.candidateId = options.candidateId || uuidv4();
+    this.ttlMs = options.ttlMs ?? DEFAULT_LEASE_TTL_MS;
+    this.renewIntervalMs = options.renewIntervalMs ?? Math.max(1, Math.floor(this.ttlMs / 3));
+    if (this.renewIntervalMs >= this.ttlMs) {
+      throw new Error(`Renew interval of election ${key} must be shorter than its lease (${this.ttlMs}ms)`);
+    }
+  }
+
+  getKey(): string {
+    return this.key;
+  }
+
+  getCandidateId(): string {
+    return this.candidateId;
+  }
+
+  isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Campaign now, then keep campaigning until stopped
+   *
+   * @returns Whether this candidate is the leader after the first campaign
+   */
+  async start(): Promise<boolean> {
+    if (!this.timer) {
+      this.timer = setInterval(() => void this.campaign(), this.renewIntervalMs);
+      this.timer.unref();
+    }
+    return this.campaign();
+  }
+
+  /**
+   * Stop campaigning, and give the lease up when leader
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    await this.campaigning;
+    if (this.leader) {
+      this.setLeader(false);
+      try {
+        await this.store.release(this.key, this.candidateId);
+      } catch (error) {
+        // Expires with its TTL
+        this.emit('election_error', error);
+      }
+    }
+  }
+
+  /**
+   * Take or renew the lease once (campaigns never overlap)
+   *
+   * @returns Whether this candidate is the leader
+   */
+  campaign(): Promise<boolean> {
+    this.campaigning = this.campaigning.then(async () => {
+      try {
+        this.setLeader(await this.store.acquire(this.key, this.candidateId, this.ttlMs));
+      } catch (error) {
+        this.setLeader(false);
+        this.emit('election_error', error);
+      }
+      return this.leader;
+    });
+    return this.campaigning;
+  }
+
+  private setLeader(leader: boolean): void {
+    if (leader === this.leader) {
+      return;
+    }
+    this.leader = leader;
+    const change: LeadershipChange = {
+      key: this.key,
+      candidateId: this.candidateId,
+      isLeader: leader,
+      timestamp: Date.now(),
+    };
+    this.emit('leadership_changed', change);
+  }
+}
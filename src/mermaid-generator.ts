@@ -2,7 +2,8 @@
  * Generate Mermaid stateDiagram-v2 syntax from FSM definition
  */
 
-import { StateMachine } from './types';
+import { State, StateMachine, StateType, Transition } from './types';
+import { StateHierarchy } from './state-hierarchy';
 
 /**
  * Transition info for UI interaction
@@ -17,9 +18,18 @@ export interface TransitionInfo {
 }
 
 /**
- * Detect terminal states (states with no outgoing transitions)
+ * Get a state and its enclosing composite states (unknown states map to themselves)
+ */
+function activePath(hierarchy: StateHierarchy, stateName: string): string[] {
+  const path = hierarchy.getPath(stateName);
+  return path.length > 0 ? path : [stateName];
+}
+
+/**
+ * Detect terminal states (leaf states with no outgoing transitions, own or inherited)
  */
 export function detectTerminalStates(machine: StateMachine): Set<string> {
+  const hierarchy = new StateHierarchy(machine);
   const statesWithOutgoingTransitions = new Set<string>();
 
   machine.transitions.forEach(transition => {
@@ -27,8 +37,11 @@ export function detectTerminalStates(machine: StateMachine): Set<string> {
   });
 
   const terminalStates = new Set<string>();
-  machine.states.forEach(state => {
-    if (!statesWithOutgoingTransitions.has(state.name)) {
+  hierarchy.getAllStates().forEach(state => {
+    if (hierarchy.isComposite(state.name) || hierarchy.isParallel(state.name) || hierarchy.isHistory(state.name)) {
+      return;
+    }
+    if (!activePath(hierarchy, state.name).some(name => statesWithOutgoingTransitions.has(name))) {
       terminalStates.add(state.name);
     }
   });
@@ -72,11 +85,76 @@ export function getTransitionsInfo(machine: StateMachine): TransitionInfo[] {
   }));
 }
 
+/**
+ * Render composite states as nested `state X { }` blocks
+ *
+ * Each block holds its initial substate marker, nested composite blocks and
+ * the transitions whose source and target both lie inside it. Parallel
+ * states render one such section per region, separated by `--`. History
+ * pseudo-states are labelled H (shallow) or H* (deep). Returns the
+ * transitions that belong to the top level.
+ */
+function appendCompositeBlocks(
+  lines: string[],
+  hierarchy: StateHierarchy,
+  states: State[],
+  transitions: Transition[],
+  indent: string
+): Transition[] {
+  const byDomain = new Map<string | undefined, Transition[]>();
+  transitions.forEach(transition => {
+    const domain = hierarchy.getDomain(transition.from, transition.to);
+    byDomain.set(domain, [...(byDomain.get(domain) || []), transition]);
+  });
+
+  const isBlock = (state: State): boolean => hierarchy.isComposite(state.name) || hierarchy.isParallel(state.name);
+
+  const renderSection = (initial: string, substates: State[], sectionTransitions: Transition[], innerIndent: string): void => {
+    lines.push(`${innerIndent}[*] --> ${initial}`);
+    substates.filter(substate => hierarchy.isHistory(substate.name)).forEach(substate => {
+      lines.push(`${innerIndent}state "${substate.type === StateType.DEEP_HISTORY ? 'H*' : 'H'}" as ${substate.name}`);
+    });
+    substates.filter(isBlock).forEach(substate => renderBlock(substate, innerIndent));
+    sectionTransitions.forEach(transition => {
+      lines.push(`${innerIndent}${transition.from} --> ${transition.to}: ${transition.event}`);
+    });
+  };
+
+  const renderBlock = (state: State, blockIndent: string): void => {
+    const innerIndent = blockIndent + '    ';
+    const blockTransitions = byDomain.get(state.name) || [];
+    lines.push(`${blockIndent}state ${state.name} {`);
+    if (hierarchy.isParallel(state.name)) {
+      state.regions!
+        .filter(region => region.states && region.states.length > 0)
+        .forEach((region, index) => {
+          if (index > 0) {
+            lines.push(`${innerIndent}--`);
+          }
+          const regionTransitions = blockTransitions.filter(
+            transition => hierarchy.getRegionOf(transition.from)?.region === region.name
+          );
+          renderSection(region.initialState || region.states[0].name, region.states, regionTransitions, innerIndent);
+        });
+    } else {
+      renderSection(hierarchy.getInitialSubstate(state.name)!, state.substates!, blockTransitions, innerIndent);
+    }
+    lines.push(`${blockIndent}}`);
+  };
+
+  states
+    .filter(isBlock)
+    .forEach(state => renderBlock(state, indent));
+
+  return byDomain.get(undefined) || [];
+}
+
 /**
  * Generate Mermaid diagram for a state machine
  */
 export function generateMermaidDiagram(machine: StateMachine): string {
   const lines: string[] = [];
+  const hierarchy = new StateHierarchy(machine);
 
   lines.push('stateDiagram-v2');
   lines.push('');
@@ -85,8 +163,11 @@ export function generateMermaidDiagram(machine: StateMachine): string {
   lines.push(`    [*] --> ${machine.initialState}`);
   lines.push('');
 
+  // Composite states (nested transitions are rendered inside their block)
+  const topLevelTransitions = appendCompositeBlocks(lines, hierarchy, machine.states, machine.transitions, '    ');
+
   // Add all transitions
-  machine.transitions.forEach(transition => {
+  topLevelTransitions.forEach(transition => {
     let transitionLabel = transition.event;
     // For all transitions, show the event name
     // Inter-machine connections are visualized with green SVG arrows externally
@@ -103,22 +184,50 @@ export function generateMermaidDiagram(machine: StateMachine): string {
 
 /**
  * Compute reachable states from the current state using BFS
+ *
+ * Transitions inherited from enclosing composite states are followed, and
+ * composite states are reachable whenever one of their substates is.
+ * Entering a parallel state reaches the initial state of every region, and
+ * entering a history pseudo-state may reach any state of its composite.
  */
 export function computeReachableStates(
   machine: StateMachine,
   currentState: string
 ): Set<string> {
-  const reachable = new Set<string>();
-  const queue: string[] = [currentState];
-  reachable.add(currentState);
+  const hierarchy = new StateHierarchy(machine);
+  const reachable = new Set<string>([currentState]);
+  const visitedLeaves = new Set<string>();
+  const queue: string[] = [];
+
+  // Leaves entered when targeting a state (one per region for parallel states)
+  const enter = (stateName: string): void => {
+    const composite = hierarchy.getParent(stateName);
+    if (hierarchy.isHistory(stateName) && composite !== undefined) {
+      hierarchy.getAllStates()
+        .filter(state => state.name !== composite && !hierarchy.isHistory(state.name) && hierarchy.isAncestorOrSelf(composite, state.name))
+        .forEach(state => enter(state.name));
+      return;
+    }
+    const { configuration } = hierarchy.getInitialConfiguration(stateName);
+    for (const leaf of [configuration.currentState, ...Object.values(configuration.regionStates || {})]) {
+      activePath(hierarchy, leaf).forEach(name => reachable.add(name));
+      if (!visitedLeaves.has(leaf)) {
+        visitedLeaves.add(leaf);
+        queue.push(leaf);
+      }
+    }
+  };
+  enter(currentState);
 
   while (queue.length > 0) {
     const state = queue.shift()!;
+    const path = activePath(hierarchy, state);
     machine.transitions.forEach(transition => {
-      if (transition.from === state && !reachable.has(transition.to)) {
-        reachable.add(transition.to);
-        queue.push(transition.to);
+      if (!path.includes(transition.from)) {
+        return;
       }
+      reachable.add(transition.to);
+      enter(transition.to);
     });
   }
 
@@ -127,14 +236,16 @@ export function computeReachableStates(
 
 /**
  * Get transitions that are directly available from current state
+ * (including transitions inherited from enclosing composite states)
  */
 export function getAvailableTransitions(
   machine: StateMachine,
   currentState: string
 ): Set<number> {
+  const path = activePath(new StateHierarchy(machine), currentState);
   const available = new Set<number>();
   machine.transitions.forEach((transition, index) => {
-    if (transition.from === currentState) {
+    if (path.includes(transition.from)) {
       available.add(index);
     }
   });
@@ -157,6 +268,7 @@ export function generateStyledMermaidDiagram(
   const lines: string[] = [];
   const styleLines: string[] = [];
   const usedClasses = new Set<string>();
+  const hierarchy = new StateHierarchy(machine);
 
   lines.push('stateDiagram-v2');
   lines.push('');
@@ -174,11 +286,10 @@ export function generateStyledMermaidDiagram(
     : null;
 
   // Add all transitions (except inter_machine which are shown as external green arrows)
-  machine.transitions.forEach((transition) => {
-    // Skip inter_machine transitions - they are displayed as green arrows between machines
-    if (transition.type === 'inter_machine') {
-      return;
-    }
+  // Skip inter_machine transitions - they are displayed as green arrows between machines
+  const drawnTransitions = machine.transitions.filter(transition => transition.type !== 'inter_machine');
+  const topLevelTransitions = appendCompositeBlocks(lines, hierarchy, machine.states, drawnTransitions, '    ');
+  topLevelTransitions.forEach((transition) => {
     let transitionLabel = transition.event;
     lines.push(`    ${transition.from} --> ${transition.to}: ${transitionLabel}`);
   });
@@ -187,7 +298,11 @@ export function generateStyledMermaidDiagram(
 
   // Collect state styles
   const stateStyles: string[] = [];
-  machine.states.forEach(state => {
+  hierarchy.getAllStates().forEach(state => {
+    // Composite and parallel states are drawn as containers and keep the default style
+    if (hierarchy.isComposite(state.name) || hierarchy.isParallel(state.name)) {
+      return;
+    }
     let className = '';
     const isReachable = !reachableStates || reachableStates.has(state.name);
 
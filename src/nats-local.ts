@@ -0,0 +1,508 @@
+/**
+ * In-process NATS stand-in
+ *
+ * Implements the part of the "nats" package API used by NatsMessageBroker
+ * (plain subjects, JetStream streams and durable pull consumers with explicit
+ * acks), so that the broker can be tested without a NATS server. Connections
+ * of the same LocalNatsServer see each other's messages; nothing is written
+ * to disk.
+ */
+
+type Callback = (err: Error | null, msg: LocalMsg) => void;
+
+/**
+ * Message delivered on a plain subject
+ */
+export interface LocalMsg {
+  subject: string;
+  data: Uint8Array;
+  string(): string;
+  json<T = any>(): T;
+}
+
+/**
+ * Message delivered by a JetStream consumer
+ */
+export interface LocalJsMsg extends LocalMsg {
+  seq: number;
+  redelivered: boolean;
+  info: { stream: string; consumer: string; streamSequence: number; redeliveryCount: number };
+  ack(): void;
+  /** Deliver again, after a delay when given */
+  nak(millis?: number): void;
+  /** Never deliver again */
+  term(reason?: string): void;
+}
+
+interface StoredMessage {
+  seq: number;
+  subject: string;
+  data: Uint8Array;
+}
+
+interface LocalStream {
+  name: string;
+  subjects: string[];
+  messages: StoredMessage[];
+  lastSeq: number;
+}
+
+interface Delivery {
+  messages: LocalConsumerMessages;
+  timer: NodeJS.Timeout;
+}
+
+interface LocalConsumer {
+  name: string;
+  stream: string;
+  filterSubject?: string;
+  /** Milliseconds before an unacknowledged message is delivered again */
+  ackWait: number;
+  /** Deliveries of a message before it is given up (-1: unlimited) */
+  maxDeliver: number;
+  /** Next stream sequence never delivered */
+  nextSeq: number;
+  /** Messages awaiting an ack, by stream sequence */
+  pending: Map<number, Delivery>;
+  /** Deliveries of the messages not acknowledged yet, by stream sequence */
+  deliveries: Map<number, number>;
+  /** Stream sequences to deliver again */
+  redeliver: number[];
+  /** consume() calls sharing the consumer, served in turn */
+  active: LocalConsumerMessages[];
+  turn: number;
+}
+
+/**
+ * Whether a subject matches a pattern with '*' (one token) and '>' (remaining tokens) wildcards
+ */
+export function subjectMatches(pattern: string, subject: string): boolean {
+  const patternTokens = pattern.split('.');
+  const subjectTokens = subject.split('.');
+  for (let i = 0; i < patternTokens.length; i++) {
+    if (patternTokens[i] === '>') return subjectTokens.length > i;
+    if (i >= subjectTokens.length) return false;
+    if (patternTokens[i] !== '*' && patternTokens[i] !== subjectTokens[i]) return false;
+  }
+  return patternTokens.length === subjectTokens.length;
+}
+
+const decoder = new TextDecoder();
+
+function createMsg(subject: string, data: Uint8Array): LocalMsg {
+  return {
+    subject,
+    data,
+    string: () => decoder.decode(data),
+    json: () => JSON.parse(decoder.decode(data)),
+  };
+}
+
+/**
+ * Messages of a consume() call, read with for await
+ */
+class LocalConsumerMessages implements AsyncIterable<LocalJsMsg> {
+  private queue: LocalJsMsg[] = [];
+  private waiting: ((result: IteratorResult<LocalJsMsg>) => void) | null = null;
+  private stopped = false;
+
+  constructor(private onStop: () => void) {}
+
+  push(msg: LocalJsMsg): void {
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: msg, done: false });
+    } else {
+      this.queue.push(msg);
+    }
+  }
+
+  /**
+   * Stop delivering (messages not acknowledged yet are delivered again to another consume())
+   */
+  stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.queue = [];
+    this.waiting?.({ value: undefined, done: true });
+    this.waiting = null;
+    this.onStop();
+  }
+
+  close(): Promise<void> {
+    this.stop();
+    return Promise.resolve();
+  }
+
+  isStopped(): boolean {
+    return this.stopped;
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<LocalJsMsg> {
+    return {
+      next: () => {
+        if (this.queue.length > 0) {
+          return Promise.resolve({ value: this.queue.shift()!, done: false });
+        }
+        if (this.stopped) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => {
+          this.waiting = resolve;
+        });
+      },
+    };
+  }
+}
+
+/**
+ * Connection to a LocalNatsServer (subset of the nats.js NatsConnection)
+ */
+export class LocalNatsConnection {
+  private subscriptions: Set<{ subject: string; callback: Callback }> = new Set();
+  private consumes: Set<LocalConsumerMessages> = new Set();
+  private closed = false;
+
+  constructor(private server: LocalNatsServer, public readonly options: Record<string, any>) {}
+
+  publish(subject: string, data: Uint8Array = new Uint8Array()): void {
+    this.assertOpen();
+    this.server.route(subject, data);
+  }
+
+  subscribe(subject: string, options: { callback: Callback }): { unsubscribe(): void; getSubject(): string } {
+    this.assertOpen();
+    const subscription = { subject, callback: options.callback };
+    this.subscriptions.add(subscription);
+    this.server.addSubscription(subscription);
+    return {
+      unsubscribe: () => {
+        this.subscriptions.delete(subscription);
+        this.server.removeSubscription(subscription);
+      },
+      getSubject: () => subject,
+    };
+  }
+
+  jetstream() {
+    return {
+      publish: async (subject: string, data: Uint8Array = new Uint8Array()) => {
+        this.assertOpen();
+        return this.server.store(subject, data);
+      },
+      consumers: {
+        get: async (stream: string, name: string) => {
+          this.server.getConsumer(stream, name);
+          return {
+            consume: async () => {
+              this.assertOpen();
+              const messages = this.server.consume(stream, name, () => this.consumes.delete(messages));
+              this.consumes.add(messages);
+              return messages;
+            },
+          };
+        },
+      },
+    };
+  }
+
+  async jetstreamManager() {
+    this.assertOpen();
+    return {
+      streams: {
+        info: async (name: string) => this.server.streamInfo(name),
+        add: async (config: { name: string; subjects: string[] }) => this.server.addStream(config),
+      },
+      consumers: {
+        info: async (stream: string, name: string) => this.server.consumerInfo(stream, name),
+        add: async (stream: string, config: Record<string, any>) => this.server.addConsumer(stream, config),
+      },
+    };
+  }
+
+  /**
+   * Stop subscriptions and consumers, then close
+   */
+  async drain(): Promise<void> {
+    await this.close();
+  }
+
+  async close(): Promise<void> {
+    this.subscriptions.forEach(subscription => this.server.removeSubscription(subscription));
+    this.subscriptions.clear();
+    Array.from(this.consumes).forEach(messages => messages.stop());
+    this.closed = true;
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error('connection closed');
+    }
+  }
+}
+
+/**
+ * In-process stand-in for a NATS server with JetStream
+ *
+ * Example:
+ * ```typescript
+ * const server = new LocalNatsServer();
+ * const broker = new NatsMessageBroker('nats://localhost:4222', { connect: server.connect });
+ * ```
+ */
+export class LocalNatsServer {
+  private subscriptions: Set<{ subject: string; callback: Callback }> = new Set();
+  private streams: Map<string, LocalStream> = new Map();
+  private consumers: Map<string, LocalConsumer> = new Map();
+  private connections: Set<LocalNatsConnection> = new Set();
+
+  /**
+   * Open a connection (same signature as connect() of the "nats" package)
+   */
+  connect = async (options: Record<string, any> = {}): Promise<LocalNatsConnection> => {
+    const connection = new LocalNatsConnection(this, options);
+    this.connections.add(connection);
+    return connection;
+  };
+
+  /**
+   * Close every connection and forget streams and consumers
+   */
+  async shutdown(): Promise<void> {
+    for (const connection of this.connections) {
+      await connection.close();
+    }
+    this.connections.clear();
+    this.consumers.forEach(consumer => consumer.pending.forEach(delivery => clearTimeout(delivery.timer)));
+    this.consumers.clear();
+    this.streams.clear();
+  }
+
+  /** @internal */
+  addSubscription(subscription: { subject: string; callback: Callback }): void {
+    this.subscriptions.add(subscription);
+  }
+
+  /** @internal */
+  removeSubscription(subscription: { subject: string; callback: Callback }): void {
+    this.subscriptions.delete(subscription);
+  }
+
+  /**
+   * Deliver a message to the plain subscriptions matching its subject
+   * @internal
+   */
+  route(subject: string, data: Uint8Array): void {
+    for (const subscription of this.subscriptions) {
+      if (subjectMatches(subscription.subject, subject)) {
+        // Async invocation to simulate network behavior
+        setImmediate(() => {
+          if (this.subscriptions.has(subscription)) {
+            subscription.callback(null, createMsg(subject, data));
+          }
+        });
+      }
+    }
+  }
+
+  /**
+   * Store a message in the stream capturing its subject (plain subscribers get it too)
+   * @internal
+   */
+  store(subject: string, data: Uint8Array): { stream: string; seq: number; duplicate: boolean } {
+    const stream = Array.from(this.streams.values()).find(s => s.subjects.some(pattern => subjectMatches(pattern, subject)));
+    if (!stream) {
+      throw new Error(`no stream matches subject ${subject}`);
+    }
+    const seq = ++stream.lastSeq;
+    stream.messages.push({ seq, subject, data });
+    this.route(subject, data);
+    this.consumers.forEach(consumer => {
+      if (consumer.stream === stream.name) this.pump(consumer);
+    });
+    return { stream: stream.name, seq, duplicate: false };
+  }
+
+  /** @internal */
+  streamInfo(name: string) {
+    const stream = this.streams.get(name);
+    if (!stream) {
+      throw new Error('stream not found');
+    }
+    return {
+      config: { name, subjects: [...stream.subjects] },
+      state: { messages: stream.messages.length, last_seq: stream.lastSeq },
+    };
+  }
+
+  /** @internal */
+  addStream(config: { name: string; subjects: string[] }) {
+    if (!this.streams.has(config.name)) {
+      this.streams.set(config.name, { name: config.name, subjects: [...config.subjects], messages: [], lastSeq: 0 });
+    }
+    return this.streamInfo(config.name);
+  }
+
+  /** @internal */
+  getConsumer(stream: string, name: string): LocalConsumer {
+    const consumer = this.consumers.get(`${stream}/${name}`);
+    if (!consumer) {
+      throw new Error('consumer not found');
+    }
+    return consumer;
+  }
+
+  /**
+   * Create a durable consumer (an existing one keeps its position)
+   * @internal
+   */
+  addConsumer(stream: string, config: Record<string, any>) {
+    this.streamInfo(stream);
+    const key = `${stream}/${config.durable_name}`;
+    const existing = this.consumers.get(key);
+    if (existing) {
+      existing.filterSubject = config.filter_subject;
+    } else {
+      const lastSeq = this.streams.get(stream)!.lastSeq;
+      this.consumers.set(key, {
+        name: config.durable_name,
+        stream,
+        filterSubject: config.filter_subject,
+        ackWait: config.ack_wait !== undefined ? config.ack_wait / 1e6 : 30000, // nanoseconds, like NATS
+        maxDeliver: config.max_deliver ?? -1,
+        nextSeq: config.deliver_policy === 'new' ? lastSeq + 1 : 1,
+        pending: new Map(),
+        deliveries: new Map(),
+        redeliver: [],
+        active: [],
+        turn: 0,
+      });
+    }
+    return this.consumerInfo(stream, config.durable_name);
+  }
+
+  /** @internal */
+  consumerInfo(stream: string, name: string) {
+    const consumer = this.getConsumer(stream, name);
+    const waiting = this.streams.get(stream)!.messages
+      .filter(m => m.seq >= consumer.nextSeq && this.matchesFilter(consumer, m.subject)).length;
+    return {
+      name,
+      stream_name: stream,
+      config: { durable_name: name, filter_subject: consumer.filterSubject, ack_policy: 'explicit' },
+      num_pending: waiting,
+      num_ack_pending: consumer.pending.size,
+      num_redelivered: consumer.redeliver.length,
+    };
+  }
+
+  /**
+   * Start delivering the messages of a consumer
+   * @internal
+   */
+  consume(stream: string, name: string, onStop: () => void): LocalConsumerMessages {
+    const consumer = this.getConsumer(stream, name);
+    const messages = new LocalConsumerMessages(() => {
+      onStop();
+      consumer.active = consumer.active.filter(m => m !== messages);
+      // Messages it did not acknowledge go to the other consume() calls, or the next one
+      for (const [seq, delivery] of consumer.pending) {
+        if (delivery.messages !== messages) continue;
+        clearTimeout(delivery.timer);
+        consumer.pending.delete(seq);
+        consumer.redeliver.push(seq);
+      }
+      consumer.redeliver.sort((a, b) => a - b);
+      this.pump(consumer);
+    });
+    consumer.active.push(messages);
+    this.pump(consumer);
+    return messages;
+  }
+
+  private matchesFilter(consumer: LocalConsumer, subject: string): boolean {
+    return !consumer.filterSubject || subjectMatches(consumer.filterSubject, subject);
+  }
+
+  /**
+   * Deliver redeliveries, then new messages, to the consume() calls of a consumer
+   */
+  private pump(consumer: LocalConsumer): void {
+    const stream = this.streams.get(consumer.stream);
+    if (!stream || consumer.active.length === 0) return;
+
+    while (consumer.redeliver.length > 0) {
+      const seq = consumer.redeliver.shift()!;
+      const message = stream.messages.find(m => m.seq === seq);
+      if (message) this.deliver(consumer, message);
+    }
+    for (const message of stream.messages) {
+      if (message.seq < consumer.nextSeq) continue;
+      consumer.nextSeq = message.seq + 1;
+      if (this.matchesFilter(consumer, message.subject)) {
+        this.deliver(consumer, message);
+      }
+    }
+  }
+
+  private deliver(consumer: LocalConsumer, message: StoredMessage): void {
+    const { seq } = message;
+    const messages = consumer.active[consumer.turn++ % consumer.active.length];
+    const deliveries = (consumer.deliveries.get(seq) ?? 0) + 1;
+    consumer.deliveries.set(seq, deliveries);
+
+    const delivery: Delivery = {
+      messages,
+      timer: setTimeout(() => {
+        if (settle()) this.redeliver(consumer, seq);
+      }, consumer.ackWait),
+    };
+    delivery.timer.unref();
+    consumer.pending.set(seq, delivery);
+
+    // Acks of an earlier delivery of the message are ignored
+    const settle = () => {
+      if (consumer.pending.get(seq) !== delivery) return false;
+      clearTimeout(delivery.timer);
+      consumer.pending.delete(seq);
+      return true;
+    };
+    const done = () => {
+      if (settle()) consumer.deliveries.delete(seq);
+    };
+
+    messages.push({
+      ...createMsg(message.subject, message.data),
+      seq,
+      redelivered: deliveries > 1,
+      info: { stream: consumer.stream, consumer: consumer.name, streamSequence: seq, redeliveryCount: deliveries },
+      ack: done,
+      nak: (millis?: number) => {
+        if (!settle()) return;
+        if (millis) {
+          setTimeout(() => this.redeliver(consumer, seq), millis).unref();
+        } else {
+          this.redeliver(consumer, seq);
+        }
+      },
+      term: done,
+    });
+  }
+
+  /**
+   * Queue a message for delivery again, unless it reached max_deliver
+   */
+  private redeliver(consumer: LocalConsumer, seq: number): void {
+    if (consumer.maxDeliver > 0 && (consumer.deliveries.get(seq) ?? 0) >= consumer.maxDeliver) {
+      consumer.deliveries.delete(seq);
+      return;
+    }
+    consumer.redeliver.push(seq);
+    this.pump(consumer);
+  }
+}
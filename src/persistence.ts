@@ -5,6 +5,21 @@
 
 import { EventStore, SnapshotStore, PersistedEvent, InstanceSnapshot } from './types';
 import { v4 as uuidv4 } from 'uuid';
+import { COMPACTION_EVENT, CompactionSummary } from './retention';
+
+/**
+ * Thrown when an append expected an older version of the instance stream
+ * (another runtime appended first)
+ */
+export class ConcurrencyConflictError extends Error {
+  constructor(public instanceId: string, public expectedVersion: number, public actualVersion?: number) {
+    super(
+      `Concurrency conflict on instance ${instanceId}: expected version ${expectedVersion}` +
+      (actualVersion !== undefined ? `, found ${actualVersion}` : '')
+    );
+    this.name = 'ConcurrencyConflictError';
+  }
+}
 
 /**
  * In-memory event store implementation
@@ -13,10 +28,20 @@ import { v4 as uuidv4 } from 'uuid';
 export class InMemoryEventStore implements EventStore {
   private events: PersistedEvent[] = [];
   private eventMap: Map<string, PersistedEvent> = new Map();
+  private versions: Map<string, number> = new Map();
+
+  async append(event: PersistedEvent, expectedVersion?: number): Promise<void> {
+    const currentVersion = this.versions.get(event.instanceId) || 0;
+    if (expectedVersion !== undefined && currentVersion !== expectedVersion) {
+      throw new ConcurrencyConflictError(event.instanceId, expectedVersion, currentVersion);
+    }
 
-  async append(event: PersistedEvent): Promise<void> {
     this.events.push(event);
     this.eventMap.set(event.id, event);
+    const version = expectedVersion !== undefined ? expectedVersion + 1 : event.version;
+    if (version !== undefined) {
+      this.versions.set(event.instanceId, Math.max(currentVersion, version));
+    }
   }
 
   async getEventsForInstance(instanceId: string): Promise<PersistedEvent[]> {
@@ -32,10 +57,38 @@ export class InMemoryEventStore implements EventStore {
     return causedIds.map(id => this.eventMap.get(id)).filter(e => e !== undefined) as PersistedEvent[];
   }
 
+  async appendCausalLink(parentId: string, childId: string): Promise<void> {
+    const parent = this.eventMap.get(parentId);
+    if (!parent) return;
+    if (!parent.caused) {
+      parent.caused = [];
+    }
+    if (!parent.caused.includes(childId)) {
+      parent.caused.push(childId);
+    }
+  }
+
   async getAllEvents(): Promise<PersistedEvent[]> {
     return [...this.events];
   }
 
+  async getEventsPage(offset: number, limit: number): Promise<PersistedEvent[]> {
+    return this.events.slice(offset, offset + limit);
+  }
+
+  async getInstanceIds(): Promise<string[]> {
+    return Array.from(new Set(this.events.map(e => e.instanceId)));
+  }
+
+  async compact(instanceId: string, removedEventIds: string[], summary: PersistedEvent): Promise<void> {
+    const removed = new Set(removedEventIds);
+    const position = this.events.findIndex(e => e.instanceId === instanceId && removed.has(e.id));
+    this.events = this.events.filter(e => !(e.instanceId === instanceId && removed.has(e.id)));
+    this.events.splice(position < 0 ? this.events.length : position, 0, summary);
+    removedEventIds.forEach(id => this.eventMap.delete(id));
+    this.eventMap.set(summary.id, summary);
+  }
+
   /**
    * Get events for tracing causality chain
    */
@@ -99,8 +152,10 @@ export class PersistenceManager {
   private eventSourcingEnabled: boolean;
   private snapshotsEnabled: boolean;
   private snapshotInterval: number;
+  private definitionVersion?: string;
   private transitionCounts: Map<string, number> = new Map();
   private currentEventId: string | null = null;
+  private listeners: Set<(event: PersistedEvent) => void> = new Set();
 
   constructor(
     eventStore: EventStore,
@@ -109,6 +164,8 @@ export class PersistenceManager {
       eventSourcing?: boolean;
       snapshots?: boolean;
       snapshotInterval?: number;
+      /** Component definition version stamped on persisted events */
+      definitionVersion?: string;
     } = {}
   ) {
     this.eventStore = eventStore;
@@ -116,10 +173,14 @@ export class PersistenceManager {
     this.eventSourcingEnabled = options.eventSourcing !== false; // Default: enabled
     this.snapshotsEnabled = options.snapshots !== false; // Default: enabled
     this.snapshotInterval = options.snapshotInterval || 10; // Snapshot every 10 transitions
+    this.definitionVersion = options.definitionVersion;
   }
 
   /**
-   * Set current event ID for causality tracking
+   * Set the event causing the events persisted without explicit causes
+   *
+   * For callers persisting events outside FSMRuntime, which passes the causes
+   * of each event (instances process their events concurrently).
    */
   setCurrentEventId(eventId: string | null) {
     this.currentEventId = eventId;
@@ -132,6 +193,39 @@ export class PersistenceManager {
     return this.currentEventId;
   }
 
+  /**
+   * Set the component definition version stamped on persisted events
+   */
+  setDefinitionVersion(version: string): void {
+    this.definitionVersion = version;
+  }
+
+  /**
+   * Be notified of every event once it is appended (e.g. to feed projections)
+   *
+   * @returns Function removing the listener
+   */
+  subscribe(listener: (event: PersistedEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Whether events are persisted (persistEvent is a no-op otherwise)
+   */
+  isEventSourcingEnabled(): boolean {
+    return this.eventSourcingEnabled;
+  }
+
+  /**
+   * Whether snapshots are saved (restoreInstance returns null otherwise)
+   */
+  isSnapshotsEnabled(): boolean {
+    return this.snapshotsEnabled;
+  }
+
   /**
    * Persist event with causality tracking
    */
@@ -145,7 +239,8 @@ export class PersistenceManager {
     causedBy?: string[],
     sourceComponentName?: string,
     targetComponentName?: string,
-    instanceContext?: Record<string, any>
+    instanceContext?: Record<string, any>,
+    expectedVersion?: number
   ): Promise<string> {
     if (!this.eventSourcingEnabled) {
       return '';
@@ -167,19 +262,38 @@ export class PersistenceManager {
       sourceComponentName,
       targetComponentName,
       publicMemberSnapshot: instanceContext,
+      version: expectedVersion !== undefined ? expectedVersion + 1 : undefined,
     };
+    if (this.definitionVersion !== undefined) {
+      persistedEvent.definitionVersion = this.definitionVersion;
+    }
 
-    await this.eventStore.append(persistedEvent);
+    await this.eventStore.append(persistedEvent, expectedVersion);
 
-    // Update causality chain: mark parent event as causing this one
-    if (this.currentEventId) {
-      const parentEvents = await this.eventStore.getAllEvents();
-      const parentEvent = parentEvents.find(e => e.id === this.currentEventId);
-      if (parentEvent) {
-        if (!parentEvent.caused) {
-          parentEvent.caused = [];
+    for (const listener of this.listeners) {
+      try {
+        listener(persistedEvent);
+      } catch (error: any) {
+        console.error('[PersistenceManager] Event listener failed:', error.message);
+      }
+    }
+
+    // Update causality chain: mark parent events as causing this one
+    const parentIds = persistedEvent.causedBy || [];
+    if (typeof this.eventStore.appendCausalLink === 'function') {
+      for (const parentId of parentIds) {
+        await this.eventStore.appendCausalLink(parentId, eventId);
+      }
+    } else if (parentIds.length > 0) {
+      // Fallback for stores without causal links: update the parents in place
+      const events = await this.eventStore.getAllEvents();
+      for (const parent of events.filter(e => parentIds.includes(e.id))) {
+        if (!parent.caused) {
+          parent.caused = [];
+        }
+        if (!parent.caused.includes(eventId)) {
+          parent.caused.push(eventId);
         }
-        parentEvent.caused.push(eventId);
       }
     }
 
@@ -240,6 +354,7 @@ export class PersistenceManager {
       instance: { ...instance }, // Deep copy
       snapshotAt: Date.now(),
       lastEventId,
+      version: instance.version,
       pendingTimeouts: timeoutData.length > 0 ? timeoutData : undefined,
     };
 
@@ -279,6 +394,60 @@ export class PersistenceManager {
     return await this.eventStore.getEventsForInstance(instanceId);
   }
 
+  /**
+   * Get the events persisted in a time range (for temporal queries)
+   */
+  async getEventsByTimeRange(startTime: number, endTime: number): Promise<PersistedEvent[]> {
+    if (!this.eventSourcingEnabled) {
+      return [];
+    }
+
+    return await this.eventStore.getEventsByTimeRange(startTime, endTime);
+  }
+
+  /**
+   * Get the idempotency keys of the latest events applied to an instance
+   * (rebuilds the deduplication window after a restart)
+   *
+   * @param limit Max number of keys, most recent last
+   */
+  async getIdempotencyKeys(instanceId: string, limit: number): Promise<string[]> {
+    if (!this.eventSourcingEnabled || limit <= 0) {
+      return [];
+    }
+
+    const events = await this.eventStore.getEventsForInstance(instanceId);
+    const keys = new Set<string>();
+    for (const persisted of events) {
+      // Compaction summaries carry the keys of the events they folded
+      const eventKeys: string[] = persisted.event.type === COMPACTION_EVENT
+        ? (persisted.event.payload as CompactionSummary).idempotencyKeys ?? []
+        : [persisted.event.idempotencyKey ?? persisted.event.eventId].filter((key): key is string => !!key);
+      for (const key of eventKeys) {
+        // Re-insert so the most recent occurrence decides the order
+        keys.delete(key);
+        keys.add(key);
+      }
+    }
+    return Array.from(keys).slice(-limit);
+  }
+
+  /**
+   * Get the IDs of the instances with persisted events
+   *
+   * Stores without getInstanceIds() are read whole.
+   */
+  async getInstanceIds(): Promise<string[]> {
+    if (!this.eventSourcingEnabled) {
+      return [];
+    }
+
+    if (typeof this.eventStore.getInstanceIds === 'function') {
+      return await this.eventStore.getInstanceIds();
+    }
+    return Array.from(new Set((await this.eventStore.getAllEvents()).map(e => e.instanceId)));
+  }
+
   /**
    * Get all events (for cross-component tracing)
    */
@@ -298,20 +467,22 @@ export class PersistenceManager {
       return [];
     }
 
-    if (this.eventStore instanceof InMemoryEventStore) {
-      return await this.eventStore.traceEvent(eventId);
+    // Stores with a native trace (in-memory, PostgreSQL, Redis)
+    const store = this.eventStore as EventStore & { traceEvent?(eventId: string): Promise<PersistedEvent[]> };
+    if (typeof store.traceEvent === 'function') {
+      return await store.traceEvent(eventId);
     }
 
     // Fallback: manual tracing
     const result: PersistedEvent[] = [];
     const visited = new Set<string>();
+    const eventsById = new Map((await this.eventStore.getAllEvents()).map(e => [e.id, e]));
 
     const trace = async (id: string) => {
       if (visited.has(id)) return;
       visited.add(id);
 
-      const events = await this.eventStore.getAllEvents();
-      const event = events.find(e => e.id === id);
+      const event = eventsById.get(id);
       if (!event) return;
 
       result.push(event);
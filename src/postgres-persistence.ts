@@ -5,7 +5,17 @@
  * Supports event sourcing, snapshots, and full-text search.
  */
 
-import { EventStore, SnapshotStore, PersistedEvent, InstanceSnapshot } from './types';
+import {
+  EventStore,
+  SnapshotStore,
+  PersistedEvent,
+  InstanceSnapshot,
+  ProjectionStore,
+  ProjectionChanges,
+  ProjectionCheckpoint,
+  LeaseStore,
+} from './types';
+import { ConcurrencyConflictError } from './persistence';
 
 /**
  * PostgreSQL connection configuration
@@ -23,6 +33,45 @@ export interface PostgresConfig {
   poolSize?: number;
 }
 
+const INSERT_EVENT_SQL = `
+  INSERT INTO fsm_events (
+    id, instance_id, machine_name, component_name, event_type, event_payload,
+    from_state, to_state, context, public_member_snapshot,
+    source_component_name,
+    correlation_id, causation_id, caused, persisted_at, version
+  ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+`;
+
+/**
+ * Rows per query when reading the whole event stream
+ */
+const PAGE_SIZE = 10000;
+
+/**
+ * Parameters of INSERT_EVENT_SQL
+ */
+function insertParams(event: PersistedEvent, version: number | undefined): any[] {
+  const contextSnapshot = event.publicMemberSnapshot || {};
+  return [
+    event.id,
+    event.instanceId,
+    event.machineName,
+    event.componentName || null,
+    event.event.type,
+    JSON.stringify(event.event.payload || {}),
+    event.stateBefore,
+    event.stateAfter,
+    JSON.stringify(contextSnapshot),
+    JSON.stringify(contextSnapshot),
+    event.sourceComponentName || null,
+    event.causedBy?.[0] || null, // correlation_id from first causedBy
+    event.causedBy?.[0] || null, // causation_id from first causedBy
+    JSON.stringify(event.caused || []),
+    event.persistedAt,
+    version ?? null
+  ];
+}
+
 /**
  * PostgreSQL Event Store
  *
@@ -41,13 +90,20 @@ export interface PostgresConfig {
  *   correlation_id UUID,
  *   causation_id UUID,
  *   caused JSONB DEFAULT '[]',
+ *   version INTEGER,
  *   persisted_at BIGINT NOT NULL,
  *   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
  *   INDEX idx_instance_id (instance_id),
  *   INDEX idx_persisted_at (persisted_at),
- *   INDEX idx_correlation_id (correlation_id)
+ *   INDEX idx_correlation_id (correlation_id),
+ *   UNIQUE INDEX idx_instance_version (instance_id, version) WHERE version IS NOT NULL
  * );
  * ```
+ *
+ * Expected-version appends rely on the unique (instance_id, version) index:
+ * a stale writer inserts a version that already exists. Instance streams are
+ * read in version order, since persisted_at comes from the clock of each writer
+ * and ties within a millisecond.
  */
 export class PostgresEventStore implements EventStore {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -116,6 +172,7 @@ export class PostgresEventStore implements EventStore {
         correlation_id UUID,
         causation_id UUID,
         caused JSONB DEFAULT '[]',
+        version INTEGER,
         persisted_at BIGINT NOT NULL,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
       );
@@ -123,46 +180,52 @@ export class PostgresEventStore implements EventStore {
       -- Migrate existing tables: add columns that may be missing from older schemas
       ALTER TABLE fsm_events ADD COLUMN IF NOT EXISTS component_name VARCHAR(255);
       ALTER TABLE fsm_events ADD COLUMN IF NOT EXISTS source_component_name VARCHAR(255);
+      ALTER TABLE fsm_events ADD COLUMN IF NOT EXISTS version INTEGER;
 
       CREATE INDEX IF NOT EXISTS idx_fsm_events_instance_id ON fsm_events(instance_id);
       CREATE INDEX IF NOT EXISTS idx_fsm_events_persisted_at ON fsm_events(persisted_at);
       CREATE INDEX IF NOT EXISTS idx_fsm_events_correlation_id ON fsm_events(correlation_id);
       CREATE INDEX IF NOT EXISTS idx_fsm_events_machine_name ON fsm_events(machine_name);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_fsm_events_instance_version
+        ON fsm_events(instance_id, version) WHERE version IS NOT NULL;
     `;
 
     await this.pool.query(createEventsTable);
   }
 
-  async append(event: PersistedEvent): Promise<void> {
+  async append(event: PersistedEvent, expectedVersion?: number): Promise<void> {
     if (!this.initialized) await this.initialize();
 
-    const query = `
-      INSERT INTO fsm_events (
-        id, instance_id, machine_name, component_name, event_type, event_payload,
-        from_state, to_state, context, public_member_snapshot,
-        source_component_name,
-        correlation_id, causation_id, caused, persisted_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
-    `;
+    const version = expectedVersion !== undefined ? expectedVersion + 1 : event.version;
+    try {
+      await this.pool.query(INSERT_EVENT_SQL, insertParams(event, version));
+    } catch (error: any) {
+      // unique_violation on (instance_id, version): another writer appended this version first
+      if (error?.code === '23505' && error.constraint === 'idx_fsm_events_instance_version' && expectedVersion !== undefined) {
+        throw new ConcurrencyConflictError(event.instanceId, expectedVersion);
+      }
+      throw error;
+    }
+  }
 
-    const contextSnapshot = event.publicMemberSnapshot || {};
-    await this.pool.query(query, [
-      event.id,
-      event.instanceId,
-      event.machineName,
-      event.componentName || null,
-      event.event.type,
-      JSON.stringify(event.event.payload || {}),
-      event.stateBefore,
-      event.stateAfter,
-      JSON.stringify(contextSnapshot),
-      JSON.stringify(contextSnapshot),
-      event.sourceComponentName || null,
-      event.causedBy?.[0] || null, // correlation_id from first causedBy
-      event.causedBy?.[0] || null, // causation_id from first causedBy
-      JSON.stringify(event.caused || []),
-      event.persistedAt
-    ]);
+  /**
+   * Replace events by a compaction summary in one transaction
+   */
+  async compact(instanceId: string, removedEventIds: string[], summary: PersistedEvent): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM fsm_events WHERE instance_id = $1 AND id = ANY($2)', [instanceId, removedEventIds]);
+      await client.query(INSERT_EVENT_SQL, insertParams(summary, summary.version));
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 
   async getEventsForInstance(instanceId: string): Promise<PersistedEvent[]> {
@@ -171,7 +234,7 @@ export class PostgresEventStore implements EventStore {
     const query = `
       SELECT * FROM fsm_events
       WHERE instance_id = $1
-      ORDER BY persisted_at ASC
+      ORDER BY version ASC NULLS FIRST, persisted_at ASC
     `;
 
     const result = await this.pool.query(query, [instanceId]);
@@ -184,7 +247,7 @@ export class PostgresEventStore implements EventStore {
     const query = `
       SELECT * FROM fsm_events
       WHERE persisted_at >= $1 AND persisted_at <= $2
-      ORDER BY persisted_at ASC
+      ORDER BY persisted_at ASC, version ASC
     `;
 
     const result = await this.pool.query(query, [startTime, endTime]);
@@ -197,26 +260,57 @@ export class PostgresEventStore implements EventStore {
     const query = `
       SELECT * FROM fsm_events
       WHERE causation_id = $1
-      ORDER BY persisted_at ASC
+      ORDER BY persisted_at ASC, version ASC
     `;
 
     const result = await this.pool.query(query, [eventId]);
     return result.rows.map(this.rowToEvent);
   }
 
+  async appendCausalLink(parentId: string, childId: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const query = `
+      UPDATE fsm_events
+      SET caused = COALESCE(caused, '[]'::jsonb) || jsonb_build_array($2::text)
+      WHERE id = $1 AND NOT COALESCE(caused, '[]'::jsonb) ? $2
+    `;
+
+    await this.pool.query(query, [parentId, childId]);
+  }
+
+  /**
+   * All events, read in pages of PAGE_SIZE rows
+   */
   async getAllEvents(): Promise<PersistedEvent[]> {
+    const events: PersistedEvent[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.getEventsPage(offset, PAGE_SIZE);
+      events.push(...page);
+      if (page.length < PAGE_SIZE) return events;
+    }
+  }
+
+  async getEventsPage(offset: number, limit: number): Promise<PersistedEvent[]> {
     if (!this.initialized) await this.initialize();
 
     const query = `
       SELECT * FROM fsm_events
-      ORDER BY persisted_at ASC
-      LIMIT 10000
+      ORDER BY persisted_at ASC, version ASC, id ASC
+      LIMIT $1 OFFSET $2
     `;
 
-    const result = await this.pool.query(query);
+    const result = await this.pool.query(query, [limit, offset]);
     return result.rows.map(this.rowToEvent);
   }
 
+  async getInstanceIds(): Promise<string[]> {
+    if (!this.initialized) await this.initialize();
+
+    const result = await this.pool.query('SELECT DISTINCT instance_id FROM fsm_events');
+    return result.rows.map((row: any) => row.instance_id);
+  }
+
   async traceEvent(eventId: string): Promise<PersistedEvent[]> {
     if (!this.initialized) await this.initialize();
 
@@ -228,7 +322,7 @@ export class PostgresEventStore implements EventStore {
         SELECT e.* FROM fsm_events e
         INNER JOIN event_trace et ON e.causation_id = et.id
       )
-      SELECT * FROM event_trace ORDER BY persisted_at ASC
+      SELECT * FROM event_trace ORDER BY persisted_at ASC, version ASC
     `;
 
     const result = await this.pool.query(query, [eventId]);
@@ -252,7 +346,8 @@ export class PostgresEventStore implements EventStore {
       sourceComponentName: row.source_component_name || undefined,
       causedBy: row.correlation_id ? [row.correlation_id] : undefined,
       caused: row.caused || [],
-      persistedAt: parseInt(row.persisted_at, 10)
+      persistedAt: parseInt(row.persisted_at, 10),
+      version: row.version ?? undefined
     };
   }
 
@@ -266,6 +361,9 @@ export class PostgresEventStore implements EventStore {
 /**
  * PostgreSQL Snapshot Store
  *
+ * Keeps the whole instance as JSON (lossless restore) next to the columns
+ * used for lookups.
+ *
  * Schema:
  * ```sql
  * CREATE TABLE fsm_snapshots (
@@ -273,8 +371,13 @@ export class PostgresEventStore implements EventStore {
  *   machine_name VARCHAR(255) NOT NULL,
  *   current_state VARCHAR(255) NOT NULL,
  *   context JSONB,
+ *   history JSONB,
+ *   instance JSONB,                 -- FSMInstance
+ *   last_event_id VARCHAR(255),
  *   event_count INTEGER DEFAULT 0,
  *   pending_timeouts JSONB DEFAULT '[]',
+ *   version INTEGER,
+ *   snapshot_at BIGINT,
  *   created_at TIMESTAMP WITH TIME ZONE,
  *   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
  * );
@@ -332,12 +435,26 @@ export class PostgresSnapshotStore implements SnapshotStore {
         machine_name VARCHAR(255) NOT NULL,
         current_state VARCHAR(255) NOT NULL,
         context JSONB,
+        history JSONB,
+        instance JSONB,
+        last_event_id VARCHAR(255),
         event_count INTEGER DEFAULT 0,
         pending_timeouts JSONB DEFAULT '[]',
+        version INTEGER,
+        snapshot_at BIGINT,
         created_at TIMESTAMP WITH TIME ZONE,
         updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
       );
 
+      -- Tables created before history pseudo-states
+      ALTER TABLE fsm_snapshots ADD COLUMN IF NOT EXISTS history JSONB;
+      -- Tables created before expected-version appends
+      ALTER TABLE fsm_snapshots ADD COLUMN IF NOT EXISTS version INTEGER;
+      -- Tables created before whole-instance snapshots
+      ALTER TABLE fsm_snapshots ADD COLUMN IF NOT EXISTS instance JSONB;
+      ALTER TABLE fsm_snapshots ADD COLUMN IF NOT EXISTS last_event_id VARCHAR(255);
+      ALTER TABLE fsm_snapshots ADD COLUMN IF NOT EXISTS snapshot_at BIGINT;
+
       CREATE INDEX IF NOT EXISTS idx_fsm_snapshots_machine_name ON fsm_snapshots(machine_name);
       CREATE INDEX IF NOT EXISTS idx_fsm_snapshots_current_state ON fsm_snapshots(current_state);
     `;
@@ -351,13 +468,19 @@ export class PostgresSnapshotStore implements SnapshotStore {
     const query = `
       INSERT INTO fsm_snapshots (
         instance_id, machine_name, current_state, context,
-        event_count, pending_timeouts, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+        event_count, pending_timeouts, created_at, history, version,
+        instance, last_event_id, snapshot_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, NOW())
       ON CONFLICT (instance_id) DO UPDATE SET
         current_state = $3,
         context = $4,
         event_count = $5,
         pending_timeouts = $6,
+        history = $8,
+        version = $9,
+        instance = $10,
+        last_event_id = $11,
+        snapshot_at = $12,
         updated_at = NOW()
     `;
 
@@ -368,7 +491,12 @@ export class PostgresSnapshotStore implements SnapshotStore {
       JSON.stringify(snapshot.instance.context || {}),
       0, // event_count - not tracked in current InstanceSnapshot type
       JSON.stringify(snapshot.pendingTimeouts || []),
-      snapshot.instance.createdAt ? new Date(snapshot.instance.createdAt) : new Date()
+      snapshot.instance.createdAt ? new Date(snapshot.instance.createdAt) : new Date(),
+      snapshot.instance.history ? JSON.stringify(snapshot.instance.history) : null,
+      snapshot.version ?? null,
+      JSON.stringify(snapshot.instance),
+      snapshot.lastEventId || null,
+      snapshot.snapshotAt
     ]);
   }
 
@@ -426,18 +554,32 @@ export class PostgresSnapshotStore implements SnapshotStore {
   }
 
   private rowToSnapshot(row: any): InstanceSnapshot {
+    if (row.instance) {
+      return {
+        instance: row.instance,
+        snapshotAt: Number(row.snapshot_at),
+        lastEventId: row.last_event_id || '',
+        version: row.version ?? undefined,
+        pendingTimeouts: row.pending_timeouts || undefined,
+      };
+    }
+
+    // Rows saved before whole-instance snapshots
     return {
       instance: {
         id: row.instance_id,
         machineName: row.machine_name,
         currentState: row.current_state,
         context: row.context || {},
+        history: row.history || undefined,
         createdAt: row.created_at ? new Date(row.created_at).getTime() : Date.now(),
         updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : Date.now(),
-        status: 'active'
+        status: 'active',
+        version: row.version ?? undefined
       },
       snapshotAt: row.updated_at ? new Date(row.updated_at).getTime() : Date.now(),
       lastEventId: '',
+      version: row.version ?? undefined,
       pendingTimeouts: (row.pending_timeouts || []).map((t: any) => ({
         stateKey: t.stateKey || '',
         eventType: t.eventType || '',
@@ -453,6 +595,304 @@ export class PostgresSnapshotStore implements SnapshotStore {
   }
 }
 
+/**
+ * PostgreSQL Projection Store
+ *
+ * Schema:
+ * ```sql
+ * CREATE TABLE fsm_projections (
+ *   projection VARCHAR(255) NOT NULL,
+ *   row_key VARCHAR(512) NOT NULL,
+ *   value JSONB,
+ *   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+ *   PRIMARY KEY (projection, row_key)
+ * );
+ * CREATE TABLE fsm_projection_checkpoints (
+ *   projection VARCHAR(255) PRIMARY KEY,
+ *   event_id VARCHAR(255) NOT NULL,
+ *   persisted_at BIGINT NOT NULL,
+ *   applied INTEGER NOT NULL
+ * );
+ * ```
+ *
+ * The rows written for an event and the checkpoint are committed in one transaction.
+ */
+export class PostgresProjectionStore implements ProjectionStore {
+  private pool: any;
+  private config: PostgresConfig;
+  private initialized = false;
+
+  constructor(config: PostgresConfig) {
+    this.config = config;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      const pg = await import('pg' as any);
+      const Pool = pg.Pool || pg.default?.Pool;
+
+      if (!Pool) {
+        throw new Error('pg Pool not found');
+      }
+
+      this.pool = new Pool({
+        connectionString: this.config.connectionString,
+        host: this.config.host,
+        port: this.config.port || 5432,
+        database: this.config.database,
+        user: this.config.user,
+        password: this.config.password,
+        ssl: this.config.ssl,
+        max: this.config.poolSize || 10
+      });
+
+      await this.createTables();
+      this.initialized = true;
+
+      console.log('[PostgresProjectionStore] Connected and initialized');
+    } catch (error) {
+      throw new Error(
+        `Failed to connect to PostgreSQL. ` +
+        'Make sure PostgreSQL is running and the "pg" package is installed. ' +
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private async createTables(): Promise<void> {
+    const createProjectionTables = `
+      CREATE TABLE IF NOT EXISTS fsm_projections (
+        projection VARCHAR(255) NOT NULL,
+        row_key VARCHAR(512) NOT NULL,
+        value JSONB,
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (projection, row_key)
+      );
+
+      CREATE TABLE IF NOT EXISTS fsm_projection_checkpoints (
+        projection VARCHAR(255) PRIMARY KEY,
+        event_id VARCHAR(255) NOT NULL,
+        persisted_at BIGINT NOT NULL,
+        applied INTEGER NOT NULL
+      );
+    `;
+
+    await this.pool.query(createProjectionTables);
+  }
+
+  async get(projection: string, key: string): Promise<any | undefined> {
+    if (!this.initialized) await this.initialize();
+
+    const result = await this.pool.query(
+      'SELECT value FROM fsm_projections WHERE projection = $1 AND row_key = $2',
+      [projection, key]
+    );
+    return result.rows.length > 0 ? result.rows[0].value : undefined;
+  }
+
+  async getAll(projection: string): Promise<Record<string, any>> {
+    if (!this.initialized) await this.initialize();
+
+    const result = await this.pool.query(
+      'SELECT row_key, value FROM fsm_projections WHERE projection = $1 ORDER BY row_key',
+      [projection]
+    );
+    return Object.fromEntries(result.rows.map((row: any) => [row.row_key, row.value]));
+  }
+
+  async commit(projection: string, changes: ProjectionChanges, checkpoint: ProjectionCheckpoint): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const [key, value] of Object.entries(changes.set)) {
+        await client.query(
+          `INSERT INTO fsm_projections (projection, row_key, value, updated_at)
+           VALUES ($1, $2, $3, NOW())
+           ON CONFLICT (projection, row_key) DO UPDATE SET value = $3, updated_at = NOW()`,
+          [projection, key, JSON.stringify(value)]
+        );
+      }
+      if (changes.delete.length > 0) {
+        await client.query(
+          'DELETE FROM fsm_projections WHERE projection = $1 AND row_key = ANY($2)',
+          [projection, changes.delete]
+        );
+      }
+      await client.query(
+        `INSERT INTO fsm_projection_checkpoints (projection, event_id, persisted_at, applied)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (projection) DO UPDATE SET event_id = $2, persisted_at = $3, applied = $4`,
+        [projection, checkpoint.eventId, checkpoint.persistedAt, checkpoint.applied]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getCheckpoint(projection: string): Promise<ProjectionCheckpoint | null> {
+    if (!this.initialized) await this.initialize();
+
+    const result = await this.pool.query(
+      'SELECT event_id, persisted_at, applied FROM fsm_projection_checkpoints WHERE projection = $1',
+      [projection]
+    );
+    if (result.rows.length === 0) return null;
+
+    const row = result.rows[0];
+    return {
+      eventId: row.event_id,
+      persistedAt: parseInt(row.persisted_at, 10),
+      applied: row.applied,
+    };
+  }
+
+  async reset(projection: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM fsm_projections WHERE projection = $1', [projection]);
+      await client.query('DELETE FROM fsm_projection_checkpoints WHERE projection = $1', [projection]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+    }
+  }
+}
+
+/**
+ * PostgreSQL Lease Store
+ *
+ * Leases are session-level advisory locks (pg_try_advisory_lock on a hash of
+ * the key), each held on a dedicated connection of the pool. The lock lasts as
+ * long as the session: the TTL is not used, a holder that dies loses the lease
+ * when PostgreSQL drops its connection, and renewing checks the connection is
+ * still alive.
+ */
+export class PostgresLeaseStore implements LeaseStore {
+  private pool: any;
+  private config: PostgresConfig;
+  private initialized = false;
+  // Connections holding a lock, by lease key
+  private sessions: Map<string, { candidateId: string; client: any }> = new Map();
+
+  constructor(config: PostgresConfig) {
+    this.config = config;
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      const pg = await import('pg' as any);
+      const Pool = pg.Pool || pg.default?.Pool;
+
+      if (!Pool) {
+        throw new Error('pg Pool not found');
+      }
+
+      this.pool = new Pool({
+        connectionString: this.config.connectionString,
+        host: this.config.host,
+        port: this.config.port || 5432,
+        database: this.config.database,
+        user: this.config.user,
+        password: this.config.password,
+        ssl: this.config.ssl,
+        max: this.config.poolSize || 10
+      });
+
+      this.initialized = true;
+
+      console.log('[PostgresLeaseStore] Connected and initialized');
+    } catch (error) {
+      throw new Error(
+        `Failed to connect to PostgreSQL. ` +
+        'Make sure PostgreSQL is running and the "pg" package is installed. ' +
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  async acquire(key: string, candidateId: string, _ttlMs: number): Promise<boolean> {
+    if (!this.initialized) await this.initialize();
+
+    const session = this.sessions.get(key);
+    if (session) {
+      if (session.candidateId !== candidateId) {
+        return false;
+      }
+      try {
+        await session.client.query('SELECT 1');
+        return true;
+      } catch (error) {
+        // Connection lost: so is the lock
+        this.sessions.delete(key);
+        session.client.release(error);
+        throw error;
+      }
+    }
+
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT pg_try_advisory_lock(hashtextextended($1, 0)) AS acquired',
+        [key]
+      );
+      if (result.rows[0]?.acquired) {
+        this.sessions.set(key, { candidateId, client });
+        return true;
+      }
+    } catch (error) {
+      client.release(error);
+      throw error;
+    }
+    client.release();
+    return false;
+  }
+
+  async release(key: string, candidateId: string): Promise<void> {
+    const session = this.sessions.get(key);
+    if (!session || session.candidateId !== candidateId) return;
+
+    this.sessions.delete(key);
+    try {
+      await session.client.query('SELECT pg_advisory_unlock(hashtextextended($1, 0))', [key]);
+      session.client.release();
+    } catch (error) {
+      // Dropping the connection releases the lock
+      session.client.release(error);
+    }
+  }
+
+  async close(): Promise<void> {
+    for (const [key, session] of Array.from(this.sessions)) {
+      await this.release(key, session.candidateId);
+    }
+    if (this.pool) {
+      await this.pool.end();
+    }
+  }
+}
+
 /**
  * Create both PostgreSQL stores with shared connection pool
  */
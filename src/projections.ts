@@ -0,0 +1,416 @@
+/**
+ * Read-Model Projections
+ *
+ * Projections maintain derived rows (e.g. "open notional per trader") from the
+ * persisted event stream. Handlers are registered per machine and event type
+ * or entered state; each projection keeps a checkpoint of the last event it
+ * applied, catches up from it on start, and can be rebuilt from scratch.
+ */
+
+import { EventEmitter } from 'events';
+import {
+  EventStore,
+  PersistedEvent,
+  ProjectionChanges,
+  ProjectionCheckpoint,
+  ProjectionStore,
+} from './types';
+import type { FSMRuntime } from './fsm-runtime';
+
+/**
+ * Events read from the store at a time by catch-ups and rebuilds
+ */
+const SCAN_PAGE_SIZE = 1000;
+
+/**
+ * Rows of a projection, as seen by its handlers
+ *
+ * Writes are buffered and committed with the checkpoint once every handler
+ * matching the event has run.
+ */
+export interface ProjectionView {
+  get<T = any>(key: string): Promise<T | undefined>;
+  set(key: string, value: any): void;
+  delete(key: string): void;
+  /** Replace a row with the result of fn (undefined deletes it) */
+  update<T = any>(key: string, fn: (current: T | undefined) => T | undefined): Promise<void>;
+}
+
+export type ProjectionHandler = (event: PersistedEvent, view: ProjectionView) => void | Promise<void>;
+
+/**
+ * State of a projection (see ProjectionEngine.getStatus)
+ */
+export interface ProjectionStatus {
+  name: string;
+  checkpoint: ProjectionCheckpoint | null;
+  /** Set when a handler failed: the projection stops until restarted or rebuilt */
+  error?: { eventId: string; message: string };
+}
+
+interface ProjectionRegistration {
+  machineName: string;
+  /** Event type, entered state or '*' */
+  trigger: string;
+  handler: ProjectionHandler;
+}
+
+/**
+ * In-memory projection store implementation
+ * For testing and development - replace with database in production
+ */
+export class InMemoryProjectionStore implements ProjectionStore {
+  private rows: Map<string, Map<string, any>> = new Map();
+  private checkpoints: Map<string, ProjectionCheckpoint> = new Map();
+
+  async get(projection: string, key: string): Promise<any | undefined> {
+    return structuredClone(this.rows.get(projection)?.get(key));
+  }
+
+  async getAll(projection: string): Promise<Record<string, any>> {
+    return structuredClone(Object.fromEntries(this.rows.get(projection) || []));
+  }
+
+  async commit(projection: string, changes: ProjectionChanges, checkpoint: ProjectionCheckpoint): Promise<void> {
+    if (!this.rows.has(projection)) {
+      this.rows.set(projection, new Map());
+    }
+    const rows = this.rows.get(projection)!;
+    for (const [key, value] of Object.entries(changes.set)) {
+      rows.set(key, structuredClone(value));
+    }
+    for (const key of changes.delete) {
+      rows.delete(key);
+    }
+    this.checkpoints.set(projection, { ...checkpoint });
+  }
+
+  async getCheckpoint(projection: string): Promise<ProjectionCheckpoint | null> {
+    const checkpoint = this.checkpoints.get(projection);
+    return checkpoint ? { ...checkpoint } : null;
+  }
+
+  async reset(projection: string): Promise<void> {
+    this.rows.delete(projection);
+    this.checkpoints.delete(projection);
+  }
+}
+
+/**
+ * A named projection and its handlers
+ */
+export class Projection {
+  private registrations: ProjectionRegistration[] = [];
+
+  constructor(public readonly name: string) {}
+
+  /**
+   * Register a handler
+   *
+   * @param machineName State machine whose events are projected
+   * @param trigger Event type, state entered by the event, or '*' for every event of the machine
+   * @param handler Updates the rows of the projection
+   */
+  on(machineName: string, trigger: string, handler: ProjectionHandler): this {
+    this.registrations.push({ machineName, trigger, handler });
+    return this;
+  }
+
+  /**
+   * Handlers to run for an event, in registration order
+   */
+  handlersFor(event: PersistedEvent): ProjectionHandler[] {
+    const entered = event.stateAfter !== event.stateBefore ? event.stateAfter : undefined;
+    return this.registrations
+      .filter(r => r.machineName === event.machineName &&
+        (r.trigger === '*' || r.trigger === event.event.type || r.trigger === entered))
+      .map(r => r.handler);
+  }
+}
+
+/**
+ * Buffered view over the rows of a projection
+ */
+function createView(store: ProjectionStore, projection: string, changes: ProjectionChanges): ProjectionView {
+  const view: ProjectionView = {
+    async get(key) {
+      if (key in changes.set) return changes.set[key];
+      if (changes.delete.includes(key)) return undefined;
+      return store.get(projection, key);
+    },
+    set(key, value) {
+      changes.set[key] = value;
+      changes.delete = changes.delete.filter(k => k !== key);
+    },
+    delete(key) {
+      delete changes.set[key];
+      if (!changes.delete.includes(key)) {
+        changes.delete.push(key);
+      }
+    },
+    async update(key, fn) {
+      const next = fn(await view.get(key));
+      if (next === undefined) {
+        view.delete(key);
+      } else {
+        view.set(key, next);
+      }
+    },
+  };
+  return view;
+}
+
+/**
+ * Feeds projections from the event stream
+ *
+ * Live events come from the persistence managers of attached runtimes and are
+ * applied one at a time, in order. start() first catches every projection up
+ * from its checkpoint with the events already in the event store.
+ *
+ * Emits: projection_error ({ projection, eventId, error }), projection_rebuilt ({ projection, applied })
+ */
+export class ProjectionEngine extends EventEmitter {
+  private projections: Map<string, Projection> = new Map();
+  private checkpoints: Map<string, ProjectionCheckpoint | null> = new Map();
+  private errors: Map<string, { eventId: string; message: string }> = new Map();
+  private unsubscribers: Array<() => void> = [];
+  private started = false; // Live events before start() are read from the store by its catch-up
+  private pendingScans = 0; // Catch-ups and rebuilds queued or running
+  private scanned: Map<string, Set<string>> = new Map(); // projection → event IDs read by its last scan
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private eventStore: EventStore, private store: ProjectionStore = new InMemoryProjectionStore()) {
+    super();
+  }
+
+  /**
+   * Define a projection (register its handlers with on())
+   */
+  define(name: string): Projection {
+    if (this.projections.has(name)) {
+      throw new Error(`Projection ${name} is already defined`);
+    }
+    const projection = new Projection(name);
+    this.projections.set(name, projection);
+    return projection;
+  }
+
+  /**
+   * Feed the projections with the events persisted by a runtime
+   */
+  attach(runtime: FSMRuntime): void {
+    const persistence = runtime.getPersistenceManager();
+    if (!persistence?.isEventSourcingEnabled()) {
+      throw new Error(`Projections require event sourcing on ${runtime.getComponentName()}`);
+    }
+    this.unsubscribers.push(persistence.subscribe(event => {
+      if (!this.started) return;
+      // Appended before the listener runs: a scan in progress may read it from the store too
+      const duringScan = this.pendingScans > 0;
+      void this.enqueue(() => this.applyToAll(event, duringScan)).catch(() => {});
+    }));
+  }
+
+  /**
+   * Catch every projection up from its checkpoint, then apply live events
+   */
+  async start(): Promise<void> {
+    this.started = true;
+    await this.scan(Array.from(this.projections.values()), async projection => {
+      this.errors.delete(projection.name);
+      const checkpoint = await this.store.getCheckpoint(projection.name);
+      this.checkpoints.set(projection.name, checkpoint);
+      const follows = followsCheckpoint(checkpoint);
+      return async event => {
+        if (follows(event)) {
+          await this.apply(projection, event);
+        }
+      };
+    });
+  }
+
+  /**
+   * Drop the rows of a projection and apply every event of the store again
+   */
+  async rebuild(name: string): Promise<void> {
+    const projection = this.getProjection(name);
+    await this.scan([projection], async () => {
+      await this.store.reset(name);
+      this.checkpoints.set(name, null);
+      this.errors.delete(name);
+      return event => this.apply(projection, event);
+    }, () => {
+      this.emit('projection_rebuilt', { projection: name, applied: this.checkpoints.get(name)?.applied ?? 0 });
+    });
+  }
+
+  /**
+   * Get a row of a projection
+   */
+  async get<T = any>(name: string, key: string): Promise<T | undefined> {
+    this.getProjection(name);
+    return this.store.get(name, key);
+  }
+
+  /**
+   * Get all rows of a projection
+   */
+  async getAll(name: string): Promise<Record<string, any>> {
+    this.getProjection(name);
+    return this.store.getAll(name);
+  }
+
+  /**
+   * Checkpoint and error of every projection
+   */
+  getStatus(): ProjectionStatus[] {
+    return Array.from(this.projections.keys()).map(name => ({
+      name,
+      checkpoint: this.checkpoints.get(name) ?? null,
+      error: this.errors.get(name),
+    }));
+  }
+
+  /**
+   * Resolve once the events received so far are applied
+   */
+  async whenIdle(): Promise<void> {
+    await this.queue;
+  }
+
+  /**
+   * Stop receiving live events
+   */
+  stop(): void {
+    this.unsubscribers.splice(0).forEach(unsubscribe => unsubscribe());
+  }
+
+  private getProjection(name: string): Projection {
+    const projection = this.projections.get(name);
+    if (!projection) {
+      throw new Error(`Projection ${name} not found`);
+    }
+    return projection;
+  }
+
+  private enqueue(work: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(work);
+    // A failed rebuild or catch-up must not block the following work
+    this.queue = run.catch(error => {
+      console.error('[ProjectionEngine] Failed:', error.message);
+    });
+    return run;
+  }
+
+  /**
+   * Queue a pass over all the events of the store for some projections
+   *
+   * The store is read page by page. `open` prepares a projection and returns
+   * what to do with each event; `done` runs once every page was read.
+   */
+  private scan(
+    projections: Projection[],
+    open: (projection: Projection) => Promise<(event: PersistedEvent) => Promise<void>>,
+    done?: () => void
+  ): Promise<void> {
+    this.pendingScans++;
+    return this.enqueue(async () => {
+      try {
+        const ids = new Set<string>();
+        const consumers: Array<(event: PersistedEvent) => Promise<void>> = [];
+        for (const projection of projections) {
+          this.scanned.set(projection.name, ids);
+          consumers.push(await open(projection));
+        }
+        await this.readPages(async page => {
+          // Appends made during the scan can shift the pages by a few events
+          const events = page.filter(e => !ids.has(e.id));
+          events.forEach(e => ids.add(e.id));
+          for (const consume of consumers) {
+            for (const event of events) {
+              await consume(event);
+            }
+          }
+        });
+        done?.();
+      } finally {
+        this.pendingScans--;
+      }
+    });
+  }
+
+  /**
+   * Read all the events of the store, in pages when the store supports it
+   */
+  private async readPages(read: (events: PersistedEvent[]) => Promise<void>): Promise<void> {
+    if (typeof this.eventStore.getEventsPage !== 'function') {
+      await read(await this.eventStore.getAllEvents());
+      return;
+    }
+    for (let offset = 0; ; offset += SCAN_PAGE_SIZE) {
+      const page = await this.eventStore.getEventsPage(offset, SCAN_PAGE_SIZE);
+      if (page.length > 0) {
+        await read(page);
+      }
+      if (page.length < SCAN_PAGE_SIZE) return;
+    }
+  }
+
+  private async applyToAll(event: PersistedEvent, duringScan: boolean): Promise<void> {
+    for (const projection of this.projections.values()) {
+      if (duringScan && this.scanned.get(projection.name)?.has(event.id)) continue;
+      await this.apply(projection, event);
+    }
+    if (!duringScan && this.pendingScans === 0) {
+      this.scanned.clear();
+    }
+  }
+
+  /**
+   * Run the handlers of a projection matching an event and commit their writes
+   */
+  private async apply(projection: Projection, event: PersistedEvent): Promise<void> {
+    if (this.errors.has(projection.name)) return;
+
+    const handlers = projection.handlersFor(event);
+    if (handlers.length === 0) return;
+
+    const changes: ProjectionChanges = { set: {}, delete: [] };
+    const view = createView(this.store, projection.name, changes);
+    try {
+      for (const handler of handlers) {
+        await handler(event, view);
+      }
+      const checkpoint: ProjectionCheckpoint = {
+        eventId: event.id,
+        persistedAt: event.persistedAt,
+        applied: (this.checkpoints.get(projection.name)?.applied ?? 0) + 1,
+      };
+      await this.store.commit(projection.name, changes, checkpoint);
+      this.checkpoints.set(projection.name, checkpoint);
+    } catch (error: any) {
+      this.errors.set(projection.name, { eventId: event.id, message: error.message });
+      console.error(`[ProjectionEngine] Projection ${projection.name} stopped at event ${event.id}:`, error.message);
+      this.emit('projection_error', { projection: projection.name, eventId: event.id, error: error.message });
+    }
+  }
+}
+
+/**
+ * Tell the events following a checkpoint (all of them without checkpoint), fed in stream order
+ *
+ * Events are ordered by persistence time; when the checkpointed event is no
+ * longer in the stream, the ones persisted after it follow it.
+ */
+function followsCheckpoint(checkpoint: ProjectionCheckpoint | null): (event: PersistedEvent) => boolean {
+  let reached = !checkpoint;
+  return event => {
+    if (reached) return true;
+    if (event.id === checkpoint!.eventId) {
+      reached = true;
+      return false;
+    }
+    reached = event.persistedAt > checkpoint!.persistedAt;
+    return reached;
+  };
+}
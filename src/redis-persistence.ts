@@ -11,11 +11,63 @@
  * - Events:   ZSET  "fsm:events:{instanceId}"  → score=persistedAt, member=JSON(event)
  *             ZSET  "fsm:events:all"            → score=persistedAt, member=JSON(event)
  *             HASH  "fsm:event:{eventId}"       → full event data (for causality lookups)
+ *             LIST  "fsm:caused:{eventId}"      → IDs of the events it caused (merged into `caused` on read)
+ *             STRING "fsm:version:{instanceId}" → version of the last event (expected-version appends)
  * - Snapshots: HASH "fsm:snapshot:{instanceId}" → instance fields
  *              SET  "fsm:snapshots:all"          → set of instanceIds
+ * - Leases:   STRING "fsm:lease:{key}"          → ID of the holder, expiring with the lease
  */
 
-import { EventStore, SnapshotStore, PersistedEvent, InstanceSnapshot } from './types';
+import { EventStore, SnapshotStore, PersistedEvent, InstanceSnapshot, LeaseStore } from './types';
+import { ConcurrencyConflictError } from './persistence';
+
+/**
+ * Members per read when reading the whole event stream
+ */
+const PAGE_SIZE = 10000;
+
+/**
+ * Check the instance version and write the event atomically
+ * (returns -1 when appended, the current version on conflict)
+ */
+const APPEND_EXPECTED_VERSION_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+if current ~= tonumber(ARGV[1]) then
+  return current
+end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('ZADD', KEYS[2], ARGV[3], ARGV[4])
+redis.call('ZADD', KEYS[3], ARGV[3], ARGV[4])
+redis.call('SET', KEYS[4], ARGV[4])
+return -1
+`;
+
+/**
+ * Take a free lease, or extend the lease held by the caller
+ * (returns 1 when the caller holds the lease)
+ */
+const ACQUIRE_LEASE_SCRIPT = `
+local holder = redis.call('GET', KEYS[1])
+if not holder then
+  redis.call('SET', KEYS[1], ARGV[1], 'PX', ARGV[2])
+  return 1
+end
+if holder == ARGV[1] then
+  redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+/**
+ * Delete a lease if the caller holds it
+ */
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
 
 /**
  * Redis connection configuration
@@ -84,9 +136,26 @@ export class RedisEventStore implements EventStore {
     return [this.prefix, ...parts].join(':');
   }
 
-  async append(event: PersistedEvent): Promise<void> {
+  async append(event: PersistedEvent, expectedVersion?: number): Promise<void> {
     if (!this.initialized) await this.initialize();
 
+    if (expectedVersion !== undefined) {
+      const version = expectedVersion + 1;
+      const current = await this.client.eval(APPEND_EXPECTED_VERSION_SCRIPT, {
+        keys: [
+          this.key('version', event.instanceId),
+          this.key('events', event.instanceId),
+          this.key('events', 'all'),
+          this.key('event', event.id),
+        ],
+        arguments: [String(expectedVersion), String(version), String(event.persistedAt), JSON.stringify({ ...event, version })],
+      });
+      if (Number(current) >= 0) {
+        throw new ConcurrencyConflictError(event.instanceId, expectedVersion, Number(current));
+      }
+      return;
+    }
+
     const serialized = JSON.stringify(event);
 
     // Store in instance-specific sorted set (score = persistedAt)
@@ -114,7 +183,7 @@ export class RedisEventStore implements EventStore {
       '+inf'
     );
 
-    return results.map((r: string) => JSON.parse(r) as PersistedEvent);
+    return this.withCausalLinks(results.map((r: string) => JSON.parse(r) as PersistedEvent));
   }
 
   async getEventsByTimeRange(startTime: number, endTime: number): Promise<PersistedEvent[]> {
@@ -126,7 +195,7 @@ export class RedisEventStore implements EventStore {
       endTime
     );
 
-    return results.map((r: string) => JSON.parse(r) as PersistedEvent);
+    return this.withCausalLinks(results.map((r: string) => JSON.parse(r) as PersistedEvent));
   }
 
   async getCausedEvents(eventId: string): Promise<PersistedEvent[]> {
@@ -136,7 +205,7 @@ export class RedisEventStore implements EventStore {
     const eventData = await this.client.get(this.key('event', eventId));
     if (!eventData) return [];
 
-    const event: PersistedEvent = JSON.parse(eventData);
+    const [event] = await this.withCausalLinks([JSON.parse(eventData)]);
     const causedIds = event.caused || [];
 
     const results: PersistedEvent[] = [];
@@ -150,16 +219,99 @@ export class RedisEventStore implements EventStore {
     return results;
   }
 
+  /**
+   * All events, read in pages of PAGE_SIZE members
+   */
   async getAllEvents(): Promise<PersistedEvent[]> {
+    const events: PersistedEvent[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.getEventsPage(offset, PAGE_SIZE);
+      events.push(...page);
+      if (page.length < PAGE_SIZE) return events;
+    }
+  }
+
+  async getEventsPage(offset: number, limit: number): Promise<PersistedEvent[]> {
     if (!this.initialized) await this.initialize();
 
     const results = await this.client.zRange(
       this.key('events', 'all'),
-      0,
-      9999 // limit to 10000
+      offset,
+      offset + limit - 1
     );
 
-    return results.map((r: string) => JSON.parse(r) as PersistedEvent);
+    return this.withCausalLinks(results.map((r: string) => JSON.parse(r) as PersistedEvent));
+  }
+
+  /**
+   * Instances with events, from the keys of their sorted sets (SCAN, not KEYS)
+   */
+  async getInstanceIds(): Promise<string[]> {
+    if (!this.initialized) await this.initialize();
+
+    const all = this.key('events', 'all');
+    const prefix = this.key('events', '');
+    const ids = new Set<string>();
+    let cursor: string | number = '0';
+    do {
+      const reply: { cursor: string | number; keys: string[] } =
+        await this.client.scan(cursor, { MATCH: `${prefix}*`, COUNT: 1000 });
+      cursor = reply.cursor;
+      reply.keys.filter(key => key !== all).forEach(key => ids.add(key.slice(prefix.length)));
+    } while (String(cursor) !== '0');
+    return Array.from(ids);
+  }
+
+  /**
+   * Replace events by a compaction summary in one MULTI/EXEC
+   *
+   * Sorted set members are the serialized events, read back from their event keys.
+   */
+  async compact(instanceId: string, removedEventIds: string[], summary: PersistedEvent): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const members: string[] = [];
+    for (const id of removedEventIds) {
+      const data = await this.client.get(this.key('event', id));
+      if (data) members.push(data);
+    }
+
+    const serialized = JSON.stringify(summary);
+    const multi = this.client.multi();
+    if (members.length > 0) {
+      multi.zRem(this.key('events', instanceId), members);
+      multi.zRem(this.key('events', 'all'), members);
+    }
+    multi.del(removedEventIds.flatMap(id => [this.key('event', id), this.key('caused', id)]));
+    multi.zAdd(this.key('events', instanceId), { score: summary.persistedAt, value: serialized });
+    multi.zAdd(this.key('events', 'all'), { score: summary.persistedAt, value: serialized });
+    multi.set(this.key('event', summary.id), serialized);
+    await multi.exec();
+  }
+
+  /**
+   * Record a causal link without rewriting the parent event (O(1) list push)
+   */
+  async appendCausalLink(parentId: string, childId: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    await this.client.rPush(this.key('caused', parentId), childId);
+  }
+
+  /**
+   * Merge the causal links recorded after append into `caused`
+   */
+  private async withCausalLinks(events: PersistedEvent[]): Promise<PersistedEvent[]> {
+    if (events.length === 0) return events;
+
+    const multi = this.client.multi();
+    events.forEach(event => multi.lRange(this.key('caused', event.id), 0, -1));
+    const links: string[][] = await multi.exec();
+
+    return events.map((event, i) => ({
+      ...event,
+      caused: Array.from(new Set([...(event.caused || []), ...(links[i] || [])])),
+    }));
   }
 
   /**
@@ -178,7 +330,7 @@ export class RedisEventStore implements EventStore {
       const data = await this.client.get(this.key('event', id));
       if (!data) return;
 
-      const event: PersistedEvent = JSON.parse(data);
+      const [event] = await this.withCausalLinks([JSON.parse(data)]);
       result.push(event);
 
       if (event.caused && event.caused.length > 0) {
@@ -300,6 +452,81 @@ export class RedisSnapshotStore implements SnapshotStore {
   }
 }
 
+/**
+ * Redis Lease Store
+ *
+ * Stores each lease as a key holding the ID of its holder, expiring with the
+ * lease: a holder that stops renewing loses the lease after its TTL.
+ */
+export class RedisLeaseStore implements LeaseStore {
+  private client: any;
+  private config: RedisConfig;
+  private prefix: string;
+  private initialized = false;
+
+  constructor(config: RedisConfig) {
+    this.config = config;
+    this.prefix = config.keyPrefix || 'fsm';
+  }
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      const redis = await import('redis' as any);
+      const createClient = redis.createClient || redis.default?.createClient;
+
+      if (!createClient) {
+        throw new Error('redis createClient not found');
+      }
+
+      const url = this.config.url ||
+        `redis://${this.config.host || 'localhost'}:${this.config.port || 6379}/${this.config.database || 0}`;
+
+      this.client = createClient({ url });
+      await this.client.connect();
+      this.initialized = true;
+
+      console.log('[RedisLeaseStore] Connected and initialized');
+    } catch (error) {
+      throw new Error(
+        `Failed to connect to Redis. ` +
+        'Make sure Redis is running and the "redis" package is installed. ' +
+        `Error: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  private key(...parts: string[]): string {
+    return [this.prefix, ...parts].join(':');
+  }
+
+  async acquire(key: string, candidateId: string, ttlMs: number): Promise<boolean> {
+    if (!this.initialized) await this.initialize();
+
+    const acquired = await this.client.eval(ACQUIRE_LEASE_SCRIPT, {
+      keys: [this.key('lease', key)],
+      arguments: [candidateId, String(Math.max(1, Math.round(ttlMs)))],
+    });
+    return Number(acquired) === 1;
+  }
+
+  async release(key: string, candidateId: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    await this.client.eval(RELEASE_LEASE_SCRIPT, {
+      keys: [this.key('lease', key)],
+      arguments: [candidateId],
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      await this.client.disconnect();
+    }
+  }
+}
+
 /**
  * Create both Redis stores with the same configuration
  */
@@ -0,0 +1,193 @@
+/**
+ * Request/Reply over a Message Broker
+ *
+ * A request is a message carrying a correlation ID and the channel to reply
+ * on (replyTo). BrokerRequester publishes requests and settles each one with
+ * the reply bearing its correlation ID, or rejects it after a timeout; the
+ * handling side answers with sendReply().
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { MessageBroker, PublishOptions } from './message-broker';
+
+/**
+ * Timeout applied when a request does not set one
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Fields that make a message a request
+ */
+export interface RequestEnvelope {
+  correlationId: string;
+  /** Channel the reply is published on */
+  replyTo: string;
+}
+
+/**
+ * Reply to a request: its result, or the error it failed with
+ */
+export interface ReplyMessage<T = any> {
+  correlationId: string;
+  result?: T;
+  error?: string;
+}
+
+/**
+ * Thrown when no reply arrives in time
+ */
+export class RequestTimeoutError extends Error {
+  constructor(public channel: string, public correlationId: string, public timeoutMs: number) {
+    super(`No reply to request ${correlationId} on ${channel} within ${timeoutMs}ms`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/**
+ * Whether a message expects a reply
+ */
+export function isRequest(message: any): message is RequestEnvelope {
+  return typeof message?.correlationId === 'string' && typeof message?.replyTo === 'string';
+}
+
+/**
+ * Answer a request with its result, or with the error it failed with
+ */
+export async function sendReply(
+  broker: MessageBroker,
+  request: RequestEnvelope,
+  outcome: { result: any } | { error: unknown }
+): Promise<void> {
+  const reply: ReplyMessage = { correlationId: request.correlationId };
+  if ('error' in outcome) {
+    reply.error = outcome.error instanceof Error ? outcome.error.message : String(outcome.error);
+  } else {
+    reply.result = outcome.result;
+  }
+  await broker.publish(request.replyTo, reply);
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Sends requests over a broker and matches their replies
+ *
+ * Replies come back on one channel per requester (subscribed on the first
+ * request), and are matched by correlation ID. Late and unknown replies are
+ * ignored.
+ *
+ * Example:
+ * ```typescript
+ * const requester = new BrokerRequester(broker);
+ * const reply = await requester.request('xcomponent:PaymentComponent', message, 5000);
+ * ```
+ */
+export class BrokerRequester {
+  private broker: MessageBroker;
+  private replyChannel: string;
+  private timeoutMs: number;
+  private pending: Map<string, PendingRequest> = new Map();
+  private subscribed?: Promise<void>;
+
+  /**
+   * @param options.replyChannel Channel replies are sent to (default: xcomponent:replies:<uuid>)
+   * @param options.timeoutMs Timeout of requests that do not set one (default: DEFAULT_REQUEST_TIMEOUT_MS)
+   */
+  constructor(broker: MessageBroker, options: { replyChannel?: string; timeoutMs?: number } = {}) {
+    this.broker = broker;
+    this.replyChannel = options.replyChannel || `xcomponent:replies:${uuidv4()}`;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+  }
+
+  /**
+   * Publish a request and wait for its reply
+   *
+   * @param channel Channel of the handling side
+   * @param message Request body (correlationId and replyTo are added)
+   * @param options Options of the published request (partition key)
+   * @returns Result of the reply
+   * @throws RequestTimeoutError when no reply arrives in time, or the error of the reply
+   */
+  async request<T = any>(
+    channel: string,
+    message: Record<string, any>,
+    timeoutMs: number = this.timeoutMs,
+    options: PublishOptions = {}
+  ): Promise<T> {
+    await this.subscribeReplies();
+
+    const correlationId = uuidv4();
+    const reply = new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(correlationId);
+        reject(new RequestTimeoutError(channel, correlationId, timeoutMs));
+      }, timeoutMs);
+      this.pending.set(correlationId, { resolve, reject, timer });
+    });
+
+    try {
+      await this.broker.publish(channel, { ...message, correlationId, replyTo: this.replyChannel }, options);
+    } catch (error) {
+      this.settle(correlationId);
+      throw error;
+    }
+    return reply;
+  }
+
+  /**
+   * Number of requests waiting for their reply
+   */
+  getPendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Reject the waiting requests and stop listening for replies
+   */
+  dispose(): void {
+    for (const correlationId of Array.from(this.pending.keys())) {
+      this.settle(correlationId)?.reject(new Error(`Request ${correlationId} cancelled`));
+    }
+    if (this.subscribed) {
+      this.broker.unsubscribe(this.replyChannel);
+      this.subscribed = undefined;
+    }
+  }
+
+  private subscribeReplies(): Promise<void> {
+    if (!this.subscribed) {
+      this.subscribed = Promise.resolve(this.broker.subscribe(this.replyChannel, (reply: ReplyMessage) => {
+        const pending = this.settle(reply.correlationId);
+        if (!pending) {
+          return;
+        }
+        if (reply.error !== undefined) {
+          pending.reject(new Error(reply.error));
+        } else {
+          pending.resolve(reply.result);
+        }
+      }));
+      this.subscribed.catch(() => {
+        this.subscribed = undefined;
+      });
+    }
+    return this.subscribed;
+  }
+
+  /**
+   * Forget a pending request (null if already settled)
+   */
+  private settle(correlationId: string): PendingRequest | null {
+    const pending = this.pending.get(correlationId);
+    if (!pending) {
+      return null;
+    }
+    clearTimeout(pending.timer);
+    this.pending.delete(correlationId);
+    return pending;
+  }
+}
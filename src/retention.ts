@@ -0,0 +1,240 @@
+/**
+ * Event History Retention
+ *
+ * Compaction folds the old events of an instance into one HISTORY_COMPACTED
+ * summary event. The summary records the folded range and a SHA-256 hash of
+ * the folded events chained to the previous summary, so that an archive of
+ * the events can still be checked against the store. Folded events can be
+ * archived first to gzip-compressed JSONL files. The summary also carries the
+ * idempotency keys of the folded events, so that retried requests are still
+ * deduplicated after compaction.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createHash } from 'crypto';
+import { promisify } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { Component, PersistedEvent, RetentionPolicy } from './types';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Event type of the summaries written by compaction
+ */
+export const COMPACTION_EVENT = 'HISTORY_COMPACTED';
+
+/**
+ * Payload of a HISTORY_COMPACTED summary event
+ */
+export interface CompactionSummary {
+  /** Original events represented (those of the previous summary included) */
+  events: number;
+  fromEventId: string;
+  toEventId: string;
+  firstPersistedAt: number;
+  lastPersistedAt: number;
+  /** Hash of the previous summary of the instance ('' for the first one) */
+  previousHash: string;
+  /** SHA-256 of the folded events (the previous summary first), seeded with previousHash */
+  hash: string;
+  compactedAt: number;
+  /** Archive file holding the folded events */
+  archive?: string;
+  /** Idempotency keys of the folded events (within the dedup window), most recent last */
+  idempotencyKeys?: string[];
+}
+
+/**
+ * Retention policy of a machine: its own settings over the component's
+ *
+ * @returns undefined when nothing is to be compacted
+ */
+export function resolveRetentionPolicy(component: Component, machineName: string): RetentionPolicy | undefined {
+  const machine = component.stateMachines.find(m => m.name === machineName);
+  const policy: RetentionPolicy = { ...component.retention, ...machine?.retention };
+  return policy.maxAgeDays !== undefined || policy.terminalSummaryOnly ? policy : undefined;
+}
+
+/**
+ * Check the retention policies of a component definition
+ *
+ * @returns Problems found (empty when valid)
+ */
+export function validateRetention(component: Component): string[] {
+  const problems: string[] = [];
+  const check = (policy: RetentionPolicy | undefined, prefix: string) => {
+    if (!policy) return;
+    if (policy.maxAgeDays !== undefined && !(typeof policy.maxAgeDays === 'number' && policy.maxAgeDays > 0)) {
+      problems.push(`${prefix}: maxAgeDays must be a positive number of days`);
+    }
+    if (policy.archiveDirectory !== undefined && typeof policy.archiveDirectory !== 'string') {
+      problems.push(`${prefix}: archiveDirectory must be a directory path`);
+    }
+  };
+
+  check(component.retention, 'retention');
+  component.stateMachines?.forEach(machine => check(machine.retention, `Machine "${machine.name}" retention`));
+  return problems;
+}
+
+/**
+ * JSON with sorted keys, so that hashes do not depend on field order
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash chain over events, in order
+ */
+export function hashEvents(events: PersistedEvent[], previousHash: string = ''): string {
+  return events.reduce(
+    (hash, event) => createHash('sha256').update(hash).update(canonicalJson(event)).digest('hex'),
+    previousHash
+  );
+}
+
+/**
+ * Leading events of an instance stream that a policy folds
+ *
+ * @param events Events of the instance, oldest first
+ * @param finished Whether the instance reached a final or error state
+ */
+export function selectEventsToFold(
+  events: PersistedEvent[],
+  policy: RetentionPolicy,
+  finished: boolean,
+  now: number
+): PersistedEvent[] {
+  if (finished && policy.terminalSummaryOnly) {
+    return events;
+  }
+  if (policy.maxAgeDays === undefined) {
+    return [];
+  }
+  const cutoff = now - policy.maxAgeDays * DAY_MS;
+  const kept = events.findIndex(event => event.persistedAt >= cutoff);
+  return kept < 0 ? events : events.slice(0, kept);
+}
+
+/**
+ * Summary event replacing folded events
+ *
+ * It takes the position (persistedAt, version) of the last folded event, and
+ * the state and data the folded events led to.
+ *
+ * @param keyLimit Max number of idempotency keys kept (the dedup window)
+ */
+export function createSummaryEvent(
+  folded: PersistedEvent[],
+  compactedAt: number,
+  archive?: string,
+  keyLimit: number = 100
+): PersistedEvent {
+  const first = folded[0];
+  const last = folded[folded.length - 1];
+  const previous: CompactionSummary | undefined = first.event.type === COMPACTION_EVENT
+    ? first.event.payload as CompactionSummary
+    : undefined;
+  const previousHash = previous?.hash ?? '';
+
+  const summary: CompactionSummary = {
+    events: (previous?.events ?? 1) + folded.length - 1,
+    fromEventId: previous?.fromEventId ?? first.id,
+    toEventId: last.id,
+    firstPersistedAt: previous?.firstPersistedAt ?? first.persistedAt,
+    lastPersistedAt: last.persistedAt,
+    previousHash,
+    hash: hashEvents(folded, previousHash),
+    compactedAt,
+  };
+  if (archive) {
+    summary.archive = archive;
+  }
+  const keys = new Set<string>(previous?.idempotencyKeys ?? []);
+  for (const event of previous ? folded.slice(1) : folded) {
+    const key = event.event.idempotencyKey ?? event.event.eventId;
+    if (key) {
+      // Re-insert so the most recent occurrence decides the order
+      keys.delete(key);
+      keys.add(key);
+    }
+  }
+  if (keys.size > 0 && keyLimit > 0) {
+    summary.idempotencyKeys = Array.from(keys).slice(-keyLimit);
+  }
+
+  const event: PersistedEvent = {
+    id: uuidv4(),
+    instanceId: last.instanceId,
+    machineName: last.machineName,
+    componentName: last.componentName,
+    event: { type: COMPACTION_EVENT, payload: summary, timestamp: compactedAt },
+    stateBefore: first.stateBefore,
+    stateAfter: last.stateAfter,
+    publicMemberSnapshot: last.publicMemberSnapshot,
+    persistedAt: last.persistedAt,
+  };
+  if (last.version !== undefined) {
+    event.version = last.version;
+  }
+  if (last.definitionVersion !== undefined) {
+    event.definitionVersion = last.definitionVersion;
+  }
+  return event;
+}
+
+/**
+ * Check archived events against the summary that replaced them
+ *
+ * @param events Folded events of the summary, in order (as archived)
+ */
+export function verifySummary(summary: PersistedEvent, events: PersistedEvent[]): boolean {
+  const payload = summary.event.payload as CompactionSummary;
+  return events.length > 0 && hashEvents(events, payload.previousHash) === payload.hash;
+}
+
+/**
+ * Write events to a new gzip-compressed JSONL archive
+ *
+ * @returns Path of the archive file
+ */
+export async function writeArchive(
+  directory: string,
+  componentName: string,
+  events: PersistedEvent[],
+  compactedAt: number
+): Promise<string> {
+  await fs.promises.mkdir(directory, { recursive: true });
+  const file = path.join(directory, `${componentName}-${compactedAt}.jsonl.gz`);
+  const data = await gzip(events.map(event => JSON.stringify(event)).join('\n') + '\n');
+  // Never overwrite an earlier archive
+  await fs.promises.writeFile(file, data, { flag: 'wx' });
+  return file;
+}
+
+/**
+ * Read the events of an archive file
+ */
+export async function readArchive(file: string): Promise<PersistedEvent[]> {
+  const data = await gunzip(await fs.promises.readFile(file));
+  return data.toString('utf8')
+    .split('\n')
+    .filter(line => line.length > 0)
+    .map(line => JSON.parse(line));
+}
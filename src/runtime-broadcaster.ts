@@ -3,19 +3,25 @@
  *
  * Publishes FSM runtime events to the message broker for the distributed dashboard.
  * Attach this to an FSMRuntime to enable distributed monitoring.
+ *
+ * For sharded components, heartbeats also announce the shards the replica
+ * owns, and the heartbeats of the other replicas rebalance them. Runtimes
+ * campaigning to host a singleton entry point publish their leadership.
  */
 
 import { FSMRuntime } from './fsm-runtime';
 import { MessageBroker, createMessageBroker } from './message-broker';
-import { Component, StateType } from './types';
-import { DashboardChannels, RuntimeRegistration, FSMEventBroadcast } from './dashboard-server';
+import { Component, CreateInstanceOptions, StateType } from './types';
+import { DashboardChannels, RuntimeRegistration, FSMEventBroadcast, LeadershipBroadcast } from './dashboard-server';
+import { ShardAnnouncement, ShardCoordinator } from './sharding';
+import { LeaderElection, LeadershipChange } from './leader-election';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
  * Configuration for RuntimeBroadcaster
  */
 export interface RuntimeBroadcasterConfig {
-  /** Message broker URL (amqp://, redis://, or 'memory') */
+  /** Message broker URL (amqp://, redis://, kafka://, nats://, or 'memory') */
   brokerUrl: string;
   /** Host address for this runtime (for direct connections) */
   host?: string;
@@ -23,6 +29,10 @@ export interface RuntimeBroadcasterConfig {
   port?: number;
   /** Heartbeat interval in ms (default: 30000) */
   heartbeatInterval?: number;
+  /** Shard ownership of a sharded component (see ComponentRegistry.getShardCoordinator) */
+  sharding?: ShardCoordinator;
+  /** Election of the host of the singleton entry point (see ComponentRegistry.getLeaderElection) */
+  leaderElection?: LeaderElection;
 }
 
 /**
@@ -36,6 +46,11 @@ export class RuntimeBroadcaster {
   private config: RuntimeBroadcasterConfig;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private connected = false;
+  private onLeadershipChanged = (change: LeadershipChange) => {
+    this.publishLeadership(change.isLeader).catch(error => {
+      console.error(`[RuntimeBroadcaster] Failed to publish leadership:`, error.message);
+    });
+  };
 
   constructor(
     runtime: FSMRuntime,
@@ -64,8 +79,15 @@ export class RuntimeBroadcaster {
     await this.broker.subscribe(DashboardChannels.RUNTIME_DISCOVER, async () => {
       console.log(`[RuntimeBroadcaster] Discover request received, re-announcing...`);
       await this.announce();
+      if (this.config.leaderElection) {
+        await this.publishLeadership(this.config.leaderElection.isLeader());
+      }
     });
 
+    if (this.config.sharding) {
+      await this.subscribeToReplicas(this.config.sharding);
+    }
+
     console.log(`[RuntimeBroadcaster] Command subscriptions established`);
 
     // Register event listeners on the runtime
@@ -73,7 +95,10 @@ export class RuntimeBroadcaster {
 
     // Auto-create entry point instance based on configuration
     // Default: auto-create for singleton mode, no auto-create for multiple mode
-    if (this.component.entryMachine) {
+    // (an elected entry point is hosted by the registry of the leader)
+    if (this.config.leaderElection) {
+      console.log(`[RuntimeBroadcaster] Entry point hosted by the elected runtime`);
+    } else if (this.component.entryMachine) {
       const isSingleton = this.component.entryMachineMode === 'singleton';
       const shouldAutoCreate = this.component.autoCreateEntryPoint ?? isSingleton;
 
@@ -85,12 +110,8 @@ export class RuntimeBroadcaster {
 
         if (!hasEntryPointInstance) {
           console.log(`[RuntimeBroadcaster] Creating entry point instance for ${this.component.entryMachine}`);
-          const entryInstanceId = this.runtime.createInstance(this.component.entryMachine, {});
-          // Mark as entry point (won't be auto-deallocated in final state)
-          const instance = this.runtime.getInstance(entryInstanceId);
-          if (instance) {
-            (instance as any).isEntryPoint = true;
-          }
+          // Entry point instances are never auto-deallocated in final state
+          const entryInstanceId = this.runtime.createInstance(this.component.entryMachine, {}, undefined, { isEntryPoint: true });
           console.log(`[RuntimeBroadcaster] Entry point instance created: ${entryInstanceId}`);
         } else {
           console.log(`[RuntimeBroadcaster] Entry point instance already exists`);
@@ -106,6 +127,11 @@ export class RuntimeBroadcaster {
     // Start heartbeat
     this.startHeartbeat();
 
+    if (this.config.leaderElection) {
+      this.config.leaderElection.on('leadership_changed', this.onLeadershipChanged);
+      await this.publishLeadership(this.config.leaderElection.isLeader());
+    }
+
     console.log(`[RuntimeBroadcaster] Connected and broadcasting for ${this.component.name}`);
   }
 
@@ -117,12 +143,14 @@ export class RuntimeBroadcaster {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
+    this.config.leaderElection?.off('leadership_changed', this.onLeadershipChanged);
 
-    // Notify dashboard of shutdown
+    // Notify dashboard (and the other replicas) of shutdown
     if (this.connected) {
       await this.broker.publish(DashboardChannels.RUNTIME_SHUTDOWN, {
         runtimeId: this.runtimeId,
         componentName: this.component.name,
+        replicaId: this.config.sharding?.getReplicaId(),
         timestamp: Date.now()
       } as any);
     }
@@ -147,21 +175,74 @@ export class RuntimeBroadcaster {
     await this.broker.publish(DashboardChannels.RUNTIME_ANNOUNCE, registration as any);
   }
 
+  /**
+   * Publish the leadership of this runtime in the election of the entry point host
+   */
+  private async publishLeadership(isLeader: boolean): Promise<void> {
+    const leadership: LeadershipBroadcast = {
+      runtimeId: this.runtimeId,
+      componentName: this.component.name,
+      candidateId: this.config.leaderElection!.getCandidateId(),
+      isLeader,
+      timestamp: Date.now()
+    };
+    await this.broker.publish(DashboardChannels.LEADERSHIP_CHANGED, leadership as any);
+  }
+
   /**
    * Start sending heartbeats
+   *
+   * Sharded components announce their shards right away, so that the other
+   * replicas rebalance without waiting for the first interval.
    */
   private startHeartbeat(): void {
     const interval = this.config.heartbeatInterval || 30000;
 
     this.heartbeatTimer = setInterval(async () => {
       if (this.connected) {
-        await this.broker.publish(DashboardChannels.RUNTIME_HEARTBEAT, {
-          runtimeId: this.runtimeId,
-          componentName: this.component.name,
-          timestamp: Date.now()
-        } as any);
+        this.config.sharding?.expireMembers();
+        await this.heartbeat();
       }
     }, interval);
+
+    if (this.config.sharding) {
+      this.heartbeat().catch(error => {
+        console.error(`[RuntimeBroadcaster] Failed to announce shards:`, error.message);
+      });
+    }
+  }
+
+  private async heartbeat(): Promise<void> {
+    const heartbeat: { runtimeId: string; componentName: string; timestamp: number; shards?: ShardAnnouncement } = {
+      runtimeId: this.runtimeId,
+      componentName: this.component.name,
+      timestamp: Date.now()
+    };
+    if (this.config.sharding) {
+      heartbeat.shards = this.config.sharding.getAnnouncement();
+    }
+    await this.broker.publish(DashboardChannels.RUNTIME_HEARTBEAT, heartbeat);
+  }
+
+  /**
+   * Track the other replicas of a sharded component from their heartbeats and shutdowns
+   */
+  private async subscribeToReplicas(sharding: ShardCoordinator): Promise<void> {
+    await this.broker.subscribe(DashboardChannels.RUNTIME_HEARTBEAT, async (msg: any) => {
+      if (msg.runtimeId === this.runtimeId || !msg.shards) {
+        return;
+      }
+      // A replica that just joined does not know this one yet
+      if (sharding.observe(msg.shards) && this.connected) {
+        await this.heartbeat();
+      }
+    });
+
+    await this.broker.subscribe(DashboardChannels.RUNTIME_SHUTDOWN, (msg: any) => {
+      if (msg.componentName === this.component.name && msg.replicaId) {
+        sharding.leave(msg.replicaId);
+      }
+    });
   }
 
   /**
@@ -333,9 +414,12 @@ export class RuntimeBroadcaster {
             return;
           }
 
-          // Check singleton mode for entry machine
+          // Check singleton mode for entry machine (created by the elected runtime only)
           if (machineName === this.component.entryMachine &&
               this.component.entryMachineMode === 'singleton') {
+            if (this.config.leaderElection && !this.config.leaderElection.isLeader()) {
+              return;
+            }
             const existingInstances = this.runtime.getAllInstances()
               .filter(i => i.machineName === this.component.entryMachine);
             if (existingInstances.length > 0) {
@@ -344,7 +428,19 @@ export class RuntimeBroadcaster {
             }
           }
 
-          const instanceId = this.runtime.createInstance(machineName, msg.context || {});
+          // Every replica receives it: the owner of its shard creates it
+          const sharding = this.config.sharding;
+          let options: CreateInstanceOptions = {};
+          if (sharding) {
+            const context = msg.context || {};
+            const key = msg.instanceId ?? JSON.stringify(msg);
+            if (!sharding.ownsShard(sharding.shardOfContext(context, key))) {
+              return;
+            }
+            options = { instanceId: msg.instanceId ?? sharding.newInstanceId(context) };
+          }
+
+          const instanceId = this.runtime.createInstance(machineName, msg.context || {}, undefined, options);
 
           if (msg.sourceComponent) {
             console.log(`[RuntimeBroadcaster] Created instance ${instanceId} (cross-component from ${msg.sourceComponent})`);
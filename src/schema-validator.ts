@@ -0,0 +1,354 @@
+/**
+ * Schema Validation
+ * Validates instance context and event payloads against contextSchema / payloadSchema
+ *
+ * Two schema formats are accepted:
+ *
+ * 1. Field map (the format used by dashboard form generation):
+ *      contextSchema:
+ *        amount: { type: number, required: true, min: 1 }
+ *        currency: { type: select, options: [EUR, USD] }
+ *
+ * 2. JSON Schema (subset: type, enum, const, required, properties,
+ *    additionalProperties, items, minimum/maximum, exclusiveMinimum/Maximum,
+ *    minLength/maxLength, pattern, minItems/maxItems):
+ *      contextSchema:
+ *        type: object
+ *        required: [amount]
+ *        properties:
+ *          amount: { type: number, minimum: 1 }
+ *
+ * Any other keyword (oneOf, $ref, format, ...) is rejected by
+ * checkSchemaDefinition() instead of being ignored, so that a schema is never
+ * silently weaker than it reads.
+ */
+
+/**
+ * Single validation problem
+ */
+export interface ValidationIssue {
+  /** Path of the offending value (e.g. "amount", "customer.id", "items[0]") */
+  path: string;
+  /** Human-readable message */
+  message: string;
+  /** Schema keyword that failed (type, required, minimum, ...) */
+  keyword: string;
+}
+
+/**
+ * Error raised when a context or payload does not match its schema
+ */
+export class ContextValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly issues: ValidationIssue[],
+    public readonly machineName?: string,
+    public readonly target: 'context' | 'payload' = 'context'
+  ) {
+    super(`${message}: ${issues.map(i => `${i.path || '(root)'} ${i.message}`).join('; ')}`);
+    this.name = 'ContextValidationError';
+  }
+}
+
+/**
+ * Validation options
+ */
+export interface SchemaValidationOptions {
+  /**
+   * Skip top-level `required` checks (types and constraints of present values
+   * are still validated). Used for merged context after transitions and for
+   * auto-created entry points.
+   */
+  partial?: boolean;
+}
+
+/** JSON Schema types supported by the validator */
+const JSON_TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+/** Field map types (dashboard form types) mapped to JSON Schema types */
+const FIELD_TYPES: Record<string, string | undefined> = {
+  text: 'string',
+  string: 'string',
+  textarea: 'string',
+  email: 'string',
+  date: 'string',
+  number: 'number',
+  integer: 'integer',
+  boolean: 'boolean',
+  checkbox: 'boolean',
+  select: undefined, // constrained by options
+  object: 'object',
+  array: 'array',
+};
+
+/** Keywords that carry no validation (documentation and form hints) */
+const ANNOTATION_KEYWORDS = ['title', 'description', 'default', 'examples', 'label', 'placeholder'];
+
+/** JSON Schema keywords enforced by the validator */
+const JSON_SCHEMA_KEYWORDS = [
+  '$schema', '$id', '$comment', 'type', 'enum', 'const', 'required', 'properties',
+  'additionalProperties', 'items', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+  'minLength', 'maxLength', 'pattern', 'minItems', 'maxItems', ...ANNOTATION_KEYWORDS,
+];
+
+/** Field map keywords enforced by the validator */
+const FIELD_KEYWORDS = [
+  'type', 'required', 'options', 'enum', 'min', 'max', 'minimum', 'maximum',
+  'minLength', 'maxLength', 'pattern', ...ANNOTATION_KEYWORDS,
+];
+
+/**
+ * Check whether a schema is written as JSON Schema rather than a field map
+ */
+export function isJsonSchema(schema: Record<string, any>): boolean {
+  return schema.type === 'object' || typeof schema.$schema === 'string' ||
+    (typeof schema.properties === 'object' && typeof schema.type !== 'object');
+}
+
+/**
+ * Convert a schema (field map or JSON Schema) to JSON Schema
+ */
+export function normalizeSchema(schema: Record<string, any>): Record<string, any> {
+  if (isJsonSchema(schema)) {
+    return schema;
+  }
+
+  const properties: Record<string, any> = {};
+  const required: string[] = [];
+
+  for (const [name, rawField] of Object.entries(schema)) {
+    const field = rawField || {};
+    const property: Record<string, any> = {};
+
+    const jsonType = FIELD_TYPES[field.type];
+    if (jsonType) {
+      property.type = jsonType;
+    } else if (field.type && JSON_TYPES.includes(field.type)) {
+      property.type = field.type;
+    }
+    if (Array.isArray(field.options) && field.options.length > 0) {
+      property.enum = field.options.map((option: any) =>
+        option !== null && typeof option === 'object' ? option.value : option
+      );
+    }
+    if (Array.isArray(field.enum)) property.enum = field.enum;
+    if (field.min !== undefined) property.minimum = field.min;
+    if (field.max !== undefined) property.maximum = field.max;
+    for (const keyword of ['minimum', 'maximum', 'minLength', 'maxLength', 'pattern']) {
+      if (field[keyword] !== undefined) property[keyword] = field[keyword];
+    }
+    if (field.required === true) {
+      required.push(name);
+    }
+
+    properties[name] = property;
+  }
+
+  return { type: 'object', properties, required };
+}
+
+function typeOf(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: any, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function joinPath(base: string, key: string | number): string {
+  if (typeof key === 'number') return `${base}[${key}]`;
+  return base ? `${base}.${key}` : key;
+}
+
+function validateNode(
+  value: any,
+  schema: Record<string, any>,
+  path: string,
+  issues: ValidationIssue[],
+  options: SchemaValidationOptions,
+  root: boolean
+): void {
+  if (!schema || typeof schema !== 'object') {
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      issues.push({ path, keyword: 'type', message: `must be ${types.join(' or ')} (got ${typeOf(value)})` });
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    issues.push({ path, keyword: 'const', message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((allowed: any) => allowed === value)) {
+    issues.push({ path, keyword: 'enum', message: `must be one of ${schema.enum.map((v: any) => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, keyword: 'minimum', message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, keyword: 'maximum', message: `must be <= ${schema.maximum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      issues.push({ path, keyword: 'exclusiveMinimum', message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      issues.push({ path, keyword: 'exclusiveMaximum', message: `must be < ${schema.exclusiveMaximum}` });
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ path, keyword: 'minLength', message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ path, keyword: 'maxLength', message: `must be at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, keyword: 'pattern', message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, keyword: 'minItems', message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, keyword: 'maxItems', message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items && typeof schema.items === 'object') {
+      value.forEach((item, index) => validateNode(item, schema.items, joinPath(path, index), issues, options, false));
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const properties: Record<string, any> = schema.properties || {};
+
+    if (Array.isArray(schema.required) && !(root && options.partial)) {
+      for (const name of schema.required) {
+        if (value[name] === undefined || value[name] === null || value[name] === '') {
+          issues.push({ path: joinPath(path, name), keyword: 'required', message: 'is required' });
+        }
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) {
+        continue;
+      }
+      if (properties[name]) {
+        validateNode(propertyValue, properties[name], joinPath(path, name), issues, options, false);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: joinPath(path, name), keyword: 'additionalProperties', message: 'is not allowed' });
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties, joinPath(path, name), issues, options, false);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a value against a schema (field map or JSON Schema)
+ *
+ * @param value Context or payload to validate
+ * @param schema contextSchema / payloadSchema
+ * @param options Validation options
+ * @returns List of issues (empty when valid)
+ */
+export function validateAgainstSchema(
+  value: any,
+  schema: Record<string, any>,
+  options: SchemaValidationOptions = {}
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  validateNode(value ?? {}, normalizeSchema(schema), '', issues, options, true);
+  return issues;
+}
+
+/**
+ * Check a schema definition itself (used by `xcomponent-ai validate` and when
+ * a runtime is created)
+ *
+ * @param schema contextSchema / payloadSchema
+ * @returns List of problems (empty when the schema is usable)
+ */
+export function checkSchemaDefinition(schema: any): string[] {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return ['schema must be an object'];
+  }
+
+  const problems: string[] = [];
+
+  const checkNode = (node: any, path: string): void => {
+    if (!node || typeof node !== 'object') {
+      problems.push(`${path}: must be an object`);
+      return;
+    }
+    Object.keys(node).filter(keyword => !JSON_SCHEMA_KEYWORDS.includes(keyword))
+      .forEach(keyword => problems.push(`${path}: unsupported keyword "${keyword}"`));
+    const types = node.type === undefined ? [] : (Array.isArray(node.type) ? node.type : [node.type]);
+    types.filter((type: any) => !JSON_TYPES.includes(type))
+      .forEach((type: any) => problems.push(`${path}: unknown type "${type}"`));
+    if (node.pattern !== undefined) {
+      try {
+        new RegExp(node.pattern);
+      } catch {
+        problems.push(`${path}: invalid pattern "${node.pattern}"`);
+      }
+    }
+    if (node.minimum !== undefined && node.maximum !== undefined && node.minimum > node.maximum) {
+      problems.push(`${path}: minimum is greater than maximum`);
+    }
+    if (node.required !== undefined && !Array.isArray(node.required)) {
+      problems.push(`${path}: required must be an array of property names`);
+    }
+    for (const [name, child] of Object.entries(node.properties || {})) {
+      checkNode(child, path ? `${path}.${name}` : name);
+    }
+    if (Array.isArray(node.items)) {
+      problems.push(`${path}: items must be a single schema (tuple items are not supported)`);
+    } else if (node.items && typeof node.items === 'object') {
+      checkNode(node.items, `${path}[]`);
+    }
+    if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+      checkNode(node.additionalProperties, `${path}{}`);
+    }
+  };
+
+  if (isJsonSchema(schema)) {
+    checkNode(schema, '');
+    return problems.map(problem => problem.replace(/^: /, ''));
+  }
+
+  for (const [name, field] of Object.entries<any>(schema)) {
+    if (!field || typeof field !== 'object') {
+      problems.push(`${name}: field definition must be an object`);
+      continue;
+    }
+    Object.keys(field).filter(keyword => !FIELD_KEYWORDS.includes(keyword))
+      .forEach(keyword => problems.push(`${name}: unsupported keyword "${keyword}"`));
+    if (field.type !== undefined && !(field.type in FIELD_TYPES) && !JSON_TYPES.includes(field.type)) {
+      problems.push(`${name}: unknown type "${field.type}"`);
+    }
+    if (field.type === 'select' && (!Array.isArray(field.options) || field.options.length === 0)) {
+      problems.push(`${name}: select field must define options`);
+    }
+  }
+  checkNode(normalizeSchema(schema), '');
+  return problems.map(problem => problem.replace(/^: /, ''));
+}
@@ -0,0 +1,332 @@
+/**
+ * Instance Sharding
+ *
+ * Spreads the instances of a component across its replicas. Each instance
+ * hashes into one of a fixed number of shards (by ID, or by a context
+ * property such as a correlation ID), and each shard is owned by one live
+ * replica, chosen by rendezvous (highest random weight) hashing: when a
+ * replica joins or leaves, only the shards it gains or loses move.
+ *
+ * Replicas learn about each other from the ownership announcements carried by
+ * RuntimeBroadcaster heartbeats, and ComponentRegistry hands instances over on
+ * rebalance through the shared event and snapshot stores.
+ */
+
+import { EventEmitter } from 'events';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { CrossComponentMessage } from './message-broker';
+import { FSMInstance, ShardingConfig } from './types';
+
+/**
+ * Shards of a component that does not set `shards`
+ */
+export const DEFAULT_SHARD_COUNT = 64;
+
+/**
+ * Time after which a replica that stopped announcing its shards is considered gone
+ * (three times the default RuntimeBroadcaster heartbeat interval)
+ */
+export const DEFAULT_MEMBER_TIMEOUT_MS = 90000;
+
+/**
+ * Shard ownership of a replica, as announced in its heartbeats
+ */
+export interface ShardAnnouncement {
+  componentName: string;
+  replicaId: string;
+  shardCount: number;
+  ownedShards: number[];
+}
+
+/**
+ * Shards gained and lost by a replica when the replicas changed
+ */
+export interface ShardRebalance {
+  componentName: string;
+  replicaId: string;
+  /** Live replicas, sorted */
+  members: string[];
+  gained: number[];
+  lost: number[];
+}
+
+function hash32(value: string): number {
+  return createHash('sha1').update(value).digest().readUInt32BE(0);
+}
+
+/**
+ * Shard of a key
+ */
+export function shardOf(key: string, shardCount: number = DEFAULT_SHARD_COUNT): number {
+  return hash32(key) % shardCount;
+}
+
+/**
+ * Key an instance is sharded by: its `key` property when set, otherwise its ID
+ *
+ * @param context Context (or public member) of the instance
+ */
+export function shardKey(config: ShardingConfig, context: Record<string, any> | undefined, instanceId: string): string {
+  if (config.key) {
+    const value = config.key.split('.').reduce((current, prop) => current?.[prop], context as any);
+    if (value !== undefined && value !== null) {
+      return String(value);
+    }
+  }
+  return instanceId;
+}
+
+/**
+ * Key deciding which replica creates the instance of a creation message
+ *
+ * With no instance ID chosen by the sender, every replica derives the same key
+ * from the message itself.
+ */
+export function creationKey(message: CrossComponentMessage): string {
+  return message.createInstanceId ?? JSON.stringify(message);
+}
+
+/**
+ * Shard a message goes to, when it can be told without the target instances
+ *
+ * Known for creations, instance IDs (sharding by ID) and `===` filters on the key property.
+ */
+export function messageShard(message: CrossComponentMessage, config: ShardingConfig): number | undefined {
+  const shardCount = config.shards ?? DEFAULT_SHARD_COUNT;
+  if (message.createContext) {
+    return shardOf(shardKey(config, message.createContext, creationKey(message)), shardCount);
+  }
+  if (message.targetInstanceId) {
+    return config.key ? undefined : shardOf(message.targetInstanceId, shardCount);
+  }
+  const filter = config.key && message.filters?.find(f => f.property === config.key && (f.operator || '===') === '===');
+  return filter ? shardOf(String(filter.value), shardCount) : undefined;
+}
+
+/**
+ * Owner of every shard among the given replicas (index: shard)
+ */
+export function assignShards(replicaIds: string[], shardCount: number = DEFAULT_SHARD_COUNT): string[] {
+  const owners: string[] = [];
+  for (let shard = 0; shard < shardCount; shard++) {
+    let owner = '';
+    let best = -1;
+    for (const replicaId of replicaIds) {
+      const weight = hash32(`${shard}:${replicaId}`);
+      if (weight > best || (weight === best && replicaId < owner)) {
+        owner = replicaId;
+        best = weight;
+      }
+    }
+    owners.push(owner);
+  }
+  return owners;
+}
+
+/**
+ * Shard ownership of one replica of a component
+ *
+ * Starts alone (owning every shard), then tracks the other replicas from
+ * their announcements and emits 'rebalance' (ShardRebalance) whenever the
+ * shards this replica owns change.
+ *
+ * Example:
+ * ```typescript
+ * const shards = new ShardCoordinator('OrderComponent', { shards: 32, key: 'orderId' });
+ * shards.on('rebalance', ({ gained, lost }) => console.log(gained, lost));
+ * shards.observe(announcementFromAnotherReplica);
+ * shards.owns(instance);
+ * ```
+ */
+export class ShardCoordinator extends EventEmitter {
+  private componentName: string;
+  private config: ShardingConfig;
+  private shardCount: number;
+  private replicaId: string;
+  private memberTimeoutMs: number;
+  // Other replicas, with the time they were last heard of
+  private members: Map<string, number> = new Map();
+  private owners: string[];
+
+  /**
+   * @param options.replicaId ID of this replica (default: a new UUID)
+   * @param options.memberTimeoutMs Silence after which a replica is dropped (default: DEFAULT_MEMBER_TIMEOUT_MS)
+   */
+  constructor(
+    componentName: string,
+    config: ShardingConfig = {},
+    options: { replicaId?: string; memberTimeoutMs?: number } = {}
+  ) {
+    super();
+    this.componentName = componentName;
+    this.config = config;
+    this.shardCount = config.shards ?? DEFAULT_SHARD_COUNT;
+    if (!Number.isInteger(this.shardCount) || this.shardCount < 1) {
+      throw new Error(`Invalid shard count for component ${componentName}: ${config.shards}`);
+    }
+    this.replicaId = options.replicaId || uuidv4();
+    this.memberTimeoutMs = options.memberTimeoutMs ?? DEFAULT_MEMBER_TIMEOUT_MS;
+    this.owners = assignShards([this.replicaId], this.shardCount);
+  }
+
+  getComponentName(): string {
+    return this.componentName;
+  }
+
+  getReplicaId(): string {
+    return this.replicaId;
+  }
+
+  getShardCount(): number {
+    return this.shardCount;
+  }
+
+  /**
+   * Live replicas, this one included (sorted)
+   */
+  getMembers(): string[] {
+    return [this.replicaId, ...this.members.keys()].sort();
+  }
+
+  /**
+   * Shard of an instance
+   */
+  shardOfInstance(instance: FSMInstance): number {
+    return this.shardOfContext(instance.publicMember ?? instance.context, instance.id);
+  }
+
+  /**
+   * Shard of the instance with this context and ID
+   */
+  shardOfContext(context: Record<string, any> | undefined, instanceId: string): number {
+    return shardOf(shardKey(this.config, context, instanceId), this.shardCount);
+  }
+
+  /**
+   * Shard a message goes to, when it can be told without the target instances
+   */
+  shardOfMessage(message: CrossComponentMessage): number | undefined {
+    return messageShard(message, { ...this.config, shards: this.shardCount });
+  }
+
+  ownerOf(shard: number): string {
+    return this.owners[shard];
+  }
+
+  ownsShard(shard: number): boolean {
+    return this.owners[shard] === this.replicaId;
+  }
+
+  /**
+   * Whether this replica owns the shard of an instance
+   */
+  owns(instance: FSMInstance): boolean {
+    return this.ownsShard(this.shardOfInstance(instance));
+  }
+
+  getOwnedShards(): number[] {
+    const shards: number[] = [];
+    this.owners.forEach((owner, shard) => {
+      if (owner === this.replicaId) shards.push(shard);
+    });
+    return shards;
+  }
+
+  /**
+   * ID for an instance created here with this context, in a shard this replica owns when the ID decides it
+   */
+  newInstanceId(context: Record<string, any> | undefined): string {
+    let instanceId = uuidv4();
+    // The key property of the context decides: any ID will do
+    if (shardKey(this.config, context, instanceId) !== instanceId) {
+      return instanceId;
+    }
+    for (let attempt = 1; attempt < this.shardCount * 4 && !this.ownsShard(this.shardOfContext(context, instanceId)); attempt++) {
+      instanceId = uuidv4();
+    }
+    return instanceId;
+  }
+
+  /**
+   * Announcement of the shards this replica owns
+   */
+  getAnnouncement(): ShardAnnouncement {
+    return {
+      componentName: this.componentName,
+      replicaId: this.replicaId,
+      shardCount: this.shardCount,
+      ownedShards: this.getOwnedShards(),
+    };
+  }
+
+  /**
+   * Take the announcement of another replica into account
+   *
+   * Announcements of other components, of this replica, and with another
+   * shard count (misconfigured replica) are ignored.
+   *
+   * @returns true when the replica was not known yet
+   */
+  observe(announcement: ShardAnnouncement, at: number = Date.now()): boolean {
+    if (announcement.componentName !== this.componentName || announcement.replicaId === this.replicaId) {
+      return false;
+    }
+    if (announcement.shardCount !== this.shardCount) {
+      console.warn(
+        `[ShardCoordinator] Ignoring replica ${announcement.replicaId} of ${this.componentName}: ` +
+        `${announcement.shardCount} shards instead of ${this.shardCount}`
+      );
+      return false;
+    }
+    const joined = !this.members.has(announcement.replicaId);
+    this.members.set(announcement.replicaId, at);
+    if (joined) {
+      this.rebalance();
+    }
+    return joined;
+  }
+
+  /**
+   * Drop a replica that shut down
+   */
+  leave(replicaId: string): void {
+    if (this.members.delete(replicaId)) {
+      this.rebalance();
+    }
+  }
+
+  /**
+   * Drop the replicas not heard of within the member timeout
+   */
+  expireMembers(now: number = Date.now()): void {
+    let expired = false;
+    for (const [replicaId, lastSeen] of this.members) {
+      if (now - lastSeen > this.memberTimeoutMs) {
+        this.members.delete(replicaId);
+        expired = true;
+      }
+    }
+    if (expired) {
+      this.rebalance();
+    }
+  }
+
+  private rebalance(): void {
+    const before = new Set(this.getOwnedShards());
+    this.owners = assignShards(this.getMembers(), this.shardCount);
+    const after = this.getOwnedShards();
+    const gained = after.filter(shard => !before.has(shard));
+    const lost = Array.from(before).filter(shard => !this.ownsShard(shard));
+    if (gained.length > 0 || lost.length > 0) {
+      const rebalance: ShardRebalance = {
+        componentName: this.componentName,
+        replicaId: this.replicaId,
+        members: this.getMembers(),
+        gained,
+        lost,
+      };
+      this.emit('rebalance', rebalance);
+    }
+  }
+}
@@ -0,0 +1,468 @@
+/**
+ * SQLite Persistence Stores
+ *
+ * File-backed event store and snapshot store using SQLite (better-sqlite3).
+ * Needs no database server: suited to development, CI pipelines and
+ * single-node deployments that must survive a restart.
+ */
+
+import { EventStore, SnapshotStore, PersistedEvent, InstanceSnapshot } from './types';
+import { ConcurrencyConflictError } from './persistence';
+
+/**
+ * SQLite configuration
+ */
+export interface SqliteConfig {
+  /** Database file, created if missing (":memory:" for a throwaway database) */
+  filename: string;
+}
+
+/**
+ * Open a SQLite database (better-sqlite3 is loaded on demand, like pg)
+ */
+async function openDatabase(config: SqliteConfig): Promise<any> {
+  try {
+    const sqlite = await import('better-sqlite3' as any);
+    const Database = sqlite.default || sqlite;
+
+    const db = new Database(config.filename);
+    // Readers (dashboard, second store) do not block the writer
+    db.pragma('journal_mode = WAL');
+    return db;
+  } catch (error) {
+    throw new Error(
+      `Failed to open SQLite database ${config.filename}. ` +
+      'Make sure the "better-sqlite3" package is installed (npm install better-sqlite3). ' +
+      `Error: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * SQLite Event Store
+ *
+ * Schema:
+ * ```sql
+ * CREATE TABLE fsm_events (
+ *   id TEXT PRIMARY KEY,
+ *   instance_id TEXT NOT NULL,
+ *   machine_name TEXT NOT NULL,
+ *   component_name TEXT,
+ *   event_type TEXT NOT NULL,
+ *   event TEXT NOT NULL,            -- FSMEvent JSON (payload, idempotencyKey, ...)
+ *   from_state TEXT,
+ *   to_state TEXT,
+ *   public_member_snapshot TEXT,
+ *   source_component_name TEXT,
+ *   target_component_name TEXT,
+ *   causation_id TEXT,
+ *   caused_by TEXT,
+ *   caused TEXT DEFAULT '[]',
+ *   version INTEGER,
+ *   persisted_at INTEGER NOT NULL,
+ *   UNIQUE (instance_id, version)
+ * );
+ * ```
+ *
+ * Instance streams are read in version order (events without a version, written
+ * before versions were stamped, first), as persisted_at comes from the clock of
+ * each writer.
+ */
+export class SqliteEventStore implements EventStore {
+  private db: any;
+  private config: SqliteConfig;
+  private initialized = false;
+
+  constructor(config: SqliteConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Open the database file and create tables if needed
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    this.db = await openDatabase(this.config);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS fsm_events (
+        id TEXT PRIMARY KEY,
+        instance_id TEXT NOT NULL,
+        machine_name TEXT NOT NULL,
+        component_name TEXT,
+        event_type TEXT NOT NULL,
+        event TEXT NOT NULL,
+        from_state TEXT,
+        to_state TEXT,
+        public_member_snapshot TEXT,
+        source_component_name TEXT,
+        target_component_name TEXT,
+        causation_id TEXT,
+        caused_by TEXT,
+        caused TEXT DEFAULT '[]',
+        version INTEGER,
+        persisted_at INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_fsm_events_instance_id ON fsm_events(instance_id);
+      CREATE INDEX IF NOT EXISTS idx_fsm_events_persisted_at ON fsm_events(persisted_at);
+      CREATE INDEX IF NOT EXISTS idx_fsm_events_causation_id ON fsm_events(causation_id);
+      CREATE INDEX IF NOT EXISTS idx_fsm_events_machine_name ON fsm_events(machine_name);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_fsm_events_instance_version
+        ON fsm_events(instance_id, version) WHERE version IS NOT NULL;
+    `);
+    this.initialized = true;
+
+    console.log(`[SqliteEventStore] Opened ${this.config.filename}`);
+  }
+
+  async append(event: PersistedEvent, expectedVersion?: number): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const version = expectedVersion !== undefined ? expectedVersion + 1 : event.version;
+    const currentVersion = this.db.prepare(
+      `SELECT MAX(version) AS version FROM fsm_events WHERE instance_id = ?`
+    );
+
+    // Version check and insert in one transaction (SQLite has a single writer)
+    const appendChecked = this.db.transaction(() => {
+      if (expectedVersion !== undefined) {
+        const actualVersion = currentVersion.get(event.instanceId)?.version ?? 0;
+        if (actualVersion !== expectedVersion) {
+          throw new ConcurrencyConflictError(event.instanceId, expectedVersion, actualVersion);
+        }
+      }
+
+      this.insert(event, version);
+    });
+
+    appendChecked();
+  }
+
+  private insert(event: PersistedEvent, version: number | undefined): void {
+    this.db.prepare(`
+      INSERT INTO fsm_events (
+        id, instance_id, machine_name, component_name, event_type, event,
+        from_state, to_state, public_member_snapshot,
+        source_component_name, target_component_name,
+        causation_id, caused_by, caused, version, persisted_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      event.id,
+      event.instanceId,
+      event.machineName,
+      event.componentName || null,
+      event.event.type,
+      JSON.stringify(event.event),
+      event.stateBefore,
+      event.stateAfter,
+      event.publicMemberSnapshot ? JSON.stringify(event.publicMemberSnapshot) : null,
+      event.sourceComponentName || null,
+      event.targetComponentName || null,
+      event.causedBy?.[0] || null,
+      event.causedBy ? JSON.stringify(event.causedBy) : null,
+      JSON.stringify(event.caused || []),
+      version ?? null,
+      event.persistedAt
+    );
+  }
+
+  async getEventsForInstance(instanceId: string): Promise<PersistedEvent[]> {
+    if (!this.initialized) await this.initialize();
+
+    const rows = this.db.prepare(`
+      SELECT * FROM fsm_events
+      WHERE instance_id = ?
+      ORDER BY version ASC NULLS FIRST, persisted_at ASC, rowid ASC
+    `).all(instanceId);
+    return rows.map((row: any) => this.rowToEvent(row));
+  }
+
+  async getEventsByTimeRange(startTime: number, endTime: number): Promise<PersistedEvent[]> {
+    if (!this.initialized) await this.initialize();
+
+    const rows = this.db.prepare(`
+      SELECT * FROM fsm_events
+      WHERE persisted_at >= ? AND persisted_at <= ?
+      ORDER BY persisted_at ASC, version ASC, rowid ASC
+    `).all(startTime, endTime);
+    return rows.map((row: any) => this.rowToEvent(row));
+  }
+
+  async getCausedEvents(eventId: string): Promise<PersistedEvent[]> {
+    if (!this.initialized) await this.initialize();
+
+    const rows = this.db.prepare(`
+      SELECT * FROM fsm_events
+      WHERE causation_id = ?
+      ORDER BY persisted_at ASC, version ASC, rowid ASC
+    `).all(eventId);
+    return rows.map((row: any) => this.rowToEvent(row));
+  }
+
+  async appendCausalLink(parentId: string, childId: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    this.db.prepare(`
+      UPDATE fsm_events
+      SET caused = json_insert(COALESCE(caused, '[]'), '$[#]', ?)
+      WHERE id = ? AND NOT EXISTS (SELECT 1 FROM json_each(COALESCE(caused, '[]')) WHERE value = ?)
+    `).run(childId, parentId, childId);
+  }
+
+  async getAllEvents(): Promise<PersistedEvent[]> {
+    if (!this.initialized) await this.initialize();
+
+    const rows = this.db.prepare(`SELECT * FROM fsm_events ORDER BY persisted_at ASC, version ASC, rowid ASC`).all();
+    return rows.map((row: any) => this.rowToEvent(row));
+  }
+
+  async getEventsPage(offset: number, limit: number): Promise<PersistedEvent[]> {
+    if (!this.initialized) await this.initialize();
+
+    const rows = this.db.prepare(`
+      SELECT * FROM fsm_events
+      ORDER BY persisted_at ASC, version ASC, rowid ASC
+      LIMIT ? OFFSET ?
+    `).all(limit, offset);
+    return rows.map((row: any) => this.rowToEvent(row));
+  }
+
+  async getInstanceIds(): Promise<string[]> {
+    if (!this.initialized) await this.initialize();
+
+    const rows = this.db.prepare(`SELECT DISTINCT instance_id FROM fsm_events`).all();
+    return rows.map((row: any) => row.instance_id);
+  }
+
+  async compact(instanceId: string, removedEventIds: string[], summary: PersistedEvent): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const remove = this.db.prepare(`DELETE FROM fsm_events WHERE instance_id = ? AND id = ?`);
+    const replace = this.db.transaction(() => {
+      for (const id of removedEventIds) {
+        remove.run(instanceId, id);
+      }
+      // After the deletes: the summary reuses the version of the last removed event
+      this.insert(summary, summary.version);
+    });
+    replace();
+  }
+
+  async traceEvent(eventId: string): Promise<PersistedEvent[]> {
+    if (!this.initialized) await this.initialize();
+
+    // Use recursive CTE to trace causality chain
+    const rows = this.db.prepare(`
+      WITH RECURSIVE event_trace AS (
+        SELECT * FROM fsm_events WHERE id = ?
+        UNION
+        SELECT e.* FROM fsm_events e
+        INNER JOIN event_trace et ON e.causation_id = et.id
+      )
+      SELECT * FROM event_trace ORDER BY persisted_at ASC, version ASC
+    `).all(eventId);
+    return rows.map((row: any) => this.rowToEvent(row));
+  }
+
+  private rowToEvent(row: any): PersistedEvent {
+    return {
+      id: row.id,
+      instanceId: row.instance_id,
+      machineName: row.machine_name,
+      componentName: row.component_name || '',
+      event: JSON.parse(row.event),
+      stateBefore: row.from_state,
+      stateAfter: row.to_state,
+      publicMemberSnapshot: row.public_member_snapshot ? JSON.parse(row.public_member_snapshot) : undefined,
+      sourceComponentName: row.source_component_name || undefined,
+      targetComponentName: row.target_component_name || undefined,
+      causedBy: row.caused_by ? JSON.parse(row.caused_by) : undefined,
+      caused: row.caused ? JSON.parse(row.caused) : [],
+      persistedAt: row.persisted_at,
+      version: row.version ?? undefined
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      this.initialized = false;
+    }
+  }
+}
+
+/**
+ * SQLite Snapshot Store
+ *
+ * Keeps the whole instance as JSON (lossless restore) next to the columns
+ * used for lookups.
+ *
+ * Schema:
+ * ```sql
+ * CREATE TABLE fsm_snapshots (
+ *   instance_id TEXT PRIMARY KEY,
+ *   machine_name TEXT NOT NULL,
+ *   current_state TEXT NOT NULL,
+ *   context TEXT,                   -- publicMember (or context) JSON, for search
+ *   instance TEXT NOT NULL,         -- FSMInstance JSON
+ *   last_event_id TEXT,
+ *   version INTEGER,
+ *   pending_timeouts TEXT DEFAULT '[]',
+ *   snapshot_at INTEGER NOT NULL,
+ *   created_at INTEGER,
+ *   updated_at INTEGER
+ * );
+ * ```
+ */
+export class SqliteSnapshotStore implements SnapshotStore {
+  private db: any;
+  private config: SqliteConfig;
+  private initialized = false;
+
+  constructor(config: SqliteConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Open the database file and create tables if needed
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    this.db = await openDatabase(this.config);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS fsm_snapshots (
+        instance_id TEXT PRIMARY KEY,
+        machine_name TEXT NOT NULL,
+        current_state TEXT NOT NULL,
+        context TEXT,
+        instance TEXT NOT NULL,
+        last_event_id TEXT,
+        version INTEGER,
+        pending_timeouts TEXT DEFAULT '[]',
+        snapshot_at INTEGER NOT NULL,
+        created_at INTEGER,
+        updated_at INTEGER
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_fsm_snapshots_machine_name ON fsm_snapshots(machine_name);
+      CREATE INDEX IF NOT EXISTS idx_fsm_snapshots_current_state ON fsm_snapshots(current_state);
+    `);
+    this.initialized = true;
+
+    console.log(`[SqliteSnapshotStore] Opened ${this.config.filename}`);
+  }
+
+  async saveSnapshot(snapshot: InstanceSnapshot): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    const { instance } = snapshot;
+    this.db.prepare(`
+      INSERT INTO fsm_snapshots (
+        instance_id, machine_name, current_state, context, instance,
+        last_event_id, version, pending_timeouts, snapshot_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (instance_id) DO UPDATE SET
+        current_state = excluded.current_state,
+        context = excluded.context,
+        instance = excluded.instance,
+        last_event_id = excluded.last_event_id,
+        version = excluded.version,
+        pending_timeouts = excluded.pending_timeouts,
+        snapshot_at = excluded.snapshot_at,
+        updated_at = excluded.updated_at
+    `).run(
+      instance.id,
+      instance.machineName,
+      instance.currentState,
+      JSON.stringify(instance.publicMember || instance.context || {}),
+      JSON.stringify(instance),
+      snapshot.lastEventId || null,
+      snapshot.version ?? null,
+      JSON.stringify(snapshot.pendingTimeouts || []),
+      snapshot.snapshotAt,
+      instance.createdAt,
+      instance.updatedAt
+    );
+  }
+
+  async getSnapshot(instanceId: string): Promise<InstanceSnapshot | null> {
+    if (!this.initialized) await this.initialize();
+
+    const row = this.db.prepare(`SELECT * FROM fsm_snapshots WHERE instance_id = ?`).get(instanceId);
+    return row ? this.rowToSnapshot(row) : null;
+  }
+
+  async getAllSnapshots(): Promise<InstanceSnapshot[]> {
+    if (!this.initialized) await this.initialize();
+
+    const rows = this.db.prepare(`SELECT * FROM fsm_snapshots ORDER BY updated_at DESC`).all();
+    return rows.map((row: any) => this.rowToSnapshot(row));
+  }
+
+  async deleteSnapshot(instanceId: string): Promise<void> {
+    if (!this.initialized) await this.initialize();
+
+    this.db.prepare(`DELETE FROM fsm_snapshots WHERE instance_id = ?`).run(instanceId);
+  }
+
+  /**
+   * Get snapshots by machine name
+   */
+  async getSnapshotsByMachine(machineName: string): Promise<InstanceSnapshot[]> {
+    if (!this.initialized) await this.initialize();
+
+    const rows = this.db.prepare(
+      `SELECT * FROM fsm_snapshots WHERE machine_name = ? ORDER BY updated_at DESC`
+    ).all(machineName);
+    return rows.map((row: any) => this.rowToSnapshot(row));
+  }
+
+  /**
+   * Get snapshots by current state
+   */
+  async getSnapshotsByState(stateName: string): Promise<InstanceSnapshot[]> {
+    if (!this.initialized) await this.initialize();
+
+    const rows = this.db.prepare(
+      `SELECT * FROM fsm_snapshots WHERE current_state = ? ORDER BY updated_at DESC`
+    ).all(stateName);
+    return rows.map((row: any) => this.rowToSnapshot(row));
+  }
+
+  private rowToSnapshot(row: any): InstanceSnapshot {
+    return {
+      instance: JSON.parse(row.instance),
+      snapshotAt: row.snapshot_at,
+      lastEventId: row.last_event_id || '',
+      version: row.version ?? undefined,
+      pendingTimeouts: row.pending_timeouts ? JSON.parse(row.pending_timeouts) : undefined,
+    };
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+      this.initialized = false;
+    }
+  }
+}
+
+/**
+ * Create both SQLite stores on the same database file
+ */
+export async function createSqliteStores(config: SqliteConfig): Promise<{
+  eventStore: SqliteEventStore;
+  snapshotStore: SqliteSnapshotStore;
+}> {
+  const eventStore = new SqliteEventStore(config);
+  const snapshotStore = new SqliteSnapshotStore(config);
+
+  await eventStore.initialize();
+  await snapshotStore.initialize();
+
+  return { eventStore, snapshotStore };
+}
@@ -0,0 +1,595 @@
+/**
+ * State Hierarchy
+ * Resolves composite (hierarchical) and parallel states of a state machine
+ *
+ * A composite state declares `substates` and an optional `initialSubstate`
+ * (default: first substate). State names are unique across the whole machine,
+ * so transitions can reference nested states directly.
+ *
+ * An instance is always in a leaf (atomic) state: `FSMInstance.currentState`
+ * is the active leaf, and its ancestors are active as well. Transitions and
+ * timeouts defined on a composite state apply to every state nested in it.
+ *
+ * A parallel state declares `regions`, each holding its own current state.
+ * While a parallel state is active, `FSMInstance.currentState` is the parallel
+ * state and `FSMInstance.regionStates` holds the active leaf of every region.
+ *
+ * A history pseudo-state (type `history` or `deep_history`) is a substate of a
+ * composite. When the composite is exited, its last active leaf is recorded in
+ * `FSMInstance.history`; targeting the pseudo-state re-enters the recorded
+ * direct substate (shallow) or leaf (deep), or the initial substate when the
+ * composite was never exited.
+ *
+ * @example
+ * states:
+ *   - name: Active
+ *     initialSubstate: Pending
+ *     substates:
+ *       - { name: Pending, type: regular }
+ *       - { name: Executed, type: regular }
+ *   - name: Cancelled
+ *     type: final
+ * transitions:
+ *   - { from: Active, to: Cancelled, event: CANCEL }   # applies to Pending and Executed
+ *
+ * @example
+ * states:
+ *   - name: Active
+ *     substates:
+ *       - { name: Pending, type: regular }
+ *       - { name: Executed, type: regular }
+ *       - { name: ActiveHistory, type: history }
+ *   - name: Suspended
+ * transitions:
+ *   - { from: Active, to: Suspended, event: SUSPEND }
+ *   - { from: Suspended, to: ActiveHistory, event: RESUME }   # back to Pending or Executed
+ *
+ * @example
+ * states:
+ *   - name: Fulfilment
+ *     type: parallel
+ *     regions:
+ *       - name: payment
+ *         states: [{ name: AwaitingPayment }, { name: Paid, type: final }]
+ *       - name: shipment
+ *         states: [{ name: Preparing }, { name: Shipped, type: final }]
+ * transitions:
+ *   - { from: Fulfilment, to: Completed, event: FULFILLED, type: join }
+ */
+
+import { Region, State, StateMachine, StateType, TransitionType } from './types';
+
+/**
+ * Active configuration of an instance (FSMInstance satisfies this interface)
+ */
+export interface StateConfiguration {
+  /** Active leaf state, or the active parallel state */
+  currentState: string;
+  /** Active leaf state of each region of the active parallel state */
+  regionStates?: Record<string, string>;
+  /** Last active leaf of each exited composite state that declares a history pseudo-state */
+  history?: Record<string, string>;
+}
+
+/**
+ * Effect of a transition on the active configuration
+ */
+export interface ConfigurationChange {
+  /** States exited, innermost first */
+  exited: string[];
+  /** States entered, outermost first */
+  entered: string[];
+  /** Configuration after the transition */
+  configuration: StateConfiguration;
+  /** Region the transition happened in (transitions inside a region only) */
+  region?: string;
+  /** State reported as previous state (the region leaf for transitions inside a region) */
+  stateBefore: string;
+  /** State reported as new state (the region leaf for transitions inside a region) */
+  stateAfter: string;
+}
+
+/**
+ * Hierarchy of a single state machine
+ */
+export class StateHierarchy {
+  private statesByName: Map<string, State> = new Map();
+  private parentByName: Map<string, string | undefined> = new Map();
+  private regionByName: Map<string, { parallel: string; region: string }> = new Map();
+
+  constructor(machine: StateMachine) {
+    const visit = (
+      states: State[],
+      parent: string | undefined,
+      region: { parallel: string; region: string } | undefined
+    ): void => {
+      for (const state of states) {
+        // First definition wins; duplicates are reported by `xcomponent-ai validate`
+        if (this.statesByName.has(state.name)) {
+          continue;
+        }
+        this.statesByName.set(state.name, state);
+        this.parentByName.set(state.name, parent);
+        if (region) {
+          this.regionByName.set(state.name, region);
+        }
+        if (state.substates && state.substates.length > 0) {
+          visit(state.substates, state.name, region);
+        }
+        for (const child of state.regions || []) {
+          visit(child.states || [], state.name, { parallel: state.name, region: child.name });
+        }
+      }
+    };
+    visit(machine.states || [], undefined, undefined);
+  }
+
+  /**
+   * Get a state definition (at any nesting level)
+   */
+  getState(name: string): State | undefined {
+    return this.statesByName.get(name);
+  }
+
+  /**
+   * Check whether a state exists (at any nesting level)
+   */
+  has(name: string): boolean {
+    return this.statesByName.has(name);
+  }
+
+  /**
+   * Get all state definitions, parents before children
+   */
+  getAllStates(): State[] {
+    return Array.from(this.statesByName.values());
+  }
+
+  /**
+   * Get the parent composite (or parallel) state name (undefined for top-level states)
+   */
+  getParent(name: string): string | undefined {
+    return this.parentByName.get(name);
+  }
+
+  /**
+   * Check whether a state has substates
+   */
+  isComposite(name: string): boolean {
+    const state = this.statesByName.get(name);
+    return !!state?.substates && state.substates.length > 0;
+  }
+
+  /**
+   * Check whether a state has regions
+   */
+  isParallel(name: string): boolean {
+    const state = this.statesByName.get(name);
+    return !!state?.regions && state.regions.length > 0;
+  }
+
+  /**
+   * Check whether a state is a history pseudo-state (shallow or deep)
+   */
+  isHistory(name: string): boolean {
+    return isHistoryState(this.statesByName.get(name));
+  }
+
+  /**
+   * Check whether a composite state declares a history pseudo-state
+   */
+  hasHistory(name: string): boolean {
+    return (this.statesByName.get(name)?.substates || []).some(isHistoryState);
+  }
+
+  /**
+   * Check whether the machine has any composite or parallel state
+   */
+  hasComposites(): boolean {
+    return this.getAllStates().some(state => this.isComposite(state.name) || this.isParallel(state.name));
+  }
+
+  /**
+   * Get the regions of a parallel state
+   */
+  getRegions(name: string): Region[] {
+    return this.statesByName.get(name)?.regions || [];
+  }
+
+  /**
+   * Get the parallel state and region a state belongs to (undefined outside regions)
+   */
+  getRegionOf(name: string): { parallel: string; region: string } | undefined {
+    return this.regionByName.get(name);
+  }
+
+  /**
+   * Get a state and its ancestors, innermost first
+   *
+   * @example hierarchy.getPath('Pending') // ['Pending', 'Active']
+   */
+  getPath(name: string): string[] {
+    const path: string[] = [];
+    let current: string | undefined = name;
+    while (current !== undefined && this.statesByName.has(current)) {
+      path.push(current);
+      current = this.parentByName.get(current);
+    }
+    return path;
+  }
+
+  /**
+   * Get a region state and its ancestors inside the region, innermost first
+   * (stops below the parallel state)
+   */
+  getRegionPath(name: string): string[] {
+    const region = this.regionByName.get(name);
+    const path = this.getPath(name);
+    return region ? path.slice(0, path.indexOf(region.parallel)) : path;
+  }
+
+  /**
+   * Check whether `ancestor` is `name` or one of its ancestors
+   */
+  isAncestorOrSelf(ancestor: string, name: string): boolean {
+    return this.getPath(name).includes(ancestor);
+  }
+
+  /**
+   * Resolve the leaf state entered when targeting a state
+   *
+   * Composite states are entered through their initialSubstate
+   * (default: first substate that is not a history pseudo-state),
+   * recursively. Parallel states resolve to themselves: their regions
+   * are entered separately.
+   */
+  resolveLeaf(name: string): string {
+    let current = name;
+    const visited = new Set<string>();
+    while (this.isComposite(current) && !visited.has(current)) {
+      visited.add(current);
+      current = this.getInitialSubstate(current)!;
+    }
+    return current;
+  }
+
+  /**
+   * Get the substate a composite state is entered through
+   * (initialSubstate, default: first substate that is not a history pseudo-state)
+   */
+  getInitialSubstate(name: string): string | undefined {
+    const substates = this.statesByName.get(name)?.substates || [];
+    if (substates.length === 0) {
+      return undefined;
+    }
+    return this.statesByName.get(name)!.initialSubstate || (substates.find(s => !isHistoryState(s)) || substates[0]).name;
+  }
+
+  /**
+   * Resolve the leaf state entered when a transition targets a state,
+   * following history pseudo-states
+   *
+   * @param target Transition target
+   * @param history Recorded history (see StateConfiguration.history)
+   */
+  resolveTarget(target: string, history?: Record<string, string>): string {
+    const composite = this.parentByName.get(target);
+    if (!this.isHistory(target) || composite === undefined) {
+      return this.resolveLeaf(target);
+    }
+
+    const recorded = history?.[composite];
+    if (!recorded || recorded === composite || !this.isAncestorOrSelf(composite, recorded)) {
+      // Never exited (or stale record): default entry of the composite
+      return this.resolveLeaf(composite);
+    }
+    if (this.statesByName.get(target)!.type === StateType.DEEP_HISTORY) {
+      return this.resolveLeaf(recorded);
+    }
+    const path = this.getPath(recorded);
+    return this.resolveLeaf(path[path.indexOf(composite) - 1]);
+  }
+
+  /**
+   * Compute the states exited and entered by a transition
+   *
+   * Transitions are external: the innermost state containing both the
+   * transition source and target (strictly) is kept, everything below it
+   * is exited (innermost first) and re-entered (outermost first). A
+   * self-transition on a composite state therefore exits and re-enters it.
+   *
+   * Regions are not taken into account; see applyTransition().
+   *
+   * @param activeLeaf Current leaf state of the instance
+   * @param source State the transition is declared on (`from`)
+   * @param target State the transition targets (`to`)
+   * @param history Recorded history, used when the target is a history pseudo-state
+   */
+  getTransitionPath(
+    activeLeaf: string,
+    source: string,
+    target: string,
+    history?: Record<string, string>
+  ): { exited: string[]; entered: string[]; targetLeaf: string } {
+    const targetLeaf = this.resolveTarget(target, history);
+    const domain = this.getDomain(source, target);
+
+    const exited: string[] = [];
+    for (const name of this.getPath(activeLeaf)) {
+      if (name === domain) break;
+      exited.push(name);
+    }
+
+    const entered: string[] = [];
+    for (const name of this.getPath(targetLeaf)) {
+      if (name === domain) break;
+      entered.unshift(name);
+    }
+
+    return { exited, entered, targetLeaf };
+  }
+
+  /**
+   * Innermost state that strictly contains both source and target
+   * (undefined when the transition crosses the top level)
+   */
+  getDomain(source: string, target: string): string | undefined {
+    const targetPath = this.getPath(target);
+    for (const candidate of this.getPath(source).slice(1)) {
+      if (targetPath.slice(1).includes(candidate)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Get all active states of a configuration
+   * (region paths first, then the current state and its ancestors)
+   */
+  getActiveStates(configuration: StateConfiguration): string[] {
+    const active: string[] = [];
+    for (const leaf of Object.values(configuration.regionStates || {})) {
+      active.push(...this.getRegionPath(leaf));
+    }
+    const path = this.getPath(configuration.currentState);
+    active.push(...(path.length > 0 ? path : [configuration.currentState]));
+    return active;
+  }
+
+  /**
+   * Compute the configuration an instance starts in
+   *
+   * @returns Initial configuration and the states entered, outermost first
+   */
+  getInitialConfiguration(initialState: string): { configuration: StateConfiguration; entered: string[] } {
+    const leaf = this.resolveLeaf(initialState);
+    const entered = this.getPath(leaf).reverse();
+    const configuration: StateConfiguration = { currentState: leaf };
+    this.enterRegions(configuration, leaf, entered);
+    return { configuration, entered };
+  }
+
+  /**
+   * Apply a transition to a configuration
+   *
+   * Leaving a parallel state exits every region (innermost first) before the
+   * parallel state itself; entering a parallel state enters every region at
+   * its initial state (or at the targeted substate).
+   *
+   * History of the exited composite states is recorded before the target is
+   * resolved, so a composite re-entered through its own history pseudo-state
+   * returns to the state it was just in.
+   *
+   * @param configuration Current configuration
+   * @param activeLeaf Leaf the transition was found from (a region leaf, or currentState)
+   * @param source State the transition is declared on (`from`)
+   * @param target State the transition targets (`to`)
+   * @throws Error when the transition crosses regions of the active parallel state
+   */
+  applyTransition(
+    configuration: StateConfiguration,
+    activeLeaf: string,
+    source: string,
+    target: string
+  ): ConfigurationChange {
+    const history = this.recordHistory(configuration, this.getTransitionPath(activeLeaf, source, target).exited);
+    const { exited, entered, targetLeaf } = this.getTransitionPath(activeLeaf, source, target, history);
+    const activeParallel = configuration.regionStates ? configuration.currentState : undefined;
+    const next: StateConfiguration = { currentState: targetLeaf };
+    if (history) {
+      next.history = history;
+    }
+    let region: string | undefined;
+
+    if (activeParallel && !exited.includes(activeParallel)) {
+      // Transition inside a region: the other regions are untouched
+      region = this.regionByName.get(targetLeaf)?.region;
+      if (!region || this.regionByName.get(activeLeaf)?.region !== region) {
+        throw new Error(`Transition ${source} -> ${target} crosses regions of parallel state ${activeParallel}`);
+      }
+      next.currentState = activeParallel;
+      next.regionStates = { ...configuration.regionStates, [region]: targetLeaf };
+    } else if (activeParallel) {
+      // Leaving the parallel state: exit the other regions first
+      const activeRegion = this.regionByName.get(activeLeaf)?.region;
+      const regionExits = this.getRegions(activeParallel)
+        .filter(r => r.name !== activeRegion && configuration.regionStates![r.name])
+        .flatMap(r => this.getRegionPath(configuration.regionStates![r.name]));
+      exited.splice(exited.indexOf(activeParallel), 0, ...regionExits);
+    }
+
+    if (!region) {
+      this.enterRegions(next, targetLeaf, entered);
+    }
+
+    return {
+      exited,
+      entered,
+      configuration: next,
+      region,
+      stateBefore: region ? activeLeaf : configuration.currentState,
+      stateAfter: region ? targetLeaf : next.currentState,
+    };
+  }
+
+  /**
+   * Record the last active leaf of exited composite states that declare a history pseudo-state
+   *
+   * Inside a parallel state the leaf of a region is recorded, so deep history
+   * re-enters that region's state and the other regions at their initial state.
+   *
+   * @returns Updated history (a new object when changed)
+   */
+  private recordHistory(configuration: StateConfiguration, exited: string[]): Record<string, string> | undefined {
+    let history = configuration.history;
+    const active = this.getActiveStates(configuration);
+    for (const name of exited) {
+      if (!this.hasHistory(name)) continue;
+      const leaf = active.find(state => state !== name && this.isAncestorOrSelf(name, state));
+      if (leaf) {
+        history = { ...history, [name]: leaf };
+      }
+    }
+    return history;
+  }
+
+  /**
+   * Enter the regions of a parallel state entered by a transition
+   * (updates the configuration and appends to the entered states)
+   */
+  private enterRegions(configuration: StateConfiguration, targetLeaf: string, entered: string[]): void {
+    const parallel = entered.find(name => this.isParallel(name));
+    if (!parallel) {
+      return;
+    }
+
+    const targetRegion = this.regionByName.get(targetLeaf);
+    configuration.currentState = parallel;
+    configuration.regionStates = {};
+    for (const region of this.getRegions(parallel)) {
+      if (targetRegion && targetRegion.parallel === parallel && targetRegion.region === region.name) {
+        // Targeted substate (already part of the entered states)
+        configuration.regionStates[region.name] = targetLeaf;
+        continue;
+      }
+      const initial = region.initialState || region.states?.[0]?.name;
+      if (!initial) {
+        continue;
+      }
+      const leaf = this.resolveLeaf(initial);
+      configuration.regionStates[region.name] = leaf;
+      entered.push(...this.getRegionPath(leaf).reverse());
+    }
+  }
+
+  /**
+   * Check whether every region of the active parallel state is in a final substate
+   */
+  isJoinReady(configuration: StateConfiguration): boolean {
+    if (!configuration.regionStates || !this.isParallel(configuration.currentState)) {
+      return false;
+    }
+    return this.getRegions(configuration.currentState).every(region => {
+      const leaf = configuration.regionStates![region.name];
+      return !!leaf && this.statesByName.get(leaf)?.type === StateType.FINAL;
+    });
+  }
+
+  /**
+   * Check the hierarchy for definition problems (used by `xcomponent-ai validate`)
+   *
+   * @returns List of problems (empty when valid)
+   */
+  static validate(machine: StateMachine): string[] {
+    const problems: string[] = [];
+    const seen = new Set<string>();
+    const seenNested = new Set<string>();
+
+    // Top-level duplicates are reported by the caller; only report clashes involving nested states
+    const visit = (states: State[], parent?: State, inRegion = false): void => {
+      for (const state of states) {
+        if (seen.has(state.name) && (parent || seenNested.has(state.name))) {
+          problems.push(`Duplicate state name "${state.name}" (state names must be unique across nesting levels)`);
+        }
+        seen.add(state.name);
+        if (parent) {
+          seenNested.add(state.name);
+        }
+
+        const substates = state.substates || [];
+        const regions = state.regions || [];
+        if (state.initialSubstate && !substates.some(s => s.name === state.initialSubstate)) {
+          problems.push(`State "${state.name}": initialSubstate "${state.initialSubstate}" is not one of its substates`);
+        }
+        if ((substates.length > 0 || regions.length > 0) && (state.type === 'final' || state.type === 'error')) {
+          problems.push(`State "${state.name}": composite states cannot be ${state.type}`);
+        }
+        if (state.type === StateType.PARALLEL && regions.length === 0) {
+          problems.push(`State "${state.name}": parallel state must define regions`);
+        }
+        if (regions.length > 0 && substates.length > 0) {
+          problems.push(`State "${state.name}": a state cannot have both substates and regions`);
+        }
+        if (regions.length > 0 && inRegion) {
+          problems.push(`State "${state.name}": parallel states cannot be nested in regions`);
+        }
+        if (isHistoryState(state) && (!parent || !(parent.substates || []).includes(state))) {
+          problems.push(`State "${state.name}": history states must be substates of a composite state`);
+        }
+        if (isHistoryState(state) && (substates.length > 0 || regions.length > 0)) {
+          problems.push(`State "${state.name}": history states cannot have substates or regions`);
+        }
+        if (state.initialSubstate && substates.some(s => s.name === state.initialSubstate && isHistoryState(s))) {
+          problems.push(`State "${state.name}": initialSubstate cannot be a history state`);
+        }
+
+        const regionNames = new Set<string>();
+        for (const region of regions) {
+          if (regionNames.has(region.name)) {
+            problems.push(`State "${state.name}": duplicate region "${region.name}"`);
+          }
+          regionNames.add(region.name);
+          if (!region.states || region.states.length === 0) {
+            problems.push(`State "${state.name}": region "${region.name}" must have at least one state`);
+            continue;
+          }
+          if (region.initialState && !region.states.some(s => s.name === region.initialState)) {
+            problems.push(`State "${state.name}": region "${region.name}" initialState "${region.initialState}" is not one of its states`);
+          }
+          visit(region.states, state, true);
+        }
+
+        if (substates.length > 0) {
+          visit(substates, state, inRegion);
+        }
+      }
+    };
+    visit(machine.states || []);
+
+    // Transitions between regions and joins
+    const hierarchy = new StateHierarchy(machine);
+    (machine.transitions || []).forEach((transition, index) => {
+      const from = hierarchy.getRegionOf(transition.from);
+      const to = hierarchy.getRegionOf(transition.to);
+      if (from && to && from.parallel === to.parallel && from.region !== to.region) {
+        problems.push(`Transition #${index + 1}: ${transition.from} -> ${transition.to} crosses regions of parallel state "${from.parallel}"`);
+      }
+      if (transition.type === TransitionType.JOIN && !hierarchy.isParallel(transition.from)) {
+        problems.push(`Transition #${index + 1}: join transition must start from a parallel state`);
+      }
+      if (hierarchy.isHistory(transition.from)) {
+        problems.push(`Transition #${index + 1}: history state "${transition.from}" cannot have outgoing transitions`);
+      }
+    });
+
+    return problems;
+  }
+}
+
+/**
+ * Check whether a state definition is a history pseudo-state (shallow or deep)
+ */
+function isHistoryState(state: State | undefined): boolean {
+  return state?.type === StateType.HISTORY || state?.type === StateType.DEEP_HISTORY;
+}
@@ -31,6 +31,7 @@ export class TimerWheel {
   private taskMap: Map<string, TimeoutTask>; // taskId → task (for fast removal)
   private timer: NodeJS.Timeout | null;
   private running: boolean;
+  private lastTickAt: number; // Clock time the current tick stands for
 
   /**
    * Create a timer wheel
@@ -46,6 +47,7 @@ export class TimerWheel {
     this.taskMap = new Map();
     this.timer = null;
     this.running = false;
+    this.lastTickAt = 0;
 
     // Initialize wheel buckets
     for (let i = 0; i < wheelSize; i++) {
@@ -60,6 +62,7 @@ export class TimerWheel {
     if (this.running) return;
 
     this.running = true;
+    this.lastTickAt = Date.now() - this.tickMs;
     this.tick();
   }
 
@@ -156,11 +159,31 @@ export class TimerWheel {
 
   /**
    * Timer tick - process expired timeouts
+   *
+   * Ticks run late when the event loop is busy: the buckets of every tick
+   * elapsed since the last one are processed, so the wheel keeps up with the
+   * clock instead of drifting one delay per tick.
    */
   private tick(): void {
     if (!this.running) return;
 
     const now = Date.now();
+    const elapsedTicks = Math.max(1, Math.floor((now - this.lastTickAt) / this.tickMs));
+    for (let i = 0; i < Math.min(elapsedTicks, this.wheelSize); i++) {
+      this.processBucket(now);
+      // Move to next tick
+      this.currentTick = (this.currentTick + 1) % this.wheelSize;
+    }
+    this.lastTickAt += elapsedTicks * this.tickMs;
+
+    // Schedule next tick
+    this.timer = setTimeout(() => this.tick(), Math.max(0, this.lastTickAt + this.tickMs - Date.now()));
+  }
+
+  /**
+   * Run the expired tasks of the current bucket, and move the others to the bucket they expire in
+   */
+  private processBucket(now: number): void {
     const bucket = this.wheel.get(this.currentTick);
 
     if (bucket) {
@@ -186,12 +209,6 @@ export class TimerWheel {
         }
       }
     }
-
-    // Move to next tick
-    this.currentTick = (this.currentTick + 1) % this.wheelSize;
-
-    // Schedule next tick
-    this.timer = setTimeout(() => this.tick(), this.tickMs);
   }
 
   /**
@@ -3,6 +3,8 @@
  * Inspired by XComponent state machine architecture
  */
 
+import type { CrossComponentMessage } from './message-broker';
+
 /**
  * State types following XComponent conventions
  */
@@ -15,6 +17,12 @@ export enum StateType {
   FINAL = 'final',
   /** Error state (purple, implicit, disposes instance) */
   ERROR = 'error',
+  /** Parallel state (orthogonal regions, each with its own current state) */
+  PARALLEL = 'parallel',
+  /** Shallow history pseudo-state (re-enters the last active direct substate of its composite) */
+  HISTORY = 'history',
+  /** Deep history pseudo-state (re-enters the last active leaf state of its composite) */
+  DEEP_HISTORY = 'deep_history',
 }
 
 /**
@@ -35,6 +43,8 @@ export enum TransitionType {
   TRIGGERABLE = 'triggerable',
   /** Auto-transition (triggered automatically when entering state) */
   AUTO = 'auto',
+  /** Join (triggered automatically when all regions of a parallel state reach a final substate) */
+  JOIN = 'join',
 }
 
 /**
@@ -150,6 +160,122 @@ export interface Sender {
     machineName: string,
     initialContext: Record<string, any>
   ): string;
+
+  /**
+   * Send an event to instances of another component and wait for the state they reach
+   *
+   * Goes through the message broker, so the component may live in another
+   * process. Rejects with the error of the target, or with a RequestTimeoutError.
+   * Awaiting a request that leads back to the current instance waits until
+   * the timeout, since the current transition is still in progress.
+   *
+   * @example
+   * const reply = await sender.request('PaymentComponent', 'Payment', event, { instanceId: context.paymentId });
+   * context.paymentState = reply.instances[0].currentState;
+   */
+  request(
+    componentName: string,
+    machineName: string,
+    event: FSMEvent,
+    options?: RequestOptions
+  ): Promise<ComponentReply>;
+
+  /**
+   * Create an instance in another component and wait for its ID and state
+   * (unlike createInstanceInComponent, works when the component lives in another process)
+   */
+  requestInstance(
+    componentName: string,
+    machineName: string,
+    initialContext: Record<string, any>,
+    options?: Pick<RequestOptions, 'timeoutMs'>
+  ): Promise<RequestedInstance>;
+
+  /**
+   * Schedule an event to be sent to the current instance later
+   *
+   * Scheduled events are kept in the instance snapshot and still fire after
+   * a restart (immediately if their time passed while the runtime was down).
+   *
+   * @returns The scheduled event (its id cancels it)
+   *
+   * @example
+   * // Settlement reminder at T+2
+   * await sender.schedule(
+   *   { type: 'SETTLEMENT_DUE', payload: {}, timestamp: Date.now() },
+   *   { at: context.settlementDate }
+   * );
+   */
+  schedule(event: FSMEvent, options: ScheduleOptions): Promise<ScheduledEvent>;
+
+  /**
+   * Cancel an event scheduled for the current instance
+   *
+   * @returns false if it already fired or was cancelled
+   */
+  cancelScheduled(scheduleId: string): Promise<boolean>;
+}
+
+/**
+ * Targeting and timeout of a request to another component
+ */
+export interface RequestOptions {
+  /** Deliver the event to this instance only */
+  instanceId?: string;
+  /** Deliver the event to the instances in this state only */
+  currentState?: string;
+  /** Deliver the event to the instances matching all these filters only */
+  filters?: CrossComponentMessage['filters'];
+  /** Reject when no reply arrives within this many ms (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Instance that handled a request, with the state it reached
+ */
+export interface RequestedInstance {
+  instanceId: string;
+  machineName: string;
+  /** State before the event (absent for a created instance) */
+  previousState?: string;
+  currentState: string;
+  status: FSMInstance['status'];
+}
+
+/**
+ * Reply of a component to a request
+ */
+export interface ComponentReply {
+  componentName: string;
+  machineName: string;
+  /** Instances the event was delivered to (empty when none matched), or the created instance */
+  instances: RequestedInstance[];
+}
+
+/**
+ * When a scheduled event fires: at a point in time, or after a delay
+ */
+export interface ScheduleOptions {
+  /** Fire time (epoch ms, Date or ISO 8601 string) */
+  at?: number | Date | string;
+  /** Delay from now in milliseconds */
+  delayMs?: number;
+}
+
+/**
+ * Event scheduled for an instance
+ */
+export interface ScheduledEvent {
+  /** Schedule ID (also used as the fired event's eventId, for deduplication) */
+  id: string;
+  /** Target instance */
+  instanceId: string;
+  /** Event sent when the schedule fires */
+  event: FSMEvent;
+  /** Fire time (epoch ms) */
+  fireAt: number;
+  /** When the event was scheduled (epoch ms) */
+  scheduledAt: number;
 }
 
 /**
@@ -158,6 +284,51 @@ export interface Sender {
  */
 export type TriggeredMethod = (event: FSMEvent, context: any, sender: Sender) => Promise<void>;
 
+/**
+ * Outcome returned by a registered handler
+ */
+export interface HandlerResult {
+  /** Refuse the transition: the instance keeps its pre-transition state and context */
+  veto?: boolean;
+  /** Reason reported with the transition_vetoed event */
+  reason?: string;
+  /** Properties merged into the instance data (publicMember for XComponent machines) */
+  contextPatch?: Record<string, any>;
+}
+
+/**
+ * Information about the hook being executed, passed to registered handlers
+ */
+export interface HandlerInvocation {
+  instanceId: string;
+  machineName: string;
+  /** Hook that references the handler */
+  hook: 'onExit' | 'triggeredMethod' | 'onEntry';
+  /** Handler name as referenced in YAML */
+  method: string;
+  /** Transition source state */
+  from: string;
+  /** Transition target state */
+  to: string;
+}
+
+/**
+ * Handler registered with runtime.registerHandlers()
+ *
+ * Unlike emit-based hooks, registered handlers are awaited in order
+ * (onExit → triggeredMethod → onEntry) before the transition is committed.
+ * Returning { veto: true } or throwing rolls the instance back.
+ *
+ * Sender calls made from a handler are dispatched without waiting for the
+ * target transition to complete (the current transition is still in progress).
+ */
+export type RegisteredHandler = (
+  event: FSMEvent,
+  context: any,
+  sender: Sender,
+  invocation: HandlerInvocation
+) => void | HandlerResult | Promise<void | HandlerResult>;
+
 /**
  * Property matching rule for instance routing
  * Enables XComponent-style event routing: ExecutionInput.OrderId = Order.Id
@@ -220,15 +391,42 @@ export interface State {
   metadata?: Record<string, any>;
   /** Cascading rules triggered when entering this state */
   cascadingRules?: CascadingRule[];
+  /**
+   * Nested states (makes this a composite state).
+   * Transitions and timeouts declared on the composite apply to every nested state.
+   * State names must be unique across the whole machine.
+   * Targeting a substate of type history / deep_history re-enters the state the
+   * composite was in when it was last exited (its initial substate if never exited).
+   */
+  substates?: State[];
+  /** Substate entered when a transition targets this composite state (default: first substate) */
+  initialSubstate?: string;
+  /**
+   * Orthogonal regions (makes this a parallel state, type: parallel).
+   * Every region is entered with the parallel state and holds its own current state.
+   */
+  regions?: Region[];
+}
+
+/**
+ * Region of a parallel state
+ */
+export interface Region {
+  /** Region name (unique within the parallel state) */
+  name: string;
+  /** State entered with the parallel state (default: first state) */
+  initialState?: string;
+  /** States of the region (may be composite; parallel states cannot be nested) */
+  states: State[];
 }
 
 /**
  * Transition definition
  */
 export interface Transition {
-  /** Source state */
+  /** Source state (a composite source applies the transition to all its nested states) */
   from: string;
-  /** Target state */
+  /** Target state (a composite target is entered through its initial substate, a history pseudo-state through its recorded state) */
   to: string;
   /** Event that triggers this transition */
   event: string;
@@ -236,6 +434,22 @@ export interface Transition {
   type: TransitionType;
   /** Timeout in milliseconds (for TIMEOUT type) */
   timeoutMs?: number;
+  /**
+   * Timeout duration in milliseconds computed from the instance data on state entry
+   * (guard expression syntax, for TIMEOUT type)
+   *
+   * Example: "context.slaHours * 3600000"
+   */
+  timeoutExpr?: string;
+  /** Instance data property (dotted path) holding the timeout duration in milliseconds (for TIMEOUT type) */
+  timeoutFromContext?: string;
+  /**
+   * Absolute deadline computed from the instance data on state entry: epoch ms,
+   * Date or ISO 8601 string (guard expression syntax, for TIMEOUT type)
+   *
+   * Example: "context.expiresAt"
+   */
+  deadlineAt?: string;
   /**
    * Reset timeout on any transition to this state (for TIMEOUT type)
    *
@@ -278,6 +492,19 @@ export interface Transition {
    * Example: ExecutionInput.OrderId = Order.Id
    */
   matchingRules?: MatchingRule[];
+  /**
+   * Guard expression evaluated against the event and instance data
+   * The transition is only taken when the guard evaluates to a truthy value.
+   * Roots: event (type, payload), context, publicMember
+   * Example: "context.amount > 10000 && event.payload.kyc == 'OK'"
+   */
+  guard?: string;
+  /**
+   * Schema the event payload must satisfy for this transition
+   * Same formats as contextSchema (field map or JSON Schema). An invalid
+   * payload is rejected with a ContextValidationError before any hook runs.
+   */
+  payloadSchema?: Record<string, any>;
   /**
    * Notify parent instance when this transition is executed
    * Allows child state machines to communicate state changes back to parent
@@ -287,6 +514,15 @@ export interface Transition {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Transition available from the current configuration of an instance
+ * (see FSMRuntime.getAvailableTransitions)
+ */
+export interface AvailableTransition extends Transition {
+  /** State a history pseudo-state target currently resolves to (history targets only) */
+  historyTarget?: string;
+}
+
 /**
  * Parent link configuration for child-to-parent notifications
  * Enables XComponent pattern of parent orchestration over child state machines
@@ -338,10 +574,22 @@ export interface StateMachine {
    * and can notify the parent on state changes
    */
   parentLink?: ParentLink;
+  /**
+   * State to move to when a registered handler throws
+   * When omitted, the instance is rolled back to its pre-transition state.
+   */
+  errorState?: string;
   /**
    * Context schema for UI form generation and validation
+   *
+   * Accepts the field map format ({ amount: { type: number, required: true } })
+   * or JSON Schema ({ type: object, properties: {...}, required: [...] }).
+   * Enforced on instance creation (required fields and types) and on the
+   * merged context after each transition (types and constraints).
    */
   contextSchema?: Record<string, any>;
+  /** Retention of the event history of this machine (overrides the component policy) */
+  retention?: RetentionPolicy;
   /** Metadata */
   metadata?: Record<string, any>;
 }
@@ -383,6 +631,31 @@ export interface Component {
    * @example autoCreateEntryPoint: false  // User creates instances via API
    */
   autoCreateEntryPoint?: boolean;
+  /**
+   * Migrations from earlier definition versions, applied on read to the
+   * persisted events and snapshots stamped with an older version
+   * (records written before stamping are treated as the first migration's "from")
+   * @example migrations: [{ from: '1.0.0', to: '2.0.0', renameStates: { Order: { Created: Pending } } }]
+   */
+  migrations?: ComponentMigration[];
+  /**
+   * Retention of the event history, applied by FSMRuntime.compactHistory()
+   * (machines can override it with their own `retention`)
+   * @example retention: { maxAgeDays: 90, terminalSummaryOnly: true, archiveDirectory: ./archive }
+   */
+  retention?: RetentionPolicy;
+  /**
+   * Redelivery of the cross-component messages this component fails to handle,
+   * over the retry policy of the ComponentRegistry
+   * @example retry: { maxAttempts: 5, initialDelayMs: 500 }
+   */
+  retry?: RetryPolicy;
+  /**
+   * Sharding of the instances across the replicas of this component: each
+   * instance is handled by the replica owning its shard
+   * @example sharding: { shards: 64, key: orderId }
+   */
+  sharding?: ShardingConfig;
   /** Metadata */
   metadata?: Record<string, any>;
   /** Layout configuration for dashboard visualization */
@@ -394,6 +667,52 @@ export interface Component {
   };
 }
 
+/**
+ * Changes between two versions of a component definition
+ *
+ * Machine-keyed maps use the machine name after renameMachines.
+ */
+export interface ComponentMigration {
+  /** Definition version the persisted records were written under */
+  from: string;
+  /** Definition version they are upgraded to */
+  to: string;
+  /** Renamed machines (old name → new name) */
+  renameMachines?: Record<string, string>;
+  /** Renamed states per machine (machine → old name → new name) */
+  renameStates?: Record<string, Record<string, string>>;
+  /** Renamed events per machine (machine → old type → new type) */
+  renameEvents?: Record<string, Record<string, string>>;
+  /** Instance data changes per machine */
+  context?: Record<string, ContextMigration>;
+}
+
+/**
+ * Instance data change of a migration (applied in order: rename, remove, defaults)
+ */
+export interface ContextMigration {
+  /** Renamed fields (old name → new name) */
+  rename?: Record<string, string>;
+  /** Dropped fields */
+  remove?: string[];
+  /** Fields added by the new version (set only when missing) */
+  defaults?: Record<string, any>;
+}
+
+/**
+ * Options for FSMRuntime.createInstance
+ */
+export interface CreateInstanceOptions {
+  /**
+   * Mark the instance as the component's entry point (never auto-deallocated)
+   * Entry points are auto-created with an empty context, so contextSchema
+   * required fields are not enforced for them.
+   */
+  isEntryPoint?: boolean;
+  /** Instance ID (default: a new UUID) */
+  instanceId?: string;
+}
+
 /**
  * FSM Event
  */
@@ -404,6 +723,10 @@ export interface FSMEvent {
   payload: Record<string, any>;
   /** Timestamp */
   timestamp: number;
+  /** Unique ID of this event (e.g. broker message ID), used for deduplication */
+  eventId?: string;
+  /** Deduplication key (takes precedence over eventId): redeliveries with the same key are ignored */
+  idempotencyKey?: string;
 }
 
 /**
@@ -414,8 +737,35 @@ export interface FSMInstance {
   id: string;
   /** Machine name */
   machineName: string;
-  /** Current state */
+  /**
+   * Current state
+   * (the parallel state itself while its regions are active, see regionStates)
+   */
   currentState: string;
+  /**
+   * Active leaf state of each region (region name → state name),
+   * set while currentState is a parallel state
+   */
+  regionStates?: Record<string, string>;
+  /**
+   * Last active leaf state of each exited composite state that declares a
+   * history pseudo-state (composite name → state name)
+   */
+  history?: Record<string, string>;
+  /** Events scheduled for this instance that have not fired yet */
+  scheduledEvents?: ScheduledEvent[];
+  /**
+   * Deadlines of active timeouts computed from instance data
+   * ("state:event" → deadline and duration in ms, see Transition.timeoutExpr)
+   */
+  timeoutDeadlines?: Record<string, { deadlineAt: number; timeoutMs: number }>;
+  /** Version of the last event persisted for this instance (optimistic concurrency) */
+  version?: number;
+  /**
+   * Component definition version the instance data conforms to
+   * (set at creation, raised when older records are migrated on restore)
+   */
+  definitionVersion?: string;
   /**
    * Context data (legacy/simple usage)
    * For XComponent pattern, use publicMember + internalMember instead
@@ -536,6 +886,10 @@ export interface PersistedEvent {
   targetComponentName?: string;
   /** Snapshot of publicMember after this transition (for traceability) */
   publicMemberSnapshot?: Record<string, any>;
+  /** Per-instance sequence number, 1 for the creation event (optimistic concurrency) */
+  version?: number;
+  /** Component definition version the event was written under (see Component.migrations) */
+  definitionVersion?: string;
 }
 
 /**
@@ -548,6 +902,8 @@ export interface InstanceSnapshot {
   snapshotAt: number;
   /** Last event ID processed */
   lastEventId: string;
+  /** Version of the last event applied to the instance */
+  version?: number;
   /** Pending timeouts (relative ms from now) */
   pendingTimeouts?: Array<{
     stateKey: string;
@@ -562,8 +918,11 @@ export interface InstanceSnapshot {
 export interface EventStore {
   /**
    * Append event to store
+   *
+   * @param expectedVersion Version the instance stream must be at (omit to append unconditionally)
+   * @throws ConcurrencyConflictError if another writer appended to the instance first
    */
-  append(event: PersistedEvent): Promise<void>;
+  append(event: PersistedEvent, expectedVersion?: number): Promise<void>;
 
   /**
    * Get all events for an instance
@@ -580,10 +939,91 @@ export interface EventStore {
    */
   getCausedEvents(eventId: string): Promise<PersistedEvent[]>;
 
+  /**
+   * Record that an event caused another one (appears in the parent's `caused` on read)
+   *
+   * Called once per caused event: must not load or rewrite other events.
+   * Optional: without it, the parent is looked up in getAllEvents() and
+   * updated in place.
+   */
+  appendCausalLink?(parentId: string, childId: string): Promise<void>;
+
   /**
    * Get all events (for replay)
    */
   getAllEvents(): Promise<PersistedEvent[]>;
+
+  /**
+   * Get a page of all events, in the order of getAllEvents() (projection catch-ups and rebuilds)
+   *
+   * Optional: without it, getAllEvents() is read whole.
+   */
+  getEventsPage?(offset: number, limit: number): Promise<PersistedEvent[]>;
+
+  /**
+   * Get the IDs of the instances with events (restore, compaction)
+   *
+   * Optional: without it, the IDs are read from getAllEvents().
+   */
+  getInstanceIds?(): Promise<string[]>;
+
+  /**
+   * Replace events of an instance by a summary event, atomically (history compaction)
+   *
+   * The summary takes the place of the removed events in the instance stream.
+   * Optional: stores without it cannot be compacted.
+   */
+  compact?(instanceId: string, removedEventIds: string[], summary: PersistedEvent): Promise<void>;
+}
+
+/**
+ * Position of a projection in the event stream (last event it applied)
+ */
+export interface ProjectionCheckpoint {
+  eventId: string;
+  persistedAt: number;
+  /** Events applied since the projection was (re)built */
+  applied: number;
+}
+
+/**
+ * Rows written by the handlers of a projection for one event
+ */
+export interface ProjectionChanges {
+  set: Record<string, any>;
+  delete: string[];
+}
+
+/**
+ * Projection store interface (read models maintained by ProjectionEngine)
+ *
+ * Rows are JSON values keyed by projection name and row key.
+ */
+export interface ProjectionStore {
+  /**
+   * Get a row of a projection
+   */
+  get(projection: string, key: string): Promise<any | undefined>;
+
+  /**
+   * Get all rows of a projection
+   */
+  getAll(projection: string): Promise<Record<string, any>>;
+
+  /**
+   * Apply the rows written for one event and move the checkpoint, atomically
+   */
+  commit(projection: string, changes: ProjectionChanges, checkpoint: ProjectionCheckpoint): Promise<void>;
+
+  /**
+   * Get the checkpoint of a projection (null before its first event)
+   */
+  getCheckpoint(projection: string): Promise<ProjectionCheckpoint | null>;
+
+  /**
+   * Drop the rows and checkpoint of a projection (before a rebuild)
+   */
+  reset(projection: string): Promise<void>;
 }
 
 /**
@@ -626,3 +1066,311 @@ export interface PersistenceConfig {
   /** Snapshot store implementation */
   snapshotStore?: SnapshotStore;
 }
+
+/**
+ * Runtime execution options
+ *
+ * Every instance has its own mailbox: its events are processed one at a time
+ * (run-to-completion) while different instances progress concurrently.
+ */
+export interface RuntimeOptions {
+  /**
+   * Max instances processing events at the same time (default: unlimited).
+   * Further instances wait for a free slot; events sent from within a
+   * transition are never held back by the limit.
+   */
+  maxConcurrentInstances?: number;
+  /** Max events waiting in one instance mailbox before sends are rejected (default: unlimited) */
+  maxQueueDepth?: number;
+  /** Idempotency keys remembered per instance to ignore redelivered events (default: 100, 0 disables) */
+  idempotencyWindow?: number;
+  /** Retries of an event whose append conflicted with another writer, after reloading the instance (default: 1) */
+  concurrencyRetries?: number;
+  /** Run compactHistory() at this interval (default: never) */
+  compactionIntervalMs?: number;
+}
+
+/**
+ * Event processing statistics of a runtime
+ */
+export interface RuntimeStats {
+  /** Live instances */
+  instances: number;
+  /** Instances with events in flight or waiting */
+  activeMailboxes: number;
+  /** Instances currently processing an event */
+  processingInstances: number;
+  /** Instances waiting for a concurrency slot */
+  waitingInstances: number;
+  /** Events waiting across all mailboxes */
+  queuedEvents: number;
+  /** Depth of the fullest mailbox */
+  largestQueueDepth: number;
+  /** Events processed since the runtime started */
+  processedEvents: number;
+  /** Events whose processing threw */
+  failedEvents: number;
+  /** Sends rejected because the mailbox was full */
+  rejectedEvents: number;
+  /** Redelivered events ignored by idempotency key */
+  duplicateEvents: number;
+}
+
+/**
+ * Outcome of FSMRuntime.restore() for one state machine
+ */
+export interface MachineRestoreReport {
+  /** Instances restored (from a snapshot or rebuilt from events) */
+  restored: number;
+  /** Instances restored from a snapshot */
+  fromSnapshot: number;
+  /** Instances without snapshot, rebuilt from their creation event */
+  fromEvents: number;
+  /** Events persisted after the snapshot and replayed */
+  replayedEvents: number;
+  /** Instances that could not be restored */
+  failed: number;
+  /** Duplicate entry-point instances discarded */
+  entryPointsReconciled: number;
+  /** Restored instances whose snapshot or events were migrated from an older definition */
+  migrated: number;
+  /** Restored instances per current state */
+  states: Record<string, number>;
+}
+
+/**
+ * Options of FSMRuntime.restore()
+ */
+export interface RestoreOptions {
+  /** Restore only the instances it accepts (rebuilt from the stores, before they are added) */
+  filter?: (instance: FSMInstance) => boolean;
+}
+
+/**
+ * Outcome of FSMRuntime.restore()
+ */
+export interface RestoreReport {
+  /** Instances restored */
+  restored: number;
+  /** Instances that could not be restored */
+  failed: number;
+  /** Events replayed on top of snapshots */
+  replayedEvents: number;
+  /** Details per state machine */
+  machines: Record<string, MachineRestoreReport>;
+  /** Records migrated from older definition versions (absent when none were) */
+  migrated?: MigrationReport;
+}
+
+/**
+ * Records upcast by FSMRuntime.restore() (also emitted as restore_migrated)
+ */
+export interface MigrationReport {
+  /** Definition version the records were migrated to */
+  toVersion: string;
+  /** Restored instances rebuilt from migrated records */
+  instances: number;
+  /** Events migrated */
+  events: number;
+  /** Snapshots migrated */
+  snapshots: number;
+  /** Migrated records per original version ("unversioned" for records written before stamping) */
+  fromVersions: Record<string, number>;
+}
+
+/**
+ * State mapping of a live migration (FSMRuntime.migrateInstances)
+ *
+ * Same changes as a ComponentMigration, from the running version to the
+ * version of the new definition.
+ */
+export type LiveMigrationMapping = Omit<ComponentMigration, 'from' | 'to'>;
+
+/**
+ * Options for FSMRuntime.migrateInstances
+ */
+export interface LiveMigrationOptions {
+  /** Only report what would be migrated (default: false) */
+  dryRun?: boolean;
+  /** Max time to wait for instances still processing events (default: 5000) */
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Live instance moved to the new definition
+ */
+export interface MigratedInstance {
+  instanceId: string;
+  fromMachine: string;
+  fromState: string;
+  machineName: string;
+  currentState: string;
+}
+
+/**
+ * Live instance that has no place in the new definition
+ */
+export interface UnmappableInstance {
+  instanceId: string;
+  machineName: string;
+  currentState: string;
+  reason: string;
+}
+
+/**
+ * Retention policy of an event history
+ *
+ * Compaction folds the selected events of an instance into one
+ * HISTORY_COMPACTED summary event (hash-chained to the previous summary) and a
+ * snapshot of the instance after the last folded event.
+ */
+export interface RetentionPolicy {
+  /** Fold the events older than this many days */
+  maxAgeDays?: number;
+  /** Fold every event of finished instances (final or error state), keeping only their summary */
+  terminalSummaryOnly?: boolean;
+  /** Write the folded events to gzip-compressed JSONL files in this directory before removing them */
+  archiveDirectory?: string;
+}
+
+/**
+ * Instance whose events were folded by a compaction
+ */
+export interface CompactedInstance {
+  instanceId: string;
+  machineName: string;
+  /** Events folded into the summary */
+  events: number;
+  summaryEventId: string;
+  /** SHA-256 of the folded events, chained to the previous summary of the instance */
+  hash: string;
+  /** Archive file holding the folded events */
+  archive?: string;
+}
+
+/**
+ * Outcome of FSMRuntime.compactHistory()
+ */
+export interface CompactionReport {
+  componentName: string;
+  /** Whether the stores were left untouched */
+  dryRun: boolean;
+  compactedAt: number;
+  instances: CompactedInstance[];
+  /** Events folded across all instances */
+  events: number;
+  /** Archive files written */
+  archives: string[];
+  /** Entries dropped from the in-memory history of the runtime */
+  prunedHistory: number;
+  /** Why the stores were not compacted (e.g. unsupported event store) */
+  skipped?: string;
+}
+
+/**
+ * Outcome of FSMRuntime.planMigration() and migrateInstances()
+ */
+export interface LiveMigrationReport {
+  componentName: string;
+  fromVersion: string;
+  toVersion: string;
+  /** Whether the instances were left untouched */
+  dryRun: boolean;
+  migrated: MigratedInstance[];
+  /** Instances blocking the migration (none are migrated while any is listed) */
+  unmappable: UnmappableInstance[];
+}
+
+/**
+ * Redelivery of a cross-component message to the instances that failed to handle it
+ *
+ * The delay before retry n (n >= 1) is initialDelayMs * backoffFactor^(n-1), capped at maxDelayMs.
+ */
+export interface RetryPolicy {
+  /** Deliveries before the message is dead-lettered, the first one included (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in ms (default: 100) */
+  initialDelayMs?: number;
+  /** Multiplier applied to the delay after each retry (default: 2) */
+  backoffFactor?: number;
+  /** Upper bound of the delay in ms (default: 30000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Sharding of the instances of a component across its replicas
+ *
+ * Every replica must use the same settings.
+ */
+export interface ShardingConfig {
+  /** Number of shards instances are hashed into (default: 64) */
+  shards?: number;
+  /** Context property (dot notation) hashed instead of the instance ID, e.g. a correlation ID */
+  key?: string;
+}
+
+/**
+ * Cross-component message a component could not handle within its retry policy
+ */
+export interface DeadLetter {
+  id: string;
+  /** Component the message was sent to */
+  componentName: string;
+  /** Original message */
+  message: CrossComponentMessage;
+  /** Error of the last attempt */
+  reason: string;
+  /** Deliveries attempted (replays included) */
+  attempts: number;
+  /** Instances that did not accept the event (absent when the message could not be routed) */
+  instanceIds?: string[];
+  firstFailedAt: number;
+  deadLetteredAt: number;
+}
+
+/**
+ * Dead letter store interface (messages dead-lettered by ComponentRegistry)
+ */
+export interface DeadLetterStore {
+  /**
+   * Add a dead letter, or replace the one with the same id
+   */
+  add(deadLetter: DeadLetter): Promise<void>;
+
+  /**
+   * Get a dead letter (null if unknown)
+   */
+  get(id: string): Promise<DeadLetter | null>;
+
+  /**
+   * List the dead letters, oldest first (of one component when given)
+   */
+  list(componentName?: string): Promise<DeadLetter[]>;
+
+  /**
+   * Remove a dead letter (replayed or discarded)
+   *
+   * @returns Whether it existed
+   */
+  remove(id: string): Promise<boolean>;
+}
+
+/**
+ * Leases for leader election: one candidate holds the lease of a key at a time
+ *
+ * Implementations: InMemoryLeaseStore, RedisLeaseStore, PostgresLeaseStore
+ */
+export interface LeaseStore {
+  /**
+   * Take the lease of a key, or extend it when the candidate already holds it
+   *
+   * @param ttlMs Time the lease lasts without being extended
+   * @returns Whether the candidate holds the lease
+   */
+  acquire(key: string, candidateId: string, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Give the lease up (ignored unless the candidate holds it)
+   */
+  release(key: string, candidateId: string): Promise<void>;
+}
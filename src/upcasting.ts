@@ -0,0 +1,192 @@
+/**
+ * Event Upcasting
+ *
+ * Brings persisted events and snapshots written under an older component
+ * definition up to the current one, following Component.migrations
+ * (machine, state and event renames, instance data changes).
+ * Records are migrated on read; the stores are never rewritten.
+ */
+
+import { Component, ComponentMigration, ContextMigration, InstanceSnapshot, PersistedEvent } from './types';
+
+/**
+ * Apply the data changes of a migration (returns a new object)
+ */
+function migrateData(data: Record<string, any>, change: ContextMigration | undefined): Record<string, any> {
+  if (!change) return data;
+
+  const migrated = { ...data };
+  for (const [from, to] of Object.entries(change.rename || {})) {
+    if (from in migrated) {
+      migrated[to] = migrated[from];
+      delete migrated[from];
+    }
+  }
+  for (const field of change.remove || []) {
+    delete migrated[field];
+  }
+  for (const [field, value] of Object.entries(change.defaults || {})) {
+    if (migrated[field] === undefined) {
+      migrated[field] = value;
+    }
+  }
+  return migrated;
+}
+
+function rename(name: string, renames: Record<string, string> | undefined): string {
+  return renames?.[name] ?? name;
+}
+
+/**
+ * Migrates persisted records of a component to its current definition version
+ */
+export class ComponentUpcaster {
+  private migrations: Map<string, ComponentMigration> = new Map();
+  private currentVersion: string;
+  /** Version assumed for records written before definition versions were stamped */
+  private baseVersion: string;
+
+  constructor(component: Component) {
+    this.currentVersion = component.version;
+    this.baseVersion = component.migrations?.[0]?.from ?? component.version;
+    for (const migration of component.migrations || []) {
+      // Duplicates are reported by validate(); the first one is used
+      if (!this.migrations.has(migration.from)) {
+        this.migrations.set(migration.from, migration);
+      }
+    }
+  }
+
+  /**
+   * Check the migrations section of a component definition
+   *
+   * @returns Problems found (empty when valid)
+   */
+  static validate(component: Component): string[] {
+    const problems: string[] = [];
+    const migrations = component.migrations || [];
+    const froms = new Set<string>();
+
+    migrations.forEach((migration, i) => {
+      const prefix = `migration #${i + 1}`;
+      if (!migration.from || !migration.to) {
+        problems.push(`${prefix}: "from" and "to" versions are required`);
+        return;
+      }
+      if (migration.from === migration.to) {
+        problems.push(`${prefix}: "from" and "to" are the same version (${migration.from})`);
+      }
+      if (froms.has(migration.from)) {
+        problems.push(`${prefix}: another migration starts from ${migration.from}`);
+      }
+      froms.add(migration.from);
+    });
+
+    if (migrations.length > 0) {
+      const chain = new ComponentUpcaster(component).chainFrom(migrations[0].from);
+      const reached = chain.length > 0 ? chain[chain.length - 1].to : migrations[0].from;
+      if (reached !== component.version) {
+        problems.push(`migrations from ${migrations[0].from} end at ${reached}, not at the component version ${component.version}`);
+      }
+    }
+    return problems;
+  }
+
+  /**
+   * Migrations to apply to a record stamped with a definition version, in order
+   */
+  private chainFrom(version: string): ComponentMigration[] {
+    const chain: ComponentMigration[] = [];
+    const visited = new Set<string>();
+    let current = version;
+    while (current !== this.currentVersion && this.migrations.has(current) && !visited.has(current)) {
+      visited.add(current);
+      const migration = this.migrations.get(current)!;
+      chain.push(migration);
+      current = migration.to;
+    }
+    return chain;
+  }
+
+  /**
+   * Upcast a persisted event (the same object when already current)
+   */
+  upcastEvent(persisted: PersistedEvent): PersistedEvent {
+    const chain = this.chainFrom(persisted.definitionVersion ?? this.baseVersion);
+    if (chain.length === 0) return persisted;
+
+    const migrated: PersistedEvent = { ...persisted, event: { ...persisted.event } };
+    for (const migration of chain) {
+      const machineName = rename(migrated.machineName, migration.renameMachines);
+      const states = migration.renameStates?.[machineName];
+      const data = migration.context?.[machineName];
+
+      migrated.machineName = machineName;
+      migrated.stateBefore = rename(migrated.stateBefore, states);
+      migrated.stateAfter = rename(migrated.stateAfter, states);
+      migrated.event.type = rename(migrated.event.type, migration.renameEvents?.[machineName]);
+      if (migrated.publicMemberSnapshot) {
+        migrated.publicMemberSnapshot = migrateData(migrated.publicMemberSnapshot, data);
+      }
+      if (migrated.event.type === 'INSTANCE_CREATED' && migrated.event.payload?.initialContext) {
+        migrated.event.payload = {
+          ...migrated.event.payload,
+          initialContext: migrateData(migrated.event.payload.initialContext, data),
+        };
+      }
+    }
+    migrated.definitionVersion = chain[chain.length - 1].to;
+    return migrated;
+  }
+
+  /**
+   * Upcast a snapshot (the same object when already current)
+   */
+  upcastSnapshot(snapshot: InstanceSnapshot): InstanceSnapshot {
+    const chain = this.chainFrom(snapshot.instance.definitionVersion ?? this.baseVersion);
+    if (chain.length === 0) return snapshot;
+
+    const instance = { ...snapshot.instance };
+    for (const migration of chain) {
+      const machineName = rename(instance.machineName, migration.renameMachines);
+      const states = migration.renameStates?.[machineName];
+      const events = migration.renameEvents?.[machineName];
+      const data = migration.context?.[machineName];
+
+      instance.machineName = machineName;
+      instance.currentState = rename(instance.currentState, states);
+      if (instance.regionStates) {
+        instance.regionStates = Object.fromEntries(
+          Object.entries(instance.regionStates).map(([region, state]) => [region, rename(state, states)])
+        );
+      }
+      if (instance.history) {
+        instance.history = Object.fromEntries(
+          Object.entries(instance.history).map(([composite, state]) => [rename(composite, states), rename(state, states)])
+        );
+      }
+      if (instance.timeoutDeadlines) {
+        // Keyed by "state:event"
+        instance.timeoutDeadlines = Object.fromEntries(
+          Object.entries(instance.timeoutDeadlines).map(([key, deadline]) => {
+            const [state, event] = key.split(':');
+            return [`${rename(state, states)}:${rename(event, events)}`, deadline];
+          })
+        );
+      }
+      if (instance.scheduledEvents) {
+        instance.scheduledEvents = instance.scheduledEvents.map(scheduled => ({
+          ...scheduled,
+          event: { ...scheduled.event, type: rename(scheduled.event.type, events) },
+        }));
+      }
+      if (instance.publicMember) {
+        instance.publicMember = migrateData(instance.publicMember, data);
+      } else {
+        instance.context = migrateData(instance.context, data);
+      }
+    }
+    instance.definitionVersion = chain[chain.length - 1].to;
+    return { ...snapshot, instance };
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * Context Validation Tests
+ * Tests contextSchema / payloadSchema enforcement
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { ComponentRegistry } from '../src/component-registry';
+import { validateAgainstSchema, checkSchemaDefinition, ContextValidationError } from '../src/schema-validator';
+import { Component, StateType, TransitionType } from '../src/types';
+
+describe('Context Validation', () => {
+  describe('validateAgainstSchema', () => {
+    const fieldMap = {
+      orderId: { type: 'text', required: true, pattern: '^ORD-' },
+      amount: { type: 'number', required: true, min: 1 },
+      currency: { type: 'select', options: [{ value: 'EUR', label: 'Euro' }, { value: 'USD', label: 'Dollar' }] },
+    };
+
+    it('should accept valid data in field map format', () => {
+      expect(validateAgainstSchema({ orderId: 'ORD-1', amount: 10, currency: 'EUR' }, fieldMap)).toEqual([]);
+    });
+
+    it('should report type, required, constraint and enum issues', () => {
+      const issues = validateAgainstSchema({ orderId: 'X-1', amount: '10', currency: 'GBP' }, fieldMap);
+      expect(issues.map(i => `${i.path}:${i.keyword}`)).toEqual([
+        'orderId:pattern',
+        'amount:type',
+        'currency:enum',
+      ]);
+      expect(validateAgainstSchema({}, fieldMap).map(i => i.path)).toEqual(['orderId', 'amount']);
+    });
+
+    it('should skip required checks in partial mode', () => {
+      expect(validateAgainstSchema({}, fieldMap, { partial: true })).toEqual([]);
+      expect(validateAgainstSchema({ amount: 0 }, fieldMap, { partial: true })[0].keyword).toBe('minimum');
+    });
+
+    it('should support JSON Schema with nested objects and arrays', () => {
+      const schema = {
+        type: 'object',
+        required: ['customer'],
+        additionalProperties: false,
+        properties: {
+          customer: {
+            type: 'object',
+            required: ['id'],
+            properties: { id: { type: 'string' }, tier: { enum: ['gold', 'silver'] } },
+          },
+          legs: { type: 'array', minItems: 1, items: { type: 'integer', minimum: 1 } },
+        },
+      };
+
+      expect(validateAgainstSchema({ customer: { id: 'C1', tier: 'gold' }, legs: [1, 2] }, schema)).toEqual([]);
+      expect(validateAgainstSchema({ customer: { tier: 'bronze' }, legs: [1.5], extra: true }, schema).map(i => i.path))
+        .toEqual(['customer.id', 'customer.tier', 'legs[0]', 'extra']);
+    });
+
+    it('should check schema definitions', () => {
+      expect(checkSchemaDefinition(fieldMap)).toEqual([]);
+      expect(checkSchemaDefinition({ amount: { type: 'money' }, kind: { type: 'select' } })).toEqual([
+        'amount: unknown type "money"',
+        'kind: select field must define options',
+      ]);
+      expect(checkSchemaDefinition({ type: 'object', properties: { code: { type: 'string', pattern: '(' } } }))
+        .toEqual(['code: invalid pattern "("']);
+    });
+
+    it('should report keywords the validator does not enforce', () => {
+      expect(checkSchemaDefinition({
+        type: 'object',
+        properties: {
+          payment: { oneOf: [{ type: 'string' }, { type: 'number' }] },
+          email: { type: 'string', format: 'email', description: 'Contact' },
+          tags: { type: 'array', items: { $ref: '#/definitions/tag' } },
+        },
+      })).toEqual([
+        'payment: unsupported keyword "oneOf"',
+        'email: unsupported keyword "format"',
+        'tags[]: unsupported keyword "$ref"',
+      ]);
+      expect(checkSchemaDefinition({ amount: { type: 'number', label: 'Amount', multipleOf: 5 } }))
+        .toEqual(['amount: unsupported keyword "multipleOf"']);
+    });
+  });
+
+  describe('Runtime enforcement', () => {
+    const component: Component = {
+      name: 'TradingComponent',
+      version: '1.0.0',
+      entryMachine: 'Desk',
+      stateMachines: [
+        {
+          name: 'Desk',
+          initialState: 'Open',
+          contextSchema: { deskId: { type: 'text', required: true } },
+          states: [{ name: 'Open', type: StateType.ENTRY }],
+          transitions: [],
+        },
+        {
+          name: 'Order',
+          initialState: 'Created',
+          contextSchema: {
+            orderId: { type: 'text', required: true },
+            amount: { type: 'number', required: true, min: 1 },
+          },
+          states: [
+            { name: 'Created', type: StateType.ENTRY },
+            { name: 'Amended', type: StateType.REGULAR },
+            { name: 'Settling', type: StateType.REGULAR },
+          ],
+          transitions: [
+            { from: 'Created', to: 'Amended', event: 'AMEND', type: TransitionType.REGULAR },
+            {
+              from: 'Created',
+              to: 'Created',
+              event: 'NOTE',
+              type: TransitionType.REGULAR,
+              payloadSchema: { text: { type: 'text', required: true } },
+            },
+            {
+              from: 'Amended',
+              to: 'Settling',
+              event: 'SETTLE',
+              type: TransitionType.INTER_MACHINE,
+              targetMachine: 'Settlement',
+              contextMapping: { orderId: 'orderId', settlementAmount: 'amount', account: 'account' },
+            },
+          ],
+        },
+        {
+          name: 'Settlement',
+          initialState: 'Pending',
+          contextSchema: {
+            orderId: { type: 'text', required: true },
+            settlementAmount: { type: 'number', required: true },
+            account: { type: 'text', required: true },
+          },
+          states: [{ name: 'Pending', type: StateType.ENTRY }],
+          transitions: [],
+        },
+      ],
+    };
+
+    let runtime: FSMRuntime;
+
+    beforeEach(() => {
+      runtime = new FSMRuntime(component);
+    });
+
+    afterEach(() => {
+      runtime.dispose();
+    });
+
+    it('should reject an invalid initial context', () => {
+      expect(() => runtime.createInstance('Order', { orderId: 'O-1', amount: '100' })).toThrow(ContextValidationError);
+      try {
+        runtime.createInstance('Order', { amount: 100 });
+        fail('expected validation error');
+      } catch (error: any) {
+        expect(error.issues).toEqual([{ path: 'orderId', keyword: 'required', message: 'is required' }]);
+      }
+      expect(runtime.getAllInstances()).toHaveLength(0);
+    });
+
+    it('should not enforce required fields on auto-created entry points', () => {
+      const registry = new ComponentRegistry();
+      const registryRuntime = new FSMRuntime(component);
+      registry.registerComponent(component, registryRuntime);
+
+      const entryPoints = registryRuntime.getInstancesByMachine('Desk');
+      expect(entryPoints).toHaveLength(1);
+      expect(entryPoints[0].isEntryPoint).toBe(true);
+      registry.dispose();
+    });
+
+    it('should reject a schema using unsupported keywords at definition time', () => {
+      const withOneOf: Component = {
+        ...component,
+        stateMachines: component.stateMachines.map(machine => machine.name === 'Order'
+          ? { ...machine, contextSchema: { type: 'object', oneOf: [{ required: ['orderId'] }, { required: ['ref'] }] } }
+          : machine),
+      };
+
+      expect(() => new FSMRuntime(withOneOf))
+        .toThrow('Invalid contextSchema of TradingComponent.Order: unsupported keyword "oneOf"');
+    });
+
+    it('should roll back a transition whose merged context is invalid', async () => {
+      const errors: any[] = [];
+      runtime.on('validation_error', data => errors.push(data));
+      const id = runtime.createInstance('Order', { orderId: 'O-1', amount: 100 });
+
+      await expect(
+        runtime.sendEvent(id, { type: 'AMEND', payload: { amount: '250' }, timestamp: Date.now() })
+      ).rejects.toThrow(ContextValidationError);
+
+      const instance = runtime.getInstance(id)!;
+      expect(instance.currentState).toBe('Created');
+      expect(instance.status).toBe('active');
+      expect(instance.context.amount).toBe(100);
+      expect(errors[0]).toMatchObject({ instanceId: id, target: 'context' });
+      expect(errors[0].issues[0]).toMatchObject({ path: 'amount', keyword: 'type' });
+    });
+
+    it('should validate the payload against payloadSchema', async () => {
+      const id = runtime.createInstance('Order', { orderId: 'O-1', amount: 100 });
+
+      await expect(
+        runtime.sendEvent(id, { type: 'NOTE', payload: {}, timestamp: Date.now() })
+      ).rejects.toMatchObject({ target: 'payload', issues: [{ path: 'text', keyword: 'required' }] });
+
+      await runtime.sendEvent(id, { type: 'NOTE', payload: { text: 'checked' }, timestamp: Date.now() });
+      expect(runtime.getInstance(id)!.context.text).toBe('checked');
+    });
+
+    it('should validate the child context of inter_machine transitions before committing', async () => {
+      const id = runtime.createInstance('Order', { orderId: 'O-1', amount: 100 });
+      await runtime.sendEvent(id, { type: 'AMEND', payload: {}, timestamp: Date.now() });
+
+      await expect(
+        runtime.sendEvent(id, { type: 'SETTLE', payload: {}, timestamp: Date.now() })
+      ).rejects.toMatchObject({ machineName: 'Settlement', issues: [{ path: 'account', keyword: 'required' }] });
+      expect(runtime.getInstance(id)!.currentState).toBe('Amended');
+      expect(runtime.getInstancesByMachine('Settlement')).toHaveLength(0);
+
+      await runtime.sendEvent(id, { type: 'SETTLE', payload: { account: 'ACC-1' }, timestamp: Date.now() });
+      expect(runtime.getInstance(id)!.currentState).toBe('Settling');
+      expect(runtime.getInstancesByMachine('Settlement')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Dead Letter Tests
+ * Tests retries with backoff, dead-lettering, replay/discard and broker acks (RabbitMQ, NATS JetStream)
+ */
+
+import { ComponentRegistry } from '../src/component-registry';
+import { FSMRuntime } from '../src/fsm-runtime';
+import { CrossComponentMessage, InMemoryMessageBroker, NatsMessageBroker, RabbitMQMessageBroker } from '../src/message-broker';
+import { LocalNatsServer } from '../src/nats-local';
+import { InMemoryDeadLetterStore, deadLetterChannel, resolveRetryPolicy, retryDelay } from '../src/dead-letters';
+import { Component, DeadLetter, StateType, TransitionType } from '../src/types';
+
+describe('Dead Letters', () => {
+  const payment = (retry?: Component['retry']): Component => ({
+    name: 'PaymentComponent',
+    version: '1.0.0',
+    retry,
+    stateMachines: [
+      {
+        name: 'Payment',
+        initialState: 'Pending',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY },
+          { name: 'Captured', type: StateType.REGULAR },
+        ],
+        transitions: [{ from: 'Pending', to: 'Captured', event: 'CAPTURE', type: TransitionType.REGULAR }],
+      },
+    ],
+  });
+
+  const message: CrossComponentMessage = {
+    sourceComponent: 'OrderComponent',
+    targetComponent: 'PaymentComponent',
+    targetMachine: 'Payment',
+    targetState: 'Pending',
+    event: { type: 'CAPTURE', payload: {}, timestamp: 1 },
+  };
+
+  let broker: InMemoryMessageBroker;
+  let store: InMemoryDeadLetterStore;
+  let registry: ComponentRegistry;
+  let runtime: FSMRuntime;
+
+  const setup = async (component: Component = payment()) => {
+    registry = new ComponentRegistry(broker, { retry: { initialDelayMs: 5 }, deadLetterStore: store });
+    await registry.initialize();
+    runtime = new FSMRuntime(component);
+    registry.registerComponent(component, runtime);
+  };
+
+  /**
+   * Publish a component message and wait until the registry dead-lettered it
+   */
+  const deliver = async () => {
+    const deadLettered = new Promise(resolve => registry.once('message_dead_lettered', resolve));
+    await broker.publish('xcomponent:PaymentComponent', message);
+    await deadLettered;
+  };
+
+  beforeEach(() => {
+    broker = new InMemoryMessageBroker();
+    store = new InMemoryDeadLetterStore();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await registry?.dispose();
+    jest.restoreAllMocks();
+  });
+
+  it('should retry only the failing instances with exponential backoff', async () => {
+    expect(resolveRetryPolicy({ initialDelayMs: 5 }, payment({ maxAttempts: 5 })))
+      .toEqual({ maxAttempts: 5, initialDelayMs: 5, backoffFactor: 2, maxDelayMs: 30000 });
+    expect([1, 2, 3, 4].map(retry => retryDelay({ maxAttempts: 5, initialDelayMs: 100, backoffFactor: 3, maxDelayMs: 1000 }, retry)))
+      .toEqual([100, 300, 900, 1000]);
+
+    await setup();
+    const ok = runtime.createInstance('Payment', {});
+    const flaky = runtime.createInstance('Payment', {});
+    const sendEvent = runtime.sendEvent.bind(runtime);
+    let failures = 2;
+    const sent = jest.spyOn(runtime, 'sendEvent').mockImplementation(async (instanceId, event) => {
+      if (instanceId === flaky && failures-- > 0) {
+        throw new Error('gateway timeout');
+      }
+      return sendEvent(instanceId, event);
+    });
+    const retries: any[] = [];
+    registry.on('message_retry', retry => retries.push(retry));
+
+    await broker.publish('xcomponent:PaymentComponent', message);
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect(sent.mock.calls.map(([instanceId]) => instanceId)).toEqual([ok, flaky, flaky, flaky]);
+    expect(retries.map(r => [r.attempt, r.delayMs, r.failures])).toEqual([
+      [2, 5, [{ instanceId: flaky, error: 'gateway timeout' }]],
+      [3, 10, [{ instanceId: flaky, error: 'gateway timeout' }]],
+    ]);
+    expect(runtime.getInstance(flaky)!.currentState).toBe('Captured');
+    expect(await registry.listDeadLetters()).toEqual([]);
+  });
+
+  it('should dead-letter the message once the attempts are exhausted', async () => {
+    await setup(payment({ maxAttempts: 2 }));
+    const id = runtime.createInstance('Payment', {});
+    jest.spyOn(runtime, 'sendEvent').mockRejectedValue(new Error('mailbox full'));
+    const published: DeadLetter[] = [];
+    broker.subscribe(deadLetterChannel('PaymentComponent'), deadLetter => {
+      published.push(deadLetter);
+    });
+
+    await deliver();
+    await new Promise(resolve => setImmediate(resolve));
+
+    const [deadLetter] = await registry.listDeadLetters('PaymentComponent');
+    expect(deadLetter).toMatchObject({
+      componentName: 'PaymentComponent',
+      message,
+      reason: `${id}: mailbox full`,
+      attempts: 2,
+      instanceIds: [id],
+    });
+    expect(published).toEqual([deadLetter]);
+    expect(await registry.listDeadLetters('OrderComponent')).toEqual([]);
+  });
+
+  it('should retry and dead-letter the broadcasts delivered in memory', async () => {
+    await setup(payment({ maxAttempts: 2 }));
+    const flaky = runtime.createInstance('Payment', {});
+    const broken = runtime.createInstance('Payment', {});
+    const sendEvent = runtime.sendEvent.bind(runtime);
+    let failures = 1;
+    jest.spyOn(runtime, 'sendEvent').mockImplementation(async (instanceId, event) => {
+      if (instanceId === broken || (instanceId === flaky && failures-- > 0)) {
+        throw new Error('gateway timeout');
+      }
+      return sendEvent(instanceId, event);
+    });
+
+    const count = await registry.broadcastToComponent('PaymentComponent', 'Payment', message.event, 'OrderComponent', undefined, 'Pending');
+
+    expect(count).toBe(1);
+    expect(runtime.getInstance(flaky)!.currentState).toBe('Captured');
+    const [deadLetter] = await registry.listDeadLetters('PaymentComponent');
+    expect(deadLetter).toMatchObject({ instanceIds: [broken], reason: `${broken}: gateway timeout`, attempts: 2 });
+  });
+
+  it('should replay a dead letter on the instances that failed it', async () => {
+    await setup(payment({ maxAttempts: 1 }));
+    const id = runtime.createInstance('Payment', {});
+    const other = runtime.createInstance('Payment', {});
+    const sendEvent = runtime.sendEvent.bind(runtime);
+    let down = true;
+    const sent = jest.spyOn(runtime, 'sendEvent').mockImplementation(async (instanceId, event) => {
+      if (instanceId === id && down) {
+        throw new Error('ledger unavailable');
+      }
+      return sendEvent(instanceId, event);
+    });
+    await deliver();
+    const [deadLetter] = await registry.listDeadLetters();
+
+    // Still failing: kept, with the new attempt
+    const failed = await registry.replayDeadLetter(deadLetter.id);
+    expect(failed).toMatchObject({ id: deadLetter.id, attempts: 2, firstFailedAt: deadLetter.firstFailedAt });
+    expect(await registry.getDeadLetter(deadLetter.id)).toEqual(failed);
+
+    down = false;
+    sent.mockClear();
+    const replayed = jest.fn();
+    registry.on('dead_letter_replayed', replayed);
+    expect(await registry.replayDeadLetter(deadLetter.id)).toBeNull();
+    expect(sent.mock.calls.map(([instanceId]) => instanceId)).toEqual([id]);
+    expect(runtime.getInstance(id)!.currentState).toBe('Captured');
+    expect(runtime.getInstance(other)!.currentState).toBe('Captured');
+    expect(replayed).toHaveBeenCalledWith({ id: deadLetter.id, componentName: 'PaymentComponent' });
+    expect(await registry.listDeadLetters()).toEqual([]);
+    await expect(registry.replayDeadLetter(deadLetter.id)).rejects.toThrow(`Dead letter ${deadLetter.id} not found`);
+  });
+
+  it('should route an unroutable message anew on replay, and discard dead letters', async () => {
+    await setup(payment({ maxAttempts: 1 }));
+    const id = runtime.createInstance('Payment', {});
+    jest.spyOn(runtime, 'getAllInstances').mockImplementationOnce(() => {
+      throw new Error('index rebuilding');
+    });
+    await deliver();
+    const [unroutable] = await registry.listDeadLetters();
+    expect(unroutable).toMatchObject({ reason: 'index rebuilding', attempts: 1 });
+    expect(unroutable.instanceIds).toBeUndefined();
+
+    expect(await registry.replayDeadLetter(unroutable.id)).toBeNull();
+    expect(runtime.getInstance(id)!.currentState).toBe('Captured');
+
+    jest.spyOn(runtime, 'sendEvent').mockRejectedValue(new Error('mailbox full'));
+    runtime.createInstance('Payment', {});
+    await deliver();
+    const [deadLetter] = await registry.listDeadLetters();
+    const discarded = jest.fn();
+    registry.on('dead_letter_discarded', discarded);
+    expect(await registry.discardDeadLetter(deadLetter.id)).toBe(true);
+    expect(await registry.discardDeadLetter(deadLetter.id)).toBe(false);
+    expect(discarded).toHaveBeenCalledTimes(1);
+    expect(await registry.listDeadLetters()).toEqual([]);
+  });
+
+  it('should requeue a nacked RabbitMQ message once, then drop it', async () => {
+    const channel = {
+      assertQueue: jest.fn(),
+      bindQueue: jest.fn(),
+      consume: jest.fn(),
+      ack: jest.fn(),
+      nack: jest.fn(),
+    };
+    const rabbit = new RabbitMQMessageBroker('amqp://localhost');
+    // Stand-in for a connected channel (no RabbitMQ here)
+    Object.assign(rabbit, { connected: true, subscribeChannel: channel });
+    let fail = true;
+    await rabbit.subscribe('PaymentComponent', async () => {
+      if (fail) throw new Error('not now');
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const consume = channel.consume.mock.calls[0][1];
+    const msg = (redelivered: boolean) => ({ content: Buffer.from(JSON.stringify(message)), fields: { redelivered } });
+
+    const first = msg(false);
+    await consume(first);
+    expect(channel.nack).toHaveBeenLastCalledWith(first, false, true);
+    const again = msg(true);
+    await consume(again);
+    expect(channel.nack).toHaveBeenLastCalledWith(again, false, false);
+
+    fail = false;
+    const ok = msg(false);
+    await consume(ok);
+    expect(channel.ack).toHaveBeenCalledWith(ok);
+    expect(channel.ack).toHaveBeenCalledTimes(1);
+  });
+
+  it('should redeliver a message nacked by a NATS JetStream handler', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.replaceProperty(NatsMessageBroker as any, 'NAK_DELAY_MS', 5);
+    const server = new LocalNatsServer();
+    const nats = new NatsMessageBroker('nats://localhost:4222', { connect: server.connect });
+    await nats.connect(1);
+    const deliveries: number[] = [];
+    await nats.subscribe('PaymentComponent', async () => {
+      deliveries.push(Date.now());
+      if (deliveries.length < 3) throw new Error('not now');
+    });
+
+    await nats.publish('xcomponent:PaymentComponent', message);
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect(deliveries).toHaveLength(3);
+    const jsm = await (await server.connect()).jetstreamManager();
+    expect(await jsm.consumers.info('XCOMPONENT', 'xcomponent-PaymentComponent'))
+      .toMatchObject({ num_pending: 0, num_ack_pending: 0 });
+    await nats.disconnect();
+    await server.shutdown();
+  });
+});
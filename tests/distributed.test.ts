@@ -8,7 +8,7 @@
 
 import { InMemoryMessageBroker, createMessageBroker } from '../src/message-broker';
 import { FSMRuntime } from '../src/fsm-runtime';
-import { Component, StateType, TransitionType } from '../src/types';
+import { Component, InstanceSnapshot, StateType, TransitionType } from '../src/types';
 
 // Mock amqplib (virtual module - not installed)
 const mockChannel = {
@@ -255,6 +255,50 @@ describe('PostgresEventStore', () => {
     });
   });
 
+  test('should append causal links with a single update', async () => {
+    const { PostgresEventStore } = await import('../src/postgres-persistence');
+    const store = new PostgresEventStore({
+      connectionString: 'postgresql://localhost:5432/test',
+    });
+
+    await store.initialize();
+    mockPool.query.mockClear();
+    await store.appendCausalLink('event-1', 'event-2');
+
+    expect(mockPool.query).toHaveBeenCalledTimes(1);
+    const [query, params] = mockPool.query.mock.calls[0];
+    expect(query).toContain('UPDATE fsm_events');
+    expect(params).toEqual(['event-1', 'event-2']);
+  });
+
+  test('should reject a stale expected version on the unique version index', async () => {
+    const { PostgresEventStore } = await import('../src/postgres-persistence');
+    const { ConcurrencyConflictError } = await import('../src/persistence');
+    const store = new PostgresEventStore({
+      connectionString: 'postgresql://localhost:5432/test',
+    });
+
+    await store.initialize();
+    mockPool.query.mockRejectedValueOnce(
+      Object.assign(new Error('duplicate key'), { code: '23505', constraint: 'idx_fsm_events_instance_version' })
+    );
+
+    const append = store.append({
+      id: 'event-3',
+      instanceId: 'instance-1',
+      machineName: 'TestMachine',
+      componentName: 'TestComponent',
+      event: { type: 'TEST', payload: {}, timestamp: Date.now() },
+      stateBefore: 'Initial',
+      stateAfter: 'Processing',
+      persistedAt: Date.now(),
+    }, 1);
+
+    await expect(append).rejects.toBeInstanceOf(ConcurrencyConflictError);
+    const [, params] = mockPool.query.mock.calls[mockPool.query.mock.calls.length - 1];
+    expect(params[15]).toBe(2);
+  });
+
   test('should get events for instance', async () => {
     const { PostgresEventStore } = await import('../src/postgres-persistence');
     const store = new PostgresEventStore({
@@ -266,6 +310,44 @@ describe('PostgresEventStore', () => {
     expect(Array.isArray(events)).toBe(true);
   });
 
+  test('should order events by version rather than by clock', async () => {
+    const { PostgresEventStore } = await import('../src/postgres-persistence');
+    const store = new PostgresEventStore({
+      connectionString: 'postgresql://localhost:5432/test',
+    });
+
+    await store.initialize();
+    mockPool.query.mockClear();
+    await store.getEventsForInstance('instance-1');
+    await store.getEventsByTimeRange(0, Date.now());
+    await store.getCausedEvents('event-1');
+
+    const [instanceQuery, rangeQuery, causedQuery] = mockPool.query.mock.calls.map(([query]) => query);
+    expect(instanceQuery).toContain('ORDER BY version ASC NULLS FIRST, persisted_at ASC');
+    expect(rangeQuery).toContain('ORDER BY persisted_at ASC, version ASC');
+    expect(causedQuery).toContain('ORDER BY persisted_at ASC, version ASC');
+  });
+
+  test('should read all events in pages', async () => {
+    const { PostgresEventStore } = await import('../src/postgres-persistence');
+    const store = new PostgresEventStore({
+      connectionString: 'postgresql://localhost:5432/test',
+    });
+    const row = (i: number) => ({ id: `event-${i}`, instance_id: 'instance-1', event_type: 'TEST', persisted_at: String(i) });
+
+    await store.initialize();
+    mockPool.query.mockClear();
+    mockPool.query
+      .mockResolvedValueOnce({ rows: Array.from({ length: 10000 }, (_, i) => row(i)) })
+      .mockResolvedValueOnce({ rows: [row(10000), row(10001)] });
+
+    const events = await store.getAllEvents();
+
+    expect(events).toHaveLength(10002);
+    expect(events[10001].id).toBe('event-10001');
+    expect(mockPool.query.mock.calls.map(([, params]) => params)).toEqual([[10000, 0], [10000, 10000]]);
+  });
+
   test('should get events by time range', async () => {
     const { PostgresEventStore } = await import('../src/postgres-persistence');
     const store = new PostgresEventStore({
@@ -338,6 +420,66 @@ describe('PostgresSnapshotStore', () => {
     expect(snapshot).toBeFalsy();
   });
 
+  test('should restore the whole instance of a snapshot', async () => {
+    const { PostgresSnapshotStore } = await import('../src/postgres-persistence');
+    const store = new PostgresSnapshotStore({
+      connectionString: 'postgresql://localhost:5432/test',
+    });
+    const snapshot: InstanceSnapshot = {
+      instance: {
+        id: 'instance-1',
+        machineName: 'TestMachine',
+        currentState: 'Processing',
+        regionStates: { Payment: 'Paid', Shipping: 'Packing' },
+        history: { Processing: 'Payment' },
+        scheduledEvents: [{
+          id: 'schedule-1',
+          instanceId: 'instance-1',
+          event: { type: 'REMIND', payload: {}, timestamp: 1 },
+          fireAt: 2000,
+          scheduledAt: 1000,
+        }],
+        timeoutDeadlines: { 'Processing:TIMEOUT': { deadlineAt: 5000, timeoutMs: 4000 } },
+        version: 3,
+        definitionVersion: '2.0.0',
+        context: { value: 42 },
+        publicMember: { Id: 7 },
+        createdAt: 1000,
+        updatedAt: 1500,
+        status: 'active',
+        isEntryPoint: true,
+      },
+      snapshotAt: 1600,
+      lastEventId: 'event-3',
+      version: 3,
+      pendingTimeouts: [{ stateKey: 'Processing', eventType: 'TIMEOUT', remainingMs: 3400 }],
+    };
+
+    await store.initialize();
+    mockPool.query.mockClear();
+    await store.saveSnapshot(snapshot);
+
+    // Row as pg returns it (JSONB parsed, BIGINT as string)
+    const [, params] = mockPool.query.mock.calls[0];
+    mockPool.query.mockResolvedValueOnce({
+      rows: [{
+        instance_id: params[0],
+        machine_name: params[1],
+        current_state: params[2],
+        context: JSON.parse(params[3]),
+        pending_timeouts: JSON.parse(params[5]),
+        created_at: params[6],
+        history: JSON.parse(params[7]),
+        version: params[8],
+        instance: JSON.parse(params[9]),
+        last_event_id: params[10],
+        snapshot_at: String(params[11]),
+        updated_at: new Date(),
+      }],
+    });
+    expect(await store.getSnapshot('instance-1')).toEqual(snapshot);
+  });
+
   test('should get all snapshots', async () => {
     const { PostgresSnapshotStore } = await import('../src/postgres-persistence');
     const store = new PostgresSnapshotStore({
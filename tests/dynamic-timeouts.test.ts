@@ -0,0 +1,127 @@
+/**
+ * Dynamic Timeout Tests
+ * Tests timeout durations computed from instance data (timeoutExpr, timeoutFromContext, deadlineAt)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { Component, StateType, Transition, TransitionType } from '../src/types';
+
+describe('Dynamic Timeouts', () => {
+  const componentWith = (timeout: Partial<Transition>): Component => ({
+    name: 'SlaComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Ticket',
+        initialState: 'Open',
+        states: [
+          { name: 'Open', type: StateType.ENTRY },
+          { name: 'Waiting', type: StateType.REGULAR },
+          { name: 'Breached', type: StateType.FINAL },
+          { name: 'Resolved', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Open', to: 'Waiting', event: 'ASSIGN', type: TransitionType.REGULAR },
+          { from: 'Waiting', to: 'Breached', event: 'SLA_BREACHED', type: TransitionType.TIMEOUT, ...timeout },
+          { from: 'Waiting', to: 'Resolved', event: 'RESOLVE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  });
+
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  const assign = (runtime: FSMRuntime, id: string) =>
+    runtime.sendEvent(id, { type: 'ASSIGN', payload: {}, timestamp: Date.now() });
+
+  const runtimes: FSMRuntime[] = [];
+  const createRuntime = (timeout: Partial<Transition>, persistence?: any) => {
+    const runtime = new FSMRuntime(componentWith(timeout), persistence);
+    runtimes.push(runtime);
+    return runtime;
+  };
+
+  afterEach(() => {
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+  });
+
+  it('should compute the duration with timeoutExpr on state entry', async () => {
+    const runtime = createRuntime({ timeoutExpr: 'context.slaSeconds * 1000' });
+    const fast = runtime.createInstance('Ticket', { slaSeconds: 0.05 });
+    const slow = runtime.createInstance('Ticket', { slaSeconds: 60 });
+    await assign(runtime, fast);
+    await assign(runtime, slow);
+
+    await wait(150);
+    expect(runtime.getInstance(fast)).toBeUndefined();
+    expect(runtime.getInstance(slow)!.currentState).toBe('Waiting');
+  });
+
+  it('should read the duration from a context property', async () => {
+    const runtime = createRuntime({ timeoutFromContext: 'sla.ms' });
+    const id = runtime.createInstance('Ticket', { sla: { ms: 50 } });
+    await assign(runtime, id);
+
+    await wait(150);
+    expect(runtime.getInstance(id)).toBeUndefined();
+  });
+
+  it('should fire at an absolute deadline', async () => {
+    const runtime = createRuntime({ deadlineAt: 'context.expiresAt' });
+    const id = runtime.createInstance('Ticket', { expiresAt: new Date(Date.now() + 50).toISOString() });
+    await assign(runtime, id);
+
+    expect(runtime.getInstance(id)!.currentState).toBe('Waiting');
+    await wait(150);
+    expect(runtime.getInstance(id)).toBeUndefined();
+  });
+
+  it('should report the computed deadline in pending timeouts', async () => {
+    const expiresAt = Date.now() + 60_000;
+    const runtime = createRuntime({ deadlineAt: 'context.expiresAt' });
+    const id = runtime.createInstance('Ticket', { expiresAt });
+    await assign(runtime, id);
+
+    const [pending] = runtime.getPendingTimeouts(id);
+    expect(pending).toMatchObject({ event: 'SLA_BREACHED', deadlineAt: expiresAt, targetState: 'Breached' });
+    expect(pending.remainingMs).toBeGreaterThan(59_000);
+    expect(pending.totalMs).toBeGreaterThanOrEqual(pending.remainingMs);
+  });
+
+  it('should skip the timeout when the value is unusable', async () => {
+    const runtime = createRuntime({ timeoutFromContext: 'slaMs' });
+    const errors: any[] = [];
+    runtime.on('timeout_error', data => errors.push(data));
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const id = runtime.createInstance('Ticket', {});
+    await assign(runtime, id);
+    errorSpy.mockRestore();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ instanceId: id, state: 'Waiting', event: 'SLA_BREACHED' });
+    expect(errors[0].error).toContain('not a valid duration');
+    expect(runtime.getPendingTimeouts(id)).toEqual([]);
+  });
+
+  it('should re-evaluate computed timeouts after restore()', async () => {
+    const persistence = { eventSourcing: true, snapshots: true, snapshotInterval: 1 };
+    const runtime1 = createRuntime({ timeoutExpr: 'context.slaMs' }, persistence);
+    const id = runtime1.createInstance('Ticket', { slaMs: 100 });
+    await assign(runtime1, id);
+    runtime1.dispose();
+
+    const manager = runtime1.getPersistenceManager()!;
+    const runtime2 = createRuntime({ timeoutExpr: 'context.slaMs' }, {
+      ...persistence,
+      eventStore: manager.getEventStore(),
+      snapshotStore: manager.getSnapshotStore(),
+    });
+    await runtime2.restore();
+
+    const [pending] = runtime2.getPendingTimeouts(id);
+    expect(pending.remainingMs).toBeLessThanOrEqual(100);
+
+    await wait(200);
+    expect(runtime2.getInstance(id)).toBeUndefined();
+  });
+});
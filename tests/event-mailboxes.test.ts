@@ -0,0 +1,223 @@
+/**
+ * Event Mailbox Tests
+ * Tests per-instance mailboxes (run-to-completion, concurrency limits, queue metrics)
+ */
+
+import { FSMRuntime, MailboxFullError } from '../src/fsm-runtime';
+import { ComponentRegistry } from '../src/component-registry';
+import { Component, RuntimeOptions, StateType, TransitionType } from '../src/types';
+
+describe('Event Mailboxes', () => {
+  const component: Component = {
+    name: 'TradingComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Pending',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY },
+          { name: 'Priced', type: StateType.REGULAR },
+          { name: 'Confirmed', type: StateType.REGULAR },
+        ],
+        transitions: [
+          { from: 'Pending', to: 'Priced', event: 'PRICE', type: TransitionType.REGULAR, triggeredMethod: 'price' },
+          { from: 'Priced', to: 'Confirmed', event: 'CONFIRM', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  /**
+   * Promise released from the test, to hold a handler mid-transition
+   */
+  const gate = () => {
+    let open!: () => void;
+    const opened = new Promise<void>(resolve => { open = resolve; });
+    return { opened, open };
+  };
+
+  const runtimes: FSMRuntime[] = [];
+  const createRuntime = (options?: RuntimeOptions) => {
+    const runtime = new FSMRuntime(component, undefined, options);
+    runtimes.push(runtime);
+    return runtime;
+  };
+
+  afterEach(() => {
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+  });
+
+  const send = (runtime: FSMRuntime, id: string, type: string) =>
+    runtime.sendEvent(id, { type, payload: {}, timestamp: Date.now() });
+
+  it('should let other instances progress while one transition is in progress', async () => {
+    const runtime = createRuntime();
+    const pricing = gate();
+    runtime.registerHandlers({
+      price: async (_event, context) => {
+        if (context.slow) await pricing.opened;
+      },
+    });
+
+    const slow = runtime.createInstance('Order', { slow: true });
+    const fast = runtime.createInstance('Order', { slow: false });
+
+    const slowDone = send(runtime, slow, 'PRICE');
+    await send(runtime, fast, 'PRICE');
+    await send(runtime, fast, 'CONFIRM');
+
+    expect(runtime.getInstance(fast)!.currentState).toBe('Confirmed');
+    expect(runtime.getInstance(slow)!.currentState).toBe('Pending');
+
+    pricing.open();
+    await slowDone;
+    expect(runtime.getInstance(slow)!.currentState).toBe('Priced');
+  });
+
+  it('should run the events of one instance to completion in FIFO order', async () => {
+    const runtime = createRuntime();
+    const pricing = gate();
+    runtime.registerHandlers({ price: () => pricing.opened });
+
+    const changes: string[] = [];
+    runtime.on('state_change', data => changes.push(data.newState));
+
+    const id = runtime.createInstance('Order', {});
+    const priced = send(runtime, id, 'PRICE');
+    const confirmed = send(runtime, id, 'CONFIRM');
+    expect(runtime.getQueueDepth(id)).toBe(1);
+
+    pricing.open();
+    await Promise.all([priced, confirmed]);
+
+    expect(changes).toEqual(['Priced', 'Confirmed']);
+    expect(runtime.getQueueDepth(id)).toBe(0);
+  });
+
+  it('should hold instances back beyond maxConcurrentInstances', async () => {
+    const runtime = createRuntime({ maxConcurrentInstances: 1 });
+    const pricing = gate();
+    const started: string[] = [];
+    runtime.registerHandlers({
+      price: async (_event, context) => {
+        started.push(context.name);
+        await pricing.opened;
+      },
+    });
+
+    const first = runtime.createInstance('Order', { name: 'first' });
+    const second = runtime.createInstance('Order', { name: 'second' });
+    const done = Promise.all([send(runtime, first, 'PRICE'), send(runtime, second, 'PRICE')]);
+
+    expect(started).toEqual(['first']);
+    expect(runtime.getStats()).toMatchObject({
+      activeMailboxes: 2,
+      processingInstances: 1,
+      waitingInstances: 1,
+      queuedEvents: 1,
+    });
+
+    pricing.open();
+    await done;
+    expect(started).toEqual(['first', 'second']);
+    expect(runtime.getStats()).toMatchObject({ activeMailboxes: 0, processingInstances: 0, waitingInstances: 0 });
+  });
+
+  it('should not hold back events sent from a transition at the limit', async () => {
+    const runtime = createRuntime({ maxConcurrentInstances: 1 });
+    const other = runtime.createInstance('Order', {});
+    runtime.registerHandlers({
+      price: async (_event, context) => {
+        // Awaited while this transition holds the only slot
+        if (context.forward) await runtime.sendEvent(other, { type: 'PRICE', payload: {}, timestamp: Date.now() });
+      },
+    });
+
+    const id = runtime.createInstance('Order', { forward: true });
+    await send(runtime, id, 'PRICE');
+
+    expect(runtime.getInstance(other)!.currentState).toBe('Priced');
+  });
+
+  it('should reject sends once the mailbox is full', async () => {
+    const runtime = createRuntime({ maxQueueDepth: 1 });
+    const pricing = gate();
+    runtime.registerHandlers({ price: () => pricing.opened });
+
+    const id = runtime.createInstance('Order', {});
+    const priced = send(runtime, id, 'PRICE');
+    const confirmed = send(runtime, id, 'CONFIRM');
+
+    await expect(send(runtime, id, 'CONFIRM')).rejects.toThrow(MailboxFullError);
+    expect(runtime.getStats().rejectedEvents).toBe(1);
+
+    pricing.open();
+    await Promise.all([priced, confirmed]);
+    expect(runtime.getInstance(id)!.currentState).toBe('Confirmed');
+  });
+
+  it('should count processed and failed events', async () => {
+    const runtime = createRuntime();
+    const id = runtime.createInstance('Order', {});
+
+    await send(runtime, id, 'PRICE');
+    await expect(send(runtime, 'missing', 'PRICE')).rejects.toThrow('Instance missing not found');
+
+    expect(runtime.getStats()).toEqual({
+      instances: 1,
+      activeMailboxes: 0,
+      processingInstances: 0,
+      waitingInstances: 0,
+      queuedEvents: 0,
+      largestQueueDepth: 0,
+      processedEvents: 1,
+      failedEvents: 1,
+      rejectedEvents: 0,
+      duplicateEvents: 0,
+    });
+  });
+
+  it('should deliver broadcasts to instances concurrently', async () => {
+    const runtime = createRuntime();
+    const pricing = gate();
+    let inProgress = 0;
+    runtime.registerHandlers({
+      price: async () => {
+        inProgress++;
+        await pricing.opened;
+      },
+    });
+
+    runtime.createInstance('Order', {});
+    runtime.createInstance('Order', {});
+    runtime.createInstance('Order', {});
+
+    const broadcast = runtime.broadcastEvent('Order', { type: 'PRICE', payload: {}, timestamp: Date.now() }, 'Pending');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(inProgress).toBe(3);
+
+    pricing.open();
+    expect(await broadcast).toBe(3);
+  });
+
+  it('should report queued events in registry stats', async () => {
+    const runtime = createRuntime();
+    const pricing = gate();
+    runtime.registerHandlers({ price: () => pricing.opened });
+
+    const registry = new ComponentRegistry();
+    registry.registerComponent(component, runtime);
+
+    const id = runtime.createInstance('Order', {});
+    const done = Promise.all([send(runtime, id, 'PRICE'), send(runtime, id, 'CONFIRM')]);
+
+    const stats = registry.getStats();
+    expect(stats.totalQueuedEvents).toBe(1);
+    expect(stats.components[0]).toMatchObject({ name: 'TradingComponent', queuedEvents: 1 });
+
+    pricing.open();
+    await done;
+    await registry.dispose();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * File Persistence Tests
+ * Tests the JSONL segment event store (rotation, reopen, tail recovery, fsync policy) and the snapshot file store
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FSMRuntime } from '../src/fsm-runtime';
+import { ConcurrencyConflictError } from '../src/persistence';
+import { FileEventStore, FileSnapshotStore, FileStoreConfig } from '../src/file-persistence';
+import { Component, FSMEvent, PersistedEvent, StateType, TransitionType } from '../src/types';
+
+describe('File Persistence', () => {
+  const component: Component = {
+    name: 'OrderComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Pending',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY },
+          { name: 'Executed', type: StateType.REGULAR },
+          { name: 'Completed', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Pending', to: 'Executed', event: 'EXECUTE', type: TransitionType.REGULAR },
+          { from: 'Executed', to: 'Completed', event: 'COMPLETE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const event = (type: string, payload: Record<string, any> = {}): FSMEvent => ({ type, payload, timestamp: Date.now() });
+
+  const persistedEvent = (id: string, overrides: Partial<PersistedEvent> = {}): PersistedEvent => ({
+    id,
+    instanceId: 'order-1',
+    machineName: 'Order',
+    componentName: 'OrderComponent',
+    event: event('EXECUTE', { orderId: 'A-1' }),
+    stateBefore: 'Pending',
+    stateAfter: 'Executed',
+    persistedAt: Date.now(),
+    ...overrides,
+  });
+
+  let directory: string;
+  const stores: Array<FileEventStore | FileSnapshotStore> = [];
+  const runtimes: FSMRuntime[] = [];
+
+  const openEventStore = (config: Partial<FileStoreConfig> = {}) => {
+    const store = new FileEventStore({ directory, ...config });
+    stores.push(store);
+    return store;
+  };
+
+  const lastSegment = () => {
+    const files = fs.readdirSync(directory).filter(file => file.endsWith('.jsonl')).sort();
+    return path.join(directory, files[files.length - 1]);
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'xcomponent-files-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+    for (const store of stores.splice(0)) {
+      await store.close();
+    }
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('FileEventStore', () => {
+    it('should rotate segments and read events back after reopening', async () => {
+      const store = openEventStore({ segmentMaxBytes: 600 });
+      for (let i = 1; i <= 6; i++) {
+        await store.append(persistedEvent(`e${i}`, { instanceId: `order-${i % 2}`, version: Math.ceil(i / 2) }));
+      }
+
+      const segments = await store.getSegments();
+      expect(segments.length).toBeGreaterThan(1);
+      expect(segments.reduce((sum, s) => sum + s.events, 0)).toBe(6);
+      await store.close();
+
+      const reopened = openEventStore({ segmentMaxBytes: 600 });
+      expect((await reopened.getEventsForInstance('order-1')).map(e => e.id)).toEqual(['e1', 'e3', 'e5']);
+      expect((await reopened.getAllEvents()).map(e => e.id)).toEqual(['e1', 'e2', 'e3', 'e4', 'e5', 'e6']);
+      expect(await reopened.getSegments()).toEqual(segments);
+    });
+
+    it('should check expected versions against the events already on disk', async () => {
+      const store = openEventStore();
+      await store.append(persistedEvent('e1', { version: 1 }), 0);
+      await store.append(persistedEvent('e2', { version: 2 }), 1);
+      await store.close();
+
+      const reopened = openEventStore();
+      const stale = reopened.append(persistedEvent('e3', { version: 2 }), 1);
+      await expect(stale).rejects.toBeInstanceOf(ConcurrencyConflictError);
+      await expect(stale).rejects.toMatchObject({ expectedVersion: 1, actualVersion: 2 });
+      await reopened.append(persistedEvent('e3', { version: 3 }), 2);
+      expect((await reopened.getEventsForInstance('order-1')).map(e => e.version)).toEqual([1, 2, 3]);
+    });
+
+    it('should persist causal links appended after the parent event', async () => {
+      const store = openEventStore();
+      await store.append(persistedEvent('root'));
+      await store.append(persistedEvent('child', { instanceId: 'shipment-1', causedBy: ['root'] }));
+      await store.appendCausalLink('root', 'child');
+      await store.appendCausalLink('root', 'child');
+      await store.close();
+
+      const reopened = openEventStore();
+      expect((await reopened.getEventsForInstance('order-1'))[0].caused).toEqual(['child']);
+      expect((await reopened.getCausedEvents('root')).map(e => e.id)).toEqual(['child']);
+      expect((await reopened.traceEvent('root')).map(e => e.id)).toEqual(['root', 'child']);
+      expect((await reopened.getSegments())[0].events).toBe(2);
+    });
+
+    it('should truncate a torn tail left by a crash', async () => {
+      const store = openEventStore();
+      await store.append(persistedEvent('e1'));
+      await store.close();
+      const intact = fs.statSync(lastSegment()).size;
+      fs.appendFileSync(lastSegment(), '{"id":"e2","instanceId":"ord');
+
+      const reopened = openEventStore();
+      expect((await reopened.getAllEvents()).map(e => e.id)).toEqual(['e1']);
+      expect(reopened.recoveredBytes).toBeGreaterThan(0);
+      expect(fs.statSync(lastSegment()).size).toBe(intact);
+
+      await reopened.append(persistedEvent('e2'));
+      expect((await reopened.getAllEvents()).map(e => e.id)).toEqual(['e1', 'e2']);
+    });
+
+    it('should leave the files untouched when opened read-only', async () => {
+      const store = openEventStore();
+      await store.append(persistedEvent('e1'));
+      await store.close();
+      fs.appendFileSync(lastSegment(), '{"id":"e2"');
+      const size = fs.statSync(lastSegment()).size;
+
+      const reader = openEventStore({ readOnly: true });
+      expect((await reader.getAllEvents()).map(e => e.id)).toEqual(['e1']);
+      await expect(reader.append(persistedEvent('e3'))).rejects.toThrow('read-only');
+      expect(fs.statSync(lastSegment()).size).toBe(size);
+    });
+
+    it('should fsync every append with the "always" policy only', async () => {
+      // The module object itself (the namespace import is not configurable)
+      const fsync = jest.spyOn(jest.requireActual<typeof fs>('fs'), 'fsyncSync');
+
+      const always = openEventStore({ fsync: 'always' });
+      await always.append(persistedEvent('e1'));
+      await always.append(persistedEvent('e2'));
+      expect(fsync).toHaveBeenCalledTimes(2);
+      await always.close();
+
+      fsync.mockClear();
+      const never = openEventStore({ fsync: 'never' });
+      await never.append(persistedEvent('e3'));
+      expect(fsync).not.toHaveBeenCalled();
+      never.flush();
+      expect(fsync).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('FileSnapshotStore', () => {
+    it('should replace snapshots and list them by machine and state', async () => {
+      const store = new FileSnapshotStore({ directory });
+      stores.push(store);
+      const snapshot = (id: string, currentState: string) => ({
+        instance: { id, machineName: 'Order', currentState, context: {}, createdAt: 1, updatedAt: 1, status: 'active' as const },
+        snapshotAt: Date.now(),
+        lastEventId: 'e1',
+      });
+
+      await store.saveSnapshot(snapshot('order/1', 'Pending'));
+      await store.saveSnapshot(snapshot('order/1', 'Executed'));
+      await store.saveSnapshot(snapshot('order-2', 'Pending'));
+
+      expect((await store.getSnapshot('order/1'))!.instance.currentState).toBe('Executed');
+      expect(await store.getSnapshotsByMachine('Order')).toHaveLength(2);
+      expect((await store.getSnapshotsByState('Pending')).map(s => s.instance.id)).toEqual(['order-2']);
+
+      await store.deleteSnapshot('order/1');
+      expect(await store.getSnapshot('order/1')).toBeNull();
+    });
+  });
+
+  it('should plug into PersistenceConfig and restore after a restart', async () => {
+    const createRuntime = () => {
+      const eventStore = openEventStore();
+      const snapshotStore = new FileSnapshotStore({ directory });
+      stores.push(snapshotStore);
+      const runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, eventStore, snapshotStore });
+      runtimes.push(runtime);
+      return { runtime, eventStore };
+    };
+
+    const { runtime: runtime1, eventStore } = createRuntime();
+    const id = runtime1.createInstance('Order', { orderId: 'A-1' });
+    await runtime1.sendEvent(id, event('EXECUTE', { qty: 5 }));
+    runtime1.dispose();
+    await eventStore.close();
+
+    const { runtime: runtime2 } = createRuntime();
+    const report = await runtime2.restore();
+
+    expect(report.restored).toBe(1);
+    expect(runtime2.getInstance(id)).toMatchObject({ currentState: 'Executed', context: { orderId: 'A-1', qty: 5 }, version: 2 });
+    await runtime2.sendEvent(id, event('COMPLETE'));
+    expect((await runtime2.getInstanceHistory(id)).map(e => e.version)).toEqual([1, 2, 3]);
+  });
+});
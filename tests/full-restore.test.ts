@@ -0,0 +1,265 @@
+/**
+ * Full Restore Tests
+ * Tests restore() from snapshot + event tail replay (indexes, entry points, restore report)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { ComponentRegistry } from '../src/component-registry';
+import { InMemoryEventStore, InMemorySnapshotStore } from '../src/persistence';
+import { Component, FSMEvent, PersistedEvent, PersistenceConfig, StateType, TransitionType } from '../src/types';
+
+describe('Full Restore', () => {
+  const component: Component = {
+    name: 'OrderComponent',
+    version: '1.0.0',
+    entryMachine: 'Desk',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Pending',
+        publicMemberType: 'Order',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY },
+          { name: 'Executed', type: StateType.REGULAR },
+          { name: 'Confirmed', type: StateType.REGULAR },
+          { name: 'Completed', type: StateType.FINAL },
+        ],
+        transitions: [
+          {
+            from: 'Pending',
+            to: 'Executed',
+            event: 'ExecutionInput',
+            type: TransitionType.REGULAR,
+            matchingRules: [{ eventProperty: 'OrderId', instanceProperty: 'Id' }],
+          },
+          { from: 'Executed', to: 'Confirmed', event: 'CONFIRM', type: TransitionType.REGULAR },
+          { from: 'Confirmed', to: 'Completed', event: 'COMPLETE', type: TransitionType.REGULAR },
+        ],
+      },
+      {
+        name: 'Desk',
+        initialState: 'Closed',
+        states: [
+          { name: 'Closed', type: StateType.ENTRY },
+          { name: 'Open', type: StateType.REGULAR },
+        ],
+        transitions: [
+          { from: 'Closed', to: 'Open', event: 'OPEN', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const event = (type: string, payload: Record<string, any> = {}): FSMEvent => ({ type, payload, timestamp: Date.now() });
+
+  const runtimes: FSMRuntime[] = [];
+  const createRuntime = (persistence: PersistenceConfig) => {
+    const runtime = new FSMRuntime(component, persistence);
+    runtimes.push(runtime);
+    return runtime;
+  };
+
+  /**
+   * New runtime sharing the stores of the previous one (simulated restart)
+   */
+  const restart = (previous: FSMRuntime, persistence: PersistenceConfig) => {
+    const manager = previous.getPersistenceManager()!;
+    return createRuntime({
+      ...persistence,
+      eventStore: manager.getEventStore(),
+      snapshotStore: manager.getSnapshotStore(),
+    });
+  };
+
+  afterEach(() => {
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+  });
+
+  it('should replay the events persisted after the last snapshot', async () => {
+    const persistence = { eventSourcing: true, snapshots: true, snapshotInterval: 1 };
+    const runtime1 = createRuntime(persistence);
+    const id = runtime1.createInstance('Order', { Id: 1 });
+    await runtime1.broadcastEvent('Order', event('ExecutionInput', { OrderId: 1 }));
+    const snapshotStore = runtime1.getPersistenceManager()!.getSnapshotStore();
+    const snapshot = await snapshotStore.getSnapshot(id);
+    await runtime1.sendEvent(id, event('CONFIRM', { confirmedBy: 'ops' }));
+
+    // Stopped before the snapshot of the last transition was saved
+    await snapshotStore.saveSnapshot(snapshot!);
+
+    const runtime2 = restart(runtime1, persistence);
+    const report = await runtime2.restore();
+
+    expect(runtime2.getInstance(id)).toMatchObject({
+      currentState: 'Confirmed',
+      publicMember: { Id: 1, confirmedBy: 'ops' },
+    });
+    expect(report.machines.Order).toMatchObject({ restored: 1, fromSnapshot: 1, replayedEvents: 1 });
+  });
+
+  it('should rebuild instances without snapshot from their events', async () => {
+    const persistence = { eventSourcing: true, snapshots: true, snapshotInterval: 100 };
+    const runtime1 = createRuntime(persistence);
+    const first = runtime1.createInstance('Order', { Id: 1 });
+    const second = runtime1.createInstance('Order', { Id: 2 });
+    await runtime1.broadcastEvent('Order', event('ExecutionInput', { OrderId: 2 }));
+
+    const runtime2 = restart(runtime1, persistence);
+    const report = await runtime2.restore();
+
+    expect(runtime2.getInstance(first)).toMatchObject({ currentState: 'Pending', publicMember: { Id: 1 } });
+    expect(runtime2.getInstance(second)!.currentState).toBe('Executed');
+    expect(report).toMatchObject({ restored: 2, failed: 0, replayedEvents: 1 });
+    expect(report.machines.Order).toMatchObject({ fromEvents: 2, states: { Pending: 1, Executed: 1 } });
+  });
+
+  it('should restore instances whose events come after the whole-stream read cap of the store', async () => {
+    /**
+     * Store capping getAllEvents() like the PostgreSQL and Redis stores used to
+     */
+    class CappedEventStore extends InMemoryEventStore {
+      async getAllEvents(): Promise<PersistedEvent[]> {
+        return (await super.getAllEvents()).slice(0, 10000);
+      }
+    }
+    const persistence = {
+      eventSourcing: true,
+      snapshots: true,
+      snapshotInterval: 1,
+      eventStore: new CappedEventStore(),
+      snapshotStore: new InMemorySnapshotStore(),
+    };
+    const runtime1 = createRuntime(persistence);
+    const id = runtime1.createInstance('Order', { Id: 1 });
+    await runtime1.broadcastEvent('Order', event('ExecutionInput', { OrderId: 1 }));
+    const snapshotStore = persistence.snapshotStore;
+    const snapshot = await snapshotStore.getSnapshot(id);
+
+    // Another component's events fill the first 10000 rows
+    for (let i = 0; i < 10000; i++) {
+      await persistence.eventStore.append({
+        id: `other-${i}`,
+        instanceId: `other-${i % 10}`,
+        machineName: 'Other',
+        componentName: 'OtherComponent',
+        event: event('TICK'),
+        stateBefore: 'Idle',
+        stateAfter: 'Idle',
+        persistedAt: Date.now(),
+      });
+    }
+    await runtime1.sendEvent(id, event('CONFIRM', { confirmedBy: 'ops' }));
+    await snapshotStore.saveSnapshot(snapshot!);
+    const late = runtime1.createInstance('Order', { Id: 2 });
+
+    const runtime2 = restart(runtime1, persistence);
+    const report = await runtime2.restore();
+
+    expect(runtime2.getInstance(id)!.currentState).toBe('Confirmed');
+    expect(runtime2.getInstance(late)).toMatchObject({ currentState: 'Pending', publicMember: { Id: 2 } });
+    expect(report.machines.Order).toMatchObject({ restored: 2, replayedEvents: 1 });
+  });
+
+  it('should index restored instances for broadcasts and property matching', async () => {
+    const persistence = { eventSourcing: true, snapshots: true, snapshotInterval: 1 };
+    const runtime1 = createRuntime(persistence);
+    const first = runtime1.createInstance('Order', { Id: 1 });
+    const second = runtime1.createInstance('Order', { Id: 2 });
+
+    const runtime2 = restart(runtime1, persistence);
+    await runtime2.restore();
+
+    expect(await runtime2.broadcastEvent('Order', event('ExecutionInput', { OrderId: 2 }))).toBe(1);
+    expect(runtime2.getInstance(first)!.currentState).toBe('Pending');
+    expect(runtime2.getInstance(second)!.currentState).toBe('Executed');
+  });
+
+  it('should not restore instances that reached a final state', async () => {
+    const persistence = { eventSourcing: true, snapshots: true, snapshotInterval: 100 };
+    const runtime1 = createRuntime(persistence);
+    const id = runtime1.createInstance('Order', { Id: 1 });
+    await runtime1.broadcastEvent('Order', event('ExecutionInput', { OrderId: 1 }));
+    await runtime1.sendEvent(id, event('CONFIRM'));
+    await runtime1.sendEvent(id, event('COMPLETE'));
+
+    const runtime2 = restart(runtime1, persistence);
+    const report = await runtime2.restore();
+
+    expect(runtime2.getInstance(id)).toBeUndefined();
+    expect(report.restored).toBe(0);
+  });
+
+  it('should only resynchronize the timeouts of the instances it restored', async () => {
+    const timed: Component = {
+      ...component,
+      stateMachines: component.stateMachines.map(machine => machine.name !== 'Order' ? machine : {
+        ...machine,
+        states: [...machine.states, { name: 'Expired', type: StateType.FINAL }],
+        transitions: [
+          ...machine.transitions,
+          { from: 'Pending', to: 'Expired', event: 'EXPIRE', type: TransitionType.TIMEOUT, timeoutMs: 60_000 },
+        ],
+      }),
+    };
+    const persistence = { eventSourcing: true, snapshots: true, snapshotInterval: 1 };
+    const runtime1 = new FSMRuntime(timed, persistence);
+    runtimes.push(runtime1);
+    const stored = runtime1.createInstance('Order', { Id: 1 });
+
+    const manager = runtime1.getPersistenceManager()!;
+    const runtime2 = new FSMRuntime(timed, {
+      ...persistence, eventStore: manager.getEventStore(), snapshotStore: manager.getSnapshotStore(),
+    });
+    runtimes.push(runtime2);
+    const live = runtime2.createInstance('Order', { Id: 2 });
+    const resynchronize = jest.spyOn(runtime2, 'resynchronizeTimeouts');
+    await runtime2.restore({ filter: instance => instance.id === stored });
+
+    expect(resynchronize).toHaveBeenCalledWith([stored]);
+    // The timer of the live instance is not armed twice
+    const timeoutTasks = (runtime2 as any).timeoutTasks;
+    expect(timeoutTasks.get(live)).toHaveLength(1);
+    expect(timeoutTasks.get(stored)).toHaveLength(1);
+  });
+
+  describe('Entry points', () => {
+    const persistence = { eventSourcing: true, snapshots: true, snapshotInterval: 1 };
+
+    const openDesk = async () => {
+      const registry = new ComponentRegistry();
+      const runtime = createRuntime(persistence);
+      registry.registerComponent(component, runtime);
+      const desk = runtime.getInstancesByMachine('Desk')[0];
+      await runtime.sendEvent(desk.id, event('OPEN'));
+      return { runtime, desk };
+    };
+
+    it('should replace the entry point created at registration', async () => {
+      const { runtime: runtime1, desk } = await openDesk();
+
+      const registry = new ComponentRegistry();
+      const runtime2 = restart(runtime1, persistence);
+      registry.registerComponent(component, runtime2);
+      const report = await runtime2.restore();
+
+      const desks = runtime2.getInstancesByMachine('Desk');
+      expect(desks).toHaveLength(1);
+      expect(desks[0]).toMatchObject({ id: desk.id, currentState: 'Open', isEntryPoint: true });
+      expect(report.machines.Desk.entryPointsReconciled).toBe(1);
+    });
+
+    it('should keep the entry point restored before registration', async () => {
+      const { runtime: runtime1, desk } = await openDesk();
+
+      const registry = new ComponentRegistry();
+      const restored: any[] = [];
+      registry.on('entry_point_restored', data => restored.push(data));
+      const runtime2 = restart(runtime1, persistence);
+      await runtime2.restore();
+      registry.registerComponent(component, runtime2);
+
+      expect(runtime2.getInstancesByMachine('Desk').map(i => i.id)).toEqual([desk.id]);
+      expect(restored).toEqual([{ componentName: 'OrderComponent', machineName: 'Desk', instanceId: desk.id }]);
+    });
+  });
+});
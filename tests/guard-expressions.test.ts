@@ -0,0 +1,218 @@
+/**
+ * Guard Expression Tests
+ * Tests declarative guards on transitions and the safe expression language
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { compileGuard, evaluateGuard, validateGuard, GuardExpressionError, GUARD_CACHE_SIZE } from '../src/guard-expression';
+import { Component, StateType, TransitionType } from '../src/types';
+
+describe('Guard Expressions', () => {
+  describe('Expression language', () => {
+    const scope = {
+      event: { type: 'SUBMIT', payload: { kyc: 'OK', amount: 15000, tags: ['vip'] } },
+      context: { amount: 12000, customer: { tier: 'gold' }, limits: [100, 200] },
+    };
+
+    it('should evaluate comparisons and logical operators', () => {
+      expect(evaluateGuard("context.amount > 10000 && event.payload.kyc == 'OK'", scope)).toBe(true);
+      expect(evaluateGuard("context.amount > 20000 || event.payload.kyc != 'OK'", scope)).toBe(false);
+      expect(evaluateGuard('!(context.amount <= 10000)', scope)).toBe(true);
+    });
+
+    it('should support arithmetic, nested access and literals', () => {
+      expect(evaluateGuard('event.payload.amount - context.amount === 3000', scope)).toBe(true);
+      expect(evaluateGuard("context['customer'].tier === \"gold\"", scope)).toBe(true);
+      expect(evaluateGuard('context.limits[1] % 3 == 2', scope)).toBe(true);
+      expect(evaluateGuard("context.customer.tier in ['gold', 'platinum']", scope)).toBe(true);
+      expect(evaluateGuard("'vip' in event.payload.tags", scope)).toBe(true);
+    });
+
+    it('should treat missing properties as undefined', () => {
+      expect(evaluateGuard('context.missing.deeper === undefined', scope)).toBe(true);
+      expect(evaluateGuard('unknown.value', scope)).toBe(false);
+    });
+
+    it('should not expose prototype properties', () => {
+      expect(evaluateGuard('context.constructor', scope)).toBe(false);
+      expect(evaluateGuard("context['__proto__']", scope)).toBe(false);
+      expect(evaluateGuard('context.toString', scope)).toBe(false);
+    });
+
+    it('should report the roots referenced by an expression', () => {
+      const compiled = compileGuard('context.a > 1 && event.payload.b');
+      expect(Array.from(compiled.roots).sort()).toEqual(['context', 'event']);
+    });
+
+    it('should reject invalid syntax', () => {
+      expect(() => compileGuard('context.amount >')).toThrow(GuardExpressionError);
+      expect(() => compileGuard("event.payload.kyc == 'OK")).toThrow(GuardExpressionError);
+      expect(() => compileGuard('context.amount = 1')).toThrow(GuardExpressionError);
+    });
+
+    it('should validate identifiers', () => {
+      expect(validateGuard('context.amount > 1')).toEqual([]);
+      expect(validateGuard('window.alert')).toHaveLength(1);
+      expect(validateGuard('(')).toHaveLength(1);
+    });
+
+    it('should evict the least recently used compiled guards', () => {
+      const kept = compileGuard('context.kept === 1');
+      const evicted = compileGuard('context.evicted === 1');
+      for (let n = 0; n < GUARD_CACHE_SIZE - 1; n++) {
+        compileGuard(`context.n === ${n}`);
+        if (n === 0) expect(compileGuard('context.kept === 1')).toBe(kept);
+      }
+      expect(compileGuard('context.kept === 1')).toBe(kept);
+      expect(compileGuard('context.evicted === 1')).not.toBe(evicted);
+    });
+  });
+
+  describe('Runtime integration', () => {
+    const paymentComponent: Component = {
+      name: 'PaymentComponent',
+      version: '1.0.0',
+      stateMachines: [
+        {
+          name: 'Payment',
+          initialState: 'Pending',
+          states: [
+            { name: 'Pending', type: StateType.ENTRY },
+            { name: 'ManualReview', type: StateType.REGULAR },
+            { name: 'Approved', type: StateType.FINAL },
+            { name: 'Rejected', type: StateType.FINAL },
+          ],
+          transitions: [
+            {
+              from: 'Pending',
+              to: 'ManualReview',
+              event: 'SUBMIT',
+              type: TransitionType.REGULAR,
+              guard: "context.amount > 10000 && event.payload.kyc == 'OK'",
+            },
+            {
+              from: 'Pending',
+              to: 'Rejected',
+              event: 'SUBMIT',
+              type: TransitionType.REGULAR,
+              guard: "event.payload.kyc == 'KO'",
+            },
+            {
+              from: 'Pending',
+              to: 'Approved',
+              event: 'APPROVE',
+              type: TransitionType.REGULAR,
+              guard: 'context.amount <= 10000',
+            },
+            {
+              from: 'ManualReview',
+              to: 'Approved',
+              event: 'APPROVE',
+              type: TransitionType.REGULAR,
+            },
+          ],
+        },
+      ],
+    };
+
+    let runtime: FSMRuntime;
+
+    beforeEach(() => {
+      runtime = new FSMRuntime(paymentComponent);
+    });
+
+    afterEach(() => {
+      runtime.dispose();
+    });
+
+    it('should take the transition whose guard passes', async () => {
+      const id = runtime.createInstance('Payment', { amount: 50000 });
+
+      await runtime.sendEvent(id, { type: 'SUBMIT', payload: { kyc: 'OK' }, timestamp: Date.now() });
+
+      expect(runtime.getInstance(id)?.currentState).toBe('ManualReview');
+    });
+
+    it('should emit guard_rejected and record history when all guards fail', async () => {
+      const id = runtime.createInstance('Payment', { amount: 500 });
+      const rejections: any[] = [];
+      const ignored: any[] = [];
+      runtime.on('guard_rejected', data => rejections.push(data));
+      runtime.on('event_ignored', data => ignored.push(data));
+
+      await runtime.sendEvent(id, { type: 'SUBMIT', payload: { kyc: 'OK' }, timestamp: Date.now() });
+
+      expect(runtime.getInstance(id)?.currentState).toBe('Pending');
+      expect(ignored).toHaveLength(0);
+      expect(rejections).toHaveLength(1);
+      expect(rejections[0].currentState).toBe('Pending');
+      expect(rejections[0].guards.map((g: any) => g.to)).toEqual(['ManualReview', 'Rejected']);
+
+      const history = await runtime.getInstanceHistory(id);
+      const entry = history.find(e => e.event.type === 'GUARD_REJECTED');
+      expect(entry).toBeDefined();
+      expect(entry!.stateBefore).toBe('Pending');
+      expect(entry!.stateAfter).toBe('Pending');
+      expect(entry!.event.payload.event).toBe('SUBMIT');
+    });
+
+    it('should prefer a passing guarded transition over an unguarded one', async () => {
+      const component: Component = {
+        name: 'Fallback',
+        version: '1.0.0',
+        stateMachines: [
+          {
+            name: 'Check',
+            initialState: 'Start',
+            states: [
+              { name: 'Start', type: StateType.ENTRY },
+              { name: 'Big', type: StateType.FINAL },
+              { name: 'Small', type: StateType.FINAL },
+            ],
+            transitions: [
+              { from: 'Start', to: 'Small', event: 'EVAL', type: TransitionType.REGULAR },
+              { from: 'Start', to: 'Big', event: 'EVAL', type: TransitionType.REGULAR, guard: 'event.payload.value > 100' },
+            ],
+          },
+        ],
+      };
+      const fallbackRuntime = new FSMRuntime(component);
+
+      const big = fallbackRuntime.createInstance('Check', {});
+      const small = fallbackRuntime.createInstance('Check', {});
+      const states: Record<string, string> = {};
+      fallbackRuntime.on('state_change', data => { states[data.instanceId] = data.newState; });
+
+      await fallbackRuntime.sendEvent(big, { type: 'EVAL', payload: { value: 500 }, timestamp: Date.now() });
+      await fallbackRuntime.sendEvent(small, { type: 'EVAL', payload: { value: 5 }, timestamp: Date.now() });
+
+      expect(states[big]).toBe('Big');
+      expect(states[small]).toBe('Small');
+      fallbackRuntime.dispose();
+    });
+
+    it('should evaluate guards in simulatePath with an initial context', () => {
+      const events = [{ type: 'SUBMIT', payload: { kyc: 'OK' }, timestamp: Date.now() }];
+
+      const review = runtime.simulatePath('Payment', events, { amount: 20000 });
+      expect(review.success).toBe(true);
+      expect(review.path).toEqual(['Pending', 'ManualReview']);
+
+      const rejected = runtime.simulatePath('Payment', events, { amount: 100 });
+      expect(rejected.success).toBe(false);
+      expect(rejected.error).toContain('Guard rejected SUBMIT');
+    });
+
+    it('should filter available transitions by guard', () => {
+      const small = runtime.createInstance('Payment', { amount: 500 });
+      const large = runtime.createInstance('Payment', { amount: 50000 });
+
+      // Context-only guards are evaluated, event guards are kept without payload
+      expect(runtime.getAvailableTransitions(small).map(t => t.to)).toEqual(['ManualReview', 'Rejected', 'Approved']);
+      expect(runtime.getAvailableTransitions(large).map(t => t.to)).toEqual(['ManualReview', 'Rejected']);
+
+      // With a payload, event guards are evaluated too
+      expect(runtime.getAvailableTransitions(large, { kyc: 'KO' }).map(t => t.to)).toEqual(['Rejected']);
+    });
+  });
+});
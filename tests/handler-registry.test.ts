@@ -0,0 +1,208 @@
+/**
+ * Handler Registry Tests
+ * Tests awaited handlers registered with runtime.registerHandlers()
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { Component, StateType, TransitionType } from '../src/types';
+
+describe('Handler Registry (registerHandlers)', () => {
+  const component: Component = {
+    name: 'PaymentComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Payment',
+        initialState: 'Pending',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY, onExit: 'leavePending' },
+          { name: 'Authorized', type: StateType.REGULAR, onEntry: 'enterAuthorized' },
+          { name: 'Captured', type: StateType.FINAL },
+        ],
+        transitions: [
+          {
+            from: 'Pending',
+            to: 'Authorized',
+            event: 'AUTHORIZE',
+            type: TransitionType.REGULAR,
+            triggeredMethod: 'authorize',
+          },
+          { from: 'Authorized', to: 'Captured', event: 'CAPTURE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  let runtime: FSMRuntime;
+
+  beforeEach(() => {
+    runtime = new FSMRuntime(component);
+  });
+
+  afterEach(() => {
+    runtime.dispose();
+  });
+
+  const authorize = () => ({ type: 'AUTHORIZE', payload: { amount: 100 }, timestamp: Date.now() });
+
+  it('should await handlers in onExit, triggeredMethod, onEntry order', async () => {
+    const calls: string[] = [];
+    const delay = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    runtime.registerHandlers({
+      leavePending: async (_event, _context, _sender, invocation) => {
+        await delay();
+        calls.push(`${invocation.hook}:${invocation.method}`);
+      },
+      authorize: async (_event, _context, _sender, invocation) => {
+        await delay();
+        calls.push(`${invocation.hook}:${invocation.method}`);
+      },
+      enterAuthorized: async (_event, _context, _sender, invocation) => {
+        await delay();
+        calls.push(`${invocation.hook}:${invocation.method}`);
+      },
+    });
+    runtime.on('state_change', () => calls.push('state_change'));
+
+    const id = runtime.createInstance('Payment', {});
+    await runtime.sendEvent(id, authorize());
+
+    expect(calls).toEqual([
+      'onExit:leavePending',
+      'triggeredMethod:authorize',
+      'onEntry:enterAuthorized',
+      'state_change',
+    ]);
+  });
+
+  it('should keep emitting hook events for observers', async () => {
+    const observed: string[] = [];
+    runtime.registerHandlers({ authorize: async () => undefined });
+    runtime.on('exit_method', data => observed.push(`exit:${data.method}`));
+    runtime.on('triggered_method', data => observed.push(`triggered:${data.method}`));
+    runtime.on('entry_method', data => observed.push(`entry:${data.method}`));
+
+    const id = runtime.createInstance('Payment', {});
+    await runtime.sendEvent(id, authorize());
+
+    expect(observed).toEqual(['exit:leavePending', 'triggered:authorize', 'entry:enterAuthorized']);
+  });
+
+  it('should merge context patches returned by handlers', async () => {
+    runtime.registerHandlers({
+      authorize: async event => ({ contextPatch: { authorizedAmount: event.payload.amount } }),
+      // Later handlers see patches from earlier ones
+      enterAuthorized: async (_event, context) => ({ contextPatch: { authorizationCode: 'A-1', seenAmount: context.authorizedAmount } }),
+    });
+
+    const id = runtime.createInstance('Payment', { orderId: 'O-1' });
+    await runtime.sendEvent(id, authorize());
+
+    const instance = runtime.getInstance(id)!;
+    expect(instance.currentState).toBe('Authorized');
+    expect(instance.context).toMatchObject({ orderId: 'O-1', authorizedAmount: 100, authorizationCode: 'A-1', seenAmount: 100 });
+  });
+
+  it('should roll back state and context when a handler vetoes', async () => {
+    const vetoes: any[] = [];
+    const changes: any[] = [];
+    runtime.on('transition_vetoed', data => vetoes.push(data));
+    runtime.on('state_change', data => changes.push(data));
+    runtime.registerHandlers({
+      authorize: async (_event, context) => {
+        context.mutatedInPlace = true;
+        return { contextPatch: { partial: true } };
+      },
+      enterAuthorized: async () => ({ veto: true, reason: 'Limit exceeded' }),
+    });
+
+    const id = runtime.createInstance('Payment', { orderId: 'O-1' });
+    await runtime.sendEvent(id, authorize());
+
+    const instance = runtime.getInstance(id)!;
+    expect(instance.currentState).toBe('Pending');
+    expect(instance.status).toBe('active');
+    expect(instance.context).toEqual({ orderId: 'O-1' });
+    expect(changes).toHaveLength(0);
+    expect(vetoes).toHaveLength(1);
+    expect(vetoes[0]).toMatchObject({ hook: 'onEntry', method: 'enterAuthorized', reason: 'Limit exceeded', targetState: 'Authorized' });
+    expect(runtime.getInstancesByMachine('Payment')).toHaveLength(1);
+  });
+
+  it('should roll back instead of deleting the instance when a handler throws', async () => {
+    const errors: any[] = [];
+    const instanceErrors: any[] = [];
+    runtime.on('handler_error', data => errors.push(data));
+    runtime.on('instance_error', data => instanceErrors.push(data));
+    runtime.registerHandlers({
+      authorize: async () => {
+        throw new Error('Gateway unavailable');
+      },
+    });
+
+    const id = runtime.createInstance('Payment', { orderId: 'O-1' });
+    await runtime.sendEvent(id, authorize());
+
+    const instance = runtime.getInstance(id);
+    expect(instance).toBeDefined();
+    expect(instance!.currentState).toBe('Pending');
+    expect(instance!.context).toEqual({ orderId: 'O-1' });
+    expect(instanceErrors).toHaveLength(0);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ hook: 'triggeredMethod', method: 'authorize', error: 'Gateway unavailable' });
+
+    // The instance can still process events once the handler recovers
+    runtime.registerHandlers({ authorize: async () => undefined });
+    await runtime.sendEvent(id, authorize());
+    expect(runtime.getInstance(id)!.currentState).toBe('Authorized');
+  });
+
+  it('should move to the configured errorState when a handler throws', async () => {
+    const withErrorState: Component = {
+      ...component,
+      stateMachines: [
+        {
+          ...component.stateMachines[0],
+          errorState: 'Failed',
+          states: [...component.stateMachines[0].states, { name: 'Failed', type: StateType.ERROR }],
+        },
+      ],
+    };
+    const errorRuntime = new FSMRuntime(withErrorState);
+    const changes: string[] = [];
+    errorRuntime.on('state_change', data => changes.push(`${data.previousState}->${data.newState}`));
+    errorRuntime.registerHandlers({
+      enterAuthorized: async () => {
+        throw new Error('Ledger write failed');
+      },
+    });
+
+    const id = errorRuntime.createInstance('Payment', {});
+    await errorRuntime.sendEvent(id, authorize());
+
+    const instance = errorRuntime.getInstance(id)!;
+    expect(instance.currentState).toBe('Failed');
+    expect(instance.status).toBe('error');
+    expect(changes).toEqual(['Pending->Failed']);
+
+    const history = await errorRuntime.getInstanceHistory(id);
+    expect(history[history.length - 1].event.type).toBe('HANDLER_ERROR');
+    errorRuntime.dispose();
+  });
+
+  it('should not deadlock when a handler sends to its own instance', async () => {
+    runtime.registerHandlers({
+      enterAuthorized: async (_event, _context, sender) => {
+        await sender.sendToSelf({ type: 'CAPTURE', payload: {}, timestamp: Date.now() });
+      },
+    });
+    const disposed: string[] = [];
+    runtime.on('instance_disposed', instance => disposed.push(instance.id));
+
+    const id = runtime.createInstance('Payment', {});
+    await runtime.sendEvent(id, authorize());
+
+    expect(disposed).toEqual([id]);
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Hierarchical State Tests
+ * Tests composite states (substates, inherited transitions and timeouts)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { StateHierarchy } from '../src/state-hierarchy';
+import { generateMermaidDiagram, computeReachableStates, detectTerminalStates } from '../src/mermaid-generator';
+import { Component, StateMachine, StateType, TransitionType } from '../src/types';
+
+describe('Hierarchical States', () => {
+  const orderMachine: StateMachine = {
+    name: 'Order',
+    initialState: 'Active',
+    states: [
+      {
+        name: 'Active',
+        type: StateType.ENTRY,
+        onEntry: 'enterActive',
+        onExit: 'exitActive',
+        initialSubstate: 'Pending',
+        substates: [
+          { name: 'Pending', type: StateType.REGULAR, onEntry: 'enterPending', onExit: 'exitPending' },
+          {
+            name: 'Executing',
+            type: StateType.REGULAR,
+            onExit: 'exitExecuting',
+            substates: [
+              { name: 'PartiallyFilled', type: StateType.REGULAR, onExit: 'exitPartiallyFilled' },
+              { name: 'Filled', type: StateType.REGULAR },
+            ],
+          },
+        ],
+      },
+      { name: 'Cancelled', type: StateType.FINAL, onEntry: 'enterCancelled' },
+      { name: 'Expired', type: StateType.FINAL },
+    ],
+    transitions: [
+      { from: 'Pending', to: 'Executing', event: 'EXECUTE', type: TransitionType.REGULAR },
+      { from: 'PartiallyFilled', to: 'Filled', event: 'FILL', type: TransitionType.REGULAR },
+      { from: 'Filled', to: 'Pending', event: 'RESET', type: TransitionType.REGULAR },
+      { from: 'Active', to: 'Cancelled', event: 'CANCEL', type: TransitionType.REGULAR },
+      { from: 'Active', to: 'Active', event: 'RESTART', type: TransitionType.REGULAR },
+      // Overrides the inherited CANCEL while filled
+      { from: 'Filled', to: 'Filled', event: 'CANCEL', type: TransitionType.REGULAR },
+    ],
+  };
+
+  const component: Component = {
+    name: 'TradingComponent',
+    version: '1.0.0',
+    stateMachines: [orderMachine],
+  };
+
+  let runtime: FSMRuntime;
+
+  beforeEach(() => {
+    runtime = new FSMRuntime(component);
+  });
+
+  afterEach(() => {
+    runtime.dispose();
+  });
+
+  const send = (id: string, type: string) => runtime.sendEvent(id, { type, payload: {}, timestamp: Date.now() });
+
+  describe('StateHierarchy', () => {
+    const hierarchy = new StateHierarchy(orderMachine);
+
+    it('should resolve paths and initial leaves', () => {
+      expect(hierarchy.getPath('PartiallyFilled')).toEqual(['PartiallyFilled', 'Executing', 'Active']);
+      expect(hierarchy.resolveLeaf('Active')).toBe('Pending');
+      expect(hierarchy.resolveLeaf('Executing')).toBe('PartiallyFilled');
+      expect(hierarchy.getParent('Active')).toBeUndefined();
+    });
+
+    it('should compute exited and entered states', () => {
+      expect(hierarchy.getTransitionPath('PartiallyFilled', 'Active', 'Cancelled')).toEqual({
+        exited: ['PartiallyFilled', 'Executing', 'Active'],
+        entered: ['Cancelled'],
+        targetLeaf: 'Cancelled',
+      });
+      expect(hierarchy.getTransitionPath('Filled', 'Filled', 'Pending')).toEqual({
+        exited: ['Filled', 'Executing'],
+        entered: ['Pending'],
+        targetLeaf: 'Pending',
+      });
+      expect(hierarchy.getTransitionPath('Filled', 'Active', 'Active')).toEqual({
+        exited: ['Filled', 'Executing', 'Active'],
+        entered: ['Active', 'Pending'],
+        targetLeaf: 'Pending',
+      });
+    });
+
+    it('should report definition problems', () => {
+      const invalid: StateMachine = {
+        name: 'Broken',
+        initialState: 'A',
+        states: [
+          {
+            name: 'A',
+            type: StateType.FINAL,
+            initialSubstate: 'Missing',
+            substates: [{ name: 'B', type: StateType.REGULAR }],
+          },
+          { name: 'B', type: StateType.REGULAR },
+        ],
+        transitions: [],
+      };
+
+      expect(StateHierarchy.validate(invalid)).toEqual([
+        'State "A": initialSubstate "Missing" is not one of its substates',
+        'State "A": composite states cannot be final',
+        'Duplicate state name "B" (state names must be unique across nesting levels)',
+      ]);
+      expect(StateHierarchy.validate(orderMachine)).toEqual([]);
+    });
+  });
+
+  describe('Runtime', () => {
+    it('should start in the initial leaf state', () => {
+      const id = runtime.createInstance('Order', {});
+      expect(runtime.getInstance(id)!.currentState).toBe('Pending');
+    });
+
+    it('should enter composite targets through their initial substate', async () => {
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'EXECUTE');
+      expect(runtime.getInstance(id)!.currentState).toBe('PartiallyFilled');
+    });
+
+    it('should apply transitions declared on a parent to every nested state', async () => {
+      const pending = runtime.createInstance('Order', {});
+      const executing = runtime.createInstance('Order', {});
+      await send(executing, 'EXECUTE');
+
+      const disposed: string[] = [];
+      runtime.on('instance_disposed', instance => disposed.push(instance.id));
+
+      await send(pending, 'CANCEL');
+      await send(executing, 'CANCEL');
+
+      expect(disposed).toEqual([pending, executing]);
+    });
+
+    it('should prefer transitions of the innermost state', async () => {
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'EXECUTE');
+      await send(id, 'FILL');
+      await send(id, 'CANCEL');
+
+      const instance = runtime.getInstance(id)!;
+      expect(instance.currentState).toBe('Filled');
+      expect(instance.status).toBe('active');
+    });
+
+    it('should run onExit innermost first and onEntry outermost first', async () => {
+      const calls: string[] = [];
+      runtime.on('exit_method', data => calls.push(`exit:${data.state}`));
+      runtime.on('entry_method', data => calls.push(`entry:${data.state}`));
+
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'EXECUTE');
+      expect(calls).toEqual(['exit:Pending']);
+
+      calls.length = 0;
+      await send(id, 'RESTART');
+      expect(calls).toEqual([
+        'exit:PartiallyFilled',
+        'exit:Executing',
+        'exit:Active',
+        'entry:Active',
+        'entry:Pending',
+      ]);
+    });
+
+    it('should await registered handlers along the exit and entry chains', async () => {
+      const calls: string[] = [];
+      const record = (_event: any, _context: any, _sender: any, invocation: any) => {
+        calls.push(`${invocation.hook}:${invocation.method}`);
+      };
+      runtime.registerHandlers({
+        exitPending: record,
+        exitActive: record,
+        enterCancelled: record,
+      });
+
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'CANCEL');
+
+      expect(calls).toEqual(['onExit:exitPending', 'onExit:exitActive', 'onEntry:enterCancelled']);
+    });
+
+    it('should index instances under their leaf and enclosing states', async () => {
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'EXECUTE');
+
+      const stateIndex: Map<string, Set<string>> = (runtime as any).stateIndex;
+      expect(stateIndex.get('Order:PartiallyFilled')?.has(id)).toBe(true);
+      expect(stateIndex.get('Order:Executing')?.has(id)).toBe(true);
+      expect(stateIndex.get('Order:Active')?.has(id)).toBe(true);
+      expect(stateIndex.get('Order:Pending')?.has(id)).toBe(false);
+
+      // Broadcasting to a composite state reaches nested instances
+      const processed = await runtime.broadcastEvent(
+        'Order',
+        { type: 'FILL', payload: {}, timestamp: Date.now() },
+        'Executing'
+      );
+      expect(processed).toBe(1);
+      expect(runtime.getInstance(id)!.currentState).toBe('Filled');
+    });
+
+    it('should list inherited transitions as available', async () => {
+      const id = runtime.createInstance('Order', {});
+      expect(runtime.getAvailableTransitions(id).map(t => t.event).sort()).toEqual(['CANCEL', 'EXECUTE', 'RESTART']);
+    });
+
+    it('should simulate paths through composite states', () => {
+      expect(runtime.simulatePath('Order', [
+        { type: 'EXECUTE', payload: {}, timestamp: 0 },
+        { type: 'FILL', payload: {}, timestamp: 0 },
+        { type: 'RESET', payload: {}, timestamp: 0 },
+      ])).toEqual({ success: true, path: ['Pending', 'PartiallyFilled', 'Filled', 'Pending'] });
+    });
+  });
+
+  describe('Timeout inheritance', () => {
+    const timed: Component = {
+      name: 'TimedComponent',
+      version: '1.0.0',
+      stateMachines: [
+        {
+          name: 'Quote',
+          initialState: 'Open',
+          states: [
+            {
+              name: 'Open',
+              type: StateType.ENTRY,
+              substates: [
+                { name: 'Draft', type: StateType.REGULAR },
+                { name: 'Priced', type: StateType.REGULAR },
+              ],
+            },
+            { name: 'Expired', type: StateType.FINAL },
+          ],
+          transitions: [
+            { from: 'Draft', to: 'Priced', event: 'PRICE', type: TransitionType.REGULAR },
+            { from: 'Priced', to: 'Draft', event: 'EDIT', type: TransitionType.REGULAR },
+            { from: 'Open', to: 'Expired', event: 'EXPIRE', type: TransitionType.TIMEOUT, timeoutMs: 150 },
+          ],
+        },
+      ],
+    };
+
+    it('should keep parent timeouts running across substate changes', async () => {
+      const timedRuntime = new FSMRuntime(timed);
+      const disposed: string[] = [];
+      timedRuntime.on('instance_disposed', instance => disposed.push(instance.id));
+
+      const id = timedRuntime.createInstance('Quote', {});
+      expect(timedRuntime.getPendingTimeouts(id).map(t => t.event)).toEqual(['EXPIRE']);
+
+      await new Promise(resolve => setTimeout(resolve, 80));
+      await timedRuntime.sendEvent(id, { type: 'PRICE', payload: {}, timestamp: Date.now() });
+      await timedRuntime.sendEvent(id, { type: 'EDIT', payload: {}, timestamp: Date.now() });
+
+      // Not reset by the substate changes: fires ~150ms after entering Open
+      await new Promise(resolve => setTimeout(resolve, 120));
+      expect(disposed).toEqual([id]);
+      timedRuntime.dispose();
+    });
+  });
+
+  describe('Mermaid', () => {
+    it('should render composite states as nested blocks', () => {
+      const diagram = generateMermaidDiagram(orderMachine);
+
+      expect(diagram).toBe([
+        'stateDiagram-v2',
+        '',
+        '    [*] --> Active',
+        '',
+        '    state Active {',
+        '        [*] --> Pending',
+        '        state Executing {',
+        '            [*] --> PartiallyFilled',
+        '            PartiallyFilled --> Filled: FILL',
+        '            Filled --> Filled: CANCEL',
+        '        }',
+        '        Pending --> Executing: EXECUTE',
+        '        Filled --> Pending: RESET',
+        '    }',
+        '    Active --> Cancelled: CANCEL',
+        '    Active --> Active: RESTART',
+        '',
+      ].join('\n'));
+    });
+
+    it('should follow inherited transitions for reachability and terminal states', () => {
+      expect(Array.from(computeReachableStates(orderMachine, 'Filled')).sort()).toEqual(
+        ['Active', 'Cancelled', 'Executing', 'Filled', 'PartiallyFilled', 'Pending']
+      );
+      expect(Array.from(detectTerminalStates(orderMachine)).sort()).toEqual(['Cancelled', 'Expired']);
+    });
+  });
+});
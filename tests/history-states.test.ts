@@ -0,0 +1,230 @@
+/**
+ * History State Tests
+ * Tests shallow and deep history pseudo-states (recording, resolution, persistence)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { StateHierarchy } from '../src/state-hierarchy';
+import { generateMermaidDiagram, computeReachableStates } from '../src/mermaid-generator';
+import { Component, StateMachine, StateType, TransitionType } from '../src/types';
+
+describe('History States', () => {
+  const orderMachine: StateMachine = {
+    name: 'Order',
+    initialState: 'Active',
+    states: [
+      {
+        name: 'Active',
+        type: StateType.ENTRY,
+        substates: [
+          { name: 'ActiveHistory', type: StateType.HISTORY },
+          { name: 'Pending', type: StateType.REGULAR },
+          {
+            name: 'Executing',
+            type: StateType.REGULAR,
+            substates: [
+              { name: 'PartiallyFilled', type: StateType.REGULAR },
+              { name: 'Filled', type: StateType.REGULAR },
+            ],
+          },
+          { name: 'ActiveDeepHistory', type: StateType.DEEP_HISTORY },
+        ],
+      },
+      { name: 'Suspended', type: StateType.REGULAR, onEntry: 'enterSuspended' },
+      { name: 'Cancelled', type: StateType.FINAL },
+    ],
+    transitions: [
+      { from: 'Pending', to: 'Executing', event: 'EXECUTE', type: TransitionType.REGULAR },
+      { from: 'PartiallyFilled', to: 'Filled', event: 'FILL', type: TransitionType.REGULAR },
+      { from: 'Active', to: 'Suspended', event: 'SUSPEND', type: TransitionType.REGULAR },
+      { from: 'Suspended', to: 'ActiveHistory', event: 'RESUME', type: TransitionType.REGULAR },
+      { from: 'Suspended', to: 'ActiveDeepHistory', event: 'RESUME_DEEP', type: TransitionType.REGULAR },
+      { from: 'Active', to: 'Cancelled', event: 'CANCEL', type: TransitionType.REGULAR },
+    ],
+  };
+
+  const component: Component = {
+    name: 'TradingComponent',
+    version: '1.0.0',
+    stateMachines: [orderMachine],
+  };
+
+  let runtime: FSMRuntime;
+
+  beforeEach(() => {
+    runtime = new FSMRuntime(component);
+  });
+
+  afterEach(() => {
+    runtime.dispose();
+  });
+
+  const send = (target: FSMRuntime, id: string, type: string) =>
+    target.sendEvent(id, { type, payload: {}, timestamp: Date.now() });
+
+  describe('StateHierarchy', () => {
+    const hierarchy = new StateHierarchy(orderMachine);
+
+    it('should not enter history pseudo-states by default', () => {
+      expect(hierarchy.resolveLeaf('Active')).toBe('Pending');
+      expect(hierarchy.isHistory('ActiveHistory')).toBe(true);
+      expect(hierarchy.hasHistory('Active')).toBe(true);
+      expect(hierarchy.hasHistory('Executing')).toBe(false);
+    });
+
+    it('should resolve shallow and deep history targets', () => {
+      const history = { Active: 'Filled' };
+      expect(hierarchy.resolveTarget('ActiveHistory', history)).toBe('PartiallyFilled');
+      expect(hierarchy.resolveTarget('ActiveDeepHistory', history)).toBe('Filled');
+      // Never exited: initial substate of the composite
+      expect(hierarchy.resolveTarget('ActiveDeepHistory', undefined)).toBe('Pending');
+    });
+
+    it('should record history when leaving the composite', () => {
+      const change = hierarchy.applyTransition({ currentState: 'Filled' }, 'Filled', 'Active', 'Suspended');
+      expect(change.configuration).toEqual({ currentState: 'Suspended', history: { Active: 'Filled' } });
+    });
+
+    it('should report definition problems', () => {
+      const invalid: StateMachine = {
+        name: 'Broken',
+        initialState: 'A',
+        states: [
+          {
+            name: 'A',
+            type: StateType.REGULAR,
+            initialSubstate: 'AH',
+            substates: [
+              { name: 'AH', type: StateType.HISTORY },
+              { name: 'A1', type: StateType.REGULAR },
+            ],
+          },
+          { name: 'TopHistory', type: StateType.DEEP_HISTORY },
+        ],
+        transitions: [
+          { from: 'AH', to: 'A1', event: 'GO', type: TransitionType.REGULAR },
+        ],
+      };
+
+      expect(StateHierarchy.validate(invalid)).toEqual([
+        'State "A": initialSubstate cannot be a history state',
+        'State "TopHistory": history states must be substates of a composite state',
+        'Transition #1: history state "AH" cannot have outgoing transitions',
+      ]);
+      expect(StateHierarchy.validate(orderMachine)).toEqual([]);
+    });
+  });
+
+  describe('Runtime', () => {
+    const suspendWhileFilled = async (target: FSMRuntime): Promise<string> => {
+      const id = target.createInstance('Order', {});
+      await send(target, id, 'EXECUTE');
+      await send(target, id, 'FILL');
+      await send(target, id, 'SUSPEND');
+      return id;
+    };
+
+    it('should record the last active state on exit', async () => {
+      const id = await suspendWhileFilled(runtime);
+
+      const instance = runtime.getInstance(id)!;
+      expect(instance.currentState).toBe('Suspended');
+      expect(instance.history).toEqual({ Active: 'Filled' });
+    });
+
+    it('should re-enter the last direct substate through shallow history', async () => {
+      const id = await suspendWhileFilled(runtime);
+      await send(runtime, id, 'RESUME');
+
+      expect(runtime.getInstance(id)!.currentState).toBe('PartiallyFilled');
+    });
+
+    it('should re-enter the last leaf state through deep history', async () => {
+      const changes: any[] = [];
+      runtime.on('state_change', data => changes.push(data));
+
+      const id = await suspendWhileFilled(runtime);
+      await send(runtime, id, 'RESUME_DEEP');
+
+      expect(runtime.getInstance(id)!.currentState).toBe('Filled');
+      expect(changes[changes.length - 1]).toMatchObject({ previousState: 'Suspended', newState: 'Filled' });
+    });
+
+    it('should enter the initial substate when there is no history', async () => {
+      const bootstrap: Component = {
+        ...component,
+        stateMachines: [{ ...orderMachine, initialState: 'Suspended' }],
+      };
+      const bootstrapRuntime = new FSMRuntime(bootstrap);
+      const id = bootstrapRuntime.createInstance('Order', {});
+
+      expect(bootstrapRuntime.getAvailableTransitions(id).find(t => t.event === 'RESUME_DEEP')!.historyTarget).toBe('Pending');
+      await send(bootstrapRuntime, id, 'RESUME_DEEP');
+      expect(bootstrapRuntime.getInstance(id)!.currentState).toBe('Pending');
+      bootstrapRuntime.dispose();
+    });
+
+    it('should report history targets in available transitions', async () => {
+      const id = await suspendWhileFilled(runtime);
+
+      const available = runtime.getAvailableTransitions(id);
+      expect(available.find(t => t.event === 'RESUME')!.historyTarget).toBe('PartiallyFilled');
+      expect(available.find(t => t.event === 'RESUME_DEEP')!.historyTarget).toBe('Filled');
+    });
+
+    it('should not record history when the transition is rolled back', async () => {
+      runtime.registerHandlers({
+        enterSuspended: () => ({ veto: true, reason: 'market closed' }),
+      });
+
+      const id = runtime.createInstance('Order', {});
+      await send(runtime, id, 'EXECUTE');
+      await send(runtime, id, 'SUSPEND');
+
+      const instance = runtime.getInstance(id)!;
+      expect(instance.currentState).toBe('PartiallyFilled');
+      expect(instance.history).toBeUndefined();
+    });
+
+    it('should survive restore() through snapshots', async () => {
+      const runtime1 = new FSMRuntime(component, { snapshots: true, snapshotInterval: 1 });
+      const id = await suspendWhileFilled(runtime1);
+
+      const persistenceManager = runtime1.getPersistenceManager()!;
+      const snapshot = await persistenceManager.getSnapshotStore().getSnapshot(id);
+      expect(snapshot!.instance.history).toEqual({ Active: 'Filled' });
+
+      const runtime2 = new FSMRuntime(component, {
+        snapshots: true,
+        eventStore: persistenceManager.getEventStore(),
+        snapshotStore: persistenceManager.getSnapshotStore(),
+      });
+      await runtime2.restore();
+      await send(runtime2, id, 'RESUME_DEEP');
+
+      expect(runtime2.getInstance(id)!.currentState).toBe('Filled');
+      runtime1.dispose();
+      runtime2.dispose();
+    });
+  });
+
+  describe('Mermaid', () => {
+    it('should label history pseudo-states inside their composite', () => {
+      const diagram = generateMermaidDiagram(orderMachine);
+
+      expect(diagram).toContain([
+        '    state Active {',
+        '        [*] --> Pending',
+        '        state "H" as ActiveHistory',
+        '        state "H*" as ActiveDeepHistory',
+      ].join('\n'));
+      expect(diagram).toContain('    Suspended --> ActiveDeepHistory: RESUME_DEEP');
+    });
+
+    it('should treat every state of the composite as reachable through history', () => {
+      const reachable = computeReachableStates(orderMachine, 'Suspended');
+      expect(reachable.has('Filled')).toBe(true);
+      expect(reachable.has('ActiveHistory')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Idempotency Tests
+ * Tests event deduplication by idempotencyKey / eventId (window, persistence across restarts)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { Component, FSMEvent, StateType, TransitionType } from '../src/types';
+
+describe('Idempotent Event Delivery', () => {
+  const component: Component = {
+    name: 'TradingComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Open',
+        states: [
+          { name: 'Open', type: StateType.ENTRY },
+          { name: 'Cancelled', type: StateType.FINAL },
+        ],
+        transitions: [
+          {
+            from: 'Open',
+            to: 'Open',
+            event: 'EXECUTION',
+            type: TransitionType.REGULAR,
+            triggeredMethod: 'applyFill',
+            payloadSchema: { quantity: { type: 'number', required: true } },
+          },
+          { from: 'Open', to: 'Cancelled', event: 'CANCEL', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const fill = (quantity: any, keys: Partial<FSMEvent>): FSMEvent => ({
+    type: 'EXECUTION',
+    payload: { quantity },
+    timestamp: Date.now(),
+    ...keys,
+  });
+
+  const trackFills = (runtime: FSMRuntime) => {
+    runtime.registerHandlers({
+      applyFill: (event, context) => {
+        context.filled = (context.filled || 0) + event.payload.quantity;
+      },
+    });
+  };
+
+  let runtime: FSMRuntime;
+
+  beforeEach(() => {
+    runtime = new FSMRuntime(component);
+    trackFills(runtime);
+  });
+
+  afterEach(() => {
+    runtime.dispose();
+  });
+
+  it('should apply a redelivered event only once', async () => {
+    const duplicates: any[] = [];
+    runtime.on('duplicate_event_ignored', data => duplicates.push(data));
+
+    const id = runtime.createInstance('Order', {});
+    await runtime.sendEvent(id, fill(100, { idempotencyKey: 'fill-1' }));
+    await runtime.sendEvent(id, fill(100, { idempotencyKey: 'fill-1' }));
+    await runtime.sendEvent(id, fill(50, { idempotencyKey: 'fill-2' }));
+
+    expect(runtime.getInstance(id)!.context.filled).toBe(150);
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0]).toMatchObject({ instanceId: id, idempotencyKey: 'fill-1' });
+    expect(runtime.getStats().duplicateEvents).toBe(1);
+  });
+
+  it('should fall back to eventId and prefer idempotencyKey', async () => {
+    const id = runtime.createInstance('Order', {});
+    await runtime.sendEvent(id, fill(10, { eventId: 'msg-1' }));
+    await runtime.sendEvent(id, fill(10, { eventId: 'msg-1' }));
+    // Same business key redelivered under a new broker message ID
+    await runtime.sendEvent(id, fill(20, { eventId: 'msg-2', idempotencyKey: 'exec-7' }));
+    await runtime.sendEvent(id, fill(20, { eventId: 'msg-3', idempotencyKey: 'exec-7' }));
+
+    expect(runtime.getInstance(id)!.context.filled).toBe(30);
+  });
+
+  it('should deduplicate per instance', async () => {
+    const first = runtime.createInstance('Order', {});
+    const second = runtime.createInstance('Order', {});
+    await runtime.sendEvent(first, fill(10, { idempotencyKey: 'fill-1' }));
+    await runtime.sendEvent(second, fill(10, { idempotencyKey: 'fill-1' }));
+
+    expect(runtime.getInstance(second)!.context.filled).toBe(10);
+  });
+
+  it('should accept a retry after the event failed', async () => {
+    const id = runtime.createInstance('Order', {});
+    await expect(runtime.sendEvent(id, fill('abc', { idempotencyKey: 'fill-1' }))).rejects.toThrow('Invalid payload');
+    await runtime.sendEvent(id, fill(100, { idempotencyKey: 'fill-1' }));
+
+    expect(runtime.getInstance(id)!.context.filled).toBe(100);
+  });
+
+  it('should forget the oldest keys beyond the window', async () => {
+    const windowed = new FSMRuntime(component, undefined, { idempotencyWindow: 2 });
+    trackFills(windowed);
+
+    const id = windowed.createInstance('Order', {});
+    for (const key of ['a', 'b', 'c', 'a']) {
+      await windowed.sendEvent(id, fill(1, { idempotencyKey: key }));
+    }
+
+    expect(windowed.getInstance(id)!.context.filled).toBe(4);
+    windowed.dispose();
+  });
+
+  it('should keep deduplicating after a restart', async () => {
+    const runtime1 = new FSMRuntime(component, { eventSourcing: true, snapshots: true, snapshotInterval: 1 });
+    trackFills(runtime1);
+    const id = runtime1.createInstance('Order', {});
+    await runtime1.sendEvent(id, fill(100, { idempotencyKey: 'fill-1' }));
+
+    const persistenceManager = runtime1.getPersistenceManager()!;
+    const runtime2 = new FSMRuntime(component, {
+      eventSourcing: true,
+      snapshots: true,
+      eventStore: persistenceManager.getEventStore(),
+      snapshotStore: persistenceManager.getSnapshotStore(),
+    });
+    trackFills(runtime2);
+    await runtime2.restore();
+
+    await runtime2.sendEvent(id, fill(100, { idempotencyKey: 'fill-1' }));
+    expect(runtime2.getInstance(id)!.context.filled).toBe(100);
+    expect(runtime2.getStats().duplicateEvents).toBe(1);
+
+    runtime1.dispose();
+    runtime2.dispose();
+  });
+
+  it('should keep deduplicating a guard-rejected event after a restart', async () => {
+    const guarded: Component = {
+      ...component,
+      stateMachines: component.stateMachines.map(machine => ({
+        ...machine,
+        transitions: machine.transitions.map(transition => transition.event === 'CANCEL'
+          ? { ...transition, guard: 'event.payload.confirmed == true' }
+          : transition),
+      })),
+    };
+    const cancel: FSMEvent = { type: 'CANCEL', payload: { confirmed: false }, timestamp: Date.now(), idempotencyKey: 'cancel-1' };
+    const runtime1 = new FSMRuntime(guarded, { eventSourcing: true, snapshots: false });
+    const id = runtime1.createInstance('Order', {});
+    await runtime1.sendEvent(id, cancel);
+
+    // Ignored events change nothing: their keys are not kept
+    await runtime1.sendEvent(id, { type: 'UNKNOWN', payload: {}, timestamp: Date.now(), idempotencyKey: 'unknown-1' });
+    await runtime1.sendEvent(id, { type: 'UNKNOWN', payload: {}, timestamp: Date.now(), idempotencyKey: 'unknown-1' });
+    expect(runtime1.getStats().duplicateEvents).toBe(0);
+
+    const persistenceManager = runtime1.getPersistenceManager()!;
+    const runtime2 = new FSMRuntime(guarded, {
+      eventSourcing: true,
+      snapshots: false,
+      eventStore: persistenceManager.getEventStore(),
+      snapshotStore: persistenceManager.getSnapshotStore(),
+    });
+    await runtime2.restore();
+
+    await runtime2.sendEvent(id, cancel);
+    expect(runtime2.getStats().duplicateEvents).toBe(1);
+    expect((await runtime2.getInstanceHistory(id)).filter(e => e.event.type === 'GUARD_REJECTED')).toHaveLength(1);
+
+    runtime1.dispose();
+    runtime2.dispose();
+  });
+});
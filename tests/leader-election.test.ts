@@ -0,0 +1,270 @@
+/**
+ * Leader Election Tests
+ * Tests lease elections and failover, the elected host of singleton entry points (hand-over through the stores),
+ * the Redis and PostgreSQL lease stores, and leadership on the dashboard
+ */
+
+import { InMemoryLeaseStore, LeaderElection, LeadershipChange } from '../src/leader-election';
+import { ComponentRegistry } from '../src/component-registry';
+import { FSMRuntime } from '../src/fsm-runtime';
+import { InMemoryMessageBroker, createMessageBroker } from '../src/message-broker';
+import { InMemoryEventStore, InMemorySnapshotStore } from '../src/persistence';
+import { RedisLeaseStore } from '../src/redis-persistence';
+import { PostgresLeaseStore } from '../src/postgres-persistence';
+import { RuntimeBroadcaster } from '../src/runtime-broadcaster';
+import { DashboardChannels, DashboardServer } from '../src/dashboard-server';
+import { Component, StateType, TransitionType } from '../src/types';
+
+describe('Leader Election', () => {
+  const monitor: Component = {
+    name: 'MonitorComponent',
+    version: '1.0.0',
+    entryMachine: 'Monitor',
+    stateMachines: [
+      {
+        name: 'Monitor',
+        initialState: 'Idle',
+        states: [
+          { name: 'Idle', type: StateType.ENTRY },
+          { name: 'Watching', type: StateType.REGULAR },
+        ],
+        transitions: [{ from: 'Idle', to: 'Watching', event: 'WATCH', type: TransitionType.REGULAR }],
+      },
+    ],
+  };
+
+  const event = (type: string) => ({ type, payload: {}, timestamp: Date.now() });
+  const elapsed = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should elect one candidate, fail over once its lease expires, and step down on store errors', async () => {
+    const store = new InMemoryLeaseStore();
+    const a = new LeaderElection(store, 'reports', { candidateId: 'a', ttlMs: 40 });
+    const b = new LeaderElection(store, 'reports', { candidateId: 'b', ttlMs: 40, renewIntervalMs: 10 });
+    const changes: LeadershipChange[] = [];
+    a.on('leadership_changed', change => changes.push(change));
+    b.on('leadership_changed', change => changes.push(change));
+    expect(() => new LeaderElection(store, 'reports', { ttlMs: 40, renewIntervalMs: 40 })).toThrow('must be shorter');
+
+    // a campaigns once and never renews (as if it crashed)
+    expect(await a.campaign()).toBe(true);
+    expect(await b.start()).toBe(false);
+    expect(await a.campaign()).toBe(true);
+    expect(changes.map(c => [c.candidateId, c.isLeader])).toEqual([['a', true]]);
+
+    await elapsed(80);
+    expect(b.isLeader()).toBe(true);
+    expect(await a.campaign()).toBe(false);
+    expect(changes.map(c => [c.candidateId, c.isLeader])).toEqual([['a', true], ['b', true], ['a', false]]);
+    expect(changes[1]).toEqual({ key: 'reports', candidateId: 'b', isLeader: true, timestamp: expect.any(Number) });
+
+    // Unreachable store: steps down without throwing
+    const errors: unknown[] = [];
+    b.on('election_error', error => errors.push(error));
+    jest.spyOn(store, 'acquire').mockRejectedValueOnce(new Error('connection reset'));
+    expect(await b.campaign()).toBe(false);
+    expect(errors).toEqual([new Error('connection reset')]);
+    expect(await b.campaign()).toBe(true);
+
+    // Stopping gives the lease up at once
+    await b.stop();
+    expect(b.isLeader()).toBe(false);
+    expect(await a.campaign()).toBe(true);
+    await a.stop();
+  });
+
+  it('should host a singleton entry point on the leader only, and restore it on the new leader', async () => {
+    const leaseStore = new InMemoryLeaseStore();
+    const eventStore = new InMemoryEventStore();
+    const snapshotStore = new InMemorySnapshotStore();
+    const replica = (replicaId: string) => {
+      const registry = new ComponentRegistry(new InMemoryMessageBroker(), { replicaId, leaseStore, leaseTtlMs: 40 });
+      const runtime = new FSMRuntime(monitor, { eventSourcing: true, snapshots: true, eventStore, snapshotStore });
+      const leadership = new Promise<any>(resolve => registry.once('leadership_changed', resolve));
+      registry.registerComponent(monitor, runtime);
+      return { registry, runtime, leadership };
+    };
+    const entryPoints = (runtime: FSMRuntime) => runtime.getAllInstances().filter(instance => instance.isEntryPoint);
+
+    const a = replica('replica-a');
+    const elected = await a.leadership;
+    expect(elected).toMatchObject({ componentName: 'MonitorComponent', candidateId: 'replica-a', isLeader: true });
+    expect(entryPoints(a.runtime).map(instance => instance.id)).toEqual([elected.entryPointId]);
+    await a.registry.sendEventToComponent('MonitorComponent', elected.entryPointId, event('WATCH'));
+
+    // b campaigns in vain, and does not restore the entry point
+    const b = replica('replica-b');
+    await elapsed(30);
+    expect(b.registry.getLeaderElection('MonitorComponent')!.isLeader()).toBe(false);
+    await b.registry.restore();
+    expect(b.runtime.getAllInstances()).toEqual([]);
+
+    // a steps down: b restores the entry point as a left it
+    const deposed = new Promise<any>(resolve => a.registry.once('leadership_changed', resolve));
+    await a.registry.getLeaderElection('MonitorComponent')!.stop();
+    expect(await deposed).toMatchObject({ candidateId: 'replica-a', isLeader: false, entryPointId: elected.entryPointId });
+    expect(entryPoints(a.runtime)).toEqual([]);
+    const takenOver = await b.leadership;
+    expect(takenOver).toMatchObject({ candidateId: 'replica-b', isLeader: true, entryPointId: elected.entryPointId });
+    expect(b.runtime.getInstance(elected.entryPointId)!.currentState).toBe('Watching');
+
+    await a.registry.dispose();
+    await b.registry.dispose();
+  });
+
+  it('should release the entry point of a deposed leader once it is done with its events', async () => {
+    const leaseStore = new InMemoryLeaseStore();
+    const eventStore = new InMemoryEventStore();
+    const snapshotStore = new InMemorySnapshotStore();
+    const registry = new ComponentRegistry(new InMemoryMessageBroker(), { replicaId: 'replica-a', leaseStore, leaseTtlMs: 40 });
+    const runtime = new FSMRuntime(monitor, { eventSourcing: true, snapshots: true, eventStore, snapshotStore });
+    const elected = new Promise<any>(resolve => registry.once('leadership_changed', resolve));
+    registry.registerComponent(monitor, runtime);
+    const { entryPointId } = await elected;
+
+    // Slow store: the entry point is still processing WATCH when the leader steps down
+    const append = eventStore.append.bind(eventStore);
+    jest.spyOn(eventStore, 'append').mockImplementation(async (persisted, expectedVersion) => {
+      if (persisted.event.type === 'WATCH') {
+        await elapsed(50);
+      }
+      return append(persisted, expectedVersion);
+    });
+    let watched = false;
+    const watching = runtime.sendEvent(entryPointId, event('WATCH')).then(() => { watched = true; });
+    const deposed = new Promise<any>(resolve => registry.once('leadership_changed', resolve));
+    await registry.getLeaderElection('MonitorComponent')!.stop();
+
+    expect(await deposed).toMatchObject({ isLeader: false, entryPointId });
+    expect(watched).toBe(true);
+    expect(runtime.getInstance(entryPointId)).toBeUndefined();
+    await watching;
+    expect((await eventStore.getEventsForInstance(entryPointId)).map(e => e.event.type)).toContain('WATCH');
+
+    await registry.dispose();
+  });
+
+  it('should take and release Redis leases with scripts checking the holder', async () => {
+    const store = new RedisLeaseStore({ keyPrefix: 'app' });
+    const client = { eval: jest.fn().mockResolvedValueOnce(1).mockResolvedValueOnce(0).mockResolvedValueOnce(1) };
+    // Stand-in for a connected client (no Redis here)
+    Object.assign(store, { initialized: true, client });
+
+    expect(await store.acquire('xcomponent:leader:MonitorComponent', 'replica-a', 15000)).toBe(true);
+    expect(await store.acquire('xcomponent:leader:MonitorComponent', 'replica-b', 15000)).toBe(false);
+    await store.release('xcomponent:leader:MonitorComponent', 'replica-a');
+
+    expect(client.eval.mock.calls.map(([script, args]) => [script.includes("'PX'"), args])).toEqual([
+      [true, { keys: ['app:lease:xcomponent:leader:MonitorComponent'], arguments: ['replica-a', '15000'] }],
+      [true, { keys: ['app:lease:xcomponent:leader:MonitorComponent'], arguments: ['replica-b', '15000'] }],
+      [false, { keys: ['app:lease:xcomponent:leader:MonitorComponent'], arguments: ['replica-a'] }],
+    ]);
+  });
+
+  it('should hold PostgreSQL advisory locks on a dedicated connection', async () => {
+    const store = new PostgresLeaseStore({ connectionString: 'postgres://localhost/app' });
+    const session = (acquired: boolean) => ({
+      query: jest.fn().mockResolvedValue({ rows: [{ acquired }] }),
+      release: jest.fn(),
+    });
+    const held = session(true);
+    const busy = session(false);
+    const pool = { connect: jest.fn().mockResolvedValueOnce(held).mockResolvedValueOnce(busy), end: jest.fn() };
+    // Stand-in for a connected pool (no PostgreSQL here)
+    Object.assign(store, { initialized: true, pool });
+
+    expect(await store.acquire('leader', 'replica-a', 15000)).toBe(true);
+    expect(held.query).toHaveBeenCalledWith('SELECT pg_try_advisory_lock(hashtextextended($1, 0)) AS acquired', ['leader']);
+    expect(held.release).not.toHaveBeenCalled();
+
+    // Renewed on the same session, refused to other candidates of this store
+    expect(await store.acquire('leader', 'replica-a', 15000)).toBe(true);
+    expect(held.query).toHaveBeenLastCalledWith('SELECT 1');
+    expect(await store.acquire('leader', 'replica-b', 15000)).toBe(false);
+
+    // Locked by another process
+    expect(await store.acquire('reports', 'replica-a', 15000)).toBe(false);
+    expect(busy.release).toHaveBeenCalledTimes(1);
+
+    await store.release('leader', 'replica-b');
+    expect(held.release).not.toHaveBeenCalled();
+    await store.close();
+    expect(held.query).toHaveBeenLastCalledWith('SELECT pg_advisory_unlock(hashtextextended($1, 0))', ['leader']);
+    expect(held.release).toHaveBeenCalledTimes(1);
+    expect(pool.connect).toHaveBeenCalledTimes(2);
+    expect(pool.end).toHaveBeenCalled();
+  });
+
+  it('should show the leader of each singleton on the dashboard', async () => {
+    InMemoryMessageBroker.resetInstance();
+    const dashboard = new DashboardServer('memory');
+    await dashboard.start(3096);
+    const store = new InMemoryLeaseStore();
+    const replica = (candidateId: string) => {
+      const runtime = new FSMRuntime(monitor);
+      const election = new LeaderElection(store, 'xcomponent:leader:MonitorComponent', { candidateId, ttlMs: 1000 });
+      const broadcaster = new RuntimeBroadcaster(runtime, { ...monitor, entryMachineMode: 'singleton' }, {
+        brokerUrl: 'memory',
+        leaderElection: election,
+      });
+      return { runtime, election, broadcaster };
+    };
+    const bus = createMessageBroker('memory');
+    const leaderships: any[] = [];
+    await bus.connect();
+    bus.subscribe(DashboardChannels.LEADERSHIP_CHANGED, leadership => {
+      leaderships.push(leadership);
+    });
+    const leader = async () => {
+      const { runtimes } = await (await fetch('http://localhost:3096/api/runtimes')).json() as any;
+      return runtimes.filter((r: any) => r.leader).map((r: any) => r.runtimeId);
+    };
+
+    const a = replica('replica-a');
+    const b = replica('replica-b');
+    await a.election.start();
+    await b.election.start();
+    await a.broadcaster.connect();
+    await b.broadcaster.connect();
+    await elapsed(20);
+
+    // Entry points are left to the registry of the leader
+    expect(a.runtime.getAllInstances()).toEqual([]);
+    await bus.publish(DashboardChannels.CREATE_INSTANCE, { componentName: 'MonitorComponent', machineName: 'Monitor', context: {} });
+    await elapsed(20);
+    expect(a.runtime.getAllInstances()).toHaveLength(1);
+    expect(b.runtime.getAllInstances()).toEqual([]);
+
+    expect(leaderships).toEqual(expect.arrayContaining([
+      expect.objectContaining({ runtimeId: a.broadcaster.getRuntimeId(), candidateId: 'replica-a', isLeader: true }),
+      expect.objectContaining({ runtimeId: b.broadcaster.getRuntimeId(), candidateId: 'replica-b', isLeader: false }),
+    ]));
+    expect(await leader()).toEqual([a.broadcaster.getRuntimeId()]);
+
+    await a.election.stop();
+    await b.election.campaign();
+    await elapsed(20);
+    expect(leaderships.slice(-2)).toEqual([
+      expect.objectContaining({ candidateId: 'replica-a', isLeader: false }),
+      expect.objectContaining({ candidateId: 'replica-b', isLeader: true }),
+    ]);
+    expect(await leader()).toEqual([b.broadcaster.getRuntimeId()]);
+
+    await b.election.stop();
+    await elapsed(20);
+    await a.broadcaster.disconnect();
+    await b.broadcaster.disconnect();
+    await elapsed(20);
+    a.runtime.dispose();
+    b.runtime.dispose();
+    await dashboard.stop();
+    InMemoryMessageBroker.resetInstance();
+  });
+});
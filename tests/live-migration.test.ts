@@ -0,0 +1,203 @@
+/**
+ * Live Migration Tests
+ * Tests moving live instances to a new component definition (dry run, atomic apply, history, timeouts)
+ */
+
+import { FSMRuntime, InstanceMigrationError } from '../src/fsm-runtime';
+import { ComponentRegistry } from '../src/component-registry';
+import { InMemoryEventStore, InMemorySnapshotStore } from '../src/persistence';
+import { Component, FSMEvent, LiveMigrationMapping, StateType, TransitionType } from '../src/types';
+
+describe('Live Migration', () => {
+  const v1: Component = {
+    name: 'SubscriptionComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Subscription',
+        initialState: 'Trial',
+        states: [
+          { name: 'Trial', type: StateType.ENTRY },
+          { name: 'Active', type: StateType.REGULAR },
+          { name: 'Suspended', type: StateType.REGULAR },
+          { name: 'Cancelled', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Trial', to: 'Active', event: 'PAY', type: TransitionType.REGULAR },
+          { from: 'Active', to: 'Suspended', event: 'SUSPEND', type: TransitionType.REGULAR },
+          { from: 'Suspended', to: 'Cancelled', event: 'CANCEL', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const v2: Component = {
+    name: 'SubscriptionComponent',
+    version: '2.0.0',
+    stateMachines: [
+      {
+        name: 'Subscription',
+        initialState: 'Trialing',
+        states: [
+          { name: 'Trialing', type: StateType.ENTRY },
+          { name: 'Active', type: StateType.REGULAR },
+          { name: 'Expired', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Trialing', to: 'Active', event: 'PAY', type: TransitionType.REGULAR },
+          { from: 'Trialing', to: 'Expired', event: 'TRIAL_END', type: TransitionType.TIMEOUT, timeoutMs: 200 },
+          { from: 'Active', to: 'Expired', event: 'EXPIRE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const mapping: LiveMigrationMapping = {
+    renameStates: { Subscription: { Trial: 'Trialing', Suspended: 'Active' } },
+    context: { Subscription: { defaults: { plan: 'basic' } } },
+  };
+
+  const event = (type: string): FSMEvent => ({ type, payload: {}, timestamp: Date.now() });
+
+  const runtimes: FSMRuntime[] = [];
+  const createRuntime = (component: Component = v1, persistence?: { eventStore: InMemoryEventStore; snapshotStore: InMemorySnapshotStore }) => {
+    const runtime = new FSMRuntime(component, persistence && { eventSourcing: true, snapshots: true, ...persistence });
+    runtimes.push(runtime);
+    return runtime;
+  };
+
+  afterEach(() => {
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+  });
+
+  it('should list unmappable instances on a dry run without changing anything', async () => {
+    const runtime = createRuntime();
+    const trial = runtime.createInstance('Subscription', { customer: 'a' });
+    const suspended = runtime.createInstance('Subscription', { customer: 'b' });
+    await runtime.sendEvent(suspended, event('PAY'));
+    await runtime.sendEvent(suspended, event('SUSPEND'));
+
+    const report = await runtime.migrateInstances(v2, { renameStates: { Subscription: { Trial: 'Trialing' } } }, { dryRun: true });
+
+    expect(report).toMatchObject({ fromVersion: '1.0.0', toVersion: '2.0.0', dryRun: true });
+    expect(report.migrated).toEqual([
+      { instanceId: trial, fromMachine: 'Subscription', fromState: 'Trial', machineName: 'Subscription', currentState: 'Trialing' },
+    ]);
+    expect(report.unmappable).toEqual([
+      { instanceId: suspended, machineName: 'Subscription', currentState: 'Suspended', reason: 'state Suspended does not exist in Subscription 2.0.0' },
+    ]);
+    expect(runtime.planMigration(v2, { renameStates: { Subscription: { Trial: 'Trialing' } } })).toEqual(report);
+    expect(runtime.getInstance(trial)!.currentState).toBe('Trial');
+    expect(runtime.getComponent().version).toBe('1.0.0');
+  });
+
+  it('should refuse to migrate any instance while one is unmappable', async () => {
+    const runtime = createRuntime();
+    const trial = runtime.createInstance('Subscription', {});
+    const suspended = runtime.createInstance('Subscription', {});
+    await runtime.sendEvent(suspended, event('PAY'));
+    await runtime.sendEvent(suspended, event('SUSPEND'));
+
+    const migration = runtime.migrateInstances(v2, { renameStates: { Subscription: { Trial: 'Trialing' } } });
+
+    await expect(migration).rejects.toBeInstanceOf(InstanceMigrationError);
+    await expect(migration).rejects.toMatchObject({ report: { unmappable: [expect.objectContaining({ instanceId: suspended })] } });
+    expect(runtime.getInstance(trial)).toMatchObject({ currentState: 'Trial', definitionVersion: '1.0.0' });
+    await runtime.sendEvent(suspended, event('CANCEL'));
+    expect(runtime.getInstance(suspended)).toBeUndefined();
+  });
+
+  it('should migrate every instance with a history entry and keep it working', async () => {
+    const eventStore = new InMemoryEventStore();
+    const snapshotStore = new InMemorySnapshotStore();
+    const runtime = createRuntime(v1, { eventStore, snapshotStore });
+    const trial = runtime.createInstance('Subscription', { customer: 'a' });
+    const suspended = runtime.createInstance('Subscription', { customer: 'b' });
+    await runtime.sendEvent(suspended, event('PAY'));
+    await runtime.sendEvent(suspended, event('SUSPEND'));
+    const migrated: any[] = [];
+    runtime.on('instance_migrated', data => migrated.push(data));
+
+    const report = await runtime.migrateInstances(v2, mapping);
+
+    expect(report).toMatchObject({ dryRun: false, unmappable: [] });
+    expect(migrated.map(m => [m.instanceId, m.fromState, m.currentState])).toEqual([
+      [trial, 'Trial', 'Trialing'],
+      [suspended, 'Suspended', 'Active'],
+    ]);
+    expect(runtime.getInstance(suspended)).toMatchObject({
+      currentState: 'Active',
+      context: { customer: 'b', plan: 'basic' },
+      definitionVersion: '2.0.0',
+      version: 4,
+    });
+    expect(runtime.getInstancesByMachine('Subscription')).toHaveLength(2);
+    expect(runtime.getComponent()).toBe(v2);
+
+    const history = await runtime.getInstanceHistory(suspended);
+    expect(history.map(e => [e.event.type, e.stateBefore, e.stateAfter, e.definitionVersion])).toEqual([
+      ['INSTANCE_CREATED', '', 'Trialing', '2.0.0'],
+      ['PAY', 'Trialing', 'Active', '2.0.0'],
+      ['SUSPEND', 'Active', 'Active', '2.0.0'],
+      ['INSTANCE_MIGRATED', 'Suspended', 'Active', '2.0.0'],
+    ]);
+    expect(history[3].event.payload).toEqual({ fromVersion: '1.0.0', toVersion: '2.0.0', fromMachine: 'Subscription', fromState: 'Suspended' });
+    expect((await snapshotStore.getSnapshot(suspended))!.instance).toMatchObject({ currentState: 'Active', definitionVersion: '2.0.0' });
+
+    // Restarted under 2.0.0: restored from the snapshots taken by the migration
+    const restarted = createRuntime(v2, { eventStore, snapshotStore });
+    expect(await restarted.restore()).toMatchObject({ restored: 2, failed: 0 });
+    expect(restarted.getInstance(suspended)).toMatchObject({ currentState: 'Active', version: 4 });
+    restarted.dispose();
+
+    await runtime.sendEvent(suspended, event('EXPIRE'));
+    expect(runtime.getInstance(suspended)).toBeUndefined();
+  });
+
+  it('should re-arm timeouts of the new definition from the time the state was entered', async () => {
+    const runtime = createRuntime();
+    const id = runtime.createInstance('Subscription', {});
+    const enteredAt = runtime.getInstance(id)!.updatedAt;
+
+    await runtime.migrateInstances(v2, mapping);
+
+    const [timeout] = runtime.getPendingTimeouts(id);
+    expect(timeout).toMatchObject({ event: 'TRIAL_END', deadlineAt: enteredAt + 200 });
+
+    await new Promise(resolve => setTimeout(resolve, 300));
+    expect(runtime.getInstance(id)).toBeUndefined();
+  });
+
+  it('should wait for busy instances and update the registered component', async () => {
+    const runtime = createRuntime();
+    const registry = new ComponentRegistry();
+    registry.registerComponent(v1, runtime);
+    runtime.registerHandlers({
+      slowPayment: async () => {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      },
+    });
+    const id = runtime.createInstance('Subscription', {});
+    v1.stateMachines[0].transitions[0].triggeredMethod = 'slowPayment';
+
+    try {
+      const sent = runtime.sendEvent(id, event('PAY'));
+      const report = await runtime.migrateInstances(v2, mapping);
+      await sent;
+
+      // PAY completed under 1.0.0 before the instances were mapped
+      expect(report.migrated[0]).toMatchObject({ fromState: 'Active', currentState: 'Active' });
+      expect(registry.getComponent('SubscriptionComponent')).toBe(v2);
+      expect(registry.getAllComponentInfo()[0].version).toBe('2.0.0');
+    } finally {
+      delete v1.stateMachines[0].transitions[0].triggeredMethod;
+      await registry.dispose();
+    }
+  });
+
+  it('should reject definitions of another component or the running version', () => {
+    const runtime = createRuntime();
+    expect(() => runtime.planMigration({ ...v2, name: 'Other' })).toThrow('Cannot migrate SubscriptionComponent to a definition of Other');
+    expect(() => runtime.planMigration(v1)).toThrow('SubscriptionComponent already runs version 1.0.0');
+  });
+});
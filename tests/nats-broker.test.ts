@@ -0,0 +1,215 @@
+/**
+ * NATS Broker Tests
+ * Tests NatsMessageBroker against the in-process stand-in (URLs, plain subjects, JetStream durable consumers, components)
+ */
+
+import { NatsMessageBroker, createMessageBroker } from '../src/message-broker';
+import { LocalNatsServer, subjectMatches } from '../src/nats-local';
+import { ComponentRegistry } from '../src/component-registry';
+import { FSMRuntime } from '../src/fsm-runtime';
+import { DashboardChannels, DashboardServer } from '../src/dashboard-server';
+import { Component, StateType, TransitionType } from '../src/types';
+
+describe('NatsMessageBroker', () => {
+  let server: LocalNatsServer;
+  const brokers: NatsMessageBroker[] = [];
+
+  const createBroker = async (url = 'nats://localhost:4222') => {
+    const broker = new NatsMessageBroker(url, { connect: server.connect });
+    brokers.push(broker);
+    await broker.connect(1);
+    return broker;
+  };
+
+  const delivered = () => new Promise(resolve => setTimeout(resolve, 20));
+
+  beforeEach(() => {
+    server = new LocalNatsServer();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    for (const broker of brokers.splice(0)) {
+      await broker.disconnect();
+    }
+    await server.shutdown();
+    jest.restoreAllMocks();
+  });
+
+  it('should be selected by nats:// URLs and parse servers and credentials', () => {
+    expect(createMessageBroker('nats://localhost:4222')).toBeInstanceOf(NatsMessageBroker);
+    expect(createMessageBroker('tls://nats.example.com')).toBeInstanceOf(NatsMessageBroker);
+    expect((new DashboardServer('nats://localhost:4222') as any).broker).toBeInstanceOf(NatsMessageBroker);
+
+    const parse = (url: string) => (new NatsMessageBroker(url) as any).parseNatsUrl();
+    expect(parse('nats://localhost')).toEqual({ servers: ['localhost:4222'] });
+    expect(parse('nats://user:p%40ss@h1:4222,h2:4223?stream=APP')).toEqual({ servers: ['h1:4222', 'h2:4223'], user: 'user', pass: 'p@ss' });
+    expect(parse('tls://s3cret@nats.example.com:4443/')).toEqual({ servers: ['nats.example.com:4443'], token: 's3cret', tls: {} });
+    expect(() => parse('http://localhost')).toThrow('Invalid NATS URL');
+
+    expect(subjectMatches('xcomponent.*', 'xcomponent.Order')).toBe(true);
+    expect(subjectMatches('xcomponent.*', 'xcomponent.events.state_change')).toBe(false);
+    expect(subjectMatches('fsm.>', 'fsm.events.state_change')).toBe(true);
+  });
+
+  it('should deliver dashboard channels on plain subjects to connected subscribers', async () => {
+    const dashboard = await createBroker();
+    const runtime = await createBroker();
+    const first = jest.fn();
+    const second = jest.fn();
+    await dashboard.subscribe(DashboardChannels.STATE_CHANGE, first);
+    await dashboard.subscribe(DashboardChannels.STATE_CHANGE, second);
+
+    await runtime.publish(DashboardChannels.STATE_CHANGE, { instanceId: 'i1' });
+    await delivered();
+    expect(first).toHaveBeenCalledWith({ instanceId: 'i1' });
+    expect(second).toHaveBeenCalledTimes(1);
+
+    // Not stored: published while nobody listens, then lost
+    dashboard.unsubscribe(DashboardChannels.STATE_CHANGE);
+    await runtime.publish(DashboardChannels.STATE_CHANGE, { instanceId: 'i2' });
+    await dashboard.subscribe(DashboardChannels.STATE_CHANGE, first);
+    await delivered();
+    expect(first).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep component messages in JetStream until the component consumes them', async () => {
+    const publisher = await createBroker();
+    const received: any[] = [];
+    const consumer = await createBroker();
+    await consumer.subscribe('OrderComponent', message => received.push(message));
+
+    await publisher.publish('xcomponent:OrderComponent', { event: { type: 'PAID' }, n: 1 });
+    await delivered();
+    expect(received.map(m => m.n)).toEqual([1]);
+
+    // Component down: messages wait in the stream for its durable consumer
+    await consumer.disconnect();
+    await publisher.publish('xcomponent:OrderComponent', { n: 2 });
+    await publisher.publish('xcomponent:OrderComponent', { n: 3 });
+    await publisher.publish('xcomponent:PaymentComponent', { n: 99 });
+
+    const restarted = await createBroker();
+    await restarted.subscribe('OrderComponent', message => received.push(message));
+    await delivered();
+    expect(received.map(m => m.n)).toEqual([1, 2, 3]);
+
+    const jsm = await (await server.connect()).jetstreamManager();
+    expect(await jsm.consumers.info('XCOMPONENT', 'xcomponent-OrderComponent'))
+      .toMatchObject({ num_pending: 0, num_ack_pending: 0 });
+    expect(await jsm.streams.info('XCOMPONENT')).toMatchObject({ config: { subjects: ['xcomponent.*'] }, state: { messages: 4 } });
+  });
+
+  it('should share component messages between replicas and redeliver unacknowledged ones', async () => {
+    const publisher = await createBroker();
+    const first: number[] = [];
+    const second: number[] = [];
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => {
+      release = resolve;
+    });
+
+    const replica1 = await createBroker();
+    await replica1.subscribe('OrderComponent', async message => {
+      first.push(message.n);
+      if (message.n === 1) await blocked;
+    });
+    const replica2 = await createBroker();
+    await replica2.subscribe('OrderComponent', message => second.push(message.n));
+
+    for (let n = 1; n <= 4; n++) {
+      await publisher.publish('xcomponent:OrderComponent', { n });
+    }
+    await delivered();
+    expect(first).toEqual([1]);
+    expect(second).toEqual([2, 4]);
+
+    // Replica 1 stops while handling 1 (3 waits behind it): both go to replica 2
+    await replica1.disconnect();
+    release();
+    await delivered();
+    expect(second.sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should give each replica of a sharded component its own durable consumer', async () => {
+    const order: Component = {
+      name: 'OrderComponent',
+      version: '1.0.0',
+      sharding: { shards: 8 },
+      stateMachines: [
+        {
+          name: 'Order',
+          initialState: 'Placed',
+          states: [
+            { name: 'Placed', type: StateType.ENTRY },
+            { name: 'Paid', type: StateType.REGULAR },
+          ],
+          transitions: [{ from: 'Placed', to: 'Paid', event: 'PAY', type: TransitionType.REGULAR }],
+        },
+      ],
+    };
+    // Same URL on every replica: no durable prefix of their own
+    const replicas = await Promise.all(['replica-a', 'replica.b'].map(async replicaId => {
+      const registry = new ComponentRegistry(await createBroker(), { replicaId });
+      const runtime = new FSMRuntime(order);
+      registry.registerComponent(order, runtime);
+      return { registry, runtime, shards: registry.getShardCoordinator('OrderComponent')! };
+    }));
+    const [a, b] = replicas;
+    a.shards.observe(b.shards.getAnnouncement());
+    b.shards.observe(a.shards.getAnnouncement());
+    await delivered();
+
+    const ids = replicas.flatMap(({ registry }) =>
+      Array.from({ length: 3 }, () => registry.createInstanceInComponent('OrderComponent', 'Order', {})));
+
+    // Broadcast: a shared consumer would hand it to one of the replicas only
+    const shop = new ComponentRegistry(await createBroker());
+    await shop.broadcastToComponent('OrderComponent', 'Order', { type: 'PAY', payload: {}, timestamp: Date.now() }, 'Shop', undefined, 'Placed');
+    await delivered();
+
+    const holder = (id: string) => replicas.find(({ runtime }) => runtime.getInstance(id))!;
+    expect(ids.map(id => holder(id).runtime.getInstance(id)!.currentState)).toEqual(ids.map(() => 'Paid'));
+    const jsm = await (await server.connect()).jetstreamManager();
+    expect(await jsm.consumers.info('XCOMPONENT', 'xcomponent-replica-a-OrderComponent')).toMatchObject({ num_pending: 0 });
+    expect(await jsm.consumers.info('XCOMPONENT', 'xcomponent-replica_b-OrderComponent')).toMatchObject({ num_pending: 0 });
+
+    for (const { registry } of replicas) {
+      await registry.dispose();
+    }
+    await shop.dispose();
+  });
+
+  it('should carry cross-component events between registries over NATS', async () => {
+    const payment: Component = {
+      name: 'PaymentComponent',
+      version: '1.0.0',
+      stateMachines: [
+        {
+          name: 'Payment',
+          initialState: 'Pending',
+          states: [
+            { name: 'Pending', type: StateType.ENTRY },
+            { name: 'Captured', type: StateType.FINAL },
+          ],
+          transitions: [{ from: 'Pending', to: 'Captured', event: 'CAPTURE', type: TransitionType.REGULAR }],
+        },
+      ],
+    };
+    const broker = await createBroker();
+    const registry = new ComponentRegistry(broker);
+    const runtime = new FSMRuntime(payment);
+    registry.registerComponent(payment, runtime);
+    await delivered();
+    const id = runtime.createInstance('Payment', {});
+
+    const sender = new ComponentRegistry(await createBroker());
+    const capture = { type: 'CAPTURE', payload: {}, timestamp: Date.now() };
+    await sender.broadcastToComponent('PaymentComponent', 'Payment', capture, 'OrderComponent', undefined, 'Pending');
+    await delivered();
+
+    expect(runtime.getInstance(id)).toBeUndefined();
+    await registry.dispose();
+    await sender.dispose();
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Optimistic Concurrency Tests
+ * Tests expected-version appends (per-instance versions, conflicts between runtimes, reload and retry)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { ConcurrencyConflictError, InMemoryEventStore, InMemorySnapshotStore } from '../src/persistence';
+import { Component, FSMEvent, PersistedEvent, RuntimeOptions, StateType, TransitionType } from '../src/types';
+
+describe('Optimistic Concurrency', () => {
+  const component: Component = {
+    name: 'TradingComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Pending',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY },
+          { name: 'Priced', type: StateType.REGULAR },
+          { name: 'Confirmed', type: StateType.REGULAR },
+        ],
+        transitions: [
+          { from: 'Pending', to: 'Priced', event: 'PRICE', type: TransitionType.REGULAR },
+          { from: 'Priced', to: 'Confirmed', event: 'CONFIRM', type: TransitionType.REGULAR },
+          { from: 'Priced', to: 'Priced', event: 'REPRICE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const event = (type: string, payload: Record<string, any> = {}): FSMEvent => ({ type, payload, timestamp: Date.now() });
+
+  const persistedEvent = (id: string, version: number): PersistedEvent => ({
+    id,
+    instanceId: 'order-1',
+    machineName: 'Order',
+    componentName: 'TradingComponent',
+    event: event('PRICE'),
+    stateBefore: 'Pending',
+    stateAfter: 'Priced',
+    persistedAt: Date.now(),
+    version,
+  });
+
+  let eventStore: InMemoryEventStore;
+  let snapshotStore: InMemorySnapshotStore;
+  const runtimes: FSMRuntime[] = [];
+
+  /**
+   * Runtime sharing the stores with the others (e.g. two nodes of a cluster)
+   */
+  const createRuntime = (options?: RuntimeOptions) => {
+    const runtime = new FSMRuntime(component, {
+      eventSourcing: true,
+      snapshots: true,
+      snapshotInterval: 100,
+      eventStore,
+      snapshotStore,
+    }, options);
+    runtimes.push(runtime);
+    return runtime;
+  };
+
+  /**
+   * Second runtime restored from the stores, then both apply events independently
+   */
+  const twoWriters = async (options?: RuntimeOptions) => {
+    const runtime1 = createRuntime(options);
+    const id = runtime1.createInstance('Order', { Id: 1 });
+    await runtime1.sendEvent(id, event('PRICE'));
+
+    const runtime2 = createRuntime(options);
+    await runtime2.restore();
+    return { runtime1, runtime2, id };
+  };
+
+  beforeEach(() => {
+    eventStore = new InMemoryEventStore();
+    snapshotStore = new InMemorySnapshotStore();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+    jest.restoreAllMocks();
+  });
+
+  it('should number the events of each instance', async () => {
+    const runtime = createRuntime();
+    const id = runtime.createInstance('Order', {});
+    await runtime.sendEvent(id, event('PRICE'));
+    await runtime.sendEvent(id, event('CONFIRM'));
+
+    const events = await eventStore.getEventsForInstance(id);
+    expect(events.map(e => e.version)).toEqual([1, 2, 3]);
+    expect(runtime.getInstance(id)!.version).toBe(3);
+  });
+
+  it('should append the first transition after the creation event of a slow store', async () => {
+    const runtime = createRuntime();
+    const append = eventStore.append.bind(eventStore);
+    jest.spyOn(eventStore, 'append').mockImplementation(async (persisted, expectedVersion) => {
+      if (expectedVersion === 0) {
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      return append(persisted, expectedVersion);
+    });
+    const conflicts = jest.fn();
+    runtime.on('concurrency_conflict', conflicts);
+
+    const id = runtime.createInstance('Order', {});
+    await runtime.sendEvent(id, event('PRICE'));
+
+    expect(conflicts).not.toHaveBeenCalled();
+    expect((await eventStore.getEventsForInstance(id)).map(e => [e.version, e.stateAfter])).toEqual([[1, 'Pending'], [2, 'Priced']]);
+    expect(runtime.getInstance(id)!.currentState).toBe('Priced');
+  });
+
+  it('should discard an instance whose creation event could not be persisted', async () => {
+    const runtime = createRuntime();
+    const append = eventStore.append.bind(eventStore);
+    jest.spyOn(eventStore, 'append').mockImplementation(async (persisted, expectedVersion) => {
+      if (expectedVersion === 0) {
+        throw new Error('store unavailable');
+      }
+      return append(persisted, expectedVersion);
+    });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const failed = jest.fn();
+    runtime.on('instance_creation_failed', failed);
+
+    const id = runtime.createInstance('Order', {});
+    await expect(runtime.waitForCreation(id)).rejects.toThrow(`Instance ${id} was not created: store unavailable`);
+    await expect(runtime.sendEvent(id, event('PRICE'))).rejects.toThrow(`Instance ${id} not found`);
+
+    expect(failed).toHaveBeenCalledWith({ instanceId: id, machineName: 'Order', error: 'store unavailable' });
+    expect(runtime.getInstance(id)).toBeUndefined();
+    expect(await eventStore.getEventsForInstance(id)).toEqual([]);
+  });
+
+  it('should reject an append with a stale expected version', async () => {
+    await eventStore.append(persistedEvent('e1', 1), 0);
+    await eventStore.append(persistedEvent('e2', 2), 1);
+
+    const stale = eventStore.append(persistedEvent('e3', 2), 1);
+    await expect(stale).rejects.toBeInstanceOf(ConcurrencyConflictError);
+    await expect(stale).rejects.toMatchObject({ instanceId: 'order-1', expectedVersion: 1, actualVersion: 2 });
+    expect(await eventStore.getEventsForInstance('order-1')).toHaveLength(2);
+  });
+
+  it('should reload the instance and retry after a conflict', async () => {
+    const { runtime1, runtime2, id } = await twoWriters();
+    const conflicts: any[] = [];
+    runtime1.on('concurrency_conflict', data => conflicts.push(data));
+
+    await runtime2.sendEvent(id, event('REPRICE', { price: 101 }));
+    await runtime1.sendEvent(id, event('CONFIRM'));
+
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ instanceId: id, expectedVersion: 2, actualVersion: 3, retrying: true });
+    expect(runtime1.getInstance(id)).toMatchObject({
+      currentState: 'Confirmed',
+      context: { Id: 1, price: 101 },
+      version: 4,
+    });
+    const events = await eventStore.getEventsForInstance(id);
+    expect(events.map(e => [e.event.type, e.version])).toEqual([
+      ['INSTANCE_CREATED', 1], ['PRICE', 2], ['REPRICE', 3], ['CONFIRM', 4],
+    ]);
+  });
+
+  it('should surface the conflict when retries are disabled', async () => {
+    const { runtime1, runtime2, id } = await twoWriters({ concurrencyRetries: 0 });
+    const conflicts: any[] = [];
+    runtime1.on('concurrency_conflict', data => conflicts.push(data));
+
+    await runtime2.sendEvent(id, event('CONFIRM'));
+    await expect(runtime1.sendEvent(id, event('REPRICE'))).rejects.toThrow(ConcurrencyConflictError);
+
+    expect(conflicts[0]).toMatchObject({ instanceId: id, retrying: false });
+    // Reloaded anyway: the next event starts from the stored state
+    expect(runtime1.getInstance(id)).toMatchObject({ currentState: 'Confirmed', version: 3 });
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * Parallel State Tests
+ * Tests orthogonal regions (parallel states), join transitions and region-aware indexes
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { StateHierarchy } from '../src/state-hierarchy';
+import { generateMermaidDiagram, computeReachableStates, detectTerminalStates } from '../src/mermaid-generator';
+import { Component, StateMachine, StateType, TransitionType } from '../src/types';
+
+describe('Parallel States', () => {
+  const orderMachine: StateMachine = {
+    name: 'Order',
+    initialState: 'Fulfilment',
+    states: [
+      {
+        name: 'Fulfilment',
+        type: StateType.PARALLEL,
+        onExit: 'exitFulfilment',
+        regions: [
+          {
+            name: 'payment',
+            states: [
+              { name: 'AwaitingPayment', type: StateType.REGULAR, onExit: 'exitAwaitingPayment' },
+              { name: 'Paid', type: StateType.FINAL },
+            ],
+          },
+          {
+            name: 'shipment',
+            states: [
+              { name: 'Preparing', type: StateType.REGULAR, onExit: 'exitPreparing' },
+              { name: 'Shipped', type: StateType.FINAL },
+            ],
+          },
+          {
+            name: 'compliance',
+            initialState: 'Screening',
+            states: [
+              { name: 'Cleared', type: StateType.FINAL },
+              { name: 'Screening', type: StateType.REGULAR, onExit: 'exitScreening' },
+            ],
+          },
+        ],
+      },
+      { name: 'Completed', type: StateType.FINAL },
+      { name: 'Cancelled', type: StateType.FINAL },
+    ],
+    transitions: [
+      { from: 'AwaitingPayment', to: 'Paid', event: 'PAY', type: TransitionType.REGULAR },
+      { from: 'Preparing', to: 'Shipped', event: 'SHIP', type: TransitionType.REGULAR },
+      { from: 'Screening', to: 'Cleared', event: 'CLEAR', type: TransitionType.REGULAR },
+      // Handled by two regions at once
+      { from: 'Preparing', to: 'Shipped', event: 'EXPEDITE', type: TransitionType.REGULAR },
+      { from: 'Screening', to: 'Cleared', event: 'EXPEDITE', type: TransitionType.REGULAR },
+      { from: 'Fulfilment', to: 'Cancelled', event: 'CANCEL', type: TransitionType.REGULAR },
+      { from: 'Fulfilment', to: 'Completed', event: 'FULFILLED', type: TransitionType.JOIN },
+    ],
+  };
+
+  const component: Component = {
+    name: 'TradingComponent',
+    version: '1.0.0',
+    stateMachines: [orderMachine],
+  };
+
+  let runtime: FSMRuntime;
+
+  beforeEach(() => {
+    runtime = new FSMRuntime(component);
+  });
+
+  afterEach(() => {
+    runtime.dispose();
+  });
+
+  const send = (id: string, type: string) => runtime.sendEvent(id, { type, payload: {}, timestamp: Date.now() });
+
+  describe('StateHierarchy', () => {
+    const hierarchy = new StateHierarchy(orderMachine);
+
+    it('should enter every region at its initial state', () => {
+      expect(hierarchy.getInitialConfiguration('Fulfilment')).toEqual({
+        configuration: {
+          currentState: 'Fulfilment',
+          regionStates: { payment: 'AwaitingPayment', shipment: 'Preparing', compliance: 'Screening' },
+        },
+        entered: ['Fulfilment', 'AwaitingPayment', 'Preparing', 'Screening'],
+      });
+    });
+
+    it('should keep other regions untouched by a region transition', () => {
+      const { configuration } = hierarchy.getInitialConfiguration('Fulfilment');
+      expect(hierarchy.applyTransition(configuration, 'Preparing', 'Preparing', 'Shipped')).toEqual({
+        exited: ['Preparing'],
+        entered: ['Shipped'],
+        configuration: {
+          currentState: 'Fulfilment',
+          regionStates: { payment: 'AwaitingPayment', shipment: 'Shipped', compliance: 'Screening' },
+        },
+        region: 'shipment',
+        stateBefore: 'Preparing',
+        stateAfter: 'Shipped',
+      });
+    });
+
+    it('should exit every region before the parallel state', () => {
+      const { configuration } = hierarchy.getInitialConfiguration('Fulfilment');
+      const change = hierarchy.applyTransition(configuration, 'Fulfilment', 'Fulfilment', 'Cancelled');
+      expect(change.exited).toEqual(['AwaitingPayment', 'Preparing', 'Screening', 'Fulfilment']);
+      expect(change.configuration).toEqual({ currentState: 'Cancelled' });
+    });
+
+    it('should detect when every region is final', () => {
+      expect(hierarchy.isJoinReady({
+        currentState: 'Fulfilment',
+        regionStates: { payment: 'Paid', shipment: 'Shipped', compliance: 'Screening' },
+      })).toBe(false);
+      expect(hierarchy.isJoinReady({
+        currentState: 'Fulfilment',
+        regionStates: { payment: 'Paid', shipment: 'Shipped', compliance: 'Cleared' },
+      })).toBe(true);
+    });
+
+    it('should report definition problems', () => {
+      const invalid: StateMachine = {
+        name: 'Broken',
+        initialState: 'P',
+        states: [
+          {
+            name: 'P',
+            type: StateType.PARALLEL,
+            regions: [
+              { name: 'a', initialState: 'Missing', states: [{ name: 'A1', type: StateType.REGULAR }] },
+              { name: 'a', states: [{ name: 'A2', type: StateType.REGULAR }] },
+              { name: 'b', states: [{ name: 'B1', type: StateType.REGULAR }] },
+            ],
+          },
+          { name: 'Q', type: StateType.PARALLEL },
+          { name: 'Done', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'A1', to: 'B1', event: 'CROSS', type: TransitionType.REGULAR },
+          { from: 'A1', to: 'Done', event: 'JOINED', type: TransitionType.JOIN },
+        ],
+      };
+
+      expect(StateHierarchy.validate(invalid)).toEqual([
+        'State "P": region "a" initialState "Missing" is not one of its states',
+        'State "P": duplicate region "a"',
+        'State "Q": parallel state must define regions',
+        'Transition #1: A1 -> B1 crosses regions of parallel state "P"',
+        'Transition #2: join transition must start from a parallel state',
+      ]);
+      expect(StateHierarchy.validate(orderMachine)).toEqual([]);
+    });
+  });
+
+  describe('Runtime', () => {
+    it('should report the active configuration', () => {
+      const id = runtime.createInstance('Order', {});
+      const instance = runtime.getInstance(id)!;
+
+      expect(instance.currentState).toBe('Fulfilment');
+      expect(instance.regionStates).toEqual({ payment: 'AwaitingPayment', shipment: 'Preparing', compliance: 'Screening' });
+    });
+
+    it('should move a single region and report it in state_change', async () => {
+      const changes: any[] = [];
+      runtime.on('state_change', data => changes.push(data));
+
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'PAY');
+
+      const instance = runtime.getInstance(id)!;
+      expect(instance.currentState).toBe('Fulfilment');
+      expect(instance.regionStates).toEqual({ payment: 'Paid', shipment: 'Preparing', compliance: 'Screening' });
+      expect(changes).toHaveLength(1);
+      expect(changes[0]).toMatchObject({ previousState: 'AwaitingPayment', newState: 'Paid', region: 'payment' });
+      expect(changes[0].instance.regionStates).toEqual(instance.regionStates);
+    });
+
+    it('should let every region accepting an event take its transition', async () => {
+      const changes: string[] = [];
+      runtime.on('state_change', data => changes.push(`${data.region}:${data.newState}`));
+
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'EXPEDITE');
+
+      expect(runtime.getInstance(id)!.regionStates).toEqual({ payment: 'AwaitingPayment', shipment: 'Shipped', compliance: 'Cleared' });
+      expect(changes).toEqual(['shipment:Shipped', 'compliance:Cleared']);
+    });
+
+    it('should exit every region when leaving the parallel state', async () => {
+      const calls: string[] = [];
+      runtime.on('exit_method', data => calls.push(data.state));
+      const disposed: string[] = [];
+      runtime.on('instance_disposed', instance => disposed.push(instance.id));
+
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'CANCEL');
+
+      expect(calls).toEqual(['AwaitingPayment', 'Preparing', 'Screening', 'Fulfilment']);
+      expect(disposed).toEqual([id]);
+    });
+
+    it('should fire the join transition once every region is final', async () => {
+      const disposed: any[] = [];
+      runtime.on('instance_disposed', instance => disposed.push(instance));
+
+      const id = runtime.createInstance('Order', {});
+      expect(runtime.getAvailableTransitions(id).map(t => t.event)).not.toContain('FULFILLED');
+
+      // Not join-ready yet: the join event is ignored
+      await send(id, 'FULFILLED');
+      expect(runtime.getInstance(id)!.currentState).toBe('Fulfilment');
+
+      await send(id, 'PAY');
+      await send(id, 'EXPEDITE');
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(disposed).toHaveLength(1);
+      expect(disposed[0]).toMatchObject({ id, currentState: 'Completed', status: 'completed' });
+      expect(disposed[0].regionStates).toBeUndefined();
+    });
+
+    it('should index instances under every active region state', async () => {
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'PAY');
+
+      const stateIndex: Map<string, Set<string>> = (runtime as any).stateIndex;
+      expect(stateIndex.get('Order:Fulfilment')?.has(id)).toBe(true);
+      expect(stateIndex.get('Order:Paid')?.has(id)).toBe(true);
+      expect(stateIndex.get('Order:Preparing')?.has(id)).toBe(true);
+      expect(stateIndex.get('Order:AwaitingPayment')?.has(id)).toBe(false);
+
+      // Broadcasting to a region state reaches the instance
+      const processed = await runtime.broadcastEvent(
+        'Order',
+        { type: 'SHIP', payload: {}, timestamp: Date.now() },
+        'Preparing'
+      );
+      expect(processed).toBe(1);
+      expect(runtime.getInstance(id)!.regionStates!.shipment).toBe('Shipped');
+      expect(stateIndex.get('Order:Preparing')?.has(id)).toBe(false);
+    });
+
+    it('should roll back every region when a handler vetoes', async () => {
+      runtime.registerHandlers({
+        exitPreparing: () => ({ veto: true }),
+      });
+
+      const id = runtime.createInstance('Order', {});
+      await send(id, 'CANCEL');
+
+      const instance = runtime.getInstance(id)!;
+      expect(instance.currentState).toBe('Fulfilment');
+      expect(instance.regionStates).toEqual({ payment: 'AwaitingPayment', shipment: 'Preparing', compliance: 'Screening' });
+    });
+
+    it('should simulate region transitions', () => {
+      expect(runtime.simulatePath('Order', [
+        { type: 'PAY', payload: {}, timestamp: 0 },
+        { type: 'EXPEDITE', payload: {}, timestamp: 0 },
+        { type: 'CANCEL', payload: {}, timestamp: 0 },
+      ])).toEqual({ success: true, path: ['Fulfilment', 'Paid', 'Shipped', 'Cleared', 'Cancelled'] });
+    });
+  });
+
+  describe('Mermaid', () => {
+    it('should render regions as concurrent sections', () => {
+      expect(generateMermaidDiagram(orderMachine)).toBe([
+        'stateDiagram-v2',
+        '',
+        '    [*] --> Fulfilment',
+        '',
+        '    state Fulfilment {',
+        '        [*] --> AwaitingPayment',
+        '        AwaitingPayment --> Paid: PAY',
+        '        --',
+        '        [*] --> Preparing',
+        '        Preparing --> Shipped: SHIP',
+        '        Preparing --> Shipped: EXPEDITE',
+        '        --',
+        '        [*] --> Screening',
+        '        Screening --> Cleared: CLEAR',
+        '        Screening --> Cleared: EXPEDITE',
+        '    }',
+        '    Fulfilment --> Cancelled: CANCEL',
+        '    Fulfilment --> Completed: FULFILLED',
+        '',
+      ].join('\n'));
+    });
+
+    it('should reach every region when entering the parallel state', () => {
+      expect(Array.from(computeReachableStates(orderMachine, 'Fulfilment')).sort()).toEqual([
+        'AwaitingPayment', 'Cancelled', 'Cleared', 'Completed', 'Fulfilment', 'Paid', 'Preparing', 'Screening', 'Shipped',
+      ]);
+      expect(Array.from(detectTerminalStates(orderMachine)).sort()).toEqual(['Cancelled', 'Completed']);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { FSMRuntime } from '../src/fsm-runtime';
-import { Component, StateType, TransitionType } from '../src/types';
+import { InMemoryEventStore, InMemorySnapshotStore, PersistenceManager } from '../src/persistence';
+import { Component, EventStore, StateType, TransitionType } from '../src/types';
 
 describe('Persistence & Event Sourcing (Phase 4)', () => {
   const simpleComponent: Component = {
@@ -432,6 +433,100 @@ describe('Persistence & Event Sourcing (Phase 4)', () => {
         expect(causality[0].caused!.length).toBeGreaterThan(0);
       }
     });
+
+    it('should link causes without loading the whole event store', async () => {
+      const eventStore = new InMemoryEventStore();
+      const manager = new PersistenceManager(eventStore, new InMemorySnapshotStore());
+      const getAllEvents = jest.spyOn(eventStore, 'getAllEvents');
+      const event = { type: 'ACTIVATE', payload: {}, timestamp: Date.now() };
+
+      const parentId = await manager.persistEvent('p1', 'Parent', 'Test', event, 'Idle', 'Active');
+      manager.setCurrentEventId(parentId);
+      const childId = await manager.persistEvent('c1', 'Child', 'Test', event, 'Idle', 'Triggered');
+      manager.setCurrentEventId(null);
+
+      expect(getAllEvents).not.toHaveBeenCalled();
+      expect((await eventStore.getEventsForInstance('p1'))[0].caused).toEqual([childId]);
+      expect((await eventStore.getCausedEvents(parentId)).map(e => e.id)).toEqual([childId]);
+      expect((await manager.traceEventCausality(parentId)).map(e => e.id)).toEqual([parentId, childId]);
+    });
+
+    it('should still link causes in stores without appendCausalLink', async () => {
+      const inner = new InMemoryEventStore();
+      const customStore: EventStore = {
+        append: (e, expectedVersion) => inner.append(e, expectedVersion),
+        getEventsForInstance: instanceId => inner.getEventsForInstance(instanceId),
+        getEventsByTimeRange: (start, end) => inner.getEventsByTimeRange(start, end),
+        getCausedEvents: eventId => inner.getCausedEvents(eventId),
+        getAllEvents: () => inner.getAllEvents(),
+      };
+      const manager = new PersistenceManager(customStore, new InMemorySnapshotStore());
+      const event = { type: 'ACTIVATE', payload: {}, timestamp: Date.now() };
+
+      const parentId = await manager.persistEvent('p1', 'Parent', 'Test', event, 'Idle', 'Active');
+      manager.setCurrentEventId(parentId);
+      const childId = await manager.persistEvent('c1', 'Child', 'Test', event, 'Idle', 'Triggered');
+      manager.setCurrentEventId(null);
+
+      expect((await customStore.getCausedEvents(parentId)).map(e => e.id)).toEqual([childId]);
+      expect((await manager.traceEventCausality(parentId)).map(e => e.id)).toEqual([parentId, childId]);
+    });
+
+    it('should link each event to its own cause while instances process events concurrently', async () => {
+      const relay: Component = {
+        name: 'RelayComponent',
+        version: '1.0.0',
+        stateMachines: [
+          {
+            name: 'Relay',
+            initialState: 'Idle',
+            states: [
+              { name: 'Idle', type: StateType.ENTRY },
+              { name: 'Active', type: StateType.REGULAR, onEntry: 'forward' },
+            ],
+            transitions: [{ from: 'Idle', to: 'Active', event: 'GO', type: TransitionType.REGULAR }],
+          },
+        ],
+      };
+      const eventStore = new InMemoryEventStore();
+      const runtime = new FSMRuntime(relay, { eventSourcing: true, snapshots: false, eventStore });
+      const go = { type: 'GO', payload: {}, timestamp: Date.now() };
+      const forwarded: Promise<void>[] = [];
+      runtime.on('entry_method', ({ context }: any) => {
+        if (context.next) {
+          forwarded.push(new Promise<void>(resolve => setTimeout(resolve, context.wait))
+            .then(() => runtime.sendEvent(context.next, go)));
+        }
+      });
+
+      const b1 = runtime.createInstance('Relay', {});
+      const b2 = runtime.createInstance('Relay', {});
+      const a1 = runtime.createInstance('Relay', { next: b1, wait: 20 });
+      const a2 = runtime.createInstance('Relay', { next: b2, wait: 0 });
+      await Promise.all([runtime.sendEvent(a1, go), runtime.sendEvent(a2, go)]);
+      await Promise.all(forwarded);
+
+      const transition = async (instanceId: string) =>
+        (await eventStore.getEventsForInstance(instanceId)).find(e => e.event.type === 'GO')!;
+      for (const [cause, effect] of [[a1, b1], [a2, b2]]) {
+        const causeEvent = await transition(cause);
+        expect((await transition(effect)).causedBy).toEqual([causeEvent.id]);
+        expect(causeEvent.caused).toEqual([(await transition(effect)).id]);
+      }
+    });
+
+    it('should ignore repeated and dangling causal links', async () => {
+      const eventStore = new InMemoryEventStore();
+      const manager = new PersistenceManager(eventStore, new InMemorySnapshotStore());
+      const event = { type: 'ACTIVATE', payload: {}, timestamp: Date.now() };
+      const parentId = await manager.persistEvent('p1', 'Parent', 'Test', event, 'Idle', 'Active');
+
+      await eventStore.appendCausalLink(parentId, 'child-1');
+      await eventStore.appendCausalLink(parentId, 'child-1');
+      await eventStore.appendCausalLink('missing', 'child-2');
+
+      expect((await eventStore.getEventsForInstance('p1'))[0].caused).toEqual(['child-1']);
+    });
   });
 
   describe('Long-Running Workflows', () => {
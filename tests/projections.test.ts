@@ -0,0 +1,255 @@
+/**
+ * Projection Tests
+ * Tests read models fed from the event stream (live updates, checkpoints, rebuild, failures, Postgres store)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { InMemoryEventStore, InMemorySnapshotStore } from '../src/persistence';
+import { InMemoryProjectionStore, ProjectionEngine } from '../src/projections';
+import { PostgresProjectionStore } from '../src/postgres-persistence';
+import { Component, FSMEvent, PersistedEvent, StateType, TransitionType } from '../src/types';
+
+const mockClient = {
+  query: jest.fn().mockResolvedValue({ rows: [] }),
+  release: jest.fn(),
+};
+
+describe('Projections', () => {
+  const component: Component = {
+    name: 'TradingComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Pending',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY },
+          { name: 'Executed', type: StateType.REGULAR },
+          { name: 'Settled', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Pending', to: 'Executed', event: 'EXECUTE', type: TransitionType.REGULAR },
+          { from: 'Executed', to: 'Settled', event: 'SETTLE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const event = (type: string, payload: Record<string, any> = {}): FSMEvent => ({ type, payload, timestamp: Date.now() });
+
+  let eventStore: InMemoryEventStore;
+  let projectionStore: InMemoryProjectionStore;
+  const runtimes: FSMRuntime[] = [];
+  const engines: ProjectionEngine[] = [];
+
+  const createRuntime = () => {
+    const runtime = new FSMRuntime(component, { eventSourcing: true, eventStore, snapshotStore: new InMemorySnapshotStore() });
+    runtimes.push(runtime);
+    return runtime;
+  };
+
+  /**
+   * Open notional per trader: executed orders count until they are settled
+   */
+  const createEngine = (runtime?: FSMRuntime) => {
+    const engine = new ProjectionEngine(eventStore, projectionStore);
+    engines.push(engine);
+    engine.define('open-notional')
+      .on('Order', 'Executed', (e, view) => view.update<number>(
+        e.publicMemberSnapshot!.trader,
+        notional => (notional ?? 0) + e.publicMemberSnapshot!.quantity * e.publicMemberSnapshot!.price
+      ))
+      .on('Order', 'Settled', (e, view) => view.update<number>(
+        e.publicMemberSnapshot!.trader,
+        notional => (notional! - e.publicMemberSnapshot!.quantity * e.publicMemberSnapshot!.price) || undefined
+      ));
+    if (runtime) {
+      engine.attach(runtime);
+    }
+    return engine;
+  };
+
+  const trade = async (runtime: FSMRuntime, trader: string, quantity: number, price: number, settle = false) => {
+    const id = runtime.createInstance('Order', { trader });
+    await runtime.sendEvent(id, event('EXECUTE', { quantity, price }));
+    if (settle) {
+      await runtime.sendEvent(id, event('SETTLE'));
+    }
+    return id;
+  };
+
+  beforeEach(() => {
+    eventStore = new InMemoryEventStore();
+    projectionStore = new InMemoryProjectionStore();
+    mockClient.query.mockClear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    engines.splice(0).forEach(engine => engine.stop());
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+    jest.restoreAllMocks();
+  });
+
+  it('should maintain a projection live from transitions', async () => {
+    const runtime = createRuntime();
+    const engine = createEngine(runtime);
+    await engine.start();
+
+    await trade(runtime, 'alice', 10, 100);
+    await trade(runtime, 'alice', 5, 20, true);
+    await trade(runtime, 'bob', 1, 50);
+    await trade(runtime, 'carol', 2, 10, true);
+    await engine.whenIdle();
+
+    expect(await engine.getAll('open-notional')).toEqual({ alice: 1000, bob: 50 });
+    expect(await engine.get('open-notional', 'alice')).toBe(1000);
+    expect(engine.getStatus()).toEqual([
+      { name: 'open-notional', checkpoint: expect.objectContaining({ applied: 6 }), error: undefined },
+    ]);
+  });
+
+  it('should catch up from its checkpoint after a restart', async () => {
+    const runtime = createRuntime();
+    const first = createEngine(runtime);
+    await first.start();
+    await trade(runtime, 'alice', 10, 100);
+    await first.whenIdle();
+    first.stop();
+
+    // Persisted while no projection was running
+    await trade(runtime, 'alice', 1, 1);
+    await trade(runtime, 'bob', 2, 2, true);
+
+    const second = createEngine(runtime);
+    await second.start();
+
+    expect(await second.getAll('open-notional')).toEqual({ alice: 1001 });
+    expect(second.getStatus()[0].checkpoint!.applied).toBe(4);
+  });
+
+  it('should apply events persisted during the catch-up exactly once', async () => {
+    const runtime = createRuntime();
+    await trade(runtime, 'alice', 1, 100);
+    const engine = createEngine(runtime);
+
+    const started = engine.start();
+    await Promise.all([trade(runtime, 'alice', 1, 100), trade(runtime, 'bob', 1, 100)]);
+    await started;
+    await engine.whenIdle();
+
+    expect(await engine.getAll('open-notional')).toEqual({ alice: 200, bob: 100 });
+    expect(engine.getStatus()[0].checkpoint!.applied).toBe(3);
+  });
+
+  it('should rebuild a projection from scratch', async () => {
+    const runtime = createRuntime();
+    await trade(runtime, 'alice', 10, 100);
+    await trade(runtime, 'bob', 1, 50, true);
+    const engine = createEngine(runtime);
+    await engine.start();
+    await projectionStore.commit('open-notional', { set: { alice: -1, ghost: 7 }, delete: [] }, { eventId: 'x', persistedAt: 0, applied: 99 });
+
+    const rebuilt = jest.fn();
+    engine.on('projection_rebuilt', rebuilt);
+    await engine.rebuild('open-notional');
+
+    expect(await engine.getAll('open-notional')).toEqual({ alice: 1000 });
+    expect(rebuilt).toHaveBeenCalledWith({ projection: 'open-notional', applied: 3 });
+    await expect(engine.rebuild('missing')).rejects.toThrow('Projection missing not found');
+  });
+
+  it('should page through the store past its whole-stream read cap', async () => {
+    /**
+     * Store capping getAllEvents() like the PostgreSQL and Redis stores used to
+     */
+    class CappedEventStore extends InMemoryEventStore {
+      async getAllEvents(): Promise<PersistedEvent[]> {
+        return (await super.getAllEvents()).slice(0, 10000);
+      }
+    }
+    eventStore = new CappedEventStore();
+    const runtime = createRuntime();
+    for (let i = 0; i < 10000; i++) {
+      await eventStore.append({
+        id: `other-${i}`,
+        instanceId: `other-${i % 10}`,
+        machineName: 'Invoice',
+        componentName: 'BillingComponent',
+        event: event('TICK'),
+        stateBefore: 'Open',
+        stateAfter: 'Open',
+        persistedAt: Date.now(),
+      });
+    }
+    await trade(runtime, 'alice', 10, 100);
+    const engine = createEngine(runtime);
+    const getEventsPage = jest.spyOn(eventStore, 'getEventsPage');
+
+    await engine.rebuild('open-notional');
+
+    expect(await engine.getAll('open-notional')).toEqual({ alice: 1000 });
+    expect(getEventsPage.mock.calls.map(([offset]) => offset)).toEqual(
+      Array.from({ length: 11 }, (_, i) => i * 1000)
+    );
+  });
+
+  it('should stop a failing projection without affecting the others', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const runtime = createRuntime();
+    const engine = createEngine(runtime);
+    let failing = true;
+    engine.define('executions').on('Order', 'EXECUTE', (e, view) => {
+      if (failing && e.publicMemberSnapshot!.trader === 'bob') {
+        throw new Error('boom');
+      }
+      view.set(e.instanceId, e.publicMemberSnapshot!.trader);
+    });
+    const errors: any[] = [];
+    engine.on('projection_error', error => errors.push(error));
+    await engine.start();
+
+    await trade(runtime, 'alice', 1, 1);
+    const bobOrder = await trade(runtime, 'bob', 1, 1);
+    await trade(runtime, 'carol', 1, 1);
+    await engine.whenIdle();
+
+    expect(errors).toEqual([expect.objectContaining({ projection: 'executions', error: 'boom' })]);
+    expect(engine.getStatus()[1].error).toMatchObject({ message: 'boom' });
+    expect(Object.values(await engine.getAll('executions'))).toEqual(['alice']);
+    expect(await engine.getAll('open-notional')).toEqual({ alice: 1, bob: 1, carol: 1 });
+
+    failing = false;
+    await engine.start();
+    expect(engine.getStatus()[1].error).toBeUndefined();
+    expect(await engine.get('executions', bobOrder)).toBe('bob');
+    expect(Object.keys(await engine.getAll('executions'))).toHaveLength(3);
+  });
+
+  it('should commit rows and checkpoint in one Postgres transaction', async () => {
+    const store = new PostgresProjectionStore({ connectionString: 'postgresql://localhost:5432/test' });
+    // Stand-in for a connected pool (no database here)
+    Object.assign(store, { initialized: true, pool: { connect: jest.fn().mockResolvedValue(mockClient) } });
+    await store.commit('open-notional', { set: { alice: 1000 }, delete: ['bob'] }, { eventId: 'e1', persistedAt: 1, applied: 1 });
+
+    const statements = mockClient.query.mock.calls.map(([sql]) => sql.trim().split(/\s+/).slice(0, 3).join(' '));
+    expect(statements).toEqual([
+      'BEGIN',
+      'INSERT INTO fsm_projections',
+      'DELETE FROM fsm_projections',
+      'INSERT INTO fsm_projection_checkpoints',
+      'COMMIT',
+    ]);
+    expect(mockClient.release).toHaveBeenCalled();
+
+    mockClient.query.mockClear();
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('fsm_projection_checkpoints')) throw new Error('connection lost');
+      return { rows: [] };
+    });
+    await expect(store.commit('open-notional', { set: { alice: 1 }, delete: [] }, { eventId: 'e2', persistedAt: 2, applied: 2 }))
+      .rejects.toThrow('connection lost');
+    expect(mockClient.query).toHaveBeenLastCalledWith('ROLLBACK');
+    mockClient.query.mockResolvedValue({ rows: [] });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Request/Reply Tests
+ * Tests BrokerRequester (correlation, errors, timeouts), Sender.request across processes and external requests
+ */
+
+import { BrokerRequester, RequestTimeoutError, isRequest, sendReply } from '../src/request-reply';
+import { InMemoryMessageBroker, NatsMessageBroker } from '../src/message-broker';
+import { LocalNatsServer } from '../src/nats-local';
+import { ComponentRegistry } from '../src/component-registry';
+import { ExternalBrokerAPI } from '../src/external-broker-api';
+import { FSMRuntime } from '../src/fsm-runtime';
+import { Component, StateType, TransitionType } from '../src/types';
+
+describe('Request/Reply', () => {
+  const payment: Component = {
+    name: 'PaymentComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Payment',
+        initialState: 'Pending',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY },
+          { name: 'Captured', type: StateType.REGULAR },
+          { name: 'Refunded', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Pending', to: 'Captured', event: 'CAPTURE', type: TransitionType.REGULAR },
+          { from: 'Captured', to: 'Refunded', event: 'REFUND', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const order: Component = {
+    name: 'OrderComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Placed',
+        states: [
+          { name: 'Placed', type: StateType.ENTRY },
+          { name: 'Paid', type: StateType.REGULAR },
+        ],
+        transitions: [
+          { from: 'Placed', to: 'Paid', event: 'PAY', type: TransitionType.REGULAR, triggeredMethod: 'payOrder' },
+        ],
+      },
+    ],
+  };
+
+  const event = (type: string) => ({ type, payload: {}, timestamp: Date.now() });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should match replies by correlation ID, and reject on errors and timeouts', async () => {
+    const broker = new InMemoryMessageBroker();
+    await broker.connect();
+    const received: any[] = [];
+    broker.subscribe('pricing:quotes', async (request: any) => {
+      received.push(request);
+      if (request.symbol === 'SLOW') return;
+      await sendReply(broker, request, request.symbol === 'XXX'
+        ? { error: new Error(`Unknown symbol ${request.symbol}`) }
+        : { result: { symbol: request.symbol, price: 42 } });
+    });
+    const requester = new BrokerRequester(broker, { timeoutMs: 20 });
+
+    const [first, second] = await Promise.all([
+      requester.request('pricing:quotes', { symbol: 'ACME' }),
+      requester.request('pricing:quotes', { symbol: 'INIT' }),
+    ]);
+    expect(first).toEqual({ symbol: 'ACME', price: 42 });
+    expect(second).toEqual({ symbol: 'INIT', price: 42 });
+    expect(isRequest(received[0])).toBe(true);
+    expect(received[0].correlationId).not.toBe(received[1].correlationId);
+    expect(received[0].replyTo).toMatch(/^xcomponent:replies:/);
+
+    await expect(requester.request('pricing:quotes', { symbol: 'XXX' })).rejects.toThrow('Unknown symbol XXX');
+    const timedOut = requester.request('pricing:quotes', { symbol: 'SLOW' });
+    await expect(timedOut).rejects.toBeInstanceOf(RequestTimeoutError);
+    await expect(timedOut).rejects.toThrow(/within 20ms/);
+
+    // Late replies are ignored, pending requests are rejected on dispose
+    await sendReply(broker, received[3], { result: 'late' });
+    const cancelled = requester.request('pricing:quotes', { symbol: 'SLOW' }, 1000);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(requester.getPendingCount()).toBe(1);
+    requester.dispose();
+    await expect(cancelled).rejects.toThrow('cancelled');
+  });
+
+  it('should let a triggered method create and drive an instance of a component in another process', async () => {
+    const server = new LocalNatsServer();
+    const connect = async () => {
+      const broker = new NatsMessageBroker('nats://localhost:4222', { connect: server.connect });
+      await broker.connect(1);
+      return broker;
+    };
+
+    // Payment process
+    const payments = new ComponentRegistry(await connect());
+    const paymentRuntime = new FSMRuntime(payment);
+    payments.registerComponent(payment, paymentRuntime);
+
+    // Order process
+    const orders = new ComponentRegistry(await connect());
+    const orderRuntime = new FSMRuntime(order);
+    orders.registerComponent(order, orderRuntime);
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    const replies: any[] = [];
+    orderRuntime.registerHandlers({
+      payOrder: async (_event, context, sender) => {
+        const created = await sender.requestInstance('PaymentComponent', 'Payment', { amount: context.amount });
+        const captured = await sender.request('PaymentComponent', 'Payment', event('CAPTURE'), { instanceId: created.instanceId });
+        replies.push(created, captured);
+        return { contextPatch: { paymentId: created.instanceId, paymentState: captured.instances[0].currentState } };
+      },
+    });
+
+    const id = orderRuntime.createInstance('Order', { amount: 100 });
+    await orderRuntime.sendEvent(id, event('PAY'));
+
+    const [created, captured] = replies;
+    expect(created).toEqual({ instanceId: expect.any(String), machineName: 'Payment', currentState: 'Pending', status: 'active' });
+    expect(paymentRuntime.getInstance(created.instanceId)!.context).toEqual({ amount: 100 });
+    expect(captured).toEqual({
+      componentName: 'PaymentComponent',
+      machineName: 'Payment',
+      instances: [{ instanceId: created.instanceId, machineName: 'Payment', previousState: 'Pending', currentState: 'Captured', status: 'active' }],
+    });
+    expect(orderRuntime.getInstance(id)!.context).toMatchObject({ paymentId: created.instanceId, paymentState: 'Captured' });
+
+    // Disposed by its final state: reported with the state it ended in
+    const refunded = await orders.requestComponent('PaymentComponent', 'Payment', event('REFUND'), { currentState: 'Captured' });
+    expect(refunded.instances).toEqual([expect.objectContaining({ currentState: 'Refunded', status: 'completed' })]);
+    expect(paymentRuntime.getInstance(created.instanceId)).toBeUndefined();
+
+    await expect(orders.requestComponent('PaymentComponent', 'Payment', event('CAPTURE'), { instanceId: 'missing' }))
+      .rejects.toThrow('Instance missing not found');
+    await expect(orders.requestComponent('ShippingComponent', 'Shipment', event('SHIP'), { timeoutMs: 20 }))
+      .rejects.toBeInstanceOf(RequestTimeoutError);
+
+    await orders.dispose();
+    await payments.dispose();
+    await server.shutdown();
+  });
+
+  it('should answer external requests on their reply channel', async () => {
+    const broker = new InMemoryMessageBroker();
+    const registry = new ComponentRegistry(broker);
+    await registry.initialize();
+    registry.registerComponent(payment, new FSMRuntime(payment));
+    const api = new ExternalBrokerAPI({ broker, registry });
+    await api.initialize();
+    const client = new BrokerRequester(broker, { replyChannel: 'billing:replies' });
+
+    const created = await client.request('external:requests', {
+      componentName: 'PaymentComponent',
+      machineName: 'Payment',
+      initialContext: { amount: 5 },
+    });
+    expect(created.instances).toEqual([expect.objectContaining({ machineName: 'Payment', currentState: 'Pending' })]);
+
+    const captured = await client.request('external:requests', {
+      componentName: 'PaymentComponent',
+      machineName: 'Payment',
+      instanceId: created.instances[0].instanceId,
+      event: event('CAPTURE'),
+    });
+    expect(captured.instances[0]).toMatchObject({ previousState: 'Pending', currentState: 'Captured' });
+
+    await expect(client.request('external:requests', { componentName: 'PaymentComponent' }))
+      .rejects.toThrow('Invalid external request format');
+    await expect(client.request('external:requests', { componentName: 'Nope', machineName: 'X', event: event('GO') }))
+      .rejects.toThrow('Component Nope not found');
+
+    client.dispose();
+    await api.dispose();
+    await registry.dispose();
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Retention Tests
+ * Tests retention policies and history compaction (summaries, hash chain, archives, snapshots, runtime memory, stores)
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FSMRuntime } from '../src/fsm-runtime';
+import { InMemoryEventStore, InMemorySnapshotStore } from '../src/persistence';
+import { createFileStores } from '../src/file-persistence';
+import { createSqliteStores } from '../src/sqlite-persistence';
+import { COMPACTION_EVENT, readArchive, validateRetention, verifySummary } from '../src/retention';
+import { Component, EventStore, FSMEvent, PersistedEvent, RetentionPolicy, SnapshotStore, StateType, TransitionType } from '../src/types';
+
+describe('Retention', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  const withRetention = (retention?: RetentionPolicy): Component => ({
+    name: 'PurchasingComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Draft',
+        retention,
+        states: [
+          { name: 'Draft', type: StateType.ENTRY },
+          { name: 'Submitted', type: StateType.REGULAR },
+          { name: 'Approved', type: StateType.REGULAR },
+          { name: 'Closed', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Draft', to: 'Submitted', event: 'SUBMIT', type: TransitionType.REGULAR },
+          { from: 'Submitted', to: 'Approved', event: 'APPROVE', type: TransitionType.REGULAR },
+          { from: 'Approved', to: 'Closed', event: 'CLOSE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  });
+
+  const event = (type: string): FSMEvent => ({ type, payload: {}, timestamp: now });
+
+  let now: number;
+  let directory: string;
+  let eventStore: InMemoryEventStore;
+  let snapshotStore: InMemorySnapshotStore;
+  const runtimes: FSMRuntime[] = [];
+
+  const createRuntime = (
+    component: Component,
+    stores: { eventStore: EventStore; snapshotStore: SnapshotStore } = { eventStore, snapshotStore }
+  ) => {
+    const runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, snapshotInterval: 100, ...stores });
+    runtimes.push(runtime);
+    return runtime;
+  };
+
+  beforeEach(() => {
+    now = Date.parse('2024-01-01T00:00:00Z');
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'xcomponent-retention-'));
+    eventStore = new InMemoryEventStore();
+    snapshotStore = new InMemorySnapshotStore();
+  });
+
+  afterEach(() => {
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+    fs.rmSync(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('should fold events older than maxAgeDays into a summary and keep restore working', async () => {
+    const component = withRetention({ maxAgeDays: 1 });
+    const runtime = createRuntime(component);
+    const id = runtime.createInstance('Order', { amount: 10 });
+    await runtime.sendEvent(id, event('SUBMIT'));
+    const [created, submitted] = await eventStore.getEventsForInstance(id);
+    now += 3 * DAY;
+    await runtime.sendEvent(id, event('APPROVE'));
+
+    const report = await runtime.compactHistory();
+
+    expect(report).toMatchObject({ componentName: 'PurchasingComponent', dryRun: false, events: 2, archives: [] });
+    expect(report.instances).toEqual([
+      expect.objectContaining({ instanceId: id, machineName: 'Order', events: 2, summaryEventId: expect.any(String) }),
+    ]);
+    const history = await eventStore.getEventsForInstance(id);
+    expect(history.map(e => [e.event.type, e.stateBefore, e.stateAfter])).toEqual([
+      [COMPACTION_EVENT, '', 'Submitted'],
+      ['APPROVE', 'Submitted', 'Approved'],
+    ]);
+    expect(history[0].event.payload).toMatchObject({
+      events: 2,
+      fromEventId: created.id,
+      toEventId: submitted.id,
+      previousHash: '',
+      hash: report.instances[0].hash,
+    });
+    expect(await snapshotStore.getSnapshot(id)).toMatchObject({ lastEventId: submitted.id, instance: { currentState: 'Submitted' } });
+
+    const restarted = createRuntime(component);
+    expect(await restarted.restore()).toMatchObject({ restored: 1, failed: 0 });
+    expect(restarted.getInstance(id)).toMatchObject({ currentState: 'Approved', version: 3, context: { amount: 10 } });
+  });
+
+  it('should chain summaries across compactions and archive the folded events', async () => {
+    const runtime = createRuntime(withRetention({ maxAgeDays: 1, terminalSummaryOnly: true, archiveDirectory: directory }));
+    const id = runtime.createInstance('Order', {});
+    await runtime.sendEvent(id, event('SUBMIT'));
+    now += 2 * DAY;
+    const first = await runtime.compactHistory();
+
+    await runtime.sendEvent(id, event('APPROVE'));
+    await runtime.sendEvent(id, event('CLOSE'));
+    now += 1000;
+    const second = await runtime.compactHistory();
+
+    // Finished: only the summary of the whole history is left
+    const [summary, ...rest] = await eventStore.getEventsForInstance(id);
+    expect(rest).toEqual([]);
+    expect(summary.stateAfter).toBe('Closed');
+    expect(summary.event.payload).toMatchObject({ events: 4, previousHash: first.instances[0].hash, hash: second.instances[0].hash });
+    expect(second.archives).toEqual([path.join(directory, `PurchasingComponent-${now}.jsonl.gz`)]);
+    expect(summary.event.payload.archive).toBe(`PurchasingComponent-${now}.jsonl.gz`);
+
+    // The second archive starts with the first summary, checked against the first archive
+    const archived = await readArchive(second.archives[0]);
+    expect(archived.map(e => e.event.type)).toEqual([COMPACTION_EVENT, 'APPROVE', 'CLOSE']);
+    expect(verifySummary(summary, archived)).toBe(true);
+    expect(verifySummary(archived[0], await readArchive(first.archives[0]))).toBe(true);
+    expect(verifySummary(summary, [archived[0], { ...archived[1], stateAfter: 'Closed' }, archived[2]])).toBe(false);
+
+    expect((await runtime.compactHistory()).instances).toEqual([]);
+  });
+
+  it('should answer point-in-time queries from the summary before the latest snapshot', async () => {
+    const runtime = new FSMRuntime(withRetention({ maxAgeDays: 1 }), {
+      eventSourcing: true, snapshots: true, snapshotInterval: 1, eventStore, snapshotStore,
+    });
+    runtimes.push(runtime);
+    const id = runtime.createInstance('Order', { amount: 10 });
+    await runtime.sendEvent(id, event('SUBMIT'));
+    const submittedAt = now;
+    now += 2 * DAY;
+    await runtime.compactHistory();
+    await runtime.sendEvent(id, event('APPROVE'));
+
+    // The creation is folded and the only snapshot is newer than the query
+    expect((await snapshotStore.getSnapshot(id))!.snapshotAt).toBeGreaterThan(submittedAt + DAY);
+    expect(await runtime.getInstanceAt(id, submittedAt + DAY)).toMatchObject({
+      currentState: 'Submitted',
+      status: 'active',
+      context: { amount: 10 },
+    });
+    expect((await runtime.getInstancesInStateAt('Order', 'Submitted', submittedAt + DAY)).map(i => i.id)).toEqual([id]);
+    expect(await runtime.getInstanceAt(id, now)).toMatchObject({ currentState: 'Approved' });
+  });
+
+  it('should keep deduplicating retried events after compaction and a restart', async () => {
+    const component = withRetention({ maxAgeDays: 1 });
+    const runtime = createRuntime(component);
+    const id = runtime.createInstance('Order', {});
+    await runtime.sendEvent(id, { ...event('SUBMIT'), idempotencyKey: 'submit-1' });
+    now += 2 * DAY;
+    await runtime.compactHistory();
+    await runtime.sendEvent(id, { ...event('APPROVE'), idempotencyKey: 'approve-1' });
+    now += 2 * DAY;
+    await runtime.compactHistory();
+
+    // The second summary folds the first one: it carries the keys of both
+    const [summary, ...rest] = await eventStore.getEventsForInstance(id);
+    expect(rest).toEqual([]);
+    expect(summary.event.payload.idempotencyKeys).toEqual(['submit-1', 'approve-1']);
+
+    const restarted = createRuntime(component);
+    await restarted.restore();
+    await restarted.sendEvent(id, { ...event('APPROVE'), idempotencyKey: 'approve-1' });
+    expect(restarted.getStats().duplicateEvents).toBe(1);
+    expect(restarted.getInstance(id)).toMatchObject({ currentState: 'Approved', version: 3 });
+  });
+
+  it('should compact instances whose events come after the whole-stream read cap of the store', async () => {
+    /**
+     * Store capping getAllEvents() like the PostgreSQL and Redis stores used to
+     */
+    class CappedEventStore extends InMemoryEventStore {
+      async getAllEvents(): Promise<PersistedEvent[]> {
+        return (await super.getAllEvents()).slice(0, 10000);
+      }
+    }
+    const capped = new CappedEventStore();
+    const runtime = createRuntime(withRetention({ maxAgeDays: 1 }), { eventStore: capped, snapshotStore });
+    const early = runtime.createInstance('Order', {});
+    for (let i = 0; i < 10000; i++) {
+      await capped.append({
+        id: `other-${i}`,
+        instanceId: `other-${i % 10}`,
+        machineName: 'Invoice',
+        componentName: 'BillingComponent',
+        event: event('TICK'),
+        stateBefore: 'Open',
+        stateAfter: 'Open',
+        persistedAt: now,
+      });
+    }
+    await runtime.sendEvent(early, event('SUBMIT'));
+    const late = runtime.createInstance('Order', {});
+    const folded = await capped.getEventsForInstance(early);
+    now += 2 * DAY;
+
+    const report = await runtime.compactHistory();
+
+    expect(report.instances.map(i => [i.instanceId, i.events])).toEqual([[early, 2], [late, 1]]);
+    const [summary] = await capped.getEventsForInstance(early);
+    expect(summary.event.payload).toMatchObject({ events: 2, toEventId: folded[1].id });
+    expect(verifySummary(summary, folded)).toBe(true);
+  });
+
+  it('should report without changing anything on a dry run', async () => {
+    const runtime = createRuntime(withRetention({ maxAgeDays: 1, archiveDirectory: path.join(directory, 'archive') }));
+    const id = runtime.createInstance('Order', {});
+    now += 2 * DAY;
+
+    const report = await runtime.compactHistory({ dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, events: 1, archives: [], instances: [expect.objectContaining({ instanceId: id })] });
+    expect((await eventStore.getEventsForInstance(id)).map(e => e.event.type)).toEqual(['INSTANCE_CREATED']);
+    expect(await snapshotStore.getSnapshot(id)).toBeNull();
+    expect(fs.existsSync(path.join(directory, 'archive'))).toBe(false);
+  });
+
+  it('should prune the in-memory history of the runtime', async () => {
+    const runtime = createRuntime(withRetention());
+    const id = runtime.createInstance('Order', {});
+    for (const type of ['SUBMIT', 'APPROVE', 'CLOSE']) {
+      await runtime.sendEvent(id, event(type));
+    }
+    const eventHistory: Map<string, unknown[]> = (runtime as any).eventHistory;
+    const entries = eventHistory.get(id)!.length;
+
+    // Disposed and persisted: read from the event store from now on
+    expect((await runtime.compactHistory()).prunedHistory).toBe(entries);
+    expect(eventHistory.has(id)).toBe(false);
+    expect(await runtime.getInstanceHistory(id)).toHaveLength(4);
+
+    // Without persistence, finished instances keep their last entry
+    const inMemory = new FSMRuntime(withRetention({ terminalSummaryOnly: true }));
+    runtimes.push(inMemory);
+    const other = inMemory.createInstance('Order', {});
+    for (const type of ['SUBMIT', 'APPROVE', 'CLOSE']) {
+      await inMemory.sendEvent(other, event(type));
+    }
+    const history: Map<string, Array<{ stateAfter: string }>> = (inMemory as any).eventHistory;
+    const kept = history.get(other)!.length;
+    expect((await inMemory.compactHistory()).prunedHistory).toBe(kept - 1);
+    expect(history.get(other)!.map(e => e.stateAfter)).toEqual(['Closed']);
+  });
+
+  it('should skip stores that cannot be compacted and validate policies', async () => {
+    const component = withRetention({ maxAgeDays: 1 });
+    const noSnapshots = new FSMRuntime(component, { eventSourcing: true, snapshots: false, eventStore, snapshotStore });
+    runtimes.push(noSnapshots);
+    expect((await noSnapshots.compactHistory()).skipped).toBe('Compaction requires snapshots');
+
+    const legacyStore = Object.assign(new InMemoryEventStore(), { compact: undefined });
+    const legacy = createRuntime(component, { eventStore: legacyStore, snapshotStore });
+    expect((await legacy.compactHistory()).skipped).toBe('The event store does not support compaction');
+
+    expect(validateRetention(component)).toEqual([]);
+    const invalid = { ...withRetention({ archiveDirectory: 5 as any }), retention: { maxAgeDays: 0 } };
+    expect(validateRetention(invalid)).toEqual([
+      'retention: maxAgeDays must be a positive number of days',
+      'Machine "Order" retention: archiveDirectory must be a directory path',
+    ]);
+  });
+
+  it.each([
+    ['JSONL files', () => createFileStores({ directory: path.join(directory, 'data') })],
+    ['SQLite', () => createSqliteStores({ filename: path.join(directory, 'data.db') })],
+  ])('should compact the %s store across reopens', async (_name, openStores) => {
+    const component = withRetention({ maxAgeDays: 1 });
+    let stores = await openStores();
+    const runtime = createRuntime(component, stores);
+    const id = runtime.createInstance('Order', {});
+    await runtime.sendEvent(id, event('SUBMIT'));
+    now += 2 * DAY;
+    await runtime.sendEvent(id, event('APPROVE'));
+    await runtime.compactHistory();
+    now += 2 * DAY;
+    await runtime.sendEvent(id, event('CLOSE'));
+    const report = await runtime.compactHistory();
+    runtime.dispose();
+    await stores.eventStore.close();
+    await stores.snapshotStore.close();
+
+    stores = await openStores();
+    try {
+      const history = await stores.eventStore.getEventsForInstance(id);
+      expect(history.map(e => e.event.type)).toEqual([COMPACTION_EVENT, 'CLOSE']);
+      expect(history[0].event.payload).toMatchObject({ events: 3, hash: report.instances[0].hash });
+      expect((await stores.eventStore.getAllEvents()).map(e => e.id)).toEqual(history.map(e => e.id));
+
+      const restarted = createRuntime(component, stores);
+      expect(await restarted.getInstanceAt(id, now)).toMatchObject({ currentState: 'Closed', status: 'completed' });
+    } finally {
+      await stores.eventStore.close();
+      await stores.snapshotStore.close();
+    }
+  });
+});
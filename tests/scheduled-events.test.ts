@@ -0,0 +1,202 @@
+/**
+ * Scheduled Event Tests
+ * Tests delayed and future-dated events (sender.schedule, cancellation, restore catch-up)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { Component, FSMEvent, StateType, TransitionType } from '../src/types';
+
+describe('Scheduled Events', () => {
+  const component: Component = {
+    name: 'SettlementComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Trade',
+        initialState: 'Booked',
+        states: [
+          { name: 'Booked', type: StateType.ENTRY },
+          { name: 'Confirmed', type: StateType.REGULAR },
+          { name: 'Reminded', type: StateType.REGULAR },
+          { name: 'Settled', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Booked', to: 'Confirmed', event: 'CONFIRM', type: TransitionType.REGULAR, triggeredMethod: 'planSettlement' },
+          { from: 'Confirmed', to: 'Reminded', event: 'SETTLEMENT_DUE', type: TransitionType.REGULAR },
+          { from: 'Booked', to: 'Reminded', event: 'SETTLEMENT_DUE', type: TransitionType.REGULAR },
+          { from: 'Confirmed', to: 'Settled', event: 'SETTLE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const due = (): FSMEvent => ({ type: 'SETTLEMENT_DUE', payload: {}, timestamp: Date.now() });
+  const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+  let runtime: FSMRuntime;
+
+  beforeEach(() => {
+    runtime = new FSMRuntime(component);
+  });
+
+  afterEach(() => {
+    runtime.dispose();
+  });
+
+  it('should send the event once the delay elapsed', async () => {
+    const fired: any[] = [];
+    runtime.on('scheduled_event_fired', data => fired.push(data));
+
+    const id = runtime.createInstance('Trade', {});
+    const scheduled = await runtime.scheduleEvent(id, due(), { delayMs: 50 });
+
+    expect(runtime.getScheduledEvents(id)).toEqual([scheduled]);
+    expect(runtime.getInstance(id)!.currentState).toBe('Booked');
+
+    await wait(150);
+    expect(runtime.getInstance(id)!.currentState).toBe('Reminded');
+    expect(runtime.getScheduledEvents(id)).toEqual([]);
+    expect(fired).toHaveLength(1);
+    expect(fired[0]).toMatchObject({ id: scheduled.id, instanceId: id });
+  });
+
+  it('should schedule from triggered code with sender.schedule', async () => {
+    runtime.registerHandlers({
+      planSettlement: async (event, _context, sender) => {
+        await sender.schedule(due(), { at: new Date(event.payload.settlementDate) });
+      },
+    });
+
+    const id = runtime.createInstance('Trade', {});
+    await runtime.sendEvent(id, {
+      type: 'CONFIRM',
+      payload: { settlementDate: new Date(Date.now() + 50).toISOString() },
+      timestamp: Date.now(),
+    });
+    expect(runtime.getScheduledEvents(id)).toHaveLength(1);
+
+    await wait(150);
+    expect(runtime.getInstance(id)!.currentState).toBe('Reminded');
+  });
+
+  it('should list soonest first and cancel scheduled events', async () => {
+    const id = runtime.createInstance('Trade', {});
+    const later = await runtime.scheduleEvent(id, due(), { delayMs: 80 });
+    const sooner = await runtime.scheduleEvent(id, due(), { delayMs: 40 });
+
+    expect(runtime.getScheduledEvents().map(s => s.id)).toEqual([sooner.id, later.id]);
+
+    expect(await runtime.cancelScheduledEvent(id, sooner.id)).toBe(true);
+    expect(await runtime.cancelScheduledEvent(id, sooner.id)).toBe(false);
+    expect(await runtime.cancelScheduledEvent(id, later.id)).toBe(true);
+
+    await wait(150);
+    expect(runtime.getInstance(id)!.currentState).toBe('Booked');
+  });
+
+  it('should reject invalid schedules', async () => {
+    const id = runtime.createInstance('Trade', {});
+
+    await expect(runtime.scheduleEvent(id, due(), {})).rejects.toThrow('exactly one of "at" or "delayMs"');
+    await expect(runtime.scheduleEvent(id, due(), { at: 'not a date' })).rejects.toThrow('Invalid schedule time');
+    await expect(runtime.scheduleEvent('missing', due(), { delayMs: 10 })).rejects.toThrow('Instance missing not found');
+  });
+
+  it('should drop pending schedules when the instance is disposed', async () => {
+    const id = runtime.createInstance('Trade', {});
+    await runtime.sendEvent(id, { type: 'CONFIRM', payload: {}, timestamp: Date.now() });
+    await runtime.scheduleEvent(id, due(), { delayMs: 60_000 });
+
+    const timerWheel = (runtime as any).timerWheel;
+    const pendingBefore = timerWheel.getPendingCount();
+    await runtime.sendEvent(id, { type: 'SETTLE', payload: {}, timestamp: Date.now() });
+
+    expect(timerWheel.getPendingCount()).toBe(pendingBefore - 1);
+  });
+
+  describe('Restore', () => {
+    const persistence = { eventSourcing: true, snapshots: true, snapshotInterval: 100 };
+
+    const restart = async (previous: FSMRuntime) => {
+      const manager = previous.getPersistenceManager()!;
+      const next = new FSMRuntime(component, {
+        ...persistence,
+        eventStore: manager.getEventStore(),
+        snapshotStore: manager.getSnapshotStore(),
+      });
+      await next.restore();
+      return next;
+    };
+
+    it('should fire scheduled events after restore()', async () => {
+      const runtime1 = new FSMRuntime(component, persistence);
+      const id = runtime1.createInstance('Trade', {});
+      await runtime1.scheduleEvent(id, due(), { delayMs: 100 });
+      runtime1.dispose();
+
+      const runtime2 = await restart(runtime1);
+      expect(runtime2.getScheduledEvents(id)).toHaveLength(1);
+
+      await wait(200);
+      expect(runtime2.getInstance(id)!.currentState).toBe('Reminded');
+      runtime2.dispose();
+    });
+
+    it('should catch up events that fell due while stopped', async () => {
+      const runtime1 = new FSMRuntime(component, persistence);
+      const id = runtime1.createInstance('Trade', {});
+      await runtime1.scheduleEvent(id, due(), { delayMs: 20 });
+      runtime1.dispose();
+
+      await wait(60);
+      const runtime2 = await restart(runtime1);
+      const fired: any[] = [];
+      runtime2.on('scheduled_event_fired', data => fired.push(data));
+
+      await wait(50);
+      expect(runtime2.getInstance(id)!.currentState).toBe('Reminded');
+      expect(fired[0].lateByMs).toBeGreaterThan(0);
+      runtime2.dispose();
+    });
+
+    it('should save schedules made during a transition with its snapshot', async () => {
+      const runtime1 = new FSMRuntime(component, persistence);
+      runtime1.registerHandlers({
+        planSettlement: async (_event, _context, sender) => {
+          await sender.schedule(due(), { delayMs: 60_000 });
+        },
+      });
+
+      const id = runtime1.createInstance('Trade', {});
+      await runtime1.sendEvent(id, { type: 'CONFIRM', payload: {}, timestamp: Date.now() });
+
+      const snapshot = await runtime1.getPersistenceManager()!.getSnapshotStore().getSnapshot(id);
+      expect(snapshot!.instance.currentState).toBe('Confirmed');
+      expect(snapshot!.instance.scheduledEvents).toHaveLength(1);
+      runtime1.dispose();
+    });
+
+    it('should not fire again when the snapshot predates the firing', async () => {
+      const runtime1 = new FSMRuntime(component, persistence);
+      const id = runtime1.createInstance('Trade', {});
+      await runtime1.scheduleEvent(id, due(), { delayMs: 20 });
+      const staleSnapshot = await runtime1.getPersistenceManager()!.getSnapshotStore().getSnapshot(id);
+
+      await wait(80);
+      expect(runtime1.getInstance(id)!.currentState).toBe('Reminded');
+      await runtime1.getPersistenceManager()!.getSnapshotStore().saveSnapshot(staleSnapshot!);
+      runtime1.dispose();
+
+      // The fired event is replayed on top of the stale snapshot
+      const fired: any[] = [];
+      const runtime2 = await restart(runtime1);
+      runtime2.on('scheduled_event_fired', data => fired.push(data));
+
+      await wait(80);
+      expect(fired).toHaveLength(0);
+      expect(runtime2.getScheduledEvents(id)).toEqual([]);
+      expect(runtime2.getInstance(id)!.currentState).toBe('Reminded');
+      runtime2.dispose();
+    });
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * Sharding Tests
+ * Tests shard assignment and rebalancing, routing between replicas (NATS), hand-over through the stores,
+ * RuntimeBroadcaster announcements and Kafka partition keys
+ */
+
+import { ShardCoordinator, ShardRebalance, assignShards, messageShard, shardKey, shardOf } from '../src/sharding';
+import { ComponentRegistry } from '../src/component-registry';
+import { FSMRuntime } from '../src/fsm-runtime';
+import { CrossComponentMessage, InMemoryMessageBroker, KafkaMessageBroker, NatsMessageBroker, createMessageBroker } from '../src/message-broker';
+import { LocalNatsServer } from '../src/nats-local';
+import { InMemoryEventStore, InMemorySnapshotStore } from '../src/persistence';
+import { RuntimeBroadcaster } from '../src/runtime-broadcaster';
+import { DashboardChannels } from '../src/dashboard-server';
+import { Component, StateType, TransitionType } from '../src/types';
+
+describe('Sharding', () => {
+  const order = (sharding: Component['sharding']): Component => ({
+    name: 'OrderComponent',
+    version: '1.0.0',
+    sharding,
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Placed',
+        states: [
+          { name: 'Placed', type: StateType.ENTRY },
+          { name: 'Paid', type: StateType.REGULAR },
+        ],
+        transitions: [{ from: 'Placed', to: 'Paid', event: 'PAY', type: TransitionType.REGULAR }],
+      },
+    ],
+  });
+
+  const event = (type: string) => ({ type, payload: {}, timestamp: Date.now() });
+  const delivered = () => new Promise(resolve => setTimeout(resolve, 20));
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should spread shards over the replicas and only move those of a replica joining or leaving', () => {
+    const two = assignShards(['a', 'b'], 64);
+    const three = assignShards(['a', 'b', 'c'], 64);
+    expect(new Set(three)).toEqual(new Set(['a', 'b', 'c']));
+    three.forEach((owner, shard) => {
+      if (owner !== two[shard]) expect(owner).toBe('c');
+    });
+    expect(three.filter(owner => owner === 'c').length).toBeGreaterThan(10);
+
+    expect(shardOf('ORD-1', 8)).toBe(shardOf('ORD-1', 8));
+    expect(shardKey({ key: 'customer.id' }, { customer: { id: 42 } }, 'i1')).toBe('42');
+    expect(shardKey({ key: 'customer.id' }, {}, 'i1')).toBe('i1');
+    const message: CrossComponentMessage = {
+      sourceComponent: 'Shop', targetComponent: 'OrderComponent', targetMachine: 'Order', targetState: '*', event: event('PAY'),
+    };
+    expect(messageShard({ ...message, targetInstanceId: 'i1' }, { shards: 8 })).toBe(shardOf('i1', 8));
+    expect(messageShard({ ...message, targetInstanceId: 'i1' }, { shards: 8, key: 'orderId' })).toBeUndefined();
+    expect(messageShard({ ...message, filters: [{ property: 'orderId', value: 'O-1' }] }, { shards: 8, key: 'orderId' }))
+      .toBe(shardOf('O-1', 8));
+    expect(messageShard({ ...message, createContext: { orderId: 'O-2' } }, { shards: 8, key: 'orderId' })).toBe(shardOf('O-2', 8));
+    expect(messageShard(message, { shards: 8, key: 'orderId' })).toBeUndefined();
+
+    const shards = new ShardCoordinator('OrderComponent', { shards: 16 }, { replicaId: 'a', memberTimeoutMs: 100 });
+    const rebalances: ShardRebalance[] = [];
+    shards.on('rebalance', rebalance => rebalances.push(rebalance));
+    expect(shards.getOwnedShards()).toHaveLength(16);
+
+    const b = { componentName: 'OrderComponent', replicaId: 'b', shardCount: 16, ownedShards: [] };
+    expect(shards.observe(b, 0)).toBe(true);
+    expect(shards.observe(b, 50)).toBe(false);
+    expect(shards.observe({ ...b, componentName: 'PaymentComponent', replicaId: 'c' }, 50)).toBe(false);
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(shards.observe({ ...b, replicaId: 'c', shardCount: 8 }, 50)).toBe(false);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    const lost = assignShards(['a', 'b'], 16).flatMap((owner, shard) => (owner === 'b' ? [shard] : []));
+    expect(rebalances).toEqual([{ componentName: 'OrderComponent', replicaId: 'a', members: ['a', 'b'], gained: [], lost }]);
+    expect(shards.getAnnouncement()).toEqual({
+      componentName: 'OrderComponent', replicaId: 'a', shardCount: 16, ownedShards: shards.getOwnedShards(),
+    });
+    for (let i = 0; i < 20; i++) {
+      expect(shards.ownsShard(shards.shardOfContext({}, shards.newInstanceId({})))).toBe(true);
+    }
+
+    // Heard of 100ms ago at most: kept, then dropped
+    shards.expireMembers(150);
+    expect(rebalances).toHaveLength(1);
+    shards.expireMembers(151);
+    expect(rebalances[1]).toMatchObject({ members: ['a'], gained: lost, lost: [] });
+    shards.leave('b');
+    expect(rebalances).toHaveLength(2);
+  });
+
+  it('should draw one instance ID when the key property decides the shard', () => {
+    const shards = new ShardCoordinator('OrderComponent', { shards: 16, key: 'orderId' }, { replicaId: 'a' });
+    shards.observe({ componentName: 'OrderComponent', replicaId: 'b', shardCount: 16, ownedShards: [] });
+    const orderId = Array.from({ length: 50 }, (_, n) => `O-${n}`).find(id => !shards.ownsShard(shardOf(id, 16)))!;
+    const shardOfContext = jest.spyOn(shards, 'shardOfContext');
+
+    expect(shards.newInstanceId({ orderId })).toMatch(/^[0-9a-f-]{36}$/);
+    expect(shardOfContext).not.toHaveBeenCalled();
+
+    // Without the key property, the ID decides
+    expect(shards.ownsShard(shards.shardOfContext({}, shards.newInstanceId({})))).toBe(true);
+  });
+
+  it('should create, route and broadcast each instance on one replica over NATS', async () => {
+    const server = new LocalNatsServer();
+    const connect = async (durable: string) => {
+      const broker = new NatsMessageBroker(`nats://localhost:4222?durable=${durable}`, { connect: server.connect });
+      await broker.connect(1);
+      return broker;
+    };
+
+    // Two replicas, each reading the component channel with its own durable consumer
+    const component = order({ shards: 8, key: 'orderId' });
+    const replicas = await Promise.all(['replica-a', 'replica-b'].map(async replicaId => {
+      const registry = new ComponentRegistry(await connect(replicaId), { replicaId });
+      const runtime = new FSMRuntime(component);
+      registry.registerComponent(component, runtime);
+      return { registry, runtime, shards: registry.getShardCoordinator('OrderComponent')! };
+    }));
+    const [a, b] = replicas;
+    a.shards.observe(b.shards.getAnnouncement());
+    b.shards.observe(a.shards.getAnnouncement());
+    const shop = new ComponentRegistry(await connect('shop'));
+    await delivered();
+
+    const ids = Array.from({ length: 20 }, (_, n) =>
+      a.registry.createInstanceInComponent('OrderComponent', 'Order', { orderId: `O-${n}` }));
+    await delivered();
+
+    for (const { runtime, shards } of replicas) {
+      const held = runtime.getAllInstances();
+      expect(held.length).toBeGreaterThan(0);
+      expect(held.every(instance => shards.owns(instance))).toBe(true);
+    }
+    expect(a.runtime.getAllInstances().length + b.runtime.getAllInstances().length).toBe(20);
+    const holder = (id: string) => replicas.find(r => r.runtime.getInstance(id))!;
+    expect(ids.every(id => holder(id))).toBe(true);
+
+    // An instance held by the other replica is reached through the broker
+    const sent = replicas.map(({ runtime }) => jest.spyOn(runtime, 'sendEvent'));
+    const remote = b.runtime.getAllInstances()[0];
+    await a.registry.sendEventToComponent('OrderComponent', remote.id, event('PAY'));
+    await delivered();
+    expect(b.runtime.getInstance(remote.id)!.currentState).toBe('Paid');
+
+    // Broadcast: every replica receives it, each instance is handled once
+    await shop.broadcastToComponent('OrderComponent', 'Order', event('PAY'), 'Shop', undefined, 'Placed');
+    await delivered();
+    expect(ids.every(id => holder(id).runtime.getInstance(id)!.currentState === 'Paid')).toBe(true);
+    expect(sent[0].mock.calls.length + sent[1].mock.calls.length).toBe(20);
+
+    // Requests: answered by the replica creating or holding the instance
+    const created = await shop.requestInstance('OrderComponent', 'Order', { orderId: 'O-99' }, { timeoutMs: 500 });
+    const owner = replicas.find(r => r.shards.ownsShard(shardOf('O-99', 8)))!;
+    expect(owner.runtime.getInstance(created.instanceId)).toBeDefined();
+    const paid = await shop.requestComponent('OrderComponent', 'Order', event('PAY'), { instanceId: created.instanceId });
+    expect(paid.instances[0]).toMatchObject({ instanceId: created.instanceId, currentState: 'Paid' });
+    await expect(shop.requestComponent('OrderComponent', 'Order', event('PAY'), { currentState: 'Placed' }))
+      .rejects.toThrow('Requests to sharded component OrderComponent must target or create one instance');
+    expect(sent[0].mock.calls.length + sent[1].mock.calls.length).toBe(21);
+
+    await shop.dispose();
+    for (const { registry } of replicas) {
+      await registry.dispose();
+    }
+    await server.shutdown();
+  });
+
+  it('should report a missing instance of a component sharded by key from one replica', async () => {
+    const server = new LocalNatsServer();
+    const connect = async (durable: string) => {
+      const broker = new NatsMessageBroker(`nats://localhost:4222?durable=${durable}`, { connect: server.connect });
+      await broker.connect(1);
+      return broker;
+    };
+    const eventStore = new InMemoryEventStore();
+    const snapshotStore = new InMemorySnapshotStore();
+    const component = order({ shards: 8, key: 'orderId' });
+    const replicas = await Promise.all(['replica-a', 'replica-b'].map(async replicaId => {
+      const registry = new ComponentRegistry(await connect(replicaId), { replicaId });
+      const runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, eventStore, snapshotStore });
+      registry.registerComponent(component, runtime);
+      return { registry, runtime, shards: registry.getShardCoordinator('OrderComponent')! };
+    }));
+    const [a, b] = replicas;
+    a.shards.observe(b.shards.getAnnouncement());
+    b.shards.observe(a.shards.getAnnouncement());
+    const shop = new ComponentRegistry(await connect('shop'));
+    await delivered();
+
+    await expect(shop.requestComponent('OrderComponent', 'Order', event('PAY'), { instanceId: 'missing', timeoutMs: 500 }))
+      .rejects.toThrow('Instance missing not found');
+
+    // An instance held away from the owner of shard 0 is answered by its holder only
+    const other = replicas.find(r => !r.shards.ownsShard(0))!;
+    const orderId = Array.from({ length: 50 }, (_, n) => `O-${n}`).find(id => other.shards.ownsShard(shardOf(id, 8)))!;
+    const created = await shop.requestInstance('OrderComponent', 'Order', { orderId }, { timeoutMs: 500 });
+    const paid = await shop.requestComponent('OrderComponent', 'Order', event('PAY'), { instanceId: created.instanceId, timeoutMs: 500 });
+    expect(paid.instances[0]).toMatchObject({ instanceId: created.instanceId, currentState: 'Paid' });
+
+    await shop.dispose();
+    for (const { registry } of replicas) {
+      await registry.dispose();
+    }
+    await server.shutdown();
+  });
+
+  it('should hand the instances over through the stores when a replica joins and leaves', async () => {
+    const eventStore = new InMemoryEventStore();
+    const snapshotStore = new InMemorySnapshotStore();
+    const component = order({ shards: 16 });
+    const replica = (replicaId: string) => {
+      const registry = new ComponentRegistry(new InMemoryMessageBroker(), { replicaId });
+      const runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, eventStore, snapshotStore });
+      registry.registerComponent(component, runtime);
+      return { registry, runtime, shards: registry.getShardCoordinator('OrderComponent')! };
+    };
+    const rebalanced = (registry: ComponentRegistry) => new Promise<any>(resolve => registry.once('shards_rebalanced', resolve));
+
+    const a = replica('replica-a');
+    const ids = Array.from({ length: 12 }, () => a.registry.createInstanceInComponent('OrderComponent', 'Order', {}));
+    await delivered();
+
+    // Replica b joins: a releases what b restores
+    const b = replica('replica-b');
+    b.shards.observe(a.shards.getAnnouncement());
+    const released = rebalanced(a.registry);
+    a.shards.observe(b.shards.getAnnouncement());
+    const handedOver = await released;
+    await b.registry.restore();
+
+    expect(handedOver.released.length).toBeGreaterThan(0);
+    expect(b.runtime.getAllInstances().map(i => i.id).sort()).toEqual([...handedOver.released].sort());
+    expect(a.runtime.getAllInstances().length + b.runtime.getAllInstances().length).toBe(12);
+    expect(b.runtime.getAllInstances().every(instance => b.shards.owns(instance))).toBe(true);
+
+    // b moves one on, then leaves: a restores its instances as they were
+    const moved = b.runtime.getAllInstances()[0].id;
+    await b.registry.sendEventToComponent('OrderComponent', moved, event('PAY'));
+    const restored = rebalanced(a.registry);
+    a.shards.leave('replica-b');
+    expect(await restored).toMatchObject({ released: [], restored: handedOver.released.length });
+    expect(a.runtime.getAllInstances().map(i => i.id).sort()).toEqual([...ids].sort());
+    expect(a.runtime.getInstance(moved)!.currentState).toBe('Paid');
+
+    await a.registry.dispose();
+    await b.registry.dispose();
+  });
+
+  it('should release an instance busy with an event once it is processed', async () => {
+    const eventStore = new InMemoryEventStore();
+    const snapshotStore = new InMemorySnapshotStore();
+    const component = order({ shards: 16 });
+    const replica = (replicaId: string) => {
+      const registry = new ComponentRegistry(new InMemoryMessageBroker(), { replicaId });
+      const runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, eventStore, snapshotStore });
+      registry.registerComponent(component, runtime);
+      return { registry, runtime, shards: registry.getShardCoordinator('OrderComponent')! };
+    };
+
+    const a = replica('replica-a');
+    Array.from({ length: 12 }, () => a.registry.createInstanceInComponent('OrderComponent', 'Order', {}));
+    await delivered();
+    const b = replica('replica-b');
+    b.shards.observe(a.shards.getAnnouncement());
+    const busy = a.runtime.getAllInstances().find(instance => b.shards.owns(instance))!;
+
+    // Slow store: the instance is still processing PAY when b joins
+    const append = eventStore.append.bind(eventStore);
+    jest.spyOn(eventStore, 'append').mockImplementation(async (persisted, expectedVersion) => {
+      if (persisted.event.type === 'PAY') {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      return append(persisted, expectedVersion);
+    });
+    const paid = a.runtime.sendEvent(busy.id, event('PAY'));
+    const released = new Promise<any>(resolve => a.registry.once('shards_rebalanced', resolve));
+    a.shards.observe(b.shards.getAnnouncement());
+
+    expect((await released).released).toContain(busy.id);
+    await paid;
+    expect(a.runtime.getInstance(busy.id)).toBeUndefined();
+    await b.registry.restore();
+    expect(b.runtime.getInstance(busy.id)!.currentState).toBe('Paid');
+
+    await a.registry.dispose();
+    await b.registry.dispose();
+  });
+
+  it('should handle rebalances following each other one at a time', async () => {
+    const eventStore = new InMemoryEventStore();
+    const snapshotStore = new InMemorySnapshotStore();
+    const component = order({ shards: 16 });
+    const replica = (replicaId: string) => {
+      const registry = new ComponentRegistry(new InMemoryMessageBroker(), { replicaId });
+      const runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, eventStore, snapshotStore });
+      registry.registerComponent(component, runtime);
+      return { registry, runtime, shards: registry.getShardCoordinator('OrderComponent')! };
+    };
+
+    const a = replica('replica-a');
+    const ids = Array.from({ length: 12 }, () => a.registry.createInstanceInComponent('OrderComponent', 'Order', {}));
+    await delivered();
+    const b = replica('replica-b');
+    b.shards.observe(a.shards.getAnnouncement());
+    const busy = a.runtime.getAllInstances().find(instance => b.shards.owns(instance))!;
+
+    // Slow store: the release of the first rebalance is still waiting for PAY when b leaves
+    const append = eventStore.append.bind(eventStore);
+    jest.spyOn(eventStore, 'append').mockImplementation(async (persisted, expectedVersion) => {
+      if (persisted.event.type === 'PAY') {
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+      return append(persisted, expectedVersion);
+    });
+    const paid = a.runtime.sendEvent(busy.id, event('PAY'));
+    const rebalances: any[] = [];
+    const both = new Promise<void>(resolve => a.registry.on('shards_rebalanced', rebalance => {
+      if (rebalances.push(rebalance) === 2) resolve();
+    }));
+    a.shards.observe(b.shards.getAnnouncement());
+    a.shards.leave('replica-b');
+    await paid;
+    await both;
+
+    expect(rebalances[0].released).toContain(busy.id);
+    expect(rebalances[1]).toMatchObject({ released: [], restored: rebalances[0].released.length });
+    expect(a.runtime.getAllInstances().map(i => i.id).sort()).toEqual([...ids].sort());
+    expect(a.runtime.getInstance(busy.id)!.currentState).toBe('Paid');
+
+    await a.registry.dispose();
+    await b.registry.dispose();
+  });
+
+  it('should dead-letter a message to a missing instance of a shard owned here', async () => {
+    const broker = new InMemoryMessageBroker();
+    const registry = new ComponentRegistry(broker, { replicaId: 'replica-a', retry: { maxAttempts: 2, initialDelayMs: 5 } });
+    const component = order({ shards: 16 });
+    registry.registerComponent(component, new FSMRuntime(component));
+    const deadLettered = new Promise<any>(resolve => registry.once('message_dead_lettered', resolve));
+
+    await broker.publish('xcomponent:OrderComponent', {
+      sourceComponent: 'unknown',
+      targetComponent: 'OrderComponent',
+      targetMachine: '',
+      targetState: '*',
+      event: event('PAY'),
+      targetInstanceId: 'missing',
+    });
+
+    expect(await deadLettered).toMatchObject({ componentName: 'OrderComponent', reason: 'Instance missing not found', attempts: 2 });
+    await registry.dispose();
+  });
+
+  it('should announce shard ownership in RuntimeBroadcaster heartbeats', async () => {
+    const component = order({ shards: 8, key: 'orderId' });
+    const replica = (replicaId: string) => {
+      const runtime = new FSMRuntime(component);
+      const shards = new ShardCoordinator('OrderComponent', component.sharding, { replicaId });
+      const broadcaster = new RuntimeBroadcaster(runtime, component, { brokerUrl: 'memory', heartbeatInterval: 20, sharding: shards });
+      return { runtime, shards, broadcaster };
+    };
+    const bus = createMessageBroker('memory');
+    const heartbeats: any[] = [];
+    await bus.connect();
+    bus.subscribe(DashboardChannels.RUNTIME_HEARTBEAT, heartbeat => {
+      heartbeats.push(heartbeat);
+    });
+
+    const a = replica('replica-a');
+    const b = replica('replica-b');
+    await a.broadcaster.connect();
+    await b.broadcaster.connect();
+    await delivered();
+
+    expect(a.shards.getMembers()).toEqual(['replica-a', 'replica-b']);
+    expect(b.shards.getMembers()).toEqual(['replica-a', 'replica-b']);
+    expect(heartbeats).toContainEqual(expect.objectContaining({ runtimeId: b.broadcaster.getRuntimeId(), shards: b.shards.getAnnouncement() }));
+
+    // Every replica gets the command: the owner of the shard creates the instance
+    await bus.publish(DashboardChannels.CREATE_INSTANCE, { componentName: 'OrderComponent', machineName: 'Order', context: { orderId: 'O-1' } });
+    await delivered();
+    const owner = shardOf('O-1', 8);
+    expect(a.runtime.getAllInstances()).toHaveLength(a.shards.ownsShard(owner) ? 1 : 0);
+    expect(b.runtime.getAllInstances()).toHaveLength(b.shards.ownsShard(owner) ? 1 : 0);
+
+    await b.broadcaster.disconnect();
+    await delivered();
+    expect(a.shards.getMembers()).toEqual(['replica-a']);
+    expect(a.shards.getOwnedShards()).toHaveLength(8);
+    await a.broadcaster.disconnect();
+    a.runtime.dispose();
+    b.runtime.dispose();
+  });
+
+  it('should key Kafka messages by shard', async () => {
+    const kafka = new KafkaMessageBroker('kafka://localhost:9092');
+    const send = jest.fn();
+    // Stand-in for a connected producer (no Kafka here)
+    Object.assign(kafka, { connected: true, producer: { send }, createdTopics: new Set(['xcomponent.OrderComponent']) });
+    const registry = new ComponentRegistry(kafka, { sharding: { OrderComponent: { shards: 8, key: 'orderId' } } });
+
+    await registry.broadcastToComponent('OrderComponent', 'Order', event('PAY'), 'Shop', [{ property: 'orderId', value: 'O-7' }]);
+    await registry.broadcastToComponent('OrderComponent', 'Order', event('PAY'), 'Shop', undefined, 'Placed');
+
+    expect(send.mock.calls.map(([record]) => [record.topic, record.messages[0].key])).toEqual([
+      ['xcomponent.OrderComponent', String(shardOf('O-7', 8))],
+      ['xcomponent.OrderComponent', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * SQLite Persistence Tests
+ * Tests the file-backed event/snapshot stores (round-trip, conflicts, causality, restart) and store history queries
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FSMRuntime } from '../src/fsm-runtime';
+import { ConcurrencyConflictError } from '../src/persistence';
+import { SqliteEventStore, SqliteSnapshotStore, createSqliteStores } from '../src/sqlite-persistence';
+import { StoreHistoryQueries } from '../src/history-queries';
+import { Component, FSMEvent, PersistedEvent, StateType, TransitionType } from '../src/types';
+
+describe('SQLite Persistence', () => {
+  const component: Component = {
+    name: 'OrderComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Pending',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY },
+          { name: 'Executed', type: StateType.REGULAR },
+          { name: 'Completed', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Pending', to: 'Executed', event: 'EXECUTE', type: TransitionType.REGULAR },
+          { from: 'Executed', to: 'Completed', event: 'COMPLETE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const event = (type: string, payload: Record<string, any> = {}): FSMEvent => ({ type, payload, timestamp: Date.now() });
+
+  const persistedEvent = (id: string, overrides: Partial<PersistedEvent> = {}): PersistedEvent => ({
+    id,
+    instanceId: 'order-1',
+    machineName: 'Order',
+    componentName: 'OrderComponent',
+    event: event('EXECUTE', { orderId: 'A-1' }),
+    stateBefore: 'Pending',
+    stateAfter: 'Executed',
+    persistedAt: Date.now(),
+    ...overrides,
+  });
+
+  let dir: string;
+  let filename: string;
+  const opened: Array<SqliteEventStore | SqliteSnapshotStore> = [];
+  const runtimes: FSMRuntime[] = [];
+
+  const openStores = async () => {
+    const stores = await createSqliteStores({ filename });
+    opened.push(stores.eventStore, stores.snapshotStore);
+    return stores;
+  };
+
+  const createRuntime = (stores: { eventStore: SqliteEventStore; snapshotStore: SqliteSnapshotStore }) => {
+    const runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, snapshotInterval: 1, ...stores });
+    runtimes.push(runtime);
+    return runtime;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'xcomponent-sqlite-'));
+    filename = path.join(dir, 'data.db');
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+    for (const store of opened.splice(0)) {
+      await store.close();
+    }
+    fs.rmSync(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  describe('SqliteEventStore', () => {
+    it('should round-trip events with their metadata', async () => {
+      const { eventStore } = await openStores();
+      const original = persistedEvent('e1', {
+        event: { ...event('EXECUTE', { orderId: 'A-1' }), idempotencyKey: 'req-1' },
+        publicMemberSnapshot: { orderId: 'A-1', qty: 10 },
+        sourceComponentName: 'Gateway',
+        version: 1,
+      });
+      await eventStore.append(original, 0);
+
+      const [stored] = await eventStore.getEventsForInstance('order-1');
+      expect(stored).toMatchObject(original);
+    });
+
+    it('should reject an append with a stale expected version', async () => {
+      const { eventStore } = await openStores();
+      await eventStore.append(persistedEvent('e1', { version: 1 }), 0);
+      await eventStore.append(persistedEvent('e2', { version: 2 }), 1);
+
+      const stale = eventStore.append(persistedEvent('e3', { version: 2 }), 1);
+      await expect(stale).rejects.toBeInstanceOf(ConcurrencyConflictError);
+      await expect(stale).rejects.toMatchObject({ instanceId: 'order-1', expectedVersion: 1, actualVersion: 2 });
+      expect(await eventStore.getEventsForInstance('order-1')).toHaveLength(2);
+    });
+
+    it('should read instance streams in version order', async () => {
+      const { eventStore } = await openStores();
+      // Two writers with drifting clocks: version 2 is inserted first, with an earlier time
+      await eventStore.append(persistedEvent('e0', { persistedAt: 900 }));
+      await eventStore.append(persistedEvent('e2', { version: 2, persistedAt: 1000 }));
+      await eventStore.append(persistedEvent('e1', { version: 1, persistedAt: 1001 }));
+      await eventStore.append(persistedEvent('e3', { version: 3, persistedAt: 1000 }));
+
+      expect((await eventStore.getEventsForInstance('order-1')).map(e => e.id)).toEqual(['e0', 'e1', 'e2', 'e3']);
+    });
+
+    it('should trace causality chains through causal links', async () => {
+      const { eventStore } = await openStores();
+      await eventStore.append(persistedEvent('root'));
+      await eventStore.append(persistedEvent('child', { instanceId: 'shipment-1', causedBy: ['root'] }));
+      await eventStore.append(persistedEvent('grandchild', { instanceId: 'invoice-1', causedBy: ['child'] }));
+      await eventStore.appendCausalLink('root', 'child');
+      await eventStore.appendCausalLink('child', 'grandchild');
+      await eventStore.appendCausalLink('child', 'grandchild');
+
+      expect((await eventStore.getCausedEvents('root')).map(e => e.id)).toEqual(['child']);
+      expect((await eventStore.traceEvent('root')).map(e => e.id)).toEqual(['root', 'child', 'grandchild']);
+    });
+
+    it('should list the instances with events', async () => {
+      const { eventStore } = await openStores();
+      await eventStore.append(persistedEvent('e1'));
+      await eventStore.append(persistedEvent('e2'));
+      await eventStore.append(persistedEvent('e3', { instanceId: 'order-2' }));
+
+      expect((await eventStore.getInstanceIds()).sort()).toEqual(['order-1', 'order-2']);
+    });
+  });
+
+  describe('SqliteSnapshotStore', () => {
+    it('should query snapshots by machine and state', async () => {
+      const { snapshotStore } = await openStores();
+      const runtime = createRuntime(await openStores());
+      const first = runtime.createInstance('Order', { orderId: 'A-1' });
+      const second = runtime.createInstance('Order', { orderId: 'A-2' });
+      await runtime.sendEvent(first, event('EXECUTE'));
+      await runtime.sendEvent(second, event('EXECUTE'));
+      await runtime.sendEvent(first, event('COMPLETE'));
+
+      expect(await snapshotStore.getSnapshotsByMachine('Order')).toHaveLength(2);
+      expect(await snapshotStore.getSnapshotsByMachine('Invoice')).toEqual([]);
+      const executed = await snapshotStore.getSnapshotsByState('Executed');
+      expect(executed.map(s => s.instance.id)).toEqual([second]);
+      expect(executed[0].instance.context).toEqual({ orderId: 'A-2' });
+    });
+  });
+
+  it('should restore instances after a restart', async () => {
+    const runtime1 = createRuntime(await openStores());
+    const id = runtime1.createInstance('Order', { orderId: 'A-1' });
+    await runtime1.sendEvent(id, event('EXECUTE', { qty: 5 }));
+    runtime1.dispose();
+
+    const runtime2 = createRuntime(await openStores());
+    const report = await runtime2.restore();
+
+    expect(report.restored).toBe(1);
+    expect(runtime2.getInstance(id)).toMatchObject({
+      currentState: 'Executed',
+      context: { orderId: 'A-1', qty: 5 },
+      version: 2,
+    });
+    await runtime2.sendEvent(id, event('COMPLETE'));
+    expect((await runtime2.getInstanceHistory(id)).map(e => e.event.type)).toEqual(['INSTANCE_CREATED', 'EXECUTE', 'COMPLETE']);
+  });
+
+  describe('StoreHistoryQueries', () => {
+    it('should search persisted instances, including terminated ones', async () => {
+      const stores = await openStores();
+      const runtime = createRuntime(stores);
+      const first = runtime.createInstance('Order', { orderId: 'A-1' });
+      runtime.createInstance('Order', { orderId: 'B-2' });
+      await runtime.sendEvent(first, event('EXECUTE'));
+      await runtime.sendEvent(first, event('COMPLETE'));
+
+      const history = new StoreHistoryQueries(stores.eventStore, stores.snapshotStore);
+      expect(await history.searchInstances({ state: 'Completed' })).toEqual([
+        expect.objectContaining({ instance_id: first, machine_name: 'Order', current_state: 'Completed' }),
+      ]);
+      expect((await history.searchInstances({ q: 'b-2' })).map(i => i.context)).toEqual([{ orderId: 'B-2' }]);
+
+      const { snapshot, events } = await history.getInstanceEventsWithSnapshot(first);
+      expect(snapshot).toMatchObject({ current_state: 'Completed', event_count: 3 });
+      expect(events.map(e => e.stateAfter)).toEqual(['Pending', 'Executed', 'Completed']);
+    });
+
+    it('should correlate events of different instances by context value', async () => {
+      const { eventStore, snapshotStore } = await openStores();
+      await eventStore.append(persistedEvent('e1', { persistedAt: 1 }));
+      await eventStore.append(persistedEvent('e2', {
+        instanceId: 'shipment-1',
+        machineName: 'Shipment',
+        componentName: 'ShippingComponent',
+        event: event('SHIP', { orderId: 'A-1' }),
+        persistedAt: 2,
+      }));
+      await eventStore.append(persistedEvent('e3', { instanceId: 'order-2', event: event('EXECUTE', { orderId: 'A-2' }), persistedAt: 3 }));
+
+      const history = new StoreHistoryQueries(eventStore, snapshotStore);
+      const result = await history.getCorrelatedEvents('order-1');
+
+      expect(result).toMatchObject({ correlationKey: 'orderId', correlationValue: 'A-1' });
+      expect(result.events.map(e => [e.componentName, e.eventType])).toEqual([
+        ['OrderComponent', 'EXECUTE'],
+        ['ShippingComponent', 'SHIP'],
+      ]);
+    });
+  });
+});
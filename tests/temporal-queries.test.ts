@@ -0,0 +1,199 @@
+/**
+ * Temporal Query Tests
+ * Tests point-in-time reconstruction of instances and state populations (runtime and history queries)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { InMemoryEventStore, InMemorySnapshotStore } from '../src/persistence';
+import { StoreHistoryQueries, parseTimestamp } from '../src/history-queries';
+import { Component, FSMEvent, PersistedEvent, StateType, TransitionType } from '../src/types';
+
+describe('Temporal Queries', () => {
+  const component: Component = {
+    name: 'PurchasingComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Draft',
+        states: [
+          { name: 'Draft', type: StateType.ENTRY },
+          {
+            name: 'Approval',
+            type: StateType.REGULAR,
+            initialSubstate: 'PendingApproval',
+            substates: [
+              { name: 'PendingApproval', type: StateType.REGULAR },
+              { name: 'Escalated', type: StateType.REGULAR },
+            ],
+          },
+          { name: 'Approved', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Draft', to: 'Approval', event: 'SUBMIT', type: TransitionType.REGULAR },
+          { from: 'PendingApproval', to: 'Escalated', event: 'ESCALATE', type: TransitionType.REGULAR },
+          { from: 'Approval', to: 'Approved', event: 'APPROVE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const event = (type: string, payload: Record<string, any> = {}): FSMEvent => ({ type, payload, timestamp: now });
+
+  let now: number;
+  let eventStore: InMemoryEventStore;
+  let snapshotStore: InMemorySnapshotStore;
+  let runtime: FSMRuntime;
+
+  /**
+   * Run an action at a given time
+   */
+  const at = async <T>(time: number, action: () => T | Promise<T>): Promise<T> => {
+    now = time;
+    return action();
+  };
+
+  beforeEach(() => {
+    now = 1000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    eventStore = new InMemoryEventStore();
+    snapshotStore = new InMemorySnapshotStore();
+    runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, snapshotInterval: 1, eventStore, snapshotStore });
+  });
+
+  afterEach(() => {
+    runtime.dispose();
+    jest.restoreAllMocks();
+  });
+
+  it('should rebuild an instance as it was at a point in time', async () => {
+    const id = await at(1000, () => runtime.createInstance('Order', { amount: 100 }));
+    await at(2000, () => runtime.sendEvent(id, event('SUBMIT', { amount: 120 })));
+    await at(3000, () => runtime.sendEvent(id, event('APPROVE', { approver: 'carol' })));
+    now = 4000;
+
+    expect(await runtime.getInstanceAt(id, 999)).toBeNull();
+    expect(await runtime.getInstanceAt(id, 1500)).toMatchObject({ currentState: 'Draft', context: { amount: 100 }, status: 'active' });
+    expect(await runtime.getInstanceAt(id, 2999)).toMatchObject({
+      currentState: 'PendingApproval',
+      context: { amount: 120 },
+      updatedAt: 2000,
+    });
+    expect(await runtime.getInstanceAt(id, 3000)).toMatchObject({
+      currentState: 'Approved',
+      context: { amount: 120, approver: 'carol' },
+      status: 'completed',
+    });
+    // Nothing is added to the runtime
+    expect(runtime.getInstance(id)).toBeUndefined();
+  });
+
+  it('should ignore snapshots taken after the timestamp', async () => {
+    const id = await at(1000, () => runtime.createInstance('Order', { amount: 100 }));
+    await at(2000, () => runtime.sendEvent(id, event('SUBMIT')));
+    await at(3000, () => runtime.sendEvent(id, event('ESCALATE', { reason: 'amount' })));
+    expect((await snapshotStore.getSnapshot(id))!.snapshotAt).toBe(3000);
+
+    expect(await runtime.getInstanceAt(id, 2500)).toMatchObject({ currentState: 'PendingApproval', context: { amount: 100 } });
+    expect(await runtime.getInstanceAt(id, 3500)).toMatchObject({ currentState: 'Escalated', context: { reason: 'amount' } });
+  });
+
+  it('should list the instances that were in a state at a point in time', async () => {
+    const [a, b, c] = await at(1000, () => [
+      runtime.createInstance('Order', { ref: 'A' }),
+      runtime.createInstance('Order', { ref: 'B' }),
+      runtime.createInstance('Order', { ref: 'C' }),
+    ]);
+    await at(2000, async () => {
+      await runtime.sendEvent(a, event('SUBMIT'));
+      await runtime.sendEvent(b, event('SUBMIT'));
+    });
+    await at(3000, () => runtime.sendEvent(b, event('ESCALATE')));
+    const monthEnd = 3500;
+    await at(4000, async () => {
+      await runtime.sendEvent(a, event('APPROVE'));
+      await runtime.sendEvent(c, event('SUBMIT'));
+    });
+
+    const ids = async (state: string, time: number) =>
+      (await runtime.getInstancesInStateAt('Order', state, time)).map(instance => instance.id).sort();
+
+    expect(await ids('PendingApproval', monthEnd)).toEqual([a]);
+    expect(await ids('Approval', monthEnd)).toEqual([a, b].sort());
+    expect(await ids('Draft', monthEnd)).toEqual([c]);
+    expect(await ids('PendingApproval', 4000)).toEqual([c]);
+    expect(await ids('Approved', 4000)).toEqual([a]);
+    await expect(runtime.getInstancesInStateAt('Invoice', 'Draft', monthEnd)).rejects.toThrow('Machine Invoice not found');
+  });
+
+  it('should require persistence', async () => {
+    const inMemory = new FSMRuntime(component);
+    try {
+      await expect(inMemory.getInstanceAt('x', 1000)).rejects.toThrow('Persistence is not enabled');
+      await expect(inMemory.getInstancesInStateAt('Order', 'Draft', 1000)).rejects.toThrow('Persistence is not enabled');
+    } finally {
+      inMemory.dispose();
+    }
+  });
+
+  it('should answer history queries as of a point in time', async () => {
+    const history = new StoreHistoryQueries(eventStore, snapshotStore);
+    const a = await at(1000, () => runtime.createInstance('Order', { ref: 'A' }));
+    const b = await at(1500, () => runtime.createInstance('Order', { ref: 'B' }));
+    await at(2000, () => runtime.sendEvent(a, event('SUBMIT', { amount: 10 })));
+    await at(3000, () => runtime.sendEvent(a, event('APPROVE')));
+
+    expect(await history.searchInstances({ machine: 'Order', state: 'PendingApproval', at: 2500 })).toEqual([
+      expect.objectContaining({ instance_id: a, current_state: 'PendingApproval', context: { ref: 'A', amount: 10 }, event_count: 2 }),
+    ]);
+    expect((await history.searchInstances({ at: 1200 })).map(s => s.instance_id)).toEqual([a]);
+    expect((await history.searchInstances({ state: 'Approved' })).map(s => s.instance_id)).toEqual([a]);
+
+    const { snapshot, events } = await history.getInstanceEventsWithSnapshot(a, 2500);
+    expect(events.map(e => e.event.type)).toEqual(['INSTANCE_CREATED', 'SUBMIT']);
+    expect(snapshot).toMatchObject({ current_state: 'PendingApproval', updated_at: new Date(2000).toISOString() });
+    expect(await history.getInstanceEventsWithSnapshot(b, 1000)).toEqual({ snapshot: null, events: [] });
+  });
+
+  it('should not depend on the whole-stream read of the store', async () => {
+    /**
+     * Store capping getAllEvents() like the PostgreSQL and Redis stores used to
+     */
+    class CappedEventStore extends InMemoryEventStore {
+      async getAllEvents(): Promise<PersistedEvent[]> {
+        return (await super.getAllEvents()).slice(0, 10000);
+      }
+    }
+    runtime.dispose();
+    eventStore = new CappedEventStore();
+    runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, snapshotInterval: 1, eventStore, snapshotStore });
+    const history = new StoreHistoryQueries(eventStore, snapshotStore);
+
+    for (let i = 0; i < 10000; i++) {
+      await eventStore.append({
+        id: `other-${i}`,
+        instanceId: `other-${i % 10}`,
+        machineName: 'Invoice',
+        componentName: 'BillingComponent',
+        event: event('TICK'),
+        stateBefore: 'Open',
+        stateAfter: 'Open',
+        persistedAt: 500,
+      });
+    }
+    const id = await at(1000, () => runtime.createInstance('Order', { ref: 'A' }));
+    await at(2000, () => runtime.sendEvent(id, event('SUBMIT')));
+
+    expect((await runtime.getInstancesInStateAt('Order', 'PendingApproval', 2500)).map(i => i.id)).toEqual([id]);
+    expect((await history.searchInstances({ machine: 'Order', at: 2500 })).map(s => s.instance_id)).toEqual([id]);
+    expect((await history.searchInstances({ machine: 'Order' })).map(s => s.event_count)).toEqual([2]);
+  });
+
+  it('should parse timestamps as epoch milliseconds or ISO dates', () => {
+    expect(parseTimestamp(undefined)).toBeUndefined();
+    expect(parseTimestamp('1706745599000')).toBe(1706745599000);
+    expect(parseTimestamp('2024-01-31T23:59:59Z')).toBe(1706745599000);
+    expect(() => parseTimestamp('yesterday')).toThrow('Invalid timestamp: yesterday');
+  });
+});
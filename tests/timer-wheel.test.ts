@@ -0,0 +1,68 @@
+/**
+ * Timer Wheel Tests
+ * Tests timeout expiry on a fake clock (on time, multi-lap, catch-up of ticks running late)
+ */
+
+import { TimerWheel } from '../src/timer-wheel';
+
+describe('TimerWheel', () => {
+  let wheel: TimerWheel;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    wheel = new TimerWheel(10, 100);
+    wheel.start();
+  });
+
+  afterEach(() => {
+    wheel.stop();
+    jest.useRealTimers();
+  });
+
+  it('should run a timeout once it expires, not before', () => {
+    const callback = jest.fn();
+    wheel.addTimeout('order-1', 50, callback);
+
+    jest.advanceTimersByTime(40);
+    expect(callback).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(20);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(wheel.getPendingCount()).toBe(0);
+  });
+
+  it('should run timeouts longer than one lap of the wheel', () => {
+    const callback = jest.fn();
+    wheel.addTimeout('order-1', 1250, callback);
+
+    jest.advanceTimersByTime(1240);
+    expect(callback).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(20);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should catch up with the clock when ticks run late', () => {
+    const callback = jest.fn();
+    wheel.addTimeout('order-1', 100, callback);
+
+    // The event loop is busy for 95ms: the next tick runs late
+    jest.setSystemTime(Date.now() + 95);
+    jest.advanceTimersByTime(10);
+    expect(callback).not.toHaveBeenCalled();
+
+    // The elapsed ticks were processed at once: due at the next tick, not 9 ticks later
+    jest.advanceTimersByTime(5);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not run a removed timeout', () => {
+    const callback = jest.fn();
+    wheel.addTimeout('order-1', 30, callback);
+    expect(wheel.removeTimeout('order-1')).toBe(true);
+
+    jest.advanceTimersByTime(100);
+    expect(callback).not.toHaveBeenCalled();
+    expect(wheel.removeTimeout('order-1')).toBe(false);
+  });
+});
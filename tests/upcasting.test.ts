@@ -0,0 +1,205 @@
+/**
+ * Upcasting Tests
+ * Tests versioned component definitions (stamping, migrations applied to events and snapshots on restore)
+ */
+
+import { FSMRuntime } from '../src/fsm-runtime';
+import { ComponentUpcaster } from '../src/upcasting';
+import { InMemoryEventStore, InMemorySnapshotStore } from '../src/persistence';
+import { Component, FSMEvent, PersistedEvent, StateType, TransitionType } from '../src/types';
+
+describe('Upcasting', () => {
+  const v1: Component = {
+    name: 'TradingComponent',
+    version: '1.0.0',
+    stateMachines: [
+      {
+        name: 'Trade',
+        initialState: 'Created',
+        states: [
+          { name: 'Created', type: StateType.ENTRY },
+          { name: 'Executed', type: StateType.REGULAR },
+          { name: 'Completed', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Created', to: 'Executed', event: 'EXEC', type: TransitionType.REGULAR },
+          { from: 'Executed', to: 'Completed', event: 'COMPLETE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+  };
+
+  const v2: Component = {
+    name: 'TradingComponent',
+    version: '2.0.0',
+    stateMachines: [
+      {
+        name: 'Order',
+        initialState: 'Pending',
+        states: [
+          { name: 'Pending', type: StateType.ENTRY },
+          { name: 'Executed', type: StateType.REGULAR },
+          { name: 'Completed', type: StateType.FINAL },
+        ],
+        transitions: [
+          { from: 'Pending', to: 'Executed', event: 'EXECUTE', type: TransitionType.REGULAR },
+          { from: 'Executed', to: 'Completed', event: 'COMPLETE', type: TransitionType.REGULAR },
+        ],
+      },
+    ],
+    migrations: [
+      {
+        from: '1.0.0',
+        to: '2.0.0',
+        renameMachines: { Trade: 'Order' },
+        renameStates: { Order: { Created: 'Pending' } },
+        renameEvents: { Order: { EXEC: 'EXECUTE' } },
+        context: { Order: { rename: { qty: 'quantity' }, remove: ['legacy'], defaults: { currency: 'EUR' } } },
+      },
+    ],
+  };
+
+  const event = (type: string, payload: Record<string, any> = {}): FSMEvent => ({ type, payload, timestamp: Date.now() });
+
+  let eventStore: InMemoryEventStore;
+  let snapshotStore: InMemorySnapshotStore;
+  const runtimes: FSMRuntime[] = [];
+
+  const createRuntime = (component: Component, snapshotInterval: number) => {
+    const runtime = new FSMRuntime(component, { eventSourcing: true, snapshots: true, snapshotInterval, eventStore, snapshotStore });
+    runtimes.push(runtime);
+    return runtime;
+  };
+
+  /**
+   * Two trades written under 1.0.0: one created, one executed
+   */
+  const writeV1 = async (snapshotInterval: number) => {
+    const runtime = createRuntime(v1, snapshotInterval);
+    const created = runtime.createInstance('Trade', { qty: 5, legacy: true });
+    const executed = runtime.createInstance('Trade', { qty: 10 });
+    await runtime.sendEvent(executed, event('EXEC', { qty: 12 }));
+    runtime.dispose();
+    return { created, executed };
+  };
+
+  beforeEach(() => {
+    eventStore = new InMemoryEventStore();
+    snapshotStore = new InMemorySnapshotStore();
+  });
+
+  afterEach(() => {
+    runtimes.splice(0).forEach(runtime => runtime.dispose());
+  });
+
+  it('should stamp events and instances with the definition version', async () => {
+    const runtime = createRuntime(v1, 1);
+    const id = runtime.createInstance('Trade', { qty: 5 });
+    await runtime.sendEvent(id, event('EXEC'));
+
+    expect(runtime.getInstance(id)!.definitionVersion).toBe('1.0.0');
+    expect((await eventStore.getEventsForInstance(id)).map(e => e.definitionVersion)).toEqual(['1.0.0', '1.0.0']);
+    expect((await snapshotStore.getSnapshot(id))!.instance.definitionVersion).toBe('1.0.0');
+  });
+
+  it('should migrate instances rebuilt from events', async () => {
+    const { created, executed } = await writeV1(100);
+
+    const runtime = createRuntime(v2, 100);
+    const migrated: any[] = [];
+    runtime.on('restore_migrated', report => migrated.push(report));
+    const report = await runtime.restore();
+
+    expect(report).toMatchObject({ restored: 2, failed: 0 });
+    expect(report.machines.Order).toMatchObject({ migrated: 2, states: { Pending: 1, Executed: 1 } });
+    expect(runtime.getInstance(created)).toMatchObject({
+      machineName: 'Order',
+      currentState: 'Pending',
+      context: { quantity: 5, currency: 'EUR' },
+      definitionVersion: '2.0.0',
+    });
+    expect(runtime.getInstance(created)!.context).not.toHaveProperty('legacy');
+    expect(runtime.getInstance(executed)).toMatchObject({ currentState: 'Executed', context: { quantity: 12 } });
+    expect(migrated).toEqual([
+      { toVersion: '2.0.0', instances: 2, events: 3, snapshots: 0, fromVersions: { '1.0.0': 3 } },
+    ]);
+    expect(report.migrated).toEqual(migrated[0]);
+  });
+
+  it('should migrate snapshots and keep working under the new definition', async () => {
+    const { executed } = await writeV1(1);
+
+    const runtime = createRuntime(v2, 1);
+    const report = await runtime.restore();
+
+    // Snapshots are saved on transitions: the created trade has none
+    expect(report.migrated).toMatchObject({ instances: 2, snapshots: 1 });
+    expect(runtime.getInstance(executed)).toMatchObject({ machineName: 'Order', currentState: 'Executed', definitionVersion: '2.0.0' });
+    expect(runtime.getInstancesByMachine('Order')).toHaveLength(2);
+
+    await runtime.sendEvent(executed, event('COMPLETE'));
+    const history = await runtime.getInstanceHistory(executed);
+    expect(history.map(e => [e.machineName, e.event.type, e.stateAfter, e.definitionVersion])).toEqual([
+      ['Order', 'INSTANCE_CREATED', 'Pending', '2.0.0'],
+      ['Order', 'EXECUTE', 'Executed', '2.0.0'],
+      ['Order', 'COMPLETE', 'Completed', '2.0.0'],
+    ]);
+  });
+
+  it('should treat unstamped records as the first migration version', async () => {
+    await writeV1(100);
+    // Written before definition versions were stamped
+    for (const persisted of await eventStore.getAllEvents()) {
+      delete persisted.definitionVersion;
+    }
+
+    const runtime = createRuntime(v2, 100);
+    const report = await runtime.restore();
+
+    expect(report).toMatchObject({ restored: 2, failed: 0 });
+    expect(report.migrated!.fromVersions).toEqual({ unversioned: 3 });
+  });
+
+  it('should chain migrations across versions', () => {
+    const v3: Component = {
+      ...v2,
+      version: '3.0.0',
+      migrations: [
+        ...v2.migrations!,
+        { from: '2.0.0', to: '3.0.0', renameStates: { Order: { Pending: 'New' } } },
+      ],
+    };
+    const stored: PersistedEvent = {
+      id: 'e1',
+      instanceId: 't1',
+      machineName: 'Trade',
+      componentName: 'TradingComponent',
+      event: event('INSTANCE_CREATED', { initialContext: { qty: 1 } }),
+      stateBefore: '',
+      stateAfter: 'Created',
+      persistedAt: 1,
+      definitionVersion: '1.0.0',
+    };
+
+    const upcast = new ComponentUpcaster(v3).upcastEvent(stored);
+
+    expect(upcast).toMatchObject({ machineName: 'Order', stateAfter: 'New', definitionVersion: '3.0.0' });
+    expect(upcast.event.payload.initialContext).toEqual({ quantity: 1, currency: 'EUR' });
+    expect(stored.stateAfter).toBe('Created');
+    expect(new ComponentUpcaster(v3).upcastEvent(upcast)).toBe(upcast);
+  });
+
+  it('should validate the migration chain', () => {
+    expect(ComponentUpcaster.validate(v2)).toEqual([]);
+    expect(ComponentUpcaster.validate({ ...v2, version: '3.0.0' })).toEqual([
+      'migrations from 1.0.0 end at 2.0.0, not at the component version 3.0.0',
+    ]);
+    expect(ComponentUpcaster.validate({
+      ...v2,
+      migrations: [...v2.migrations!, { from: '1.0.0', to: '1.0.0' }],
+    })).toEqual([
+      'migration #2: "from" and "to" are the same version (1.0.0)',
+      'migration #2: another migration starts from 1.0.0',
+    ]);
+  });
+});